@@ -0,0 +1,88 @@
+import { PrismaClient } from "@prisma/client";
+import "dotenv/config";
+import { PRESET_THEME_NAMES } from "../src/lib/preset-themes";
+
+// One-off migration for databases created before user accounts. Ebooks and
+// custom themes had no owner then; this gives them all to one account and
+// marks the preset themes as global. Run it before `prisma db push`, which
+// needs every ebook to have an owner and theme names to be unique per owner:
+//
+//   npx tsx scripts/backfill-owners.ts owner@example.com
+
+const prisma = new PrismaClient();
+
+// Documents written before the field existed don't have it at all
+const NO_OWNER = { OR: [{ userId: null }, { userId: { isSet: false } }] };
+
+function freeName(name: string, taken: Set<string>) {
+  let candidate = name;
+  for (let copy = 2; taken.has(candidate); copy++) {
+    candidate = `${name} (${copy})`;
+  }
+  return candidate;
+}
+
+async function main() {
+  const email = process.argv[2]?.trim().toLowerCase();
+  if (!email) {
+    throw new Error("Usage: npx tsx scripts/backfill-owners.ts <owner email>");
+  }
+
+  const owner = await prisma.user.findUnique({ where: { email } });
+  if (!owner) {
+    throw new Error(`No account with the email ${email}; sign up first`);
+  }
+
+  // userId is required in the schema, so ebooks without one are only
+  // reachable through a raw update
+  const ebooks = await prisma.$runCommandRaw({
+    update: "Ebook",
+    updates: [
+      {
+        q: { userId: { $exists: false } },
+        u: { $set: { userId: { $oid: owner.id } } },
+        multi: true,
+      },
+    ],
+  });
+  console.log(`Assigned ${ebooks.nModified ?? 0} ebooks to ${email}`);
+
+  const unowned = await prisma.theme.findMany({ where: NO_OWNER, orderBy: { createdAt: "asc" } });
+
+  // Presets stay global. Only one copy of each may remain, so duplicates
+  // hand their ebooks to the oldest copy and are removed.
+  const presets = new Map<string, string>();
+  for (const theme of unowned.filter((theme) => PRESET_THEME_NAMES.includes(theme.name))) {
+    const kept = presets.get(theme.name);
+    if (!kept) {
+      presets.set(theme.name, theme.id);
+      await prisma.theme.update({ where: { id: theme.id }, data: { userId: null } });
+      continue;
+    }
+    await prisma.ebook.updateMany({ where: { themeId: theme.id }, data: { themeId: kept } });
+    await prisma.theme.delete({ where: { id: theme.id } });
+    console.log(`Merged duplicate preset theme: ${theme.name}`);
+  }
+
+  // Everything else was made by a user and becomes the owner's, renamed
+  // where the owner already has a theme of that name
+  const owned = await prisma.theme.findMany({ where: { userId: owner.id }, select: { name: true } });
+  const taken = new Set(owned.map((theme) => theme.name));
+  for (const theme of unowned.filter((theme) => !PRESET_THEME_NAMES.includes(theme.name))) {
+    const name = freeName(theme.name, taken);
+    taken.add(name);
+    await prisma.theme.update({ where: { id: theme.id }, data: { userId: owner.id, name } });
+    console.log(name === theme.name ? `Assigned theme: ${name}` : `Assigned theme: ${theme.name} as ${name}`);
+  }
+
+  console.log("Backfill completed!");
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -1,14 +1,426 @@
 "use server";
 
-import { prisma } from "@/lib/prisma";
+import { isObjectId, prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
 import { revalidatePath } from "next/cache";
+import {
+  createSession,
+  destroySession,
+  hashPassword,
+  requireUser,
+  verifyPassword,
+} from "@/lib/auth";
+import type { PageSetup } from "@/lib/page-setup";
+import { buildOutline, flattenOutline } from "@/lib/chapters";
+import {
+  INHERITED_STYLE_KEYS,
+  clearOverride,
+  isInheritedStyleKey,
+  resolveDefaultStyles,
+  resolveMasteredStyles,
+  resolvePageStyles,
+  type InheritedStyleKey,
+} from "@/lib/page-styles";
+import { isBookSection } from "@/lib/pagination";
+import { DEFAULT_COVER_TEMPLATE, DEFAULT_TEMPLATE, isTemplateId } from "@/lib/page-templates";
+import { resolveMetadata } from "@/lib/metadata";
+import { customTemplateId, resolveRegions } from "@/lib/custom-templates";
+import { listEbookSnapshots, restoreEbookSnapshot } from "@/lib/ebook-snapshots";
+import { isImageUrl } from "@/lib/image-storage";
+import { DEFAULT_PRESET_THEME, PRESET_THEMES } from "@/lib/preset-themes";
+import { allowsPrivateEndpoints, canSaveApiKeys, sealApiKey } from "@/lib/ai-provider";
+import { getAccountAiSettings } from "@/lib/ai-account";
+import {
+  parseBaseUrl,
+  resolveAiModels,
+  toAiSettingsView,
+  type AiSettings,
+  type AiSettingsInput,
+} from "@/lib/ai-settings";
+import { isPublicUrl } from "@/lib/remote-image";
+
+// Ownership guards - every action below runs as the signed-in user and may
+// only touch that user's ebooks, pages, custom themes and custom templates
+async function assertEbookOwner(ebookId: string, userId: string) {
+  const ebook = await prisma.ebook.findFirst({
+    where: { id: ebookId, userId },
+    select: { id: true },
+  });
+  if (!ebook) {
+    throw new Error("Ebook not found");
+  }
+}
+
+async function assertPageOwner(pageId: string, userId: string) {
+  const page = await prisma.page.findFirst({
+    where: { id: pageId, ebook: { userId } },
+    select: { id: true },
+  });
+  if (!page) {
+    throw new Error("Page not found");
+  }
+}
+
+async function assertChapterOwner(chapterId: string, userId: string) {
+  const chapter = await prisma.chapter.findFirst({
+    where: { id: chapterId, ebook: { userId } },
+    select: { id: true, ebookId: true },
+  });
+  if (!chapter) {
+    throw new Error("Chapter not found");
+  }
+  return chapter;
+}
+
+async function assertMasterOwner(masterId: string, userId: string) {
+  const master = await prisma.masterPage.findFirst({
+    where: { id: masterId, ebook: { userId } },
+  });
+  if (!master) {
+    throw new Error("Master page not found");
+  }
+  return master;
+}
+
+async function assertCustomTemplateOwner(templateId: string, userId: string) {
+  const template = await prisma.customTemplate.findFirst({
+    where: { id: templateId, userId },
+    select: { id: true },
+  });
+  if (!template) {
+    throw new Error("Custom template not found");
+  }
+}
+
+async function assertSnapshotOwner(snapshotId: string, userId: string) {
+  const snapshot = await prisma.ebookSnapshot.findFirst({
+    where: { id: snapshotId, ebook: { userId } },
+    select: { id: true },
+  });
+  if (!snapshot) {
+    throw new Error("Snapshot not found");
+  }
+}
+
+// Bulk actions take many ids at once; all of them must belong to the ebook
+async function assertPagesInEbook(ebookId: string, pageIds: string[]) {
+  const count = await prisma.page.count({
+    where: { id: { in: pageIds }, ebookId },
+  });
+  if (count !== new Set(pageIds).size) {
+    throw new Error("Page not found");
+  }
+}
+
+// Preset themes (no owner) are readable by everyone
+async function assertThemeReadable(themeId: string, userId: string) {
+  const theme = await prisma.theme.findFirst({
+    where: { id: themeId, OR: [{ userId: null }, { userId }] },
+    select: { id: true },
+  });
+  if (!theme) {
+    throw new Error("Theme not found");
+  }
+}
+
+// Client data is copied field by field from these lists before it reaches
+// Prisma, so an update can never rewrite owners or foreign keys
+const EBOOK_FIELDS = ["title", "description"] as const;
+const CHAPTER_FIELDS = ["title", "part"] as const;
+const PAGE_FIELDS = ["title", "content", "template", "imageUrl", "autoFlow", "section", "customStyles"] as const;
+const THEME_FIELDS = [
+  "name",
+  "primaryColor",
+  "secondaryColor",
+  "accentColor",
+  "backgroundColor",
+  "textColor",
+  "headingFont",
+  "bodyFont",
+  "h1Size",
+  "h2Size",
+  "h3Size",
+  "bodySize",
+] as const;
+
+function pickFields<T extends object, K extends keyof T>(data: T, fields: readonly K[]) {
+  const picked: Partial<Pick<T, K>> = {};
+  if (!data || typeof data !== "object") return picked;
+  for (const field of fields) {
+    if (data[field] !== undefined) picked[field] = data[field];
+  }
+  return picked;
+}
+
+// Revisions are coalesced: the editor saves on every debounce tick, but a
+// snapshot is only taken when the last one is stale or the edit is drastic
+const REVISION_INTERVAL_MS = 5 * 60 * 1000;
+const MAX_REVISIONS_PER_PAGE = 50;
+
+type RevisionSource = {
+  id: string;
+  title: string | null;
+  content: string;
+  template: string;
+  imageUrl: string | null;
+  customStyles: Prisma.JsonValue;
+};
+
+async function createRevision(page: RevisionSource, reason: string) {
+  await prisma.pageRevision.create({
+    data: {
+      pageId: page.id,
+      title: page.title,
+      content: page.content,
+      template: page.template,
+      imageUrl: page.imageUrl,
+      customStyles: page.customStyles ?? undefined,
+      reason,
+    },
+  });
+
+  const stale = await prisma.pageRevision.findMany({
+    where: { pageId: page.id },
+    orderBy: { createdAt: "desc" },
+    skip: MAX_REVISIONS_PER_PAGE,
+    select: { id: true },
+  });
+
+  if (stale.length > 0) {
+    await prisma.pageRevision.deleteMany({
+      where: { id: { in: stale.map((revision) => revision.id) } },
+    });
+  }
+}
+
+async function snapshotBeforeUpdate(
+  pageId: string,
+  data: { content?: string; template?: string }
+) {
+  const page = await prisma.page.findUnique({ where: { id: pageId } });
+  if (!page) return;
+
+  const latest = await prisma.pageRevision.findFirst({
+    where: { pageId },
+    orderBy: { createdAt: "desc" },
+  });
+
+  const templateChanged = data.template !== undefined && data.template !== page.template;
+  const contentGutted =
+    data.content !== undefined && data.content.length < page.content.length / 2;
+  const stale = !latest || Date.now() - latest.createdAt.getTime() > REVISION_INTERVAL_MS;
+
+  if (!templateChanged && !contentGutted && !stale) return;
+
+  // Nothing changed since the last snapshot
+  if (
+    latest &&
+    latest.content === page.content &&
+    latest.title === page.title &&
+    latest.template === page.template
+  ) {
+    return;
+  }
+
+  await createRevision(page, templateChanged ? "template" : "edit");
+}
+
+// Auth Actions
+export async function signUp(data: { name?: string; email: string; password: string }) {
+  const email = data.email.trim().toLowerCase();
+
+  if (!email || !email.includes("@")) {
+    return { error: "Enter a valid email address" };
+  }
+  if (data.password.length < 8) {
+    return { error: "Password must be at least 8 characters" };
+  }
+
+  try {
+    const existing = await prisma.user.findUnique({ where: { email } });
+    if (existing) {
+      return { error: "An account with this email already exists" };
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        email,
+        name: data.name?.trim() || null,
+        passwordHash: await hashPassword(data.password),
+      },
+    });
+
+    await createSession(user.id);
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to sign up:", error);
+    throw new Error("Failed to sign up");
+  }
+}
+
+export async function signIn(email: string, password: string) {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { email: email.trim().toLowerCase() },
+    });
+
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      return { error: "Invalid email or password" };
+    }
+
+    await createSession(user.id);
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to sign in:", error);
+    throw new Error("Failed to sign in");
+  }
+}
+
+export async function signOut() {
+  try {
+    await destroySession();
+  } catch (error) {
+    console.error("Failed to sign out:", error);
+    throw new Error("Failed to sign out");
+  }
+}
+
+// AI Settings Actions - the account's own providers, see src/lib/ai-settings.ts
+export async function getAiSettings() {
+  try {
+    const user = await requireUser();
+    return toAiSettingsView(await getAccountAiSettings(user.id), canSaveApiKeys());
+  } catch (error) {
+    console.error("Failed to fetch AI settings:", error);
+    throw new Error("Failed to fetch AI settings");
+  }
+}
+
+// Like signing up, problems the user can fix come back as { error }
+export async function updateAiSettings(input: AiSettingsInput) {
+  try {
+    const user = await requireUser();
+    const saved = await getAccountAiSettings(user.id);
+    const settings: AiSettings = { text: null, image: null, models: resolveAiModels(input.models) };
+
+    for (const kind of ["text", "image"] as const) {
+      const endpoint = input[kind];
+      if (!endpoint) continue;
+      if (endpoint.provider === "mock") {
+        settings[kind] = { provider: "mock", baseUrl: null, apiKey: null };
+        continue;
+      }
+
+      const baseUrl = endpoint.baseUrl?.trim() ? parseBaseUrl(endpoint.baseUrl) : null;
+      if (endpoint.baseUrl?.trim() && !baseUrl) {
+        return { error: "Enter a valid http(s) base URL" };
+      }
+      if (baseUrl && !allowsPrivateEndpoints() && !(await isPublicUrl(new URL(baseUrl)).catch(() => false))) {
+        return { error: `${new URL(baseUrl).hostname} is not a public host` };
+      }
+
+      // An omitted key keeps the saved one
+      const apiKey = endpoint.apiKey?.trim();
+      if (apiKey && !canSaveApiKeys()) {
+        return { error: "This server can't save API keys" };
+      }
+
+      settings[kind] = {
+        provider: "openai",
+        baseUrl,
+        apiKey: endpoint.apiKey === undefined ? (saved[kind]?.apiKey ?? null) : apiKey ? sealApiKey(apiKey) : null,
+      };
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        aiSettings: {
+          text: settings.text && { ...settings.text },
+          image: settings.image && { ...settings.image },
+          models: { ...settings.models },
+        },
+      },
+    });
+    return { settings: toAiSettingsView(settings, canSaveApiKeys()) };
+  } catch (error) {
+    console.error("Failed to update AI settings:", error);
+    throw new Error("Failed to update AI settings");
+  }
+}
 
 // Ebook Actions
-export async function getCurrentEbook() {
+export async function getEbooks() {
   try {
-    let ebook = await prisma.ebook.findFirst({
+    const user = await requireUser();
+    const ebooks = await prisma.ebook.findMany({
+      where: { userId: user.id },
+      orderBy: {
+        updatedAt: "desc",
+      },
       include: {
         theme: true,
+        _count: {
+          select: { pages: true },
+        },
+      },
+    });
+    return ebooks;
+  } catch (error) {
+    console.error("Failed to get ebooks:", error);
+    throw new Error("Failed to get ebooks");
+  }
+}
+
+export async function createEbook(title: string = "My Ebook") {
+  try {
+    const user = await requireUser();
+
+    // Create default preset theme if none exists
+    let defaultTheme = await prisma.theme.findFirst({
+      where: { name: DEFAULT_PRESET_THEME.name, userId: null },
+    });
+
+    if (!defaultTheme) {
+      defaultTheme = await prisma.theme.create({ data: DEFAULT_PRESET_THEME });
+    }
+
+    // Create the ebook with a cover page
+    const ebook = await prisma.ebook.create({
+      data: {
+        userId: user.id,
+        title,
+        description: "Created with Ebook AI Builder",
+        themeId: defaultTheme.id,
+        pages: {
+          create: [
+            {
+              title: "Cover Page",
+              content: "<p>Start creating your amazing <span style=\"color: #EB5757\">ebook</span></p>",
+              template: DEFAULT_COVER_TEMPLATE,
+              order: 0,
+            },
+          ],
+        },
+      },
+    });
+
+    revalidatePath("/");
+    return ebook;
+  } catch (error) {
+    console.error("Failed to create ebook:", error);
+    throw new Error("Failed to create ebook");
+  }
+}
+
+export async function duplicateEbook(id: string) {
+  try {
+    const user = await requireUser();
+    const source = await prisma.ebook.findFirst({
+      where: { id, userId: user.id },
+      include: {
+        chapters: true,
+        masters: true,
         pages: {
           orderBy: {
             order: "asc",
@@ -17,79 +429,556 @@ export async function getCurrentEbook() {
       },
     });
 
-    // Create default theme if none exists
-    if (!ebook) {
-      const defaultTheme = await prisma.theme.upsert({
-        where: { name: "Modern" },
-        update: {},
-        create: {
-          name: "Modern",
-          primaryColor: "#0F172A",
-          secondaryColor: "#64748B",
-          accentColor: "#3B82F6",
-          backgroundColor: "#FFFFFF",
-          textColor: "#1E293B",
-          headingFont: "Inter",
-          bodyFont: "Inter",
-          h1Size: "2.5rem",
-          h2Size: "2rem",
-          h3Size: "1.5rem",
-          bodySize: "1rem",
+    if (!source) {
+      throw new Error("Ebook not found");
+    }
+
+    // All or nothing, so a failure never leaves a half-copied book behind
+    const ebook = await prisma.$transaction(async (tx) => {
+      const created = await tx.ebook.create({
+        data: {
+          userId: user.id,
+          title: `${source.title} (Copy)`,
+          description: source.description,
+          pageSetup: source.pageSetup ?? undefined,
+          defaultStyles: source.defaultStyles ?? undefined,
+          metadata: source.metadata ?? undefined,
+          themeId: source.themeId,
         },
       });
 
-      // Create default ebook with a cover page
-      ebook = await prisma.ebook.create({
-        data: {
-          title: "My Ebook",
-          description: "Created with Ebook AI Builder",
-          themeId: defaultTheme.id,
-          pages: {
-            create: [
-              {
-                title: "Cover Page",
-                content: "<p>Start creating your amazing <span style=\"color: #EB5757\">ebook</span></p>",
-                template: "cover-page",
-                order: 0,
-              },
-            ],
+      // Chapters get new ids, so pages are re-linked through this map
+      const chapterIds = new Map<string, string>();
+      for (const chapter of source.chapters) {
+        const copy = await tx.chapter.create({
+          data: { ebookId: created.id, order: chapter.order, title: chapter.title, part: chapter.part },
+        });
+        chapterIds.set(chapter.id, copy.id);
+      }
+
+      const masterIds = new Map<string, string>();
+      for (const master of source.masters) {
+        const copy = await tx.masterPage.create({
+          data: {
+            ebookId: created.id,
+            name: master.name,
+            template: master.template,
+            styles: master.styles ?? undefined,
+          },
+        });
+        masterIds.set(master.id, copy.id);
+      }
+
+      await tx.page.createMany({
+        data: source.pages.map((page) => ({
+          ebookId: created.id,
+          chapterId: page.chapterId ? chapterIds.get(page.chapterId) ?? null : null,
+          masterId: page.masterId ? masterIds.get(page.masterId) ?? null : null,
+          order: page.order,
+          title: page.title,
+          content: page.content,
+          template: page.template,
+          imageUrl: page.imageUrl,
+          autoFlow: page.autoFlow,
+          section: page.section,
+          customStyles: page.customStyles ?? undefined,
+        })),
+      });
+
+      return created;
+    });
+
+    revalidatePath("/");
+    return ebook;
+  } catch (error) {
+    console.error("Failed to duplicate ebook:", error);
+    throw new Error("Failed to duplicate ebook");
+  }
+}
+
+export async function archiveEbook(id: string, archived: boolean) {
+  try {
+    const user = await requireUser();
+    await assertEbookOwner(id, user.id);
+    const ebook = await prisma.ebook.update({
+      where: { id },
+      data: { archived },
+    });
+    revalidatePath("/");
+    return ebook;
+  } catch (error) {
+    console.error("Failed to archive ebook:", error);
+    throw new Error("Failed to archive ebook");
+  }
+}
+
+export async function deleteEbook(id: string) {
+  try {
+    const user = await requireUser();
+    await assertEbookOwner(id, user.id);
+    const ebook = await prisma.ebook.delete({
+      where: { id },
+    });
+    revalidatePath("/");
+    return ebook;
+  } catch (error) {
+    console.error("Failed to delete ebook:", error);
+    throw new Error("Failed to delete ebook");
+  }
+}
+
+export async function getEbook(id: string) {
+  try {
+    const user = await requireUser();
+    // A mistyped link is a missing ebook, not a failure
+    if (!isObjectId(id)) return null;
+
+    const ebook = await prisma.ebook.findFirst({
+      where: { id, userId: user.id },
+      include: {
+        theme: true,
+        chapters: {
+          orderBy: {
+            order: "asc",
           },
         },
-        include: {
-          theme: true,
-          pages: {
-            orderBy: {
-              order: "asc",
-            },
+        masters: {
+          orderBy: {
+            createdAt: "asc",
           },
         },
+        pages: {
+          orderBy: {
+            order: "asc",
+          },
+        },
+      },
+    });
+    return ebook;
+  } catch (error) {
+    console.error("Failed to get ebook:", error);
+    throw new Error("Failed to get ebook");
+  }
+}
+
+export async function updateEbook(id: string, data: { title?: string; description?: string }) {
+  try {
+    const user = await requireUser();
+    await assertEbookOwner(id, user.id);
+    const ebook = await prisma.ebook.update({
+      where: { id },
+      data: pickFields(data, EBOOK_FIELDS),
+    });
+    revalidatePath("/");
+    return ebook;
+  } catch (error) {
+    console.error("Failed to update ebook:", error);
+    throw new Error("Failed to update ebook");
+  }
+}
+
+export async function updatePageSetup(id: string, pageSetup: PageSetup) {
+  try {
+    const user = await requireUser();
+    await assertEbookOwner(id, user.id);
+
+    const ebook = await prisma.ebook.update({
+      where: { id },
+      data: { pageSetup: { format: pageSetup.format, margins: { ...pageSetup.margins } } },
+    });
+    revalidatePath("/");
+    return ebook;
+  } catch (error) {
+    console.error("Failed to update page setup:", error);
+    throw new Error("Failed to update page setup");
+  }
+}
+
+export async function updateMetadata(id: string, metadata: unknown) {
+  try {
+    const user = await requireUser();
+    await assertEbookOwner(id, user.id);
+
+    const resolved = resolveMetadata(metadata);
+    if (!isImageUrl(resolved.authorPhotoUrl)) {
+      throw new Error("Invalid author photo URL");
+    }
+    const ebook = await prisma.ebook.update({
+      where: { id },
+      data: {
+        metadata: {
+          ...resolved,
+          contributors: resolved.contributors.map((contributor) => ({ ...contributor })),
+        },
+      },
+    });
+    revalidatePath("/");
+    return ebook;
+  } catch (error) {
+    console.error("Failed to update book details:", error);
+    throw new Error("Failed to update book details");
+  }
+}
+
+export async function updateDefaultStyles(id: string, defaultStyles: unknown) {
+  try {
+    const user = await requireUser();
+    await assertEbookOwner(id, user.id);
+
+    const ebook = await prisma.ebook.update({
+      where: { id },
+      data: { defaultStyles: resolveDefaultStyles<Prisma.InputJsonObject>(defaultStyles) },
+    });
+    revalidatePath("/");
+    return ebook;
+  } catch (error) {
+    console.error("Failed to update default styles:", error);
+    throw new Error("Failed to update default styles");
+  }
+}
+
+// Makes `value` the ebook default for one style section and drops every
+// page's and master's own copy of it, so the whole book shows the same thing
+export async function applyStyleToAllPages(ebookId: string, key: InheritedStyleKey, value: unknown) {
+  try {
+    const user = await requireUser();
+    await assertEbookOwner(ebookId, user.id);
+    if (!isInheritedStyleKey(key)) {
+      throw new Error("Unknown style section");
+    }
+
+    const ebook = await prisma.ebook.findUniqueOrThrow({
+      where: { id: ebookId },
+      select: { defaultStyles: true },
+    });
+    const pages = await prisma.page.findMany({
+      where: { ebookId },
+      select: { id: true, customStyles: true },
+    });
+    const masters = await prisma.masterPage.findMany({
+      where: { ebookId },
+      select: { id: true, styles: true },
+    });
+    const defaultStyles = resolveDefaultStyles<Prisma.InputJsonObject>({
+      ...resolveDefaultStyles(ebook.defaultStyles),
+      [key]: value,
+    });
+
+    await prisma.$transaction([
+      prisma.ebook.update({
+        where: { id: ebookId },
+        data: { defaultStyles },
+      }),
+      ...pages
+        .filter((page) => (page.customStyles as Record<string, unknown> | null)?.[key] !== undefined)
+        .map((page) =>
+          prisma.page.update({
+            where: { id: page.id },
+            data: { customStyles: clearOverride(page.customStyles as Prisma.InputJsonObject, key) },
+          })
+        ),
+      ...masters
+        .filter((master) => (master.styles as Record<string, unknown> | null)?.[key] !== undefined)
+        .map((master) =>
+          prisma.masterPage.update({
+            where: { id: master.id },
+            data: { styles: clearOverride(master.styles as Prisma.InputJsonObject, key) },
+          })
+        ),
+    ]);
+    revalidatePath("/");
+  } catch (error) {
+    console.error("Failed to apply styles to all pages:", error);
+    throw new Error("Failed to apply styles to all pages");
+  }
+}
+
+// Chapter Actions
+// Rewrites page and chapter order from an outline so chapters stay contiguous
+async function saveOutline(ebookId: string, pageIds: string[], chapterIds: string[]) {
+  await prisma.$transaction([
+    ...pageIds.map((pageId, index) =>
+      prisma.page.update({
+        where: { id: pageId, ebookId },
+        data: { order: index },
+      })
+    ),
+    ...chapterIds.map((chapterId, index) =>
+      prisma.chapter.update({
+        where: { id: chapterId, ebookId },
+        data: { order: index },
+      })
+    ),
+  ]);
+}
+
+async function loadOutline(ebookId: string) {
+  const [chapters, pages] = await Promise.all([
+    prisma.chapter.findMany({ where: { ebookId }, orderBy: { order: "asc" } }),
+    prisma.page.findMany({
+      where: { ebookId },
+      orderBy: { order: "asc" },
+      select: { id: true, chapterId: true },
+    }),
+  ]);
+  return { chapters, pages };
+}
+
+export async function createChapter(ebookId: string, data: { title?: string; part?: string | null } = {}) {
+  try {
+    const user = await requireUser();
+    await assertEbookOwner(ebookId, user.id);
+
+    const lastChapter = await prisma.chapter.findFirst({
+      where: { ebookId },
+      orderBy: { order: "desc" },
+    });
+
+    const chapter = await prisma.chapter.create({
+      data: {
+        ebookId,
+        order: (lastChapter?.order ?? -1) + 1,
+        title: data.title ?? "New Chapter",
+        part: data.part ?? lastChapter?.part ?? null,
+      },
+    });
+    revalidatePath("/");
+    return chapter;
+  } catch (error) {
+    console.error("Failed to create chapter:", error);
+    throw new Error("Failed to create chapter");
+  }
+}
+
+export async function updateChapter(id: string, data: { title?: string; part?: string | null }) {
+  try {
+    const user = await requireUser();
+    await assertChapterOwner(id, user.id);
+
+    const chapter = await prisma.chapter.update({
+      where: { id },
+      data: pickFields(data, CHAPTER_FIELDS),
+    });
+    revalidatePath("/");
+    return chapter;
+  } catch (error) {
+    console.error("Failed to update chapter:", error);
+    throw new Error("Failed to update chapter");
+  }
+}
+
+// Deletes the chapter together with its pages
+export async function deleteChapter(id: string) {
+  try {
+    const user = await requireUser();
+    await assertChapterOwner(id, user.id);
+
+    await prisma.page.deleteMany({ where: { chapterId: id } });
+    const chapter = await prisma.chapter.delete({
+      where: { id },
+    });
+    revalidatePath("/");
+    return chapter;
+  } catch (error) {
+    console.error("Failed to delete chapter:", error);
+    throw new Error("Failed to delete chapter");
+  }
+}
+
+// Re-creates a deleted chapter with its original id; its pages come back
+// through restorePage
+export async function restoreChapter(
+  ebookId: string,
+  chapter: { id: string; order: number; title: string; part: string | null }
+) {
+  try {
+    const user = await requireUser();
+    await assertEbookOwner(ebookId, user.id);
+
+    const restored = await prisma.chapter.create({
+      data: {
+        id: chapter.id,
+        ebookId,
+        order: chapter.order,
+        title: chapter.title,
+        part: chapter.part,
+      },
+    });
+    revalidatePath("/");
+    return restored;
+  } catch (error) {
+    console.error("Failed to restore chapter:", error);
+    throw new Error("Failed to restore chapter");
+  }
+}
+
+export async function reorderChapters(ebookId: string, chapterIds: string[]) {
+  try {
+    const user = await requireUser();
+    await assertEbookOwner(ebookId, user.id);
+
+    await saveOutline(ebookId, [], chapterIds);
+    revalidatePath("/");
+  } catch (error) {
+    console.error("Failed to reorder chapters:", error);
+    throw new Error("Failed to reorder chapters");
+  }
+}
+
+// Master Page Actions
+export async function createMasterPage(
+  ebookId: string,
+  data: { name: string; template: string; styles?: unknown }
+) {
+  try {
+    const user = await requireUser();
+    await assertEbookOwner(ebookId, user.id);
+    if (!isTemplateId(data.template)) {
+      throw new Error("Unknown page template");
+    }
+
+    const master = await prisma.masterPage.create({
+      data: {
+        ebookId,
+        name: data.name.trim() || "Untitled master",
+        template: data.template,
+        styles: resolveDefaultStyles<Prisma.InputJsonObject>(data.styles),
+      },
+    });
+    revalidatePath("/");
+    return master;
+  } catch (error) {
+    console.error("Failed to create master page:", error);
+    throw new Error("Failed to create master page");
+  }
+}
+
+// A template change is copied onto the pages still using the master's
+// template, so everything that reads Page.template (exports, contents)
+// follows along. Pages that picked their own template keep it.
+export async function updateMasterPage(
+  id: string,
+  data: { name?: string; template?: string; styles?: unknown }
+) {
+  try {
+    const user = await requireUser();
+    const previous = await assertMasterOwner(id, user.id);
+    if (data.template !== undefined && !isTemplateId(data.template)) {
+      throw new Error("Unknown page template");
+    }
+
+    const master = await prisma.masterPage.update({
+      where: { id },
+      data: {
+        name: data.name === undefined ? undefined : data.name.trim() || "Untitled master",
+        template: data.template,
+        styles: data.styles === undefined ? undefined : resolveDefaultStyles<Prisma.InputJsonObject>(data.styles),
+      },
+    });
+    if (data.template !== undefined && data.template !== previous.template) {
+      await prisma.page.updateMany({
+        where: { masterId: id, template: previous.template },
+        data: { template: data.template },
       });
     }
+    revalidatePath("/");
+    return master;
+  } catch (error) {
+    console.error("Failed to update master page:", error);
+    throw new Error("Failed to update master page");
+  }
+}
 
-    return ebook;
+// Pages using the master keep their look: its styles are written onto them
+export async function deleteMasterPage(id: string) {
+  try {
+    const user = await requireUser();
+    const master = await assertMasterOwner(id, user.id);
+
+    const pages = await prisma.page.findMany({
+      where: { masterId: id },
+      select: { id: true, customStyles: true },
+    });
+    const styles = resolveDefaultStyles<Prisma.InputJsonObject>(master.styles);
+
+    await prisma.$transaction([
+      ...pages.map((page) =>
+        prisma.page.update({
+          where: { id: page.id },
+          data: {
+            masterId: null,
+            customStyles: resolvePageStyles(styles, page.customStyles as Prisma.InputJsonObject | null),
+          },
+        })
+      ),
+      prisma.masterPage.delete({ where: { id } }),
+    ]);
+    revalidatePath("/");
   } catch (error) {
-    console.error("Failed to get ebook:", error);
-    throw new Error("Failed to get ebook");
+    console.error("Failed to delete master page:", error);
+    throw new Error("Failed to delete master page");
   }
 }
 
-export async function updateEbook(id: string, data: { title?: string; description?: string }) {
+// Puts pages on a master (or takes them off with null). Pages take the
+// master's template and drop their own style sections so the master shows.
+export async function assignMasterPage(ebookId: string, pageIds: string[], masterId: string | null) {
   try {
-    const ebook = await prisma.ebook.update({
-      where: { id },
-      data,
+    const user = await requireUser();
+    await assertEbookOwner(ebookId, user.id);
+    await assertPagesInEbook(ebookId, pageIds);
+
+    const master = masterId ? await assertMasterOwner(masterId, user.id) : null;
+    if (master && master.ebookId !== ebookId) {
+      throw new Error("Master page belongs to another ebook");
+    }
+
+    const pages = await prisma.page.findMany({
+      where: { id: { in: pageIds } },
     });
+    for (const page of pages) {
+      if (master && master.template !== page.template) {
+        await createRevision(page, "template");
+      }
+    }
+
+    const updated = await prisma.$transaction(
+      pages.map((page) =>
+        prisma.page.update({
+          where: { id: page.id },
+          data: master
+            ? {
+                masterId: master.id,
+                template: master.template,
+                customStyles: INHERITED_STYLE_KEYS.reduce<Prisma.InputJsonObject>(
+                  (styles, key) => clearOverride(styles, key),
+                  (page.customStyles ?? {}) as Prisma.InputJsonObject
+                ),
+              }
+            : { masterId: null },
+        })
+      )
+    );
     revalidatePath("/");
-    return ebook;
+    return updated;
   } catch (error) {
-    console.error("Failed to update ebook:", error);
-    throw new Error("Failed to update ebook");
+    console.error("Failed to assign master page:", error);
+    throw new Error("Failed to assign master page");
   }
 }
 
 // Page Actions
-export async function createPage(ebookId: string) {
+export async function createPage(ebookId: string, chapterId?: string | null) {
   try {
+    const user = await requireUser();
+    await assertEbookOwner(ebookId, user.id);
+    if (chapterId) {
+      const chapter = await assertChapterOwner(chapterId, user.id);
+      if (chapter.ebookId !== ebookId) {
+        throw new Error("Chapter belongs to another ebook");
+      }
+    }
+
     const lastPage = await prisma.page.findFirst({
       where: { ebookId },
       orderBy: { order: "desc" },
@@ -100,13 +989,22 @@ export async function createPage(ebookId: string) {
     const page = await prisma.page.create({
       data: {
         ebookId,
+        chapterId: chapterId ?? null,
         order: newOrder,
         title: "New Page",
         content: "<p>Start writing...</p>",
-        template: "text-only",
+        template: DEFAULT_TEMPLATE,
       },
     });
 
+    // Pages added to a chapter land at its end rather than the book's
+    if (chapterId) {
+      const { chapters, pages } = await loadOutline(ebookId);
+      const { pageIds, chapterIds } = flattenOutline(buildOutline(chapters, pages));
+      await saveOutline(ebookId, pageIds, chapterIds);
+      page.order = pageIds.indexOf(page.id);
+    }
+
     revalidatePath("/");
     return page;
   } catch (error) {
@@ -122,13 +1020,29 @@ export async function updatePage(
     content?: string;
     template?: string;
     imageUrl?: string;
+    autoFlow?: boolean;
+    section?: string | null;
     customStyles?: any;
   }
 ) {
   try {
+    const user = await requireUser();
+    await assertPageOwner(id, user.id);
+    const fields = pickFields(data, PAGE_FIELDS);
+    if (fields.section != null && !isBookSection(fields.section)) {
+      throw new Error("Unknown book section");
+    }
+    if (fields.template !== undefined && !isTemplateId(fields.template)) {
+      throw new Error("Unknown page template");
+    }
+    if (fields.imageUrl !== undefined && !isImageUrl(fields.imageUrl)) {
+      throw new Error("Invalid image URL");
+    }
+    await snapshotBeforeUpdate(id, fields);
+
     const page = await prisma.page.update({
       where: { id },
-      data,
+      data: fields,
     });
     revalidatePath("/");
     return page;
@@ -138,8 +1052,63 @@ export async function updatePage(
   }
 }
 
+// Page Revision Actions
+export async function getPageRevisions(pageId: string) {
+  try {
+    const user = await requireUser();
+    await assertPageOwner(pageId, user.id);
+
+    const revisions = await prisma.pageRevision.findMany({
+      where: { pageId },
+      orderBy: {
+        createdAt: "desc",
+      },
+    });
+    return revisions;
+  } catch (error) {
+    console.error("Failed to get page revisions:", error);
+    throw new Error("Failed to get page revisions");
+  }
+}
+
+export async function restorePageRevision(revisionId: string) {
+  try {
+    const user = await requireUser();
+    const revision = await prisma.pageRevision.findFirst({
+      where: { id: revisionId, page: { ebook: { userId: user.id } } },
+    });
+
+    if (!revision) {
+      throw new Error("Revision not found");
+    }
+
+    // Keep the state being replaced so a restore can itself be undone
+    const current = await prisma.page.findUniqueOrThrow({ where: { id: revision.pageId } });
+    await createRevision(current, "restore");
+
+    const page = await prisma.page.update({
+      where: { id: revision.pageId },
+      data: {
+        title: revision.title,
+        content: revision.content,
+        template: revision.template,
+        imageUrl: revision.imageUrl,
+        customStyles: revision.customStyles as Prisma.InputJsonValue | null,
+      },
+    });
+    revalidatePath("/");
+    return page;
+  } catch (error) {
+    console.error("Failed to restore page revision:", error);
+    throw new Error("Failed to restore page revision");
+  }
+}
+
 export async function deletePage(id: string) {
   try {
+    const user = await requireUser();
+    await assertPageOwner(id, user.id);
+
     const page = await prisma.page.delete({
       where: { id },
     });
@@ -151,12 +1120,75 @@ export async function deletePage(id: string) {
   }
 }
 
+// Re-creates a deleted page with its original id so undo can bring it back
+export async function restorePage(
+  ebookId: string,
+  page: {
+    id: string;
+    chapterId?: string | null;
+    masterId?: string | null;
+    order: number;
+    title: string | null;
+    content: string;
+    template: string;
+    imageUrl: string | null;
+    autoFlow?: boolean;
+    section?: string | null;
+    customStyles?: unknown;
+  }
+) {
+  try {
+    const user = await requireUser();
+    await assertEbookOwner(ebookId, user.id);
+    if (!isTemplateId(page.template)) {
+      throw new Error("Unknown page template");
+    }
+    if (page.imageUrl && !isImageUrl(page.imageUrl)) {
+      throw new Error("Invalid image URL");
+    }
+
+    // The chapter or master may have been deleted since; the page then
+    // comes back without it
+    const chapter = page.chapterId
+      ? await prisma.chapter.findFirst({ where: { id: page.chapterId, ebookId }, select: { id: true } })
+      : null;
+    const master = page.masterId
+      ? await prisma.masterPage.findFirst({ where: { id: page.masterId, ebookId }, select: { id: true } })
+      : null;
+
+    const restored = await prisma.page.create({
+      data: {
+        id: page.id,
+        ebookId,
+        chapterId: chapter?.id ?? null,
+        masterId: master?.id ?? null,
+        order: page.order,
+        title: page.title,
+        content: page.content,
+        template: page.template,
+        imageUrl: page.imageUrl,
+        autoFlow: page.autoFlow,
+        section: page.section,
+        customStyles: (page.customStyles ?? undefined) as Prisma.InputJsonValue | undefined,
+      },
+    });
+    revalidatePath("/");
+    return restored;
+  } catch (error) {
+    console.error("Failed to restore page:", error);
+    throw new Error("Failed to restore page");
+  }
+}
+
 export async function reorderPages(ebookId: string, pageIds: string[]) {
   try {
+    const user = await requireUser();
+    await assertEbookOwner(ebookId, user.id);
+
     await prisma.$transaction(
       pageIds.map((pageId, index) =>
         prisma.page.update({
-          where: { id: pageId },
+          where: { id: pageId, ebookId },
           data: { order: index },
         })
       )
@@ -168,22 +1200,476 @@ export async function reorderPages(ebookId: string, pageIds: string[]) {
   }
 }
 
-export async function deleteAllPages(ebookId: string) {
+// Bulk Page Actions - each persists a whole selection in one call
+export async function updateOutline(
+  ebookId: string,
+  placement: { id: string; chapterId: string | null }[],
+  chapterIds?: string[]
+) {
+  try {
+    const user = await requireUser();
+    await assertEbookOwner(ebookId, user.id);
+    await assertPagesInEbook(ebookId, placement.map((page) => page.id));
+
+    const chapters = await prisma.chapter.findMany({
+      where: { ebookId },
+      orderBy: { order: "asc" },
+    });
+    const known = new Set(chapters.map((chapter) => chapter.id));
+    if (placement.some((page) => page.chapterId && !known.has(page.chapterId))) {
+      throw new Error("Chapter not found");
+    }
+
+    // Chapters follow their pages unless an explicit order is given
+    const chapterOrder = chapterIds ?? flattenOutline(buildOutline(chapters, placement)).chapterIds;
+
+    await prisma.$transaction([
+      ...placement.map((page, index) =>
+        prisma.page.update({
+          where: { id: page.id, ebookId },
+          data: { order: index, chapterId: page.chapterId },
+        })
+      ),
+      ...chapterOrder.map((chapterId, index) =>
+        prisma.chapter.update({
+          where: { id: chapterId, ebookId },
+          data: { order: index },
+        })
+      ),
+    ]);
+    revalidatePath("/");
+    return chapterOrder;
+  } catch (error) {
+    console.error("Failed to update outline:", error);
+    throw new Error("Failed to update outline");
+  }
+}
+
+export async function deletePages(ebookId: string, pageIds: string[]) {
   try {
+    const user = await requireUser();
+    await assertEbookOwner(ebookId, user.id);
+    await assertPagesInEbook(ebookId, pageIds);
+
+    const remaining = await prisma.page.count({
+      where: { ebookId, id: { notIn: pageIds } },
+    });
+    if (remaining === 0) {
+      throw new Error("Cannot delete every page");
+    }
+
     await prisma.page.deleteMany({
+      where: { id: { in: pageIds }, ebookId },
+    });
+    revalidatePath("/");
+  } catch (error) {
+    console.error("Failed to delete pages:", error);
+    throw new Error("Failed to delete pages");
+  }
+}
+
+// Copies land right after their originals, in the same chapter
+export async function duplicatePages(ebookId: string, pageIds: string[]) {
+  try {
+    const user = await requireUser();
+    await assertEbookOwner(ebookId, user.id);
+    await assertPagesInEbook(ebookId, pageIds);
+
+    const pages = await prisma.page.findMany({
+      where: { ebookId },
+      orderBy: { order: "asc" },
+    });
+
+    const copies = [];
+    const order: string[] = [];
+    for (const page of pages) {
+      order.push(page.id);
+      if (!pageIds.includes(page.id)) continue;
+
+      const copy = await prisma.page.create({
+        data: {
+          ebookId,
+          chapterId: page.chapterId,
+          order: page.order,
+          title: page.title ? `${page.title} (Copy)` : null,
+          content: page.content,
+          template: page.template,
+          imageUrl: page.imageUrl,
+          autoFlow: page.autoFlow,
+          section: page.section,
+          customStyles: page.customStyles ?? undefined,
+        },
+      });
+      copies.push(copy);
+      order.push(copy.id);
+    }
+
+    await prisma.$transaction(
+      order.map((pageId, index) =>
+        prisma.page.update({
+          where: { id: pageId },
+          data: { order: index },
+        })
+      )
+    );
+    revalidatePath("/");
+    return copies.map((copy) => ({ ...copy, order: order.indexOf(copy.id) }));
+  } catch (error) {
+    console.error("Failed to duplicate pages:", error);
+    throw new Error("Failed to duplicate pages");
+  }
+}
+
+// Copies pages into another of the user's ebooks, inserted before the page
+// at `position` of the target. They join the chapter of the page they follow.
+// Images live in the user's own storage, so their URLs carry over as-is.
+// Moving also deletes the originals.
+export async function transferPages(
+  ebookId: string,
+  pageIds: string[],
+  targetEbookId: string,
+  position: number,
+  mode: "copy" | "move"
+) {
+  try {
+    const user = await requireUser();
+    await assertEbookOwner(ebookId, user.id);
+    await assertEbookOwner(targetEbookId, user.id);
+    await assertPagesInEbook(ebookId, pageIds);
+    if (targetEbookId === ebookId) {
+      throw new Error("Pages are already in this ebook");
+    }
+
+    const pages = await prisma.page.findMany({
+      where: { id: { in: pageIds } },
+      orderBy: { order: "asc" },
+    });
+    const source = await prisma.ebook.findUniqueOrThrow({
+      where: { id: ebookId },
+      select: { defaultStyles: true, masters: true },
+    });
+    const defaultStyles = resolveDefaultStyles<Prisma.InputJsonObject>(source.defaultStyles);
+    if (mode === "move") {
+      const remaining = await prisma.page.count({
+        where: { ebookId, id: { notIn: pageIds } },
+      });
+      if (remaining === 0) {
+        throw new Error("Cannot move every page");
+      }
+    }
+
+    const targetPages = await prisma.page.findMany({
+      where: { ebookId: targetEbookId },
+      orderBy: { order: "asc" },
+      select: { id: true, chapterId: true },
+    });
+    const at = Math.min(Math.max(0, position), targetPages.length);
+    const chapterId = targetPages[at - 1]?.chapterId ?? null;
+
+    // Copies, new order and removal of moved pages land together or not at all
+    const { copies, order } = await prisma.$transaction(
+      async (tx) => {
+        const copies = [];
+        for (const page of pages) {
+          copies.push(
+            await tx.page.create({
+              data: {
+                ebookId: targetEbookId,
+                chapterId,
+                order: at,
+                title: page.title,
+                content: page.content,
+                template: page.template,
+                imageUrl: page.imageUrl,
+                autoFlow: page.autoFlow,
+                section: page.section,
+                // Inherited styles are written onto the copies so they look the same
+                customStyles: resolveMasteredStyles(
+                  defaultStyles,
+                  resolveDefaultStyles<Prisma.InputJsonObject>(
+                    source.masters.find((master) => master.id === page.masterId)?.styles
+                  ),
+                  page.customStyles as Prisma.InputJsonObject | null
+                ),
+              },
+            })
+          );
+        }
+
+        const order = targetPages.map((page) => page.id);
+        order.splice(at, 0, ...copies.map((copy) => copy.id));
+        for (const [index, pageId] of order.entries()) {
+          await tx.page.update({
+            where: { id: pageId },
+            data: { order: index },
+          });
+        }
+
+        if (mode === "move") {
+          await tx.page.deleteMany({
+            where: { id: { in: pageIds }, ebookId },
+          });
+        }
+        return { copies, order };
+      },
+      // Renumbering a long target book takes one write per page
+      { timeout: 30_000 }
+    );
+
+    revalidatePath("/");
+    return copies.map((copy) => ({ ...copy, order: order.indexOf(copy.id) }));
+  } catch (error) {
+    console.error("Failed to transfer pages:", error);
+    throw new Error("Failed to transfer pages");
+  }
+}
+
+// Per-page template and style changes, e.g. applying one template or one
+// page's styles to a whole selection
+export async function updatePages(
+  ebookId: string,
+  updates: {
+    id: string;
+    template?: string;
+    customStyles?: unknown;
+    masterId?: string | null;
+    section?: string | null;
+  }[]
+) {
+  try {
+    const user = await requireUser();
+    await assertEbookOwner(ebookId, user.id);
+    await assertPagesInEbook(ebookId, updates.map((update) => update.id));
+    if (updates.some((update) => update.section != null && !isBookSection(update.section))) {
+      throw new Error("Unknown book section");
+    }
+    if (updates.some((update) => update.template !== undefined && !isTemplateId(update.template))) {
+      throw new Error("Unknown page template");
+    }
+
+    const pages = await prisma.page.findMany({
+      where: { id: { in: updates.map((update) => update.id) } },
+    });
+    // A master deleted in the meantime leaves the page without one
+    const masters = new Set(
+      (await prisma.masterPage.findMany({ where: { ebookId }, select: { id: true } })).map((master) => master.id)
+    );
+    for (const page of pages) {
+      const update = updates.find((u) => u.id === page.id);
+      if (update?.template !== undefined && update.template !== page.template) {
+        await createRevision(page, "template");
+      }
+    }
+
+    await prisma.$transaction(
+      updates.map(({ id, template, customStyles, masterId, section }) =>
+        prisma.page.update({
+          where: { id },
+          data: {
+            template,
+            section,
+            masterId: masterId === undefined || masterId === null || masters.has(masterId) ? masterId : null,
+            customStyles: customStyles === undefined ? undefined : (customStyles as Prisma.InputJsonValue | null),
+          },
+        })
+      )
+    );
+    revalidatePath("/");
+  } catch (error) {
+    console.error("Failed to update pages:", error);
+    throw new Error("Failed to update pages");
+  }
+}
+
+// Batch form of restorePage for undoing bulk deletes and duplicates
+export async function restorePages(
+  ebookId: string,
+  pages: {
+    id: string;
+    chapterId?: string | null;
+    masterId?: string | null;
+    order: number;
+    title: string | null;
+    content: string;
+    template: string;
+    imageUrl: string | null;
+    autoFlow?: boolean;
+    section?: string | null;
+    customStyles?: unknown;
+  }[]
+) {
+  try {
+    const user = await requireUser();
+    await assertEbookOwner(ebookId, user.id);
+    if (pages.some((page) => !isTemplateId(page.template))) {
+      throw new Error("Unknown page template");
+    }
+    if (pages.some((page) => page.imageUrl && !isImageUrl(page.imageUrl))) {
+      throw new Error("Invalid image URL");
+    }
+
+    const chapters = await prisma.chapter.findMany({
       where: { ebookId },
+      select: { id: true },
+    });
+    const known = new Set(chapters.map((chapter) => chapter.id));
+    const masters = await prisma.masterPage.findMany({
+      where: { ebookId },
+      select: { id: true },
+    });
+    const knownMasters = new Set(masters.map((master) => master.id));
+
+    await prisma.page.createMany({
+      data: pages.map((page) => ({
+        id: page.id,
+        ebookId,
+        chapterId: page.chapterId && known.has(page.chapterId) ? page.chapterId : null,
+        masterId: page.masterId && knownMasters.has(page.masterId) ? page.masterId : null,
+        order: page.order,
+        title: page.title,
+        content: page.content,
+        template: page.template,
+        imageUrl: page.imageUrl,
+        autoFlow: page.autoFlow,
+        section: page.section,
+        customStyles: (page.customStyles ?? undefined) as Prisma.InputJsonValue | undefined,
+      })),
+    });
+    revalidatePath("/");
+  } catch (error) {
+    console.error("Failed to restore pages:", error);
+    throw new Error("Failed to restore pages");
+  }
+}
+
+// Ebook Snapshot Actions - whole-book copies taken before AI generation
+// changes the page list
+export async function getEbookSnapshots(ebookId: string) {
+  try {
+    const user = await requireUser();
+    await assertEbookOwner(ebookId, user.id);
+
+    return await listEbookSnapshots(ebookId);
+  } catch (error) {
+    console.error("Failed to get snapshots:", error);
+    throw new Error("Failed to get snapshots");
+  }
+}
+
+export async function restoreSnapshot(snapshotId: string) {
+  try {
+    const user = await requireUser();
+    await assertSnapshotOwner(snapshotId, user.id);
+
+    await restoreEbookSnapshot(snapshotId);
+    revalidatePath("/");
+  } catch (error) {
+    console.error("Failed to restore snapshot:", error);
+    throw new Error("Failed to restore snapshot");
+  }
+}
+
+// Custom Template Actions - templates belong to the account, so every
+// ebook of the user can pick them
+function toCustomTemplate(template: { id: string; name: string; regions: Prisma.JsonValue }) {
+  return { id: template.id, name: template.name, regions: resolveRegions(template.regions) };
+}
+
+function toRegionsJson(regions: unknown) {
+  return resolveRegions(regions).map((region) => ({ ...region }));
+}
+
+export async function getCustomTemplates() {
+  try {
+    const user = await requireUser();
+    const templates = await prisma.customTemplate.findMany({
+      where: { userId: user.id },
+      orderBy: { createdAt: "asc" },
+    });
+    return templates.map(toCustomTemplate);
+  } catch (error) {
+    console.error("Failed to get custom templates:", error);
+    throw new Error("Failed to get custom templates");
+  }
+}
+
+export async function createCustomTemplate(data: { name: string; regions: unknown }) {
+  try {
+    const user = await requireUser();
+    const template = await prisma.customTemplate.create({
+      data: {
+        userId: user.id,
+        name: data.name.trim() || "Untitled template",
+        regions: toRegionsJson(data.regions),
+      },
+    });
+    revalidatePath("/");
+    return toCustomTemplate(template);
+  } catch (error) {
+    console.error("Failed to create custom template:", error);
+    throw new Error("Failed to create custom template");
+  }
+}
+
+export async function updateCustomTemplate(id: string, data: { name?: string; regions?: unknown }) {
+  try {
+    const user = await requireUser();
+    await assertCustomTemplateOwner(id, user.id);
+
+    const template = await prisma.customTemplate.update({
+      where: { id },
+      data: {
+        name: data.name === undefined ? undefined : data.name.trim() || "Untitled template",
+        regions: data.regions === undefined ? undefined : toRegionsJson(data.regions),
+      },
+    });
+    revalidatePath("/");
+    return toCustomTemplate(template);
+  } catch (error) {
+    console.error("Failed to update custom template:", error);
+    throw new Error("Failed to update custom template");
+  }
+}
+
+// Pages and masters still using the template go back to the default one
+export async function deleteCustomTemplate(id: string) {
+  try {
+    const user = await requireUser();
+    await assertCustomTemplateOwner(id, user.id);
+
+    const ebooks = await prisma.ebook.findMany({
+      where: { userId: user.id },
+      select: { id: true },
     });
+    const ebookIds = ebooks.map((ebook) => ebook.id);
+    const template = customTemplateId(id);
+
+    await prisma.$transaction([
+      prisma.page.updateMany({
+        where: { ebookId: { in: ebookIds }, template },
+        data: { template: DEFAULT_TEMPLATE },
+      }),
+      prisma.masterPage.updateMany({
+        where: { ebookId: { in: ebookIds }, template },
+        data: { template: DEFAULT_TEMPLATE },
+      }),
+      prisma.customTemplate.delete({ where: { id } }),
+    ]);
     revalidatePath("/");
   } catch (error) {
-    console.error("Failed to delete all pages:", error);
-    throw new Error("Failed to delete all pages");
+    console.error("Failed to delete custom template:", error);
+    throw new Error("Failed to delete custom template");
   }
 }
 
 // Theme Actions
 export async function getAllThemes() {
   try {
+    const user = await requireUser();
     const themes = await prisma.theme.findMany({
+      where: {
+        OR: [{ userId: null }, { userId: user.id }],
+      },
       orderBy: {
         createdAt: "asc",
       },
@@ -197,6 +1683,10 @@ export async function getAllThemes() {
 
 export async function updateEbookTheme(ebookId: string, themeId: string) {
   try {
+    const user = await requireUser();
+    await assertEbookOwner(ebookId, user.id);
+    await assertThemeReadable(themeId, user.id);
+
     const ebook = await prisma.ebook.update({
       where: { id: ebookId },
       data: { themeId },
@@ -227,8 +1717,10 @@ export async function createTheme(data: {
   bodySize?: string;
 }) {
   try {
+    const user = await requireUser();
     const theme = await prisma.theme.create({
       data: {
+        userId: user.id,
         name: data.name,
         primaryColor: data.primaryColor ?? "#000000",
         secondaryColor: data.secondaryColor ?? "#666666",
@@ -269,9 +1761,12 @@ export async function updateTheme(
   }
 ) {
   try {
+    const user = await requireUser();
+
+    // Preset themes are shared and read-only; only custom themes can change
     const theme = await prisma.theme.update({
-      where: { id },
-      data,
+      where: { id, userId: user.id },
+      data: pickFields(data, THEME_FIELDS),
     });
     revalidatePath("/");
     return theme;
@@ -283,212 +1778,19 @@ export async function updateTheme(
 
 export async function seedThemes() {
   try {
-    const themes = [
-      {
-        name: "Modern",
-        primaryColor: "#0F172A",
-        secondaryColor: "#64748B",
-        accentColor: "#3B82F6",
-        backgroundColor: "#FFFFFF",
-        textColor: "#1E293B",
-        headingFont: "Inter",
-        bodyFont: "Inter",
-        h1Size: "2.5rem",
-        h2Size: "2rem",
-        h3Size: "1.5rem",
-        bodySize: "1rem",
-      },
-      {
-        name: "Elegant",
-        primaryColor: "#1C1C1C",
-        secondaryColor: "#6B7280",
-        accentColor: "#D4AF37",
-        backgroundColor: "#FAFAFA",
-        textColor: "#2D2D2D",
-        headingFont: "Playfair Display",
-        bodyFont: "Lora",
-        h1Size: "3rem",
-        h2Size: "2.25rem",
-        h3Size: "1.75rem",
-        bodySize: "1.125rem",
-      },
-      {
-        name: "Ocean Blue",
-        primaryColor: "#0C4A6E",
-        secondaryColor: "#0891B2",
-        accentColor: "#06B6D4",
-        backgroundColor: "#F0F9FF",
-        textColor: "#164E63",
-        headingFont: "Montserrat",
-        bodyFont: "Open Sans",
-        h1Size: "2.75rem",
-        h2Size: "2.125rem",
-        h3Size: "1.625rem",
-        bodySize: "1rem",
-      },
-      {
-        name: "Sunset",
-        primaryColor: "#7C2D12",
-        secondaryColor: "#C2410C",
-        accentColor: "#F97316",
-        backgroundColor: "#FFF7ED",
-        textColor: "#431407",
-        headingFont: "Poppins",
-        bodyFont: "Roboto",
-        h1Size: "2.5rem",
-        h2Size: "2rem",
-        h3Size: "1.5rem",
-        bodySize: "1rem",
-      },
-      {
-        name: "Forest Green",
-        primaryColor: "#14532D",
-        secondaryColor: "#16A34A",
-        accentColor: "#22C55E",
-        backgroundColor: "#F0FDF4",
-        textColor: "#052E16",
-        headingFont: "Merriweather",
-        bodyFont: "Source Sans Pro",
-        h1Size: "2.625rem",
-        h2Size: "2.125rem",
-        h3Size: "1.625rem",
-        bodySize: "1.0625rem",
-      },
-      {
-        name: "Royal Purple",
-        primaryColor: "#581C87",
-        secondaryColor: "#7C3AED",
-        accentColor: "#A855F7",
-        backgroundColor: "#FAF5FF",
-        textColor: "#3B0764",
-        headingFont: "Raleway",
-        bodyFont: "Nunito",
-        h1Size: "2.75rem",
-        h2Size: "2.25rem",
-        h3Size: "1.75rem",
-        bodySize: "1.0625rem",
-      },
-      {
-        name: "Minimalist",
-        primaryColor: "#000000",
-        secondaryColor: "#525252",
-        accentColor: "#737373",
-        backgroundColor: "#FFFFFF",
-        textColor: "#171717",
-        headingFont: "Helvetica",
-        bodyFont: "Arial",
-        h1Size: "3rem",
-        h2Size: "2.25rem",
-        h3Size: "1.5rem",
-        bodySize: "1rem",
-      },
-      {
-        name: "Warm Beige",
-        primaryColor: "#78350F",
-        secondaryColor: "#92400E",
-        accentColor: "#B45309",
-        backgroundColor: "#FEF3C7",
-        textColor: "#451A03",
-        headingFont: "Georgia",
-        bodyFont: "Garamond",
-        h1Size: "2.875rem",
-        h2Size: "2.25rem",
-        h3Size: "1.75rem",
-        bodySize: "1.125rem",
-      },
-      // Dark Themes
-      {
-        name: "Dark Modern",
-        primaryColor: "#60A5FA",
-        secondaryColor: "#94A3B8",
-        accentColor: "#3B82F6",
-        backgroundColor: "#0F172A",
-        textColor: "#E2E8F0",
-        headingFont: "Inter",
-        bodyFont: "Inter",
-        h1Size: "2.5rem",
-        h2Size: "2rem",
-        h3Size: "1.5rem",
-        bodySize: "1rem",
-      },
-      {
-        name: "Dark Elegant",
-        primaryColor: "#F5D782",
-        secondaryColor: "#9CA3AF",
-        accentColor: "#D4AF37",
-        backgroundColor: "#1C1C1C",
-        textColor: "#F5F5F5",
-        headingFont: "Playfair Display",
-        bodyFont: "Lora",
-        h1Size: "3rem",
-        h2Size: "2.25rem",
-        h3Size: "1.75rem",
-        bodySize: "1.125rem",
-      },
-      {
-        name: "Midnight Blue",
-        primaryColor: "#38BDF8",
-        secondaryColor: "#7DD3FC",
-        accentColor: "#0EA5E9",
-        backgroundColor: "#0C1222",
-        textColor: "#CBD5E1",
-        headingFont: "Montserrat",
-        bodyFont: "Open Sans",
-        h1Size: "2.75rem",
-        h2Size: "2.125rem",
-        h3Size: "1.625rem",
-        bodySize: "1rem",
-      },
-      {
-        name: "Dark Purple",
-        primaryColor: "#C084FC",
-        secondaryColor: "#A78BFA",
-        accentColor: "#8B5CF6",
-        backgroundColor: "#1E1033",
-        textColor: "#E9D5FF",
-        headingFont: "Raleway",
-        bodyFont: "Nunito",
-        h1Size: "2.75rem",
-        h2Size: "2.25rem",
-        h3Size: "1.75rem",
-        bodySize: "1.0625rem",
-      },
-      {
-        name: "Charcoal",
-        primaryColor: "#F9FAFB",
-        secondaryColor: "#D1D5DB",
-        accentColor: "#9CA3AF",
-        backgroundColor: "#18181B",
-        textColor: "#E4E4E7",
-        headingFont: "Helvetica",
-        bodyFont: "Arial",
-        h1Size: "3rem",
-        h2Size: "2.25rem",
-        h3Size: "1.5rem",
-        bodySize: "1rem",
-      },
-      {
-        name: "Dark Forest",
-        primaryColor: "#4ADE80",
-        secondaryColor: "#86EFAC",
-        accentColor: "#22C55E",
-        backgroundColor: "#0A1F0D",
-        textColor: "#DCFCE7",
-        headingFont: "Merriweather",
-        bodyFont: "Source Sans Pro",
-        h1Size: "2.625rem",
-        h2Size: "2.125rem",
-        h3Size: "1.625rem",
-        bodySize: "1.0625rem",
-      },
-    ];
+    await requireUser();
 
-    for (const themeData of themes) {
-      await prisma.theme.upsert({
-        where: { name: themeData.name },
-        update: themeData, // Update existing themes to restore defaults
-        create: themeData,
+    for (const themeData of PRESET_THEMES) {
+      const existing = await prisma.theme.findFirst({
+        where: { name: themeData.name, userId: null },
       });
+
+      if (existing) {
+        // Update existing presets to restore defaults
+        await prisma.theme.update({ where: { id: existing.id }, data: themeData });
+      } else {
+        await prisma.theme.create({ data: themeData });
+      }
     }
 
     return { success: true };
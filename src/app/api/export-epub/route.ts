@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCustomTemplates, getEbook } from "@/app/actions";
+import { getCurrentUser } from "@/lib/auth";
+import { buildEpub } from "@/lib/epub";
+import { toFilename } from "@/lib/utils";
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const ebookId = request.nextUrl.searchParams.get("ebookId");
+
+    if (!ebookId) {
+      return NextResponse.json(
+        { error: "ebookId is required" },
+        { status: 400 }
+      );
+    }
+
+    const ebook = await getEbook(ebookId);
+
+    if (!ebook) {
+      return NextResponse.json(
+        { error: "Ebook not found" },
+        { status: 404 }
+      );
+    }
+
+    const epub = await buildEpub(ebook, await getCustomTemplates());
+
+    return new NextResponse(new Uint8Array(epub), {
+      headers: {
+        "Content-Type": "application/epub+zip",
+        "Content-Disposition": `attachment; filename="${toFilename(ebook.title, "epub")}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("EPUB export error:", error);
+    return NextResponse.json(
+      { error: "Failed to export EPUB" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from "next/server";
+import puppeteer, { type Browser, type HTTPRequest } from "puppeteer-core";
+import { isObjectId, prisma } from "@/lib/prisma";
+import { getCurrentUser, SESSION_COOKIE } from "@/lib/auth";
+import { toFilename } from "@/lib/utils";
+import { getPageSize, resolvePageSetup } from "@/lib/page-setup";
+import { resolveMetadata } from "@/lib/metadata";
+import { applyPdfMetadata } from "@/lib/pdf-metadata";
+import { isPublicUrl } from "@/lib/remote-image";
+
+// Where the headless browser reaches this app. Never taken from the request,
+// whose Host header the client controls.
+function getExportBaseUrl() {
+  return process.env.EXPORT_BASE_URL || `http://127.0.0.1:${process.env.PORT || 3000}`;
+}
+
+// Page content is user HTML, so the browser may only load the app itself,
+// inline data and public http(s) hosts; anything else is blocked the same
+// way EPUB images are
+function guardRequests(baseUrl: string) {
+  const appOrigin = new URL(baseUrl).origin;
+  const checked = new Map<string, Promise<boolean>>();
+
+  const isAllowed = async (url: URL) => {
+    if (url.protocol === "data:" || url.protocol === "blob:") return true;
+    if (url.origin === appOrigin) return true;
+    if (!checked.has(url.host)) {
+      checked.set(url.host, isPublicUrl(url).catch(() => false));
+    }
+    return (await checked.get(url.host))!;
+  };
+
+  return async (request: HTTPRequest) => {
+    if (request.isInterceptResolutionHandled()) return;
+    const allowed = await isAllowed(new URL(request.url())).catch(() => false);
+    if (allowed) {
+      await request.continue();
+    } else {
+      await request.abort("blockedbyclient");
+    }
+  };
+}
+
+export async function GET(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  const ebookId = request.nextUrl.searchParams.get("ebookId");
+
+  if (!ebookId) {
+    return NextResponse.json(
+      { error: "ebookId is required" },
+      { status: 400 }
+    );
+  }
+
+  if (!process.env.CHROME_EXECUTABLE_PATH) {
+    return NextResponse.json(
+      { error: "PDF renderer not configured" },
+      { status: 500 }
+    );
+  }
+
+  const ebook = isObjectId(ebookId)
+    ? await prisma.ebook.findFirst({
+        where: { id: ebookId, userId: user.id },
+        select: { title: true, pageSetup: true, metadata: true },
+      })
+    : null;
+
+  if (!ebook) {
+    return NextResponse.json(
+      { error: "Ebook not found" },
+      { status: 404 }
+    );
+  }
+
+  const { width, height } = getPageSize(resolvePageSetup(ebook.pageSetup));
+
+  const baseUrl = getExportBaseUrl();
+  let browser: Browser | undefined;
+
+  try {
+    browser = await puppeteer.launch({
+      executablePath: process.env.CHROME_EXECUTABLE_PATH,
+      headless: true,
+      args: ["--no-sandbox", "--font-render-hinting=none"],
+    });
+
+    // The print route and private images are session guarded, so the
+    // headless browser borrows the requesting user's session
+    const sessionToken = request.cookies.get(SESSION_COOKIE)?.value;
+    if (sessionToken) {
+      await browser.setCookie({
+        name: SESSION_COOKIE,
+        value: sessionToken,
+        domain: new URL(baseUrl).hostname,
+        path: "/",
+        httpOnly: true,
+      });
+    }
+
+    const page = await browser.newPage();
+    await page.setRequestInterception(true);
+    page.on("request", guardRequests(baseUrl));
+    await page.setViewport({ width, height });
+    await page.goto(`${baseUrl}/print/${ebookId}`, {
+      waitUntil: "networkidle0",
+      timeout: 120_000,
+    });
+
+    // Grow the viewport to the whole document so lazy-loaded images on
+    // later pages are fetched before printing
+    const documentHeight = await page.evaluate(() => document.documentElement.scrollHeight);
+    await page.setViewport({ width, height: documentHeight });
+    await page.waitForNetworkIdle({ timeout: 60_000 });
+    await page.evaluate(() => document.fonts.ready);
+
+    // Let auto-flowed pages finish splitting now that fonts have settled
+    await page.evaluate(
+      () => new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(resolve)))
+    );
+
+    const pdf = await page.pdf({
+      width: `${width}px`,
+      height: `${height}px`,
+      printBackground: true,
+      preferCSSPageSize: true,
+      margin: { top: 0, right: 0, bottom: 0, left: 0 },
+    });
+
+    // Sent in one piece rather than streamed: the book details are written
+    // into the document information of the finished file, which needs all
+    // of it, and Chrome only hands the PDF over once it is complete anyway
+    const body = await applyPdfMetadata(pdf, ebook.title, resolveMetadata(ebook.metadata));
+
+    return new NextResponse(new Uint8Array(body), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${toFilename(ebook.title, "pdf")}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("PDF export error:", error);
+    return NextResponse.json(
+      { error: "Failed to export PDF" },
+      { status: 500 }
+    );
+  } finally {
+    await browser?.close().catch(() => {});
+  }
+}
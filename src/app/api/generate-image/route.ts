@@ -1,14 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
-import OpenAI from "openai";
-import { writeFile } from "fs/promises";
-import path from "path";
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { getCurrentUser } from "@/lib/auth";
+import { saveUserImage } from "@/lib/image-storage";
+import { getAccountAiSettings } from "@/lib/ai-account";
+import { getImageProvider, isAiConfigured } from "@/lib/ai-provider";
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
     const { prompt } = await request.json();
 
     if (!prompt) {
@@ -18,39 +23,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate image with DALL-E
-    const response = await openai.images.generate({
-      model: "dall-e-3",
-      prompt: prompt,
-      n: 1,
-      size: "1024x1024",
-      quality: "standard",
-    });
-
-    const tempImageUrl = response.data[0]?.url;
-
-    if (!tempImageUrl) {
+    const settings = await getAccountAiSettings(user.id);
+    if (!isAiConfigured("image", settings)) {
       return NextResponse.json(
-        { error: "Failed to generate image" },
+        { error: "AI provider not configured" },
         { status: 500 }
       );
     }
 
-    // Download the image from OpenAI's temporary URL
-    const imageResponse = await fetch(tempImageUrl);
-    const arrayBuffer = await imageResponse.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
+    const image = await getImageProvider(settings).generateImage(prompt);
 
     // Generate unique filename
     const timestamp = Date.now();
-    const filename = `ai-generated-${timestamp}.png`;
-
-    // Save to public/images
-    const publicPath = path.join(process.cwd(), "public", "images", filename);
-    await writeFile(publicPath, buffer);
+    const filename = `ai-generated-${timestamp}${image.extension}`;
 
-    // Return local URL
-    const imageUrl = `/images/${filename}`;
+    // Save to the user's private image storage
+    const imageUrl = await saveUserImage(user.id, filename, image.data);
 
     return NextResponse.json({ imageUrl });
   } catch (error: any) {
@@ -1,13 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
-import OpenAI from "openai";
-import { deleteAllPages } from "@/app/actions";
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { prisma } from "@/lib/prisma";
+import { getCurrentUser } from "@/lib/auth";
+import { normalizeOutline } from "@/lib/chapters";
+import { getAccountAiSettings } from "@/lib/ai-account";
+import { getTextProvider, isAiConfigured } from "@/lib/ai-provider";
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
     const { description, ebookId } = await request.json();
 
     if (!description || !ebookId) {
@@ -17,28 +24,40 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!process.env.OPENAI_API_KEY) {
+    const ebook = await prisma.ebook.findFirst({
+      where: { id: ebookId, userId: user.id },
+      select: { id: true },
+    });
+
+    if (!ebook) {
+      return NextResponse.json(
+        { error: "Ebook not found" },
+        { status: 404 }
+      );
+    }
+
+    const settings = await getAccountAiSettings(user.id);
+    if (!isAiConfigured("outline", settings)) {
       return NextResponse.json(
-        { error: "OpenAI API key not configured" },
+        { error: "AI provider not configured" },
         { status: 500 }
       );
     }
 
-    // Delete all existing pages before generating new ones
-    await deleteAllPages(ebookId);
-
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
+    // Only a draft: nothing in the book changes until the user confirms
+    // where the generated pages go (see /api/generation-jobs)
+    const content = await getTextProvider("outline", settings).generateText({
+      task: "outline",
       messages: [
         {
           role: "system",
           content: `You are an expert ebook outline creator. Create a detailed, well-structured outline for an ebook based on the user's description.
 
-Return ONLY a JSON array of chapter/section titles. Each title should be clear, descriptive, and appropriate for the topic.
+Return ONLY a JSON object with a "chapters" array. Each chapter has a clear, descriptive title and 2-4 section titles that break the chapter down.
 
-Format: ["Chapter 1: Introduction to...", "Chapter 2: Understanding...", ...]
+Format: {"chapters": [{"title": "Chapter 1: Introduction to...", "sections": ["What is...", "Why it matters..."]}, ...]}
 
-Aim for 6-12 sections depending on the complexity of the topic.`,
+Aim for 4-8 chapters depending on the complexity of the topic.`,
         },
         {
           role: "user",
@@ -46,18 +65,13 @@ Aim for 6-12 sections depending on the complexity of the topic.`,
         },
       ],
       temperature: 0.7,
-      response_format: { type: "json_object" },
+      json: true,
     });
 
-    const content = completion.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error("No response from OpenAI");
-    }
-
     const parsed = JSON.parse(content);
-    const outline = parsed.outline || parsed.chapters || parsed.sections || Object.values(parsed)[0];
+    const outline = normalizeOutline(parsed.chapters || parsed.outline || parsed.sections || Object.values(parsed)[0]);
 
-    if (!Array.isArray(outline)) {
+    if (!outline || outline.length === 0) {
       throw new Error("Invalid outline format received");
     }
 
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isObjectId, prisma } from "@/lib/prisma";
+import { getCurrentUser } from "@/lib/auth";
+import { publishJobProgress, toJobProgress } from "@/lib/generation-jobs";
+
+// The runner stops before the next section; pages already written stay
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { jobId } = await params;
+    const job = isObjectId(jobId)
+      ? await prisma.generationJob.findFirst({
+          where: { id: jobId, ebook: { userId: user.id } },
+          select: { id: true },
+        })
+      : null;
+
+    if (!job) {
+      return NextResponse.json(
+        { error: "Generation job not found" },
+        { status: 404 }
+      );
+    }
+
+    await prisma.generationJob.updateMany({
+      where: { id: jobId, status: { in: ["queued", "running", "failed"] } },
+      data: { status: "cancelled" },
+    });
+
+    const cancelled = await prisma.generationJob.findUniqueOrThrow({ where: { id: jobId } });
+    publishJobProgress(cancelled);
+    return NextResponse.json({ job: toJobProgress(cancelled) });
+  } catch (error) {
+    console.error("Error cancelling generation job:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel generation job" },
+      { status: 500 }
+    );
+  }
+}
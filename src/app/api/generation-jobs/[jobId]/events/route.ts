@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isObjectId, prisma } from "@/lib/prisma";
+import { getCurrentUser } from "@/lib/auth";
+import { eventStream } from "@/lib/sse";
+import { isJobActive, subscribeToJob, toJobProgress } from "@/lib/generation-jobs";
+
+// Live progress of a job as server-sent events: "progress" with the job's
+// state, "content" with text streamed into the page being written, and
+// "end" once the runner stops. A job not running in this process gets a
+// single "progress" and "end".
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { jobId } = await params;
+    const owned = isObjectId(jobId)
+      ? await prisma.generationJob.findFirst({
+          where: { id: jobId, ebook: { userId: user.id } },
+          select: { id: true },
+        })
+      : null;
+
+    if (!owned) {
+      return NextResponse.json(
+        { error: "Generation job not found" },
+        { status: 404 }
+      );
+    }
+
+    return eventStream(async (send) => {
+      await new Promise<void>((resolve) => {
+        // Subscribe before reading the job, so no change falls in between
+        const unsubscribe = subscribeToJob(jobId, (event) => {
+          if (event.type === "end") finish();
+          else if (event.type === "progress") send("progress", event.job);
+          else send("content", event);
+        });
+
+        function finish() {
+          unsubscribe();
+          request.signal.removeEventListener("abort", finish);
+          resolve();
+        }
+
+        request.signal.addEventListener("abort", finish);
+
+        prisma.generationJob
+          .findUnique({ where: { id: jobId } })
+          .then((job) => {
+            if (job) send("progress", toJobProgress(job));
+            if (!job || !isJobActive(jobId)) finish();
+          })
+          .catch((error) => {
+            console.error("Error loading generation job:", error);
+            finish();
+          });
+      });
+
+      send("end", {});
+    });
+  } catch (error) {
+    console.error("Error streaming generation job:", error);
+    return NextResponse.json(
+      { error: "Failed to stream generation job" },
+      { status: 500 }
+    );
+  }
+}
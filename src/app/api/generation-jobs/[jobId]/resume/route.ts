@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isObjectId, prisma } from "@/lib/prisma";
+import { getCurrentUser } from "@/lib/auth";
+import { getAccountAiSettings } from "@/lib/ai-account";
+import { isAiConfigured } from "@/lib/ai-provider";
+import {
+  isJobActive,
+  isJobResumable,
+  resolveJobSections,
+  scheduleGenerationJob,
+  toJobProgress,
+} from "@/lib/generation-jobs";
+
+// Carries on from the first unfinished section; failed sections get a
+// fresh set of attempts
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { jobId } = await params;
+    const job = isObjectId(jobId)
+      ? await prisma.generationJob.findFirst({
+          where: { id: jobId, ebook: { userId: user.id } },
+        })
+      : null;
+
+    if (!job) {
+      return NextResponse.json(
+        { error: "Generation job not found" },
+        { status: 404 }
+      );
+    }
+
+    // A cancelled runner may still be finishing its current section
+    if (isJobActive(jobId)) {
+      return NextResponse.json(
+        { error: "Generation job is still stopping. Try again in a moment." },
+        { status: 409 }
+      );
+    }
+
+    if (!isJobResumable(job)) {
+      return NextResponse.json(
+        { error: "Generation job can't be resumed" },
+        { status: 409 }
+      );
+    }
+
+    if (!isAiConfigured("content", await getAccountAiSettings(user.id))) {
+      return NextResponse.json(
+        { error: "AI provider not configured" },
+        { status: 500 }
+      );
+    }
+
+    const sections = resolveJobSections(job.sections).map((section) =>
+      section.status === "done" ? section : { ...section, status: "pending" as const, attempts: 0, error: null }
+    );
+    const resumed = await prisma.generationJob.update({
+      where: { id: jobId },
+      data: { status: "queued", error: null, sections: sections.map((section) => ({ ...section })) },
+    });
+
+    scheduleGenerationJob(jobId);
+
+    return NextResponse.json({ job: toJobProgress(resumed) });
+  } catch (error) {
+    console.error("Error resuming generation job:", error);
+    return NextResponse.json(
+      { error: "Failed to resume generation job" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isObjectId, prisma } from "@/lib/prisma";
+import { getCurrentUser } from "@/lib/auth";
+import { toJobProgress } from "@/lib/generation-jobs";
+
+// Progress of one job, polled by the generator while it runs
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { jobId } = await params;
+    const job = isObjectId(jobId)
+      ? await prisma.generationJob.findFirst({
+          where: { id: jobId, ebook: { userId: user.id } },
+        })
+      : null;
+
+    if (!job) {
+      return NextResponse.json(
+        { error: "Generation job not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ job: toJobProgress(job) });
+  } catch (error) {
+    console.error("Error loading generation job:", error);
+    return NextResponse.json(
+      { error: "Failed to load generation job" },
+      { status: 500 }
+    );
+  }
+}
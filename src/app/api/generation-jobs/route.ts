@@ -0,0 +1,206 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isObjectId, prisma } from "@/lib/prisma";
+import { getCurrentUser } from "@/lib/auth";
+import { normalizeOutline } from "@/lib/chapters";
+import { getAccountAiSettings } from "@/lib/ai-account";
+import { isAiConfigured } from "@/lib/ai-provider";
+import { takeEbookSnapshot } from "@/lib/ebook-snapshots";
+import {
+  isJobPlacement,
+  scheduleGenerationJob,
+  toJobProgress,
+  type JobSection,
+} from "@/lib/generation-jobs";
+
+// Latest generation job of an ebook, so the generator can pick up a job
+// started before the page was reloaded
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const ebookId = request.nextUrl.searchParams.get("ebookId");
+
+    if (!ebookId || !isObjectId(ebookId)) {
+      return NextResponse.json(
+        { error: "A valid ebookId is required" },
+        { status: 400 }
+      );
+    }
+
+    const job = await prisma.generationJob.findFirst({
+      where: { ebookId, ebook: { userId: user.id } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({ job: job ? toJobProgress(job) : null });
+  } catch (error) {
+    console.error("Error loading generation job:", error);
+    return NextResponse.json(
+      { error: "Failed to load generation job" },
+      { status: 500 }
+    );
+  }
+}
+
+// Creates a job that writes one page per outline section and starts it in
+// the background. The book is snapshotted first, then the outline's chapters
+// are added (or, when appending after a page, its chapter is used). For
+// "replace" the existing pages and chapters stay until the job completes
+// and are only then swapped out, so a failed or cancelled job loses nothing.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const {
+      ebookId,
+      description,
+      outline: rawOutline,
+      placement = "chapters",
+      afterPageId,
+    } = await request.json();
+    const outline = normalizeOutline(rawOutline);
+
+    if (!ebookId || !description || !outline || outline.length === 0) {
+      return NextResponse.json(
+        { error: "ebookId, description and outline are required" },
+        { status: 400 }
+      );
+    }
+
+    if (typeof ebookId !== "string" || !isObjectId(ebookId)) {
+      return NextResponse.json(
+        { error: "Ebook not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!isJobPlacement(placement)) {
+      return NextResponse.json(
+        { error: "placement must be chapters, append or replace" },
+        { status: 400 }
+      );
+    }
+
+    const ebook = await prisma.ebook.findFirst({
+      where: { id: ebookId, userId: user.id },
+      select: { id: true },
+    });
+
+    if (!ebook) {
+      return NextResponse.json(
+        { error: "Ebook not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!isAiConfigured("content", await getAccountAiSettings(user.id))) {
+      return NextResponse.json(
+        { error: "AI provider not configured" },
+        { status: 500 }
+      );
+    }
+
+    const running = await prisma.generationJob.findFirst({
+      where: { ebookId, status: { in: ["queued", "running"] } },
+      select: { id: true },
+    });
+
+    if (running) {
+      return NextResponse.json(
+        { error: "A generation job is already running for this ebook" },
+        { status: 409 }
+      );
+    }
+
+    const anchor = placement === "append" && typeof afterPageId === "string" && isObjectId(afterPageId)
+      ? await prisma.page.findFirst({
+          where: { id: afterPageId, ebookId },
+          select: { id: true, chapterId: true },
+        })
+      : null;
+
+    if (placement === "append" && !anchor) {
+      return NextResponse.json(
+        { error: "Page to insert after not found" },
+        { status: 400 }
+      );
+    }
+
+    if ((await prisma.page.count({ where: { ebookId } })) > 0) {
+      await takeEbookSnapshot(ebookId, "generation");
+    }
+
+    const replaced = placement === "replace"
+      ? await Promise.all([
+          prisma.page.findMany({ where: { ebookId }, select: { id: true } }),
+          prisma.chapter.findMany({ where: { ebookId }, select: { id: true } }),
+        ])
+      : [[], []];
+
+    const lastChapter = await prisma.chapter.findFirst({
+      where: { ebookId },
+      orderBy: { order: "desc" },
+    });
+
+    // A chapter without sections becomes a single page. Appended pages join
+    // the chapter of the page they follow.
+    const sections: JobSection[] = [];
+    for (const [index, entry] of outline.entries()) {
+      const chapter = anchor
+        ? null
+        : await prisma.chapter.create({
+            data: {
+              ebookId,
+              order: (lastChapter?.order ?? -1) + 1 + index,
+              title: entry.title,
+              // New chapters replacing the book don't join its last part
+              part: placement === "replace" ? null : lastChapter?.part ?? null,
+            },
+          });
+      for (const title of entry.sections.length > 0 ? entry.sections : [entry.title]) {
+        sections.push({
+          chapterId: chapter?.id ?? anchor?.chapterId ?? null,
+          chapterTitle: entry.title,
+          title,
+          status: "pending",
+          attempts: 0,
+          error: null,
+          pageId: null,
+        });
+      }
+    }
+
+    const job = await prisma.generationJob.create({
+      data: {
+        ebookId,
+        description,
+        sections: sections.map((section) => ({ ...section })),
+        afterPageId: anchor?.id ?? null,
+        replacedPageIds: replaced[0].map((page) => page.id),
+        replacedChapterIds: replaced[1].map((chapter) => chapter.id),
+      },
+    });
+
+    scheduleGenerationJob(job.id);
+
+    return NextResponse.json({ job: toJobProgress(job) });
+  } catch (error) {
+    console.error("Error starting generation job:", error);
+    return NextResponse.json(
+      { error: "Failed to start generation job" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import path from "path";
+import { getCurrentUser } from "@/lib/auth";
+import { IMAGE_CONTENT_TYPES, readUserImage } from "@/lib/image-storage";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string; filename: string }> }
+) {
+  const { userId, filename } = await params;
+  const user = await getCurrentUser();
+
+  // Answer 404 rather than 403 so other users' filenames aren't confirmed
+  if (!user || user.id !== userId) {
+    return NextResponse.json(
+      { error: "Image not found" },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const data = await readUserImage(userId, filename);
+    const extension = path.extname(filename).toLowerCase();
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        "Content-Type": IMAGE_CONTENT_TYPES[extension] ?? "application/octet-stream",
+        "Cache-Control": "private, max-age=31536000, immutable",
+      },
+    });
+  } catch {
+    return NextResponse.json(
+      { error: "Image not found" },
+      { status: 404 }
+    );
+  }
+}
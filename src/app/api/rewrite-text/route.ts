@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { getAccountAiSettings } from "@/lib/ai-account";
+import { getTextProvider, isAiConfigured } from "@/lib/ai-provider";
+import { getRewriteInstruction, isRewriteAction } from "@/lib/rewrite";
+
+const MAX_TEXT_LENGTH = 20000;
+
+const FORMAT_RULES = {
+  text: "The text is plain text from inside a paragraph. Return plain text only: no HTML, no markdown and no quotes around it.",
+  html: "The text is HTML. Return HTML using only <p>, <h2>, <h3>, <ul>, <ol>, <li>, <strong>, <em> and <u>, without code fences or a wrapping document.",
+};
+
+// Models sometimes wrap their answer in a code fence anyway
+function stripFence(value: string) {
+  return value.trim().replace(/^```[a-z]*\n?/i, "").replace(/\n?```$/, "").trim();
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { action, option, text, format, pageTitle } = await request.json();
+
+    if (!isRewriteAction(action) || typeof text !== "string" || !text.trim()) {
+      return NextResponse.json(
+        { error: "A valid action and text are required" },
+        { status: 400 }
+      );
+    }
+
+    if (text.length > MAX_TEXT_LENGTH) {
+      return NextResponse.json(
+        { error: "Selection is too long" },
+        { status: 400 }
+      );
+    }
+
+    const settings = await getAccountAiSettings(user.id);
+    if (!isAiConfigured("rewrite", settings)) {
+      return NextResponse.json(
+        { error: "AI provider not configured" },
+        { status: 500 }
+      );
+    }
+
+    const content = await getTextProvider("rewrite", settings).generateText({
+      task: "rewrite",
+      messages: [
+        {
+          role: "system",
+          content: `You are an expert editor helping an author revise their ebook. ${getRewriteInstruction(action, option)}
+
+${FORMAT_RULES[format === "html" ? "html" : "text"]}
+Answer with the resulting text only, no explanations.`,
+        },
+        {
+          role: "user",
+          content: `${pageTitle ? `Page: "${pageTitle}"\n\n` : ""}<selection>
+${text}
+</selection>`,
+        },
+      ],
+      temperature: action === "grammar" ? 0.2 : 0.7,
+    });
+
+    return NextResponse.json({ result: stripFence(content) });
+  } catch (error) {
+    console.error("Error rewriting text:", error);
+    return NextResponse.json(
+      { error: (error instanceof Error && error.message) || "Failed to rewrite text" },
+      { status: 500 }
+    );
+  }
+}
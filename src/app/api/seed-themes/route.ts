@@ -1,8 +1,17 @@
 import { NextResponse } from "next/server";
 import { seedThemes } from "@/app/actions";
+import { getCurrentUser } from "@/lib/auth";
 
 export async function GET() {
   try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
     await seedThemes();
     return NextResponse.json({ success: true, message: "Themes seeded successfully" });
   } catch (error) {
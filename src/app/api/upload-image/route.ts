@@ -1,9 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
-import { writeFile } from "fs/promises";
-import path from "path";
+import { getCurrentUser } from "@/lib/auth";
+import { saveUserImage } from "@/lib/image-storage";
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
     const formData = await request.formData();
     const file = formData.get("file") as File;
 
@@ -23,12 +31,8 @@ export async function POST(request: NextRequest) {
     const originalName = file.name.replace(/\s/g, "-");
     const filename = `${timestamp}-${originalName}`;
 
-    // Save to public/images
-    const publicPath = path.join(process.cwd(), "public", "images", filename);
-    await writeFile(publicPath, buffer);
-
-    // Return public URL
-    const imageUrl = `/images/${filename}`;
+    // Save to the user's private image storage
+    const imageUrl = await saveUserImage(user.id, filename, buffer);
 
     return NextResponse.json({ imageUrl });
   } catch (error) {
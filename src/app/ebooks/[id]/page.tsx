@@ -0,0 +1,50 @@
+import { notFound, redirect } from "next/navigation";
+import { EbookBuilder } from "@/components/ebook-builder";
+import type { PageStyles } from "@/components/settings-panel";
+import { getCustomTemplates, getEbook } from "@/app/actions";
+import { getCurrentUser } from "@/lib/auth";
+import { resolvePageSetup } from "@/lib/page-setup";
+import { resolveDefaultStyles } from "@/lib/page-styles";
+import { resolveMetadata } from "@/lib/metadata";
+
+export default async function EbookPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect("/sign-in");
+  }
+
+  const { id } = await params;
+  const ebook = await getEbook(id);
+
+  if (!ebook) {
+    notFound();
+  }
+
+  const pages = ebook.pages.map((page) => ({
+    ...page,
+    customStyles: (page.customStyles ?? undefined) as PageStyles | undefined,
+  }));
+
+  const pageSetup = resolvePageSetup(ebook.pageSetup);
+  const defaultStyles = resolveDefaultStyles<PageStyles>(ebook.defaultStyles);
+  const metadata = resolveMetadata(ebook.metadata);
+  const masters = ebook.masters.map((master) => ({
+    ...master,
+    styles: resolveDefaultStyles<PageStyles>(master.styles),
+  }));
+
+  const customTemplates = await getCustomTemplates();
+
+  return (
+    <EbookBuilder
+      key={ebook.id}
+      initialEbook={{ ...ebook, pageSetup, defaultStyles, metadata, masters, pages }}
+      initialCustomTemplates={customTemplates}
+    />
+  );
+}
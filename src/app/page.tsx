@@ -1,8 +1,16 @@
-import { EbookBuilder } from "@/components/ebook-builder";
-import { getCurrentEbook } from "./actions";
+import { redirect } from "next/navigation";
+import { EbookLibrary } from "@/components/ebook-library";
+import { getCurrentUser } from "@/lib/auth";
+import { getEbooks } from "./actions";
 
 export default async function Home() {
-  const ebook = await getCurrentEbook();
+  const user = await getCurrentUser();
 
-  return <EbookBuilder initialEbook={ebook} />;
+  if (!user) {
+    redirect("/sign-in");
+  }
+
+  const ebooks = await getEbooks();
+
+  return <EbookLibrary user={user} ebooks={ebooks} />;
 }
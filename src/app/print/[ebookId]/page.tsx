@@ -0,0 +1,50 @@
+import { notFound, redirect } from "next/navigation";
+import { EbookPrintView } from "@/components/ebook-print-view";
+import type { PageStyles } from "@/components/settings-panel";
+import { getCustomTemplates, getEbook } from "@/app/actions";
+import { getCurrentUser } from "@/lib/auth";
+import { resolvePageSetup } from "@/lib/page-setup";
+import { resolveDefaultStyles, resolveMasteredStyles } from "@/lib/page-styles";
+import { resolveMetadata } from "@/lib/metadata";
+
+// Bare, unscaled rendering of every page. The PDF exporter loads this route
+// in a headless browser and prints it.
+export default async function PrintEbookPage({
+  params,
+}: {
+  params: Promise<{ ebookId: string }>;
+}) {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect("/sign-in");
+  }
+
+  const { ebookId } = await params;
+  const ebook = await getEbook(ebookId);
+
+  if (!ebook) {
+    notFound();
+  }
+
+  // Printed pages show their master's styles, then the ebook's defaults,
+  // wherever they don't set their own
+  const defaultStyles = resolveDefaultStyles<PageStyles>(ebook.defaultStyles);
+  const masters = new Map(
+    ebook.masters.map((master) => [master.id, resolveDefaultStyles<PageStyles>(master.styles)])
+  );
+  const pages = ebook.pages.map((page) => ({
+    ...page,
+    customStyles: resolveMasteredStyles(
+      defaultStyles,
+      page.masterId ? masters.get(page.masterId) : undefined,
+      page.customStyles as PageStyles | null
+    ),
+  }));
+
+  const pageSetup = resolvePageSetup(ebook.pageSetup);
+  const metadata = resolveMetadata(ebook.metadata);
+  const customTemplates = await getCustomTemplates();
+
+  return <EbookPrintView ebook={{ ...ebook, pageSetup, metadata, pages }} customTemplates={customTemplates} />;
+}
@@ -0,0 +1,13 @@
+import { redirect } from "next/navigation";
+import { AuthForm } from "@/components/auth-form";
+import { getCurrentUser } from "@/lib/auth";
+
+export default async function SignInPage() {
+  const user = await getCurrentUser();
+
+  if (user) {
+    redirect("/");
+  }
+
+  return <AuthForm />;
+}
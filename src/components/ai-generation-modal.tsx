@@ -1,32 +1,98 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "./ui/dialog";
 import { Button } from "./ui/button";
 import { Textarea } from "./ui/textarea";
 import { Input } from "./ui/input";
 import { Label } from "./ui/label";
-import { Loader2, Sparkles, X, CheckCircle2, Plus, Trash2, GripVertical } from "lucide-react";
+import { Loader2, Sparkles, X, CheckCircle2, Circle, CircleX, Plus, Trash2, GripVertical, RotateCcw } from "lucide-react";
 import { Progress } from "./ui/progress";
+import type { OutlineDraftChapter } from "@/lib/chapters";
+import type { JobPlacement, JobProgress, JobSection } from "@/lib/generation-jobs";
+import { cn } from "@/lib/utils";
 
 interface AIGenerationModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onGenerate: (description: string) => Promise<void>;
+  // A generation job added pages, which the builder should load
+  onPagesChanged: () => void;
+  // Text streamed into a page being written; `replace` starts it over
+  onPageContent: (pageId: string, delta: string, replace: boolean) => void;
+  // Called when a generation job stops, with whatever pages it wrote;
+  // `replaced` when it swapped out all the earlier pages on completing
+  onComplete: (replaced: boolean) => void;
   ebookId: string;
+  // The book's pages in reading order, to pick where generated pages go
+  pages: { id: string; title: string | null }[];
 }
 
 type GenerationStage = "idle" | "outline" | "review" | "expanding" | "complete";
 
-export function AIGenerationModal({ isOpen, onClose, onGenerate, ebookId }: AIGenerationModalProps) {
+const PLACEMENTS: { value: JobPlacement; label: string; description: string }[] = [
+  { value: "chapters", label: "Add as new chapters", description: "After the existing chapters" },
+  { value: "append", label: "Insert after a page", description: "Into that page's chapter" },
+  { value: "replace", label: "Replace all pages", description: "Current pages stay until the new ones are written" },
+];
+
+const SELECT_CLASS =
+  "w-full h-9 px-3 rounded-md border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-sm";
+
+function isRunning(job: JobProgress) {
+  return (job.status === "queued" || job.status === "running") && !job.resumable;
+}
+
+function describeJob(job: JobProgress) {
+  const current = job.sections.findIndex((section) => section.status === "running");
+  switch (job.status) {
+    case "completed":
+      return "Ebook generated successfully!";
+    case "cancelled":
+      return `Generation cancelled after ${job.completed} of ${job.total} sections`;
+    case "failed":
+      return job.error || "Generation failed";
+    default:
+      if (job.resumable) return "Generation was interrupted";
+      return current >= 0
+        ? `Writing section ${current + 1} of ${job.total}: ${job.sections[current].title}`
+        : "Waiting to start...";
+  }
+}
+
+function SectionStatusIcon({ section }: { section: JobSection }) {
+  switch (section.status) {
+    case "done":
+      return <CheckCircle2 className="w-4 h-4 text-green-600 mt-0.5 shrink-0" />;
+    case "running":
+      return <Loader2 className="w-4 h-4 text-blue-600 mt-0.5 shrink-0 animate-spin" />;
+    case "failed":
+      return <CircleX className="w-4 h-4 text-red-600 mt-0.5 shrink-0" />;
+    default:
+      return <Circle className="w-4 h-4 text-zinc-300 mt-0.5 shrink-0" />;
+  }
+}
+
+export function AIGenerationModal({ isOpen, onClose, onPagesChanged, onPageContent, onComplete, ebookId, pages }: AIGenerationModalProps) {
   const [description, setDescription] = useState("");
   const [isGenerating, setIsGenerating] = useState(false);
   const [stage, setStage] = useState<GenerationStage>("idle");
   const [progress, setProgress] = useState(0);
   const [currentStep, setCurrentStep] = useState("");
-  const [outline, setOutline] = useState<string[]>([]);
-  const [editableOutline, setEditableOutline] = useState<string[]>([]);
+  const [editableOutline, setEditableOutline] = useState<OutlineDraftChapter[]>([]);
   const [abortController, setAbortController] = useState<AbortController | null>(null);
+  const [job, setJob] = useState<JobProgress | null>(null);
+  const [placement, setPlacement] = useState<JobPlacement>("chapters");
+  // Empty means the last page
+  const [afterPageId, setAfterPageId] = useState("");
+  const [jobAction, setJobAction] = useState<"cancel" | "resume" | null>(null);
+
+  // The event stream outlives the render that opened it
+  const showJobRef = useRef<(job: JobProgress) => void>(() => {});
+  const callbacksRef = useRef({ onPagesChanged, onPageContent, onComplete });
+  useEffect(() => {
+    showJobRef.current = showJob;
+    callbacksRef.current = { onPagesChanged, onPageContent, onComplete };
+  });
 
   const handleGenerate = async () => {
     if (!description.trim()) return;
@@ -51,7 +117,6 @@ export function AIGenerationModal({ isOpen, onClose, onGenerate, ebookId }: AIGe
       if (!outlineRes.ok) throw new Error("Failed to generate outline");
 
       const outlineData = await outlineRes.json();
-      setOutline(outlineData.outline);
       setEditableOutline(outlineData.outline);
       setProgress(100);
       setCurrentStep("Outline ready for review!");
@@ -71,64 +136,59 @@ export function AIGenerationModal({ isOpen, onClose, onGenerate, ebookId }: AIGe
     }
   };
 
+  // Sections are written by a job on the server; the dialog only starts it
+  // and follows its progress
   const handleGenerateContent = async () => {
-    setIsGenerating(true);
     setStage("expanding");
-    setProgress(10);
-    setCurrentStep("Generating content...");
-
-    const controller = new AbortController();
-    setAbortController(controller);
+    setProgress(0);
+    setCurrentStep("Starting generation...");
 
     try {
-      // Stage 2: Expand each section
-      const totalSections = editableOutline.length;
-
-      for (let i = 0; i < totalSections; i++) {
-        if (controller.signal.aborted) {
-          throw new Error("Generation cancelled");
-        }
-
-        setCurrentStep(`Writing section ${i + 1} of ${totalSections}: ${editableOutline[i]}`);
-
-        const expandRes = await fetch("/api/generate-content", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            ebookId,
-            sectionTitle: editableOutline[i],
-            sectionIndex: i,
-            totalSections,
-            description,
-          }),
-          signal: controller.signal,
-        });
-
-        if (!expandRes.ok) throw new Error(`Failed to generate section ${i + 1}`);
-
-        const progressPercent = 10 + ((i + 1) / totalSections) * 85;
-        setProgress(progressPercent);
-      }
-
-      setProgress(100);
-      setStage("complete");
-      setCurrentStep("Ebook generated successfully!");
+      const response = await fetch("/api/generation-jobs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ebookId,
+          description,
+          outline: editableOutline,
+          placement: pages.length > 0 ? placement : "chapters",
+          afterPageId: afterPageId || pages[pages.length - 1]?.id,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to start generation");
+
+      showJob(data.job);
+      onPagesChanged();
+    } catch (error) {
+      console.error("Generation error:", error);
+      setCurrentStep("Error starting generation. Please try again.");
+      setStage("review");
+    }
+  };
 
-      // Wait a bit before closing
-      setTimeout(() => {
-        handleClose();
-        window.location.reload(); // Refresh to show new pages
-      }, 2000);
+  const showJob = (next: JobProgress) => {
+    setJob(next);
+    setProgress(next.total > 0 ? (next.completed / next.total) * 100 : 0);
+    setCurrentStep(describeJob(next));
+    if (next.status === "completed") setStage("complete");
+    else setStage("expanding");
+  };
 
-    } catch (error: any) {
-      if (error.name === "AbortError" || error.message === "Generation cancelled") {
-        setCurrentStep("Generation cancelled");
-      } else {
-        console.error("Generation error:", error);
-        setCurrentStep("Error generating ebook. Please try again.");
-      }
-      setIsGenerating(false);
-      setStage("idle");
+  const handleJobAction = async (action: "cancel" | "resume") => {
+    if (!job) return;
+    setJobAction(action);
+    try {
+      const response = await fetch(`/api/generation-jobs/${job.id}/${action}`, { method: "POST" });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `Failed to ${action} generation`);
+      showJob(data.job);
+      if (!isRunning(data.job)) onComplete(false);
+    } catch (error) {
+      console.error(`Failed to ${action} generation:`, error);
+      alert(`Failed to ${action} generation. Please try again.`);
+    } finally {
+      setJobAction(null);
     }
   };
 
@@ -143,21 +203,86 @@ export function AIGenerationModal({ isOpen, onClose, onGenerate, ebookId }: AIGe
     setCurrentStep("");
   };
 
-  const handleClose = () => {
-    if (isGenerating) {
-      handleCancel();
-    }
+  const reset = () => {
     setDescription("");
     setProgress(0);
     setStage("idle");
     setCurrentStep("");
-    setOutline([]);
     setEditableOutline([]);
+    setJob(null);
+    setPlacement("chapters");
+    setAfterPageId("");
+  };
+
+  const handleStartOver = () => {
+    reset();
+    onClose();
+  };
+
+  // A running job carries on without the dialog and is shown again when
+  // it's reopened
+  const handleClose = () => {
+    if (isGenerating) {
+      handleCancel();
+    }
+    if (!job || !isRunning(job)) reset();
     onClose();
   };
 
+  const jobId = job?.id;
+  const jobRunning = !!job && isRunning(job);
+
+  // Follow the job until it stops, even with the dialog closed, so the
+  // builder shows each page as soon as it's created and as it's written
+  useEffect(() => {
+    if (!jobId || !jobRunning) return;
+
+    const knownPages = new Set<string>();
+    const source = new EventSource(`/api/generation-jobs/${jobId}/events`);
+
+    source.addEventListener("progress", (event) => {
+      const next: JobProgress = JSON.parse(event.data);
+      const created = next.sections.some((section) => section.pageId && !knownPages.has(section.pageId));
+      next.sections.forEach((section) => section.pageId && knownPages.add(section.pageId));
+
+      showJobRef.current(next);
+      if (!isRunning(next)) callbacksRef.current.onComplete(next.status === "completed" && next.replacing);
+      else if (created) callbacksRef.current.onPagesChanged();
+    });
+
+    source.addEventListener("content", (event) => {
+      const { pageId, delta, replace } = JSON.parse(event.data);
+      callbacksRef.current.onPageContent(pageId, delta, replace);
+    });
+
+    // Without this the browser would reconnect once the server closes
+    source.addEventListener("end", () => source.close());
+
+    return () => source.close();
+  }, [jobId, jobRunning]);
+
+  // Reattach to a job that is still going, or stopped part way, e.g. after
+  // the page was reloaded
+  useEffect(() => {
+    if (!isOpen || jobId) return;
+
+    let cancelled = false;
+    fetch(`/api/generation-jobs?ebookId=${ebookId}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        const latest: JobProgress | null = data?.job ?? null;
+        if (cancelled || !latest) return;
+        if (isRunning(latest) || latest.status === "failed") showJobRef.current(latest);
+      })
+      .catch((error) => console.error("Failed to load generation job:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, jobId, ebookId]);
+
   const handleAddChapter = () => {
-    setEditableOutline([...editableOutline, "New Chapter"]);
+    setEditableOutline([...editableOutline, { title: "New Chapter", sections: [] }]);
   };
 
   const handleRemoveChapter = (index: number) => {
@@ -166,7 +291,7 @@ export function AIGenerationModal({ isOpen, onClose, onGenerate, ebookId }: AIGe
 
   const handleEditChapter = (index: number, value: string) => {
     const newOutline = [...editableOutline];
-    newOutline[index] = value;
+    newOutline[index] = { ...newOutline[index], title: value };
     setEditableOutline(newOutline);
   };
 
@@ -180,6 +305,14 @@ export function AIGenerationModal({ isOpen, onClose, onGenerate, ebookId }: AIGe
     setEditableOutline(newOutline);
   };
 
+  const updateSections = (index: number, update: (sections: string[]) => string[]) => {
+    const newOutline = [...editableOutline];
+    newOutline[index] = { ...newOutline[index], sections: update(newOutline[index].sections) };
+    setEditableOutline(newOutline);
+  };
+
+  const totalPages = editableOutline.reduce((sum, chapter) => sum + Math.max(1, chapter.sections.length), 0);
+
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[600px]">
@@ -243,40 +376,75 @@ export function AIGenerationModal({ isOpen, onClose, onGenerate, ebookId }: AIGe
 
                 <div className="bg-zinc-50 dark:bg-zinc-900 rounded-lg p-3 space-y-2 max-h-[400px] overflow-y-auto">
                   {editableOutline.map((chapter, index) => (
-                    <div key={index} className="flex items-center gap-2 bg-white dark:bg-zinc-800 rounded-lg p-3 border border-zinc-200 dark:border-zinc-700">
-                      <GripVertical className="w-4 h-4 text-zinc-400 shrink-0 cursor-move" />
-                      <Input
-                        value={chapter}
-                        onChange={(e) => handleEditChapter(index, e.target.value)}
-                        className="flex-1 h-8 text-sm"
-                      />
-                      <div className="flex gap-1 shrink-0">
-                        <Button
-                          size="icon"
-                          variant="ghost"
-                          className="h-8 w-8"
-                          onClick={() => handleMoveChapter(index, "up")}
-                          disabled={index === 0}
-                        >
-                          ↑
-                        </Button>
-                        <Button
-                          size="icon"
-                          variant="ghost"
-                          className="h-8 w-8"
-                          onClick={() => handleMoveChapter(index, "down")}
-                          disabled={index === editableOutline.length - 1}
-                        >
-                          ↓
-                        </Button>
+                    <div key={index} className="bg-white dark:bg-zinc-800 rounded-lg p-3 border border-zinc-200 dark:border-zinc-700 space-y-2">
+                      <div className="flex items-center gap-2">
+                        <GripVertical className="w-4 h-4 text-zinc-400 shrink-0 cursor-move" />
+                        <Input
+                          value={chapter.title}
+                          onChange={(e) => handleEditChapter(index, e.target.value)}
+                          className="flex-1 h-8 text-sm font-medium"
+                        />
+                        <div className="flex gap-1 shrink-0">
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-8 w-8"
+                            onClick={() => handleMoveChapter(index, "up")}
+                            disabled={index === 0}
+                          >
+                            ↑
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-8 w-8"
+                            onClick={() => handleMoveChapter(index, "down")}
+                            disabled={index === editableOutline.length - 1}
+                          >
+                            ↓
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-8 w-8 hover:bg-red-100 hover:text-red-600"
+                            onClick={() => handleRemoveChapter(index)}
+                            disabled={editableOutline.length === 1}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+
+                      <div className="ml-6 pl-3 border-l border-zinc-200 dark:border-zinc-700 space-y-1.5">
+                        {chapter.sections.map((section, sectionIndex) => (
+                          <div key={sectionIndex} className="flex items-center gap-2">
+                            <Input
+                              value={section}
+                              onChange={(e) =>
+                                updateSections(index, (sections) =>
+                                  sections.map((s, i) => (i === sectionIndex ? e.target.value : s))
+                                )
+                              }
+                              className="flex-1 h-7 text-xs"
+                            />
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-7 w-7 hover:bg-red-100 hover:text-red-600"
+                              onClick={() => updateSections(index, (sections) => sections.filter((_, i) => i !== sectionIndex))}
+                            >
+                              <X className="w-3.5 h-3.5" />
+                            </Button>
+                          </div>
+                        ))}
                         <Button
-                          size="icon"
+                          size="sm"
                           variant="ghost"
-                          className="h-8 w-8 hover:bg-red-100 hover:text-red-600"
-                          onClick={() => handleRemoveChapter(index)}
-                          disabled={editableOutline.length === 1}
+                          className="h-7 gap-1 px-2 text-xs text-zinc-600 dark:text-zinc-400"
+                          onClick={() => updateSections(index, (sections) => [...sections, "New Section"])}
                         >
-                          <Trash2 className="w-4 h-4" />
+                          <Plus className="w-3.5 h-3.5" />
+                          Add Section
                         </Button>
                       </div>
                     </div>
@@ -284,10 +452,52 @@ export function AIGenerationModal({ isOpen, onClose, onGenerate, ebookId }: AIGe
                 </div>
 
                 <p className="text-xs text-zinc-500">
-                  Review and edit the chapters. You can add, remove, reorder, or rename them. Each chapter will be expanded into detailed content.
+                  Review and edit the chapters and their sections. Each section is expanded into its own page; a chapter without sections becomes a single page.
                 </p>
               </div>
 
+              {pages.length > 0 && (
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Where should the new pages go?</Label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {PLACEMENTS.map((option) => (
+                      <button
+                        key={option.value}
+                        type="button"
+                        onClick={() => setPlacement(option.value)}
+                        className={cn(
+                          "rounded-lg border p-2 text-left transition-colors",
+                          placement === option.value
+                            ? "border-blue-600 bg-blue-50 dark:bg-blue-950/50"
+                            : "border-zinc-200 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800"
+                        )}
+                      >
+                        <div className={cn("text-xs font-medium", option.value === "replace" && "text-red-600")}>
+                          {option.label}
+                        </div>
+                        <div className="text-[11px] text-zinc-500 mt-0.5">{option.description}</div>
+                      </button>
+                    ))}
+                  </div>
+                  {placement === "append" && (
+                    <select
+                      value={afterPageId || pages[pages.length - 1].id}
+                      onChange={(e) => setAfterPageId(e.target.value)}
+                      className={SELECT_CLASS}
+                    >
+                      {pages.map((page, index) => (
+                        <option key={page.id} value={page.id}>
+                          After page {index + 1}: {page.title || "Untitled"}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  <p className="text-xs text-zinc-500">
+                    Nothing changes until you start generating. A snapshot of the book is saved first; restore it from the history button in the header.
+                  </p>
+                </div>
+              )}
+
               <div className="flex justify-end gap-2">
                 <Button variant="outline" onClick={handleClose}>
                   Cancel
@@ -298,7 +508,7 @@ export function AIGenerationModal({ isOpen, onClose, onGenerate, ebookId }: AIGe
                   className="gap-2"
                 >
                   <Sparkles className="w-4 h-4" />
-                  Generate Content ({editableOutline.length} chapters)
+                  Generate Content ({editableOutline.length} chapters, {totalPages} pages)
                 </Button>
               </div>
             </>
@@ -316,40 +526,80 @@ export function AIGenerationModal({ isOpen, onClose, onGenerate, ebookId }: AIGe
                   <Progress value={progress} className="h-2" />
                 </div>
 
-                {/* Outline Preview */}
-                {outline.length > 0 && (
-                  <div className="space-y-2">
-                    <Label className="text-sm font-medium">Outline:</Label>
-                    <div className="bg-zinc-50 dark:bg-zinc-900 rounded-lg p-4 space-y-1 max-h-[200px] overflow-y-auto">
-                      {outline.map((item, index) => (
-                        <div key={index} className="flex items-start gap-2 text-sm">
-                          <CheckCircle2 className="w-4 h-4 text-green-600 mt-0.5 shrink-0" />
-                          <span className="text-zinc-700 dark:text-zinc-300">{item}</span>
+                {/* Section Progress */}
+                {job && (
+                  <div className="bg-zinc-50 dark:bg-zinc-900 rounded-lg p-4 space-y-1 max-h-[260px] overflow-y-auto">
+                    {job.sections.map((section, index) => (
+                      <div key={index} className="space-y-1">
+                        {section.chapterTitle !== job.sections[index - 1]?.chapterTitle && (
+                          <div className="text-sm font-medium text-zinc-700 dark:text-zinc-300 pt-1">
+                            {section.chapterTitle}
+                          </div>
+                        )}
+                        <div className="flex items-start gap-2 text-xs text-zinc-600 dark:text-zinc-400">
+                          <SectionStatusIcon section={section} />
+                          <span className="flex-1">{section.title}</span>
+                          {section.attempts > 1 && section.status !== "pending" && (
+                            <span className="text-zinc-400">attempt {section.attempts}</span>
+                          )}
                         </div>
-                      ))}
-                    </div>
+                        {section.status === "failed" && section.error && (
+                          <div className="ml-6 text-xs text-red-600">{section.error}</div>
+                        )}
+                      </div>
+                    ))}
                   </div>
                 )}
 
                 {/* Stage Indicator */}
-                <div className="flex items-center gap-2 text-sm text-zinc-600 dark:text-zinc-400">
-                  <Loader2 className="w-4 h-4 animate-spin" />
-                  {stage === "outline" && "Analyzing your topic and creating outline..."}
-                  {stage === "expanding" && "Writing detailed content for each section..."}
-                  {stage === "complete" && "Finalizing your ebook..."}
-                </div>
+                {(stage === "outline" || (job && isRunning(job))) && (
+                  <div className="flex items-center gap-2 text-sm text-zinc-600 dark:text-zinc-400">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    {stage === "outline"
+                      ? "Analyzing your topic and creating outline..."
+                      : "Writing detailed content for each section. You can close this window; generation carries on."}
+                  </div>
+                )}
               </div>
 
-              <div className="flex justify-end">
-                <Button
-                  variant="outline"
-                  onClick={handleCancel}
-                  className="gap-2"
-                  disabled={stage === "complete"}
-                >
-                  <X className="w-4 h-4" />
-                  Cancel Generation
-                </Button>
+              <div className="flex justify-end gap-2">
+                {!job ? (
+                  <Button
+                    variant="outline"
+                    onClick={handleCancel}
+                    className="gap-2"
+                    disabled={stage === "expanding"}
+                  >
+                    <X className="w-4 h-4" />
+                    Cancel Generation
+                  </Button>
+                ) : isRunning(job) ? (
+                  <Button
+                    variant="outline"
+                    onClick={() => handleJobAction("cancel")}
+                    className="gap-2"
+                    disabled={jobAction !== null}
+                  >
+                    {jobAction === "cancel" ? <Loader2 className="w-4 h-4 animate-spin" /> : <X className="w-4 h-4" />}
+                    Cancel Generation
+                  </Button>
+                ) : (
+                  <>
+                    <Button variant="outline" onClick={handleStartOver}>
+                      {job.status === "completed" ? "Done" : "Close"}
+                    </Button>
+                    {job.resumable && (
+                      <Button
+                        onClick={() => handleJobAction("resume")}
+                        className="gap-2"
+                        disabled={jobAction !== null}
+                      >
+                        {jobAction === "resume" ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                        Resume ({job.total - job.completed} left)
+                      </Button>
+                    )}
+                  </>
+                )}
               </div>
             </>
           ) : null}
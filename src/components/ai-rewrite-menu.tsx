@@ -0,0 +1,285 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { createNodeFromContent, getHTMLFromFragment, type Editor } from "@tiptap/react";
+import { BubbleMenu } from "@tiptap/react/menus";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Check, ChevronRight, Loader2, RotateCcw, Sparkles, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  REWRITE_ACTIONS,
+  REWRITE_OPTIONS,
+  appendsToSelection,
+  getRewriteLabel,
+  needsBlocks,
+  type RewriteAction,
+  type RewriteFormat,
+} from "@/lib/rewrite";
+
+interface AIRewriteMenuProps {
+  editor: Editor;
+  pageTitle: string;
+}
+
+// The part of the document an action works on, captured when it's picked
+interface RewriteTarget {
+  action: RewriteAction;
+  option?: string;
+  from: number;
+  to: number;
+  format: RewriteFormat;
+  // Plain text or HTML, depending on the format
+  original: string;
+  // Document the positions belong to
+  doc: Editor["state"]["doc"];
+}
+
+type HtmlFragment = Parameters<typeof getHTMLFromFragment>[0];
+
+// A selection inside one paragraph is edited as plain text in place; a
+// larger one is widened to the blocks it touches and edited as HTML
+function captureTarget(editor: Editor, action: RewriteAction, option?: string): RewriteTarget {
+  const { doc, selection } = editor.state;
+  const { from, to, $from, $to } = selection;
+
+  if ($from.sameParent($to) && $from.parent.isTextblock && !needsBlocks(action)) {
+    return { action, option, from, to, format: "text", original: doc.textBetween(from, to, " "), doc };
+  }
+
+  const start = $from.depth > 0 ? $from.before(1) : from;
+  const end = $to.depth > 0 ? $to.after(1) : to;
+  return {
+    action,
+    option,
+    from: start,
+    to: end,
+    format: "html",
+    original: getHTMLFromFragment(doc.slice(start, end).content, editor.schema),
+    doc,
+  };
+}
+
+// Model output only keeps what the editor itself can hold
+function toEditorHtml(editor: Editor, html: string) {
+  const fragment = createNodeFromContent(html, editor.schema) as HtmlFragment;
+  return getHTMLFromFragment(fragment, editor.schema);
+}
+
+export function AIRewriteMenu({ editor, pageTitle }: AIRewriteMenuProps) {
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [expanded, setExpanded] = useState<RewriteAction | null>(null);
+  const [target, setTarget] = useState<RewriteTarget | null>(null);
+  const [result, setResult] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  // Only the latest request may show its answer
+  const requestRef = useRef(0);
+
+  const runRewrite = async (next: RewriteTarget) => {
+    const request = ++requestRef.current;
+    setLoading(true);
+    setError("");
+    setResult("");
+    try {
+      const response = await fetch("/api/rewrite-text", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: next.action,
+          option: next.option,
+          text: next.original,
+          format: next.format,
+          pageTitle,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to rewrite text");
+
+      const suggestion = next.format === "html" ? toEditorHtml(editor, data.result) : data.result.trim();
+      if (!suggestion) throw new Error("The AI returned no text");
+      if (request === requestRef.current) setResult(suggestion);
+    } catch (error) {
+      console.error("Failed to rewrite text:", error);
+      if (request === requestRef.current) setError("Couldn't get a suggestion. Please try again.");
+    } finally {
+      if (request === requestRef.current) setLoading(false);
+    }
+  };
+
+  const handlePick = (action: RewriteAction, option?: string) => {
+    if (REWRITE_OPTIONS[action] && !option) {
+      setExpanded(expanded === action ? null : action);
+      return;
+    }
+
+    const next = captureTarget(editor, action, option);
+    setMenuOpen(false);
+    setExpanded(null);
+    setTarget(next);
+    runRewrite(next);
+  };
+
+  const handleClose = () => {
+    requestRef.current++;
+    setLoading(false);
+    setTarget(null);
+    setResult("");
+    setError("");
+  };
+
+  const handleAccept = () => {
+    if (!target || !result) return;
+
+    // Positions are only valid for the document they were taken from
+    if (editor.state.doc !== target.doc) {
+      alert("The page changed while the suggestion was being written. Please select the text and try again.");
+      handleClose();
+      return;
+    }
+
+    const append = appendsToSelection(target.action);
+    const content = target.format === "text" ? { type: "text", text: append ? ` ${result}` : result } : result;
+    editor
+      .chain()
+      .focus()
+      .insertContentAt(append ? target.to : { from: target.from, to: target.to }, content)
+      .run();
+    handleClose();
+  };
+
+  const renderText = (value: string, format: RewriteFormat) =>
+    format === "html" ? (
+      <div className="prose prose-sm max-w-none dark:prose-invert" dangerouslySetInnerHTML={{ __html: value }} />
+    ) : (
+      <p className="text-sm whitespace-pre-wrap">{value}</p>
+    );
+
+  return (
+    <>
+      <BubbleMenu
+        editor={editor}
+        options={{
+          placement: "bottom-start",
+          flip: true,
+          shift: true,
+          onHide: () => {
+            setMenuOpen(false);
+            setExpanded(null);
+          },
+        }}
+        className="rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 shadow-lg"
+      >
+        {/* Keeps the editor selection while the menu is used */}
+        <div onMouseDown={(e) => e.preventDefault()}>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-8 gap-1.5 text-xs"
+            onClick={() => {
+              setMenuOpen(!menuOpen);
+              setExpanded(null);
+            }}
+          >
+            <Sparkles className="w-3.5 h-3.5 text-blue-600" />
+            AI
+          </Button>
+
+          {menuOpen && (
+            <div className="w-56 border-t border-zinc-200 dark:border-zinc-700 p-1">
+              {REWRITE_ACTIONS.map((action) => (
+                <div key={action.value}>
+                  <button
+                    type="button"
+                    onClick={() => handlePick(action.value)}
+                    className="w-full flex items-center justify-between rounded-md px-2 py-1.5 text-left text-sm text-zinc-700 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                  >
+                    {action.label}
+                    {REWRITE_OPTIONS[action.value] && (
+                      <ChevronRight
+                        className={cn("w-3.5 h-3.5 transition-transform", expanded === action.value && "rotate-90")}
+                      />
+                    )}
+                  </button>
+                  {expanded === action.value &&
+                    REWRITE_OPTIONS[action.value]?.map((option) => (
+                      <button
+                        key={option.value}
+                        type="button"
+                        onClick={() => handlePick(action.value, option.value)}
+                        className="w-full rounded-md py-1 pl-5 pr-2 text-left text-xs text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </BubbleMenu>
+
+      <Dialog open={!!target} onOpenChange={(open) => !open && handleClose()}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Sparkles className="w-5 h-5 text-blue-600" />
+              {target ? getRewriteLabel(target.action, target.option) : "AI"}
+            </DialogTitle>
+            <DialogDescription>
+              Compare the suggestion with your text. Nothing changes until you accept it.
+            </DialogDescription>
+          </DialogHeader>
+
+          {target && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2 min-w-0">
+                <div className="text-xs font-medium text-zinc-500">Original</div>
+                <div className="rounded-lg border border-zinc-200 dark:border-zinc-700 p-3 max-h-[50vh] overflow-y-auto">
+                  {renderText(target.original, target.format)}
+                </div>
+              </div>
+              <div className="space-y-2 min-w-0">
+                <div className="text-xs font-medium text-zinc-500">
+                  {appendsToSelection(target.action) ? "Added after your text" : "Suggestion"}
+                </div>
+                <div className="rounded-lg border border-blue-200 dark:border-blue-900 bg-blue-50/50 dark:bg-blue-950/20 p-3 max-h-[50vh] overflow-y-auto">
+                  {loading ? (
+                    <div className="flex items-center gap-2 text-sm text-zinc-500">
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      Writing...
+                    </div>
+                  ) : error ? (
+                    <p className="text-sm text-red-600">{error}</p>
+                  ) : (
+                    renderText(result, target.format)
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={handleClose} className="gap-2">
+              <X className="w-4 h-4" />
+              Reject
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => target && runRewrite(target)}
+              disabled={loading}
+              className="gap-2"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Try again
+            </Button>
+            <Button onClick={handleAccept} disabled={loading || !result} className="gap-2">
+              <Check className="w-4 h-4" />
+              Accept
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
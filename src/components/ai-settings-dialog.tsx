@@ -0,0 +1,221 @@
+"use client";
+
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Loader2, Sparkles } from "lucide-react";
+import { updateAiSettings } from "@/app/actions";
+import type { AiProviderName, AiTask } from "@/lib/ai-provider";
+import {
+  AI_TASKS,
+  type AiEndpointInput,
+  type AiEndpointView,
+  type AiSettingsView,
+} from "@/lib/ai-settings";
+
+interface AiSettingsDialogProps {
+  settings: AiSettingsView;
+  onClose: () => void;
+}
+
+type EndpointKind = "text" | "image";
+
+// "default" leaves the kind of generation on the deployment's provider
+type ProviderChoice = "default" | AiProviderName;
+
+interface EndpointDraft {
+  provider: ProviderChoice;
+  baseUrl: string;
+  // Typed here to replace the saved key; empty keeps it
+  apiKey: string;
+  hasApiKey: boolean;
+  removeApiKey: boolean;
+}
+
+const ENDPOINTS: { kind: EndpointKind; label: string; hint: string }[] = [
+  { kind: "text", label: "Text", hint: "Outlines, page content and rewriting" },
+  { kind: "image", label: "Images", hint: "Generated illustrations" },
+];
+
+const SELECT_CLASS =
+  "w-full h-9 px-3 rounded-md border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-sm";
+
+function toDraft(endpoint: AiEndpointView | null): EndpointDraft {
+  return {
+    provider: endpoint?.provider ?? "default",
+    baseUrl: endpoint?.baseUrl ?? "",
+    apiKey: "",
+    hasApiKey: endpoint?.hasApiKey ?? false,
+    removeApiKey: false,
+  };
+}
+
+function toInput(draft: EndpointDraft): AiEndpointInput | null {
+  if (draft.provider === "default") return null;
+  return {
+    provider: draft.provider,
+    baseUrl: draft.baseUrl.trim() || null,
+    apiKey: draft.apiKey.trim() || (draft.removeApiKey ? "" : undefined),
+  };
+}
+
+// Shown only once the settings have loaded, so it starts from them
+export function AiSettingsDialog({ settings, onClose }: AiSettingsDialogProps) {
+  const [endpoints, setEndpoints] = useState<Record<EndpointKind, EndpointDraft>>({
+    text: toDraft(settings.text),
+    image: toDraft(settings.image),
+  });
+  const [models, setModels] = useState(settings.models);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const updateEndpoint = (kind: EndpointKind, changes: Partial<EndpointDraft>) => {
+    setEndpoints((prev) => ({ ...prev, [kind]: { ...prev[kind], ...changes } }));
+  };
+
+  const setModel = (task: AiTask, value: string) => {
+    setModels((prev) => ({ ...prev, [task]: value }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await updateAiSettings({
+        text: toInput(endpoints.text),
+        image: toInput(endpoints.image),
+        models,
+      });
+      if (result.error) {
+        setError(result.error);
+        return;
+      }
+      onClose();
+    } catch (error) {
+      console.error("Failed to save AI settings:", error);
+      setError("Failed to save AI settings. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Sparkles className="w-5 h-5 text-blue-600" />
+            AI Settings
+          </DialogTitle>
+          <DialogDescription>
+            Use your own OpenAI-compatible endpoint and models for your books. Anything left on the default uses this
+            server&apos;s provider.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 py-2">
+          {ENDPOINTS.map(({ kind, label, hint }) => {
+            const endpoint = endpoints[kind];
+            return (
+              <div key={kind} className="space-y-2">
+                <Label htmlFor={`ai-${kind}-provider`} className="text-xs text-zinc-600 dark:text-zinc-400">
+                  {label} <span className="font-normal text-zinc-500">· {hint}</span>
+                </Label>
+                <select
+                  id={`ai-${kind}-provider`}
+                  className={SELECT_CLASS}
+                  value={endpoint.provider}
+                  onChange={(e) => updateEndpoint(kind, { provider: e.target.value as ProviderChoice })}
+                >
+                  <option value="default">Server default</option>
+                  <option value="openai">OpenAI or compatible endpoint</option>
+                  <option value="mock">Mock (offline samples)</option>
+                </select>
+
+                {endpoint.provider === "openai" && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label htmlFor={`ai-${kind}-base-url`} className="text-xs font-normal">
+                        Base URL
+                      </Label>
+                      <Input
+                        id={`ai-${kind}-base-url`}
+                        value={endpoint.baseUrl}
+                        placeholder="https://api.openai.com/v1"
+                        onChange={(e) => updateEndpoint(kind, { baseUrl: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor={`ai-${kind}-api-key`} className="text-xs font-normal">
+                        API key
+                      </Label>
+                      <Input
+                        id={`ai-${kind}-api-key`}
+                        type="password"
+                        autoComplete="off"
+                        value={endpoint.apiKey}
+                        disabled={!settings.canSaveApiKeys}
+                        placeholder={
+                          endpoint.hasApiKey && !endpoint.removeApiKey ? "Saved, type to replace" : "None"
+                        }
+                        onChange={(e) => updateEndpoint(kind, { apiKey: e.target.value })}
+                      />
+                      {endpoint.hasApiKey && !endpoint.removeApiKey && (
+                        <button
+                          type="button"
+                          className="text-xs text-zinc-500 hover:text-red-600"
+                          onClick={() => updateEndpoint(kind, { apiKey: "", removeApiKey: true })}
+                        >
+                          Remove saved key
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {!settings.canSaveApiKeys && (
+            <p className="text-xs text-zinc-500 dark:text-zinc-400">
+              This server can&apos;t store API keys, so only endpoints that need no key can be used.
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label className="text-xs text-zinc-600 dark:text-zinc-400">Models</Label>
+            <div className="grid grid-cols-2 gap-3">
+              {AI_TASKS.map(({ task, label }) => (
+                <div key={task} className="space-y-1">
+                  <Label htmlFor={`ai-model-${task}`} className="text-xs font-normal">
+                    {label}
+                  </Label>
+                  <Input
+                    id={`ai-model-${task}`}
+                    value={models[task] ?? ""}
+                    placeholder="Default"
+                    onChange={(e) => setModel(task, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving} className="bg-blue-600 hover:bg-blue-700">
+            {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { BookOpen, Loader2 } from "lucide-react";
+import { signIn, signUp } from "@/app/actions";
+
+export function AuthForm() {
+  const router = useRouter();
+  const [mode, setMode] = useState<"sign-in" | "sign-up">("sign-in");
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const isSignUp = mode === "sign-up";
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const result = isSignUp
+        ? await signUp({ name, email, password })
+        : await signIn(email, password);
+
+      if (result.error) {
+        setError(result.error);
+        setSubmitting(false);
+        return;
+      }
+
+      router.push("/");
+      router.refresh();
+    } catch (error) {
+      console.error("Authentication failed:", error);
+      setError("Something went wrong. Please try again.");
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-zinc-50 dark:bg-zinc-950 p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2 w-10 h-10 rounded-xl bg-gradient-to-br from-blue-600 to-blue-700 flex items-center justify-center shadow-lg shadow-blue-600/20">
+            <BookOpen className="w-5 h-5 text-white" />
+          </div>
+          <CardTitle>{isSignUp ? "Create your account" : "Sign in"}</CardTitle>
+          <CardDescription>
+            {isSignUp ? "Start building ebooks with AI" : "Welcome back to Ebook AI Builder"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {isSignUp && (
+              <div className="space-y-2">
+                <Label htmlFor="name">Name</Label>
+                <Input
+                  id="name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  autoComplete="name"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                autoComplete="email"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete={isSignUp ? "new-password" : "current-password"}
+                minLength={isSignUp ? 8 : undefined}
+                required
+              />
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            )}
+
+            <Button type="submit" className="w-full bg-blue-600 hover:bg-blue-700" disabled={submitting}>
+              {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+              {isSignUp ? "Create account" : "Sign in"}
+            </Button>
+          </form>
+
+          <p className="mt-4 text-center text-sm text-zinc-500 dark:text-zinc-400">
+            {isSignUp ? "Already have an account?" : "New here?"}{" "}
+            <button
+              type="button"
+              className="font-medium text-blue-600 hover:underline"
+              onClick={() => {
+                setMode(isSignUp ? "sign-in" : "sign-up");
+                setError(null);
+              }}
+            >
+              {isSignUp ? "Sign in" : "Create an account"}
+            </button>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
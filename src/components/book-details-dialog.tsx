@@ -0,0 +1,385 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
+import { BookUser, Loader2, Plus, Trash2, X } from "lucide-react";
+import {
+  BISAC_CATEGORIES,
+  CONTRIBUTOR_ROLES,
+  DEFAULT_RIGHTS,
+  LANGUAGES,
+  MAX_BISAC,
+  MAX_KEYWORDS,
+  isPublicationDate,
+  isValidIsbn,
+  type ContributorRole,
+  type EbookMetadata,
+} from "@/lib/metadata";
+
+interface BookDetailsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  metadata: EbookMetadata;
+  onSave: (metadata: EbookMetadata) => Promise<void>;
+}
+
+type StringField = {
+  [K in keyof EbookMetadata]: EbookMetadata[K] extends string ? K : never;
+}[keyof EbookMetadata];
+
+type TextField = { key: StringField; label: string; placeholder: string };
+
+const IDENTIFIER_FIELDS: TextField[] = [
+  { key: "isbn", label: "ISBN", placeholder: "978-3-16-148410-0" },
+  { key: "asin", label: "ASIN", placeholder: "B0XXXXXXXX" },
+];
+
+const PUBLISHING_FIELDS: TextField[] = [
+  { key: "publisher", label: "Publisher", placeholder: "Northwind Press" },
+  { key: "publicationDate", label: "Publication date", placeholder: "YYYY-MM-DD" },
+];
+
+const CTA_FIELDS: TextField[] = [
+  { key: "ctaLabel", label: "Button label", placeholder: "Get the free workbook" },
+  { key: "ctaUrl", label: "Button link", placeholder: "example.com/workbook" },
+];
+
+const SELECT_CLASS =
+  "w-full h-9 px-3 rounded-md border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-sm";
+
+// Keywords are typed as one comma separated line
+function parseKeywords(text: string) {
+  const keywords = text.split(",").map((keyword) => keyword.trim()).filter(Boolean);
+  return [...new Set(keywords)].slice(0, MAX_KEYWORDS);
+}
+
+export function BookDetailsDialog({ isOpen, onClose, metadata, onSave }: BookDetailsDialogProps) {
+  const [draft, setDraft] = useState<EbookMetadata>(metadata);
+  const [keywordsText, setKeywordsText] = useState(metadata.keywords.join(", "));
+  const [saving, setSaving] = useState(false);
+
+  // Start from the saved details every time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setDraft(metadata);
+    setKeywordsText(metadata.keywords.join(", "));
+  }, [isOpen, metadata]);
+
+  const setField = (key: StringField, value: string) => {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const updateContributor = (index: number, changes: { name?: string; role?: ContributorRole }) => {
+    setDraft((prev) => ({
+      ...prev,
+      contributors: prev.contributors.map((contributor, i) =>
+        i === index ? { ...contributor, ...changes } : contributor
+      ),
+    }));
+  };
+
+  const addContributor = () => {
+    setDraft((prev) => ({
+      ...prev,
+      // The first person added is usually the author
+      contributors: [
+        ...prev.contributors,
+        { name: "", role: prev.contributors.length === 0 ? "author" : "contributor" },
+      ],
+    }));
+  };
+
+  const removeContributor = (index: number) => {
+    setDraft((prev) => ({ ...prev, contributors: prev.contributors.filter((_, i) => i !== index) }));
+  };
+
+  const addCategory = (code: string) => {
+    if (!code) return;
+    setDraft((prev) =>
+      prev.bisac.includes(code) || prev.bisac.length >= MAX_BISAC
+        ? prev
+        : { ...prev, bisac: [...prev.bisac, code] }
+    );
+  };
+
+  const removeCategory = (code: string) => {
+    setDraft((prev) => ({ ...prev, bisac: prev.bisac.filter((item) => item !== code) }));
+  };
+
+  const keywords = parseKeywords(keywordsText);
+  const dateError = draft.publicationDate.trim() !== "" && !isPublicationDate(draft.publicationDate.trim());
+  const isbnError = draft.isbn.trim() !== "" && !isValidIsbn(draft.isbn);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave({
+        ...draft,
+        contributors: draft.contributors
+          .map((contributor) => ({ ...contributor, name: contributor.name.trim() }))
+          .filter((contributor) => contributor.name),
+        keywords,
+      });
+      onClose();
+    } catch (error) {
+      console.error("Failed to save book details:", error);
+      alert("Failed to save book details. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderFields = (fields: TextField[]) =>
+    fields.map(({ key, label, placeholder }) => (
+      <div key={key} className="space-y-1">
+        <Label htmlFor={`metadata-${key}`} className="text-xs font-normal">
+          {label}
+        </Label>
+        <Input
+          id={`metadata-${key}`}
+          value={draft[key]}
+          placeholder={placeholder}
+          onChange={(e) => setField(key, e.target.value)}
+        />
+      </div>
+    ));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BookUser className="w-5 h-5 text-blue-600" />
+            Book Details
+          </DialogTitle>
+          <DialogDescription>
+            Covers, the copyright and about the author pages, and the EPUB and PDF metadata all use these details.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="book" className="py-2">
+          <TabsList className="grid grid-cols-4 w-full">
+            <TabsTrigger value="book" className="text-xs">Book</TabsTrigger>
+            <TabsTrigger value="people" className="text-xs">People</TabsTrigger>
+            <TabsTrigger value="publishing" className="text-xs">Publishing</TabsTrigger>
+            <TabsTrigger value="back-matter" className="text-xs">Back Matter</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="book" className="space-y-4 pt-3">
+            <div className="space-y-1">
+              <Label htmlFor="metadata-subtitle" className="text-xs font-normal">
+                Subtitle
+              </Label>
+              <Input
+                id="metadata-subtitle"
+                value={draft.subtitle}
+                placeholder="Shown on covers that have no text of their own"
+                onChange={(e) => setField("subtitle", e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="metadata-language" className="text-xs font-normal">
+                Language
+              </Label>
+              <select
+                id="metadata-language"
+                value={draft.language}
+                onChange={(e) => setField("language", e.target.value)}
+                className={SELECT_CLASS}
+              >
+                {!LANGUAGES.some((language) => language.value === draft.language) && (
+                  <option value={draft.language}>{draft.language}</option>
+                )}
+                {LANGUAGES.map((language) => (
+                  <option key={language.value} value={language.value}>
+                    {language.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs font-normal">
+                BISAC categories ({draft.bisac.length}/{MAX_BISAC})
+              </Label>
+              {draft.bisac.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 pb-1">
+                  {draft.bisac.map((code) => (
+                    <span
+                      key={code}
+                      className="inline-flex items-center gap-1 rounded-full bg-zinc-100 dark:bg-zinc-800 px-2.5 py-1 text-xs"
+                    >
+                      {BISAC_CATEGORIES.find((category) => category.code === code)?.label ?? code}
+                      <span className="text-zinc-400">{code}</span>
+                      <button
+                        type="button"
+                        onClick={() => removeCategory(code)}
+                        className="text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200"
+                        title="Remove category"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+              <select
+                value=""
+                onChange={(e) => addCategory(e.target.value)}
+                disabled={draft.bisac.length >= MAX_BISAC}
+                className={SELECT_CLASS}
+              >
+                <option value="">Add a category...</option>
+                {BISAC_CATEGORIES.filter((category) => !draft.bisac.includes(category.code)).map((category) => (
+                  <option key={category.code} value={category.code}>
+                    {category.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="metadata-keywords" className="text-xs font-normal">
+                Keywords ({keywords.length}/{MAX_KEYWORDS})
+              </Label>
+              <Input
+                id="metadata-keywords"
+                value={keywordsText}
+                placeholder="productivity, time management, remote work"
+                onChange={(e) => setKeywordsText(e.target.value)}
+              />
+              <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                Separate with commas. Only the first {MAX_KEYWORDS} are kept.
+              </p>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="people" className="space-y-3 pt-3">
+            {draft.contributors.length === 0 && (
+              <p className="text-sm text-zinc-500 dark:text-zinc-400">
+                No one is credited yet. Covers fall back to the name typed on the cover.
+              </p>
+            )}
+            {draft.contributors.map((contributor, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  value={contributor.name}
+                  placeholder="Full name"
+                  onChange={(e) => updateContributor(index, { name: e.target.value })}
+                  className="flex-1"
+                />
+                <select
+                  value={contributor.role}
+                  onChange={(e) => updateContributor(index, { role: e.target.value as ContributorRole })}
+                  className={`${SELECT_CLASS} w-36`}
+                >
+                  {CONTRIBUTOR_ROLES.map((role) => (
+                    <option key={role.value} value={role.value}>
+                      {role.label}
+                    </option>
+                  ))}
+                </select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-9 w-9 shrink-0"
+                  onClick={() => removeContributor(index)}
+                  title="Remove"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={addContributor} className="gap-2">
+              <Plus className="w-4 h-4" />
+              Add person
+            </Button>
+            <p className="text-xs text-zinc-500 dark:text-zinc-400">
+              Everyone credited as an author appears on covers and in running headers.
+            </p>
+          </TabsContent>
+
+          <TabsContent value="publishing" className="space-y-4 pt-3">
+            <div className="grid grid-cols-2 gap-3">{renderFields(IDENTIFIER_FIELDS)}</div>
+            {isbnError && (
+              <p className="text-xs text-red-600">This ISBN&apos;s check digit doesn&apos;t match.</p>
+            )}
+            <div className="grid grid-cols-2 gap-3">{renderFields(PUBLISHING_FIELDS)}</div>
+            {dateError && (
+              <p className="text-xs text-red-600">Use YYYY, YYYY-MM or YYYY-MM-DD for the publication date.</p>
+            )}
+            <div className="space-y-1">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="metadata-rights" className="text-xs font-normal">
+                  Rights statement
+                </Label>
+                {draft.rights !== DEFAULT_RIGHTS && (
+                  <button
+                    type="button"
+                    onClick={() => setField("rights", DEFAULT_RIGHTS)}
+                    className="text-xs text-blue-600 hover:underline"
+                  >
+                    Reset
+                  </button>
+                )}
+              </div>
+              <Textarea
+                id="metadata-rights"
+                rows={3}
+                value={draft.rights}
+                onChange={(e) => setField("rights", e.target.value)}
+              />
+            </div>
+          </TabsContent>
+
+          <TabsContent value="back-matter" className="space-y-4 pt-3">
+            <div className="space-y-2">
+              <Label className="text-xs text-zinc-600 dark:text-zinc-400">About the author</Label>
+              {renderFields([{ key: "authorPhotoUrl", label: "Photo URL", placeholder: "https://..." }])}
+              <div className="space-y-1">
+                <Label htmlFor="metadata-authorBio" className="text-xs font-normal">
+                  Bio
+                </Label>
+                <Textarea
+                  id="metadata-authorBio"
+                  rows={4}
+                  value={draft.authorBio}
+                  placeholder="A few lines about you and your work"
+                  onChange={(e) => setField("authorBio", e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs text-zinc-600 dark:text-zinc-400">Call to action</Label>
+              <div className="grid grid-cols-2 gap-3">{renderFields(CTA_FIELDS)}</div>
+              <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                Shown as a link button with a QR code on the page, in the PDF and in the EPUB.
+              </p>
+            </div>
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || dateError || isbnError}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "./ui/sheet";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { ScrollArea } from "./ui/scroll-area";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { getEbookSnapshots, restoreSnapshot } from "@/app/actions";
+
+interface EbookSnapshot {
+  id: string;
+  reason: string;
+  createdAt: Date;
+  chapterCount: number;
+  pageCount: number;
+}
+
+interface BookSnapshotsDrawerProps {
+  ebookId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestore: () => void;
+}
+
+const REASON_LABELS: Record<string, string> = {
+  generation: "Before AI generation",
+  restore: "Before restore",
+};
+
+export function BookSnapshotsDrawer({
+  ebookId,
+  open,
+  onOpenChange,
+  onRestore,
+}: BookSnapshotsDrawerProps) {
+  const [snapshots, setSnapshots] = useState<EbookSnapshot[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setLoading(true);
+    getEbookSnapshots(ebookId)
+      .then(setSnapshots)
+      .catch((error) => console.error("Failed to load snapshots:", error))
+      .finally(() => setLoading(false));
+  }, [open, ebookId]);
+
+  const handleRestore = async (snapshot: EbookSnapshot) => {
+    if (!confirm("Replace all current pages and chapters with this snapshot? The current state is saved as a snapshot first.")) {
+      return;
+    }
+
+    setRestoringId(snapshot.id);
+    try {
+      await restoreSnapshot(snapshot.id);
+      onRestore();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Failed to restore snapshot:", error);
+      alert("Failed to restore this snapshot. Please try again.");
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-md p-0 flex flex-col gap-0">
+        <SheetHeader className="border-b border-zinc-200 dark:border-zinc-800">
+          <SheetTitle className="flex items-center gap-2">
+            <History className="w-4 h-4" />
+            Book Snapshots
+          </SheetTitle>
+          <SheetDescription>
+            Copies of every page and chapter, saved automatically before AI generation changes the book.
+          </SheetDescription>
+        </SheetHeader>
+
+        {loading ? (
+          <div className="flex-1 flex items-center justify-center">
+            <Loader2 className="w-5 h-5 animate-spin text-zinc-400" />
+          </div>
+        ) : snapshots.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-sm text-zinc-500 dark:text-zinc-400 px-6 text-center">
+            No snapshots yet.
+          </div>
+        ) : (
+          <ScrollArea className="flex-1 min-h-0">
+            <div className="p-2 space-y-1">
+              {snapshots.map((snapshot) => (
+                <div
+                  key={snapshot.id}
+                  className="flex items-center gap-3 rounded-md px-3 py-2 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                      {new Date(snapshot.createdAt).toLocaleString()}
+                    </div>
+                    <div className="mt-1 flex items-center gap-1.5">
+                      <Badge variant="secondary" className="text-[10px]">
+                        {REASON_LABELS[snapshot.reason] ?? snapshot.reason}
+                      </Badge>
+                      <span className="text-xs text-zinc-500 truncate">
+                        {snapshot.pageCount} pages, {snapshot.chapterCount} chapters
+                      </span>
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="gap-2 shrink-0"
+                    onClick={() => handleRestore(snapshot)}
+                    disabled={restoringId !== null}
+                  >
+                    {restoringId === snapshot.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <RotateCcw className="w-4 h-4" />
+                    )}
+                    Restore
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,425 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import { ArrowUpToLine, LayoutDashboard, Loader2, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  GRID_COLUMNS,
+  GRID_ROWS,
+  MAX_REGIONS,
+  REGION_KINDS,
+  createRegion,
+  getRegionBox,
+  type CustomTemplate,
+  type RegionKind,
+  type TemplateRegion,
+} from "@/lib/custom-templates";
+
+interface CustomTemplateDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // null starts a new template
+  template: CustomTemplate | null;
+  onSave: (draft: { name: string; regions: TemplateRegion[] }) => Promise<void>;
+}
+
+interface Drag {
+  mode: "move" | "resize";
+  pointerX: number;
+  pointerY: number;
+  region: TemplateRegion;
+}
+
+const REGION_CLASSES: Record<RegionKind, string> = {
+  title: "bg-zinc-700/80 text-white",
+  text: "bg-zinc-200/90 text-zinc-600",
+  image: "bg-sky-200/90 text-sky-800",
+  shape: "text-white",
+  textbox: "text-zinc-700",
+};
+
+const ALIGNMENTS: TemplateRegion["align"][] = ["left", "center", "right"];
+const SHAPES: TemplateRegion["shape"][] = ["square", "rounded", "circle"];
+
+const POSITION_FIELDS: { key: "column" | "row" | "columnSpan" | "rowSpan"; label: string }[] = [
+  { key: "column", label: "Column" },
+  { key: "row", label: "Row" },
+  { key: "columnSpan", label: "Width" },
+  { key: "rowSpan", label: "Height" },
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Keep a region on the grid after a move, resize or typed position
+function fitToGrid(region: TemplateRegion): TemplateRegion {
+  const column = clamp(region.column, 0, GRID_COLUMNS - 1);
+  const row = clamp(region.row, 0, GRID_ROWS - 1);
+  return {
+    ...region,
+    column,
+    row,
+    columnSpan: clamp(region.columnSpan, 1, GRID_COLUMNS - column),
+    rowSpan: clamp(region.rowSpan, 1, GRID_ROWS - row),
+  };
+}
+
+function regionLabel(kind: RegionKind) {
+  return REGION_KINDS.find((item) => item.value === kind)?.label ?? kind;
+}
+
+export function CustomTemplateDialog({ isOpen, onClose, template, onSave }: CustomTemplateDialogProps) {
+  const [name, setName] = useState("");
+  const [regions, setRegions] = useState<TemplateRegion[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+
+  // Start from the saved template (or a blank page) every time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(template?.name ?? "");
+    setRegions(template?.regions ?? []);
+    setSelectedId(null);
+  }, [isOpen, template]);
+
+  const selected = regions.find((region) => region.id === selectedId);
+
+  const updateRegion = (id: string, changes: Partial<TemplateRegion>) => {
+    setRegions((prev) => prev.map((region) => (region.id === id ? fitToGrid({ ...region, ...changes }) : region)));
+  };
+
+  const addRegion = (kind: RegionKind) => {
+    const region = createRegion(kind, crypto.randomUUID());
+    setRegions((prev) => [...prev, region]);
+    setSelectedId(region.id);
+  };
+
+  const removeRegion = (id: string) => {
+    setRegions((prev) => prev.filter((region) => region.id !== id));
+    setSelectedId(null);
+  };
+
+  // Later regions draw on top
+  const bringToFront = (id: string) => {
+    setRegions((prev) => [
+      ...prev.filter((region) => region.id !== id),
+      ...prev.filter((region) => region.id === id),
+    ]);
+  };
+
+  const startDrag = (event: React.PointerEvent, region: TemplateRegion, mode: Drag["mode"]) => {
+    event.stopPropagation();
+    setSelectedId(region.id);
+    dragRef.current = { mode, pointerX: event.clientX, pointerY: event.clientY, region };
+    canvasRef.current?.setPointerCapture(event.pointerId);
+  };
+
+  // Pointer movement snaps to whole grid cells
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const canvas = canvasRef.current;
+    if (!drag || !canvas) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const columns = Math.round(((event.clientX - drag.pointerX) / rect.width) * GRID_COLUMNS);
+    const rows = Math.round(((event.clientY - drag.pointerY) / rect.height) * GRID_ROWS);
+    const { region } = drag;
+
+    if (drag.mode === "move") {
+      updateRegion(region.id, {
+        column: clamp(region.column + columns, 0, GRID_COLUMNS - region.columnSpan),
+        row: clamp(region.row + rows, 0, GRID_ROWS - region.rowSpan),
+      });
+    } else {
+      updateRegion(region.id, {
+        columnSpan: region.columnSpan + columns,
+        rowSpan: region.rowSpan + rows,
+      });
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    canvasRef.current?.releasePointerCapture(event.pointerId);
+  };
+
+  const setPosition = (key: (typeof POSITION_FIELDS)[number]["key"], value: string) => {
+    if (!selected) return;
+    const number = Math.round(Number(value) || 0);
+    // Columns and rows are shown counting from 1
+    updateRegion(selected.id, { [key]: key === "column" || key === "row" ? number - 1 : number });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave({ name: name.trim(), regions });
+      onClose();
+    } catch (error) {
+      console.error("Failed to save custom template:", error);
+      alert("Failed to save template. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LayoutDashboard className="w-5 h-5 text-blue-600" />
+            {template ? "Edit Template" : "New Template"}
+          </DialogTitle>
+          <DialogDescription>
+            Place regions on the page grid. Drag to move them and use the corner handle to resize.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          <Label htmlFor="custom-template-name" className="text-xs text-zinc-600 dark:text-zinc-400">
+            Template name
+          </Label>
+          <Input
+            id="custom-template-name"
+            value={name}
+            placeholder="e.g. Sidebar callout"
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {REGION_KINDS.map((kind) => (
+            <Button
+              key={kind.value}
+              size="sm"
+              variant="outline"
+              title={kind.description}
+              disabled={regions.length >= MAX_REGIONS}
+              onClick={() => addRegion(kind.value)}
+            >
+              + {kind.label}
+            </Button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-[minmax(0,1fr)_220px] gap-4">
+          <div
+            ref={canvasRef}
+            className="relative w-full max-w-[420px] mx-auto aspect-[3/4] border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 touch-none select-none"
+            style={{
+              backgroundImage:
+                "linear-gradient(to right, rgb(228 228 231) 1px, transparent 1px), linear-gradient(to bottom, rgb(228 228 231) 1px, transparent 1px)",
+              backgroundSize: `${100 / GRID_COLUMNS}% ${100 / GRID_ROWS}%`,
+            }}
+            onPointerDown={() => setSelectedId(null)}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            {regions.map((region) => {
+              const box = getRegionBox(region);
+              return (
+                <div
+                  key={region.id}
+                  className={cn(
+                    "absolute flex items-center justify-center text-[10px] font-medium cursor-move overflow-hidden",
+                    REGION_CLASSES[region.kind],
+                    region.id === selectedId ? "ring-2 ring-blue-500 z-10" : "ring-1 ring-zinc-400/60"
+                  )}
+                  style={{
+                    left: `${box.x}%`,
+                    top: `${box.y}%`,
+                    width: `${box.w}%`,
+                    height: `${box.h}%`,
+                    backgroundColor: region.kind === "shape" || region.kind === "textbox" ? region.color : undefined,
+                    borderRadius: region.kind === "image" || region.kind === "shape"
+                      ? { square: "0px", rounded: "8px", circle: "50%" }[region.shape]
+                      : undefined,
+                  }}
+                  onPointerDown={(e) => startDrag(e, region, "move")}
+                >
+                  {region.kind === "textbox" ? region.text : regionLabel(region.kind)}
+                  <div
+                    className="absolute right-0 bottom-0 w-3 h-3 bg-blue-500 cursor-nwse-resize"
+                    onPointerDown={(e) => startDrag(e, region, "resize")}
+                  />
+                </div>
+              );
+            })}
+            {regions.length === 0 && (
+              <p className="absolute inset-0 flex items-center justify-center text-xs text-zinc-400 pointer-events-none">
+                Add a region to start
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            {!selected ? (
+              <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                Select a region to change its position and look. Regions sit inside the page margins.
+              </p>
+            ) : (
+              <>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-zinc-900 dark:text-zinc-100">
+                    {regionLabel(selected.kind)}
+                  </span>
+                  <div className="flex gap-1">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7"
+                      title="Bring to front"
+                      onClick={() => bringToFront(selected.id)}
+                    >
+                      <ArrowUpToLine className="w-3.5 h-3.5" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7 hover:bg-red-100 hover:text-red-600 dark:hover:bg-red-950 dark:hover:text-red-400"
+                      title="Remove region"
+                      onClick={() => removeRegion(selected.id)}
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  {POSITION_FIELDS.map(({ key, label }) => (
+                    <div key={key} className="space-y-1">
+                      <Label htmlFor={`region-${key}`} className="text-xs font-normal">{label}</Label>
+                      <Input
+                        id={`region-${key}`}
+                        type="number"
+                        min={1}
+                        max={key === "column" || key === "columnSpan" ? GRID_COLUMNS : GRID_ROWS}
+                        value={key === "column" || key === "row" ? selected[key] + 1 : selected[key]}
+                        onChange={(e) => setPosition(key, e.target.value)}
+                        className="h-8"
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                {(selected.kind === "title" || selected.kind === "text" || selected.kind === "textbox") && (
+                  <div className="space-y-1">
+                    <Label className="text-xs font-normal">Alignment</Label>
+                    <div className="grid grid-cols-3 gap-1">
+                      {ALIGNMENTS.map((align) => (
+                        <Button
+                          key={align}
+                          size="sm"
+                          variant={selected.align === align ? "default" : "outline"}
+                          className="h-7 text-xs capitalize"
+                          onClick={() => updateRegion(selected.id, { align })}
+                        >
+                          {align}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {(selected.kind === "image" || selected.kind === "shape") && (
+                  <div className="space-y-1">
+                    <Label className="text-xs font-normal">Shape</Label>
+                    <div className="grid grid-cols-3 gap-1">
+                      {SHAPES.map((shape) => (
+                        <Button
+                          key={shape}
+                          size="sm"
+                          variant={selected.shape === shape ? "default" : "outline"}
+                          className="h-7 text-xs capitalize"
+                          onClick={() => updateRegion(selected.id, { shape })}
+                        >
+                          {shape}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {selected.kind === "image" && (
+                  <div className="space-y-1">
+                    <Label htmlFor="region-image" className="text-xs font-normal">Image URL</Label>
+                    <Input
+                      id="region-image"
+                      value={selected.imageUrl}
+                      placeholder="Empty shows the page image"
+                      onChange={(e) => updateRegion(selected.id, { imageUrl: e.target.value })}
+                      className="h-8"
+                    />
+                  </div>
+                )}
+
+                {(selected.kind === "shape" || selected.kind === "textbox") && (
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="region-color" className="text-xs font-normal">
+                      {selected.kind === "shape" ? "Fill" : "Background"}
+                    </Label>
+                    <input
+                      id="region-color"
+                      type="color"
+                      value={selected.color}
+                      onChange={(e) => updateRegion(selected.id, { color: e.target.value })}
+                      className="h-8 w-12 rounded border border-zinc-200 dark:border-zinc-700"
+                    />
+                  </div>
+                )}
+
+                {selected.kind === "textbox" && (
+                  <>
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="region-text-color" className="text-xs font-normal">Text color</Label>
+                      <input
+                        id="region-text-color"
+                        type="color"
+                        value={selected.textColor}
+                        onChange={(e) => updateRegion(selected.id, { textColor: e.target.value })}
+                        className="h-8 w-12 rounded border border-zinc-200 dark:border-zinc-700"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="region-text" className="text-xs font-normal">Text</Label>
+                      <Textarea
+                        id="region-text"
+                        value={selected.text}
+                        rows={4}
+                        onChange={(e) => updateRegion(selected.id, { text: e.target.value })}
+                      />
+                    </div>
+                  </>
+                )}
+
+                {(selected.kind === "title" || selected.kind === "text") && (
+                  <p className="text-[10px] text-zinc-500 dark:text-zinc-400">
+                    Filled in from each page&apos;s {selected.kind === "title" ? "title" : "content"}.
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || regions.length === 0}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save Template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
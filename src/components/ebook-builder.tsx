@@ -1,15 +1,55 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { PagesSidebar } from "./pages-sidebar";
 import { PageEditor } from "./page-editor";
-import { PagePreview } from "./page-preview";
+import { FlowedPagePreview, type FlowStatus } from "./flowed-page-preview";
 import { ImagePanel } from "./image-panel";
 import { Header } from "./header";
 import { SettingsPanel } from "./settings-panel";
 import { Sheet, SheetContent } from "./ui/sheet";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
 import { AIGenerationModal } from "./ai-generation-modal";
+import { PageSetupDialog } from "./page-setup-dialog";
+import { BookDetailsDialog } from "./book-details-dialog";
+import { BookSnapshotsDrawer } from "./book-snapshots-drawer";
+import { useUndoStack } from "@/hooks/use-undo-stack";
+import {
+  applyStyleToAllPages,
+  assignMasterPage,
+  deleteChapter,
+  deletePage,
+  deletePages,
+  getEbook,
+  reorderChapters,
+  reorderPages,
+  restoreChapter,
+  restorePage,
+  restorePages,
+  updateDefaultStyles,
+  updateEbookTheme,
+  updateMasterPage,
+  updateOutline,
+  updatePage,
+  updatePages,
+  updatePageSetup,
+  updateMetadata,
+} from "@/app/actions";
+import type { PageSetup } from "@/lib/page-setup";
+import { getAuthorLine, type EbookMetadata } from "@/lib/metadata";
+import { customTemplateId, type CustomTemplate } from "@/lib/custom-templates";
+import { DEFAULT_TEMPLATE } from "@/lib/page-templates";
+import { buildTableOfContents } from "@/lib/toc";
+import { getPageChapters, type OutlineOrder } from "@/lib/chapters";
+import { getBookAuthor, type RunningHeader } from "@/lib/running-header";
+import { paginate, type BookSection } from "@/lib/pagination";
+import {
+  INHERITED_STYLE_KEYS,
+  clearOverride,
+  resolveMasteredStyles,
+  resolvePageStyles,
+  type InheritedStyleKey,
+} from "@/lib/page-styles";
 
 interface Theme {
   id: string;
@@ -48,7 +88,7 @@ interface PageStyles {
     color: string;
     margin: number;
     showPageNumber: boolean;
-    pageNumberFormat?: "number" | "page-x" | "x-of-y";
+    pageNumberFormat?: "number" | "page-x" | "x-of-y" | "chapter-page";
     pageNumberColor?: string;
     startFrom?: number;
   };
@@ -61,6 +101,11 @@ interface PageStyles {
     fontSize: number;
     color: string;
   };
+  background?: {
+    enabled: boolean;
+    color: string;
+  };
+  header?: RunningHeader;
   coverSettings?: {
     useThemeColors: boolean;
     useThemeFonts: boolean;
@@ -86,23 +131,49 @@ interface Page {
   template: string;
   imageUrl: string | null;
   order: number;
+  chapterId: string | null;
+  masterId?: string | null;
+  section?: string | null;
+  autoFlow?: boolean;
   customStyles?: PageStyles;
 }
 
+interface MasterPage {
+  id: string;
+  name: string;
+  template: string;
+  styles: PageStyles;
+}
+
+interface Chapter {
+  id: string;
+  title: string;
+  part: string | null;
+  order: number;
+}
+
 interface Ebook {
   id: string;
   title: string;
   description: string | null;
   theme: Theme;
+  pageSetup: PageSetup;
+  metadata: EbookMetadata;
+  defaultStyles: PageStyles;
+  masters: MasterPage[];
+  chapters: Chapter[];
   pages: Page[];
 }
 
 interface EbookBuilderProps {
   initialEbook: Ebook;
+  initialCustomTemplates: CustomTemplate[];
 }
 
-export function EbookBuilder({ initialEbook }: EbookBuilderProps) {
+export function EbookBuilder({ initialEbook, initialCustomTemplates }: EbookBuilderProps) {
   const [ebook, setEbook] = useState<Ebook>(initialEbook);
+  // The user's own templates, shared by all their ebooks
+  const [customTemplates, setCustomTemplates] = useState<CustomTemplate[]>(initialCustomTemplates);
   const [selectedPageId, setSelectedPageId] = useState<string | null>(
     initialEbook.pages[0]?.id ?? null
   );
@@ -113,8 +184,75 @@ export function EbookBuilder({ initialEbook }: EbookBuilderProps) {
   const [mobileSidebarOpen, setMobileSidebarOpen] = useState(false);
   const [mobileSidebarTab, setMobileSidebarTab] = useState<"pages" | "editor">("pages");
   const [aiModalOpen, setAiModalOpen] = useState(false);
+  const [pageSetupOpen, setPageSetupOpen] = useState(false);
+  const [bookDetailsOpen, setBookDetailsOpen] = useState(false);
+  const [snapshotsOpen, setSnapshotsOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const { push, undo, redo, clear: clearHistory, undoLabel, redoLabel } = useUndoStack();
+  const [flowStatus, setFlowStatus] = useState<Record<string, FlowStatus>>({});
+
+  // Commands run later than the render that created them, so they read the
+  // latest pages from here rather than from a stale closure
+  const ebookRef = useRef(ebook);
+  useEffect(() => {
+    ebookRef.current = ebook;
+  }, [ebook]);
 
   const selectedPage = ebook.pages.find((p) => p.id === selectedPageId);
+  // What each page renders with: its own styles over its master's over the
+  // ebook defaults
+  const styledPages = ebook.pages.map((page) => ({
+    ...page,
+    customStyles: resolveMasteredStyles(
+      ebook.defaultStyles,
+      ebook.masters.find((master) => master.id === page.masterId)?.styles,
+      page.customStyles
+    ),
+  }));
+
+  const handleFlowChange = useCallback((pageId: string, status: FlowStatus) => {
+    setFlowStatus((prev) => ({ ...prev, [pageId]: status }));
+  }, []);
+
+  // Physical page numbers account for continuation sheets of flowed pages
+  const sheetCounts = ebook.pages.map((page) => flowStatus[page.id]?.pageCount ?? 1);
+  const sheetOffsets = sheetCounts.map((_, index) =>
+    sheetCounts.slice(0, index).reduce((sum, count) => sum + count, 0)
+  );
+  const totalSheets = sheetCounts.reduce((sum, count) => sum + count, 0);
+  const pageChapters = getPageChapters(ebook.chapters, ebook.pages, sheetOffsets);
+  const pagination = paginate(styledPages, sheetCounts);
+  const author = getAuthorLine(ebook.metadata) || getBookAuthor(ebook.pages);
+  const tableOfContents = buildTableOfContents(styledPages, ebook.chapters, {
+    sheetOffsets,
+    pageLabels: pagination.map((sheet) => sheet.label),
+    headingSheets: Object.fromEntries(
+      Object.entries(flowStatus).map(([pageId, status]) => [pageId, status.headingSheets])
+    ),
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const key = event.key.toLowerCase();
+      if (!(event.ctrlKey || event.metaKey) || (key !== "z" && key !== "y")) return;
+
+      // Text fields and the rich text editor keep their own undo history
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) {
+        return;
+      }
+
+      event.preventDefault();
+      if (event.shiftKey || key === "y") {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
 
   const scrollToPage = (pageId: string) => {
     setSelectedPageId(pageId);
@@ -136,21 +274,390 @@ export function EbookBuilder({ initialEbook }: EbookBuilderProps) {
     }));
   };
 
+  const updatePageById = (pageId: string, updates: Partial<Page>) => {
+    setEbook((prev) => ({
+      ...prev,
+      pages: prev.pages.map((p) => (p.id === pageId ? { ...p, ...updates } : p)),
+    }));
+  };
+
+  const applyPageOrder = (pageIds: string[]) => {
+    setEbook((prev) => ({
+      ...prev,
+      pages: pageIds.flatMap((id, index) => {
+        const page = prev.pages.find((p) => p.id === id);
+        return page ? [{ ...page, order: index }] : [];
+      }),
+    }));
+  };
+
+  const handlePageDeleted = (pageId: string) => {
+    const index = ebook.pages.findIndex((p) => p.id === pageId);
+    const page = ebook.pages[index];
+    if (!page) return;
+
+    push({
+      label: "Delete page",
+      undo: async () => {
+        const pageIds = ebookRef.current.pages.map((p) => p.id);
+        pageIds.splice(index, 0, page.id);
+
+        await restorePage(ebook.id, page);
+        await reorderPages(ebook.id, pageIds);
+        setEbook((prev) => ({
+          ...prev,
+          pages: [...prev.pages.slice(0, index), page, ...prev.pages.slice(index)].map(
+            (p, i) => ({ ...p, order: i })
+          ),
+        }));
+        setSelectedPageId(page.id);
+      },
+      redo: async () => {
+        await deletePage(page.id);
+        setEbook((prev) => ({
+          ...prev,
+          pages: prev.pages.filter((p) => p.id !== page.id),
+        }));
+        setSelectedPageId((current) =>
+          current === page.id ? ebookRef.current.pages.find((p) => p.id !== page.id)?.id ?? null : current
+        );
+      },
+    });
+  };
+
+  const applyChapterOrder = (chapterIds: string[]) => {
+    setEbook((prev) => ({
+      ...prev,
+      chapters: chapterIds.flatMap((id, index) => {
+        const chapter = prev.chapters.find((c) => c.id === id);
+        return chapter ? [{ ...chapter, order: index }] : [];
+      }),
+    }));
+  };
+
+  const handleOutlineReordered = (previous: OutlineOrder, next: OutlineOrder) => {
+    push({
+      label: "Reorder chapters",
+      undo: async () => {
+        await reorderPages(ebook.id, previous.pageIds);
+        await reorderChapters(ebook.id, previous.chapterIds);
+        applyPageOrder(previous.pageIds);
+        applyChapterOrder(previous.chapterIds);
+      },
+      redo: async () => {
+        await reorderPages(ebook.id, next.pageIds);
+        await reorderChapters(ebook.id, next.chapterIds);
+        applyPageOrder(next.pageIds);
+        applyChapterOrder(next.chapterIds);
+      },
+    });
+  };
+
+  // Bring the stored pages in line with a snapshot of the page list:
+  // recreate or delete whole pages, then restore templates, styles and placement
+  const syncPages = async (from: Page[], to: Page[]) => {
+    const fromById = new Map(from.map((page) => [page.id, page]));
+    const toIds = new Set(to.map((page) => page.id));
+
+    const removed = from.filter((page) => !toIds.has(page.id)).map((page) => page.id);
+    if (removed.length > 0) await deletePages(ebook.id, removed);
+
+    const added = to.filter((page) => !fromById.has(page.id));
+    if (added.length > 0) await restorePages(ebook.id, added);
+
+    const changed = to.filter((page) => {
+      const previous = fromById.get(page.id);
+      return (
+        previous &&
+        (previous.template !== page.template ||
+          (previous.masterId ?? null) !== (page.masterId ?? null) ||
+          (previous.section ?? null) !== (page.section ?? null) ||
+          JSON.stringify(previous.customStyles) !== JSON.stringify(page.customStyles))
+      );
+    });
+    if (changed.length > 0) {
+      await updatePages(
+        ebook.id,
+        changed.map((page) => ({
+          id: page.id,
+          template: page.template,
+          masterId: page.masterId ?? null,
+          section: page.section ?? null,
+          customStyles: page.customStyles ?? null,
+        }))
+      );
+    }
+
+    const chapterIds = await updateOutline(
+      ebook.id,
+      to.map((page) => ({ id: page.id, chapterId: page.chapterId }))
+    );
+    setEbook((prev) => ({ ...prev, pages: to }));
+    applyChapterOrder(chapterIds);
+    setSelectedPageId((current) => (current && toIds.has(current) ? current : to[0]?.id ?? null));
+  };
+
+  const handlePagesChanged = (label: string, before: Page[], after: Page[]) => {
+    push({
+      label,
+      undo: () => syncPages(after, before),
+      redo: () => syncPages(before, after),
+    });
+  };
+
+  const handleChapterDeleted = (chapter: Chapter, pages: Page[]) => {
+    const previousIds = ebook.pages.map((p) => p.id);
+
+    push({
+      label: "Delete chapter",
+      undo: async () => {
+        await restoreChapter(ebook.id, chapter);
+        for (const page of pages) {
+          await restorePage(ebook.id, page);
+        }
+        await reorderPages(ebook.id, previousIds);
+        setEbook((prev) => {
+          const all = [...prev.pages, ...pages];
+          return {
+            ...prev,
+            chapters: [...prev.chapters, chapter].sort((a, b) => a.order - b.order),
+            pages: previousIds.flatMap((id, order) => {
+              const page = all.find((p) => p.id === id);
+              return page ? [{ ...page, order }] : [];
+            }),
+          };
+        });
+      },
+      redo: async () => {
+        await deleteChapter(chapter.id);
+        setEbook((prev) => ({
+          ...prev,
+          chapters: prev.chapters.filter((c) => c.id !== chapter.id),
+          pages: prev.pages.filter((p) => p.chapterId !== chapter.id),
+        }));
+        setSelectedPageId((current) =>
+          pages.some((p) => p.id === current) ? ebookRef.current.pages.find((p) => p.chapterId !== chapter.id)?.id ?? null : current
+        );
+      },
+    });
+  };
+
   const handleThemeUpdate = (theme: Theme) => {
+    const previousTheme = ebook.theme;
     setEbook((prev) => ({
       ...prev,
       theme,
     }));
+
+    if (previousTheme.id === theme.id) return;
+    push({
+      label: "Change theme",
+      undo: async () => {
+        await updateEbookTheme(ebook.id, previousTheme.id);
+        setEbook((prev) => ({ ...prev, theme: previousTheme }));
+      },
+      redo: async () => {
+        await updateEbookTheme(ebook.id, theme.id);
+        setEbook((prev) => ({ ...prev, theme }));
+      },
+    });
+  };
+
+  const handlePageSetupSave = async (pageSetup: PageSetup) => {
+    const previousSetup = ebook.pageSetup;
+    await updatePageSetup(ebook.id, pageSetup);
+    setEbook((prev) => ({ ...prev, pageSetup }));
+
+    push({
+      label: "Change page setup",
+      undo: async () => {
+        await updatePageSetup(ebook.id, previousSetup);
+        setEbook((prev) => ({ ...prev, pageSetup: previousSetup }));
+      },
+      redo: async () => {
+        await updatePageSetup(ebook.id, pageSetup);
+        setEbook((prev) => ({ ...prev, pageSetup }));
+      },
+    });
+  };
+
+  const handleMetadataSave = async (metadata: EbookMetadata) => {
+    const previousMetadata = ebook.metadata;
+    await updateMetadata(ebook.id, metadata);
+    setEbook((prev) => ({ ...prev, metadata }));
+
+    push({
+      label: "Change book details",
+      undo: async () => {
+        await updateMetadata(ebook.id, previousMetadata);
+        setEbook((prev) => ({ ...prev, metadata: previousMetadata }));
+      },
+      redo: async () => {
+        await updateMetadata(ebook.id, metadata);
+        setEbook((prev) => ({ ...prev, metadata }));
+      },
+    });
   };
 
   const handleLayoutUpdate = (template: string, customStyles?: PageStyles) => {
-    if (selectedPage) {
-      if (customStyles !== undefined) {
-        handlePageUpdate({ template, customStyles });
-      } else {
-        handlePageUpdate({ template });
-      }
+    if (!selectedPage) return;
+    const changes = customStyles !== undefined ? { template, customStyles } : { template };
+
+    if (template !== selectedPage.template) {
+      const pageId = selectedPage.id;
+      // Changing template can reset styles too, so undo puts both back
+      const previous = { template: selectedPage.template, customStyles: selectedPage.customStyles };
+      push({
+        label: "Change template",
+        undo: async () => {
+          await updatePage(pageId, { ...previous, customStyles: previous.customStyles ?? null });
+          updatePageById(pageId, previous);
+        },
+        redo: async () => {
+          await updatePage(pageId, changes);
+          updatePageById(pageId, changes);
+        },
+      });
     }
+
+    handlePageUpdate(changes);
+  };
+
+  // One section of the open page's styles becomes the ebook default and
+  // every page's own copy of it is dropped
+  const handleApplyStyleToAll = async (key: InheritedStyleKey, value: PageStyles[InheritedStyleKey]) => {
+    const previousDefaults = ebook.defaultStyles;
+    const previousStyles = new Map(ebook.pages.map((page) => [page.id, page.customStyles]));
+    const previousMasters = ebook.masters;
+
+    const apply = async () => {
+      await applyStyleToAllPages(ebook.id, key, value);
+      setEbook((prev) => ({
+        ...prev,
+        defaultStyles: { ...prev.defaultStyles, [key]: value },
+        masters: prev.masters.map((master) => ({ ...master, styles: clearOverride(master.styles, key) })),
+        pages: prev.pages.map((page) => ({ ...page, customStyles: clearOverride(page.customStyles, key) })),
+      }));
+    };
+
+    await apply();
+    push({
+      label: "Apply styles to all pages",
+      undo: async () => {
+        const pages = ebookRef.current.pages.filter((page) => previousStyles.has(page.id));
+        await updateDefaultStyles(ebook.id, previousDefaults);
+        const masters = previousMasters.filter((master) =>
+          ebookRef.current.masters.some((current) => current.id === master.id)
+        );
+        for (const master of masters) {
+          await updateMasterPage(master.id, { styles: master.styles });
+        }
+        await updatePages(
+          ebook.id,
+          pages.map((page) => ({ id: page.id, customStyles: previousStyles.get(page.id) ?? null }))
+        );
+        setEbook((prev) => ({
+          ...prev,
+          defaultStyles: previousDefaults,
+          masters: prev.masters.map((master) => masters.find((m) => m.id === master.id) ?? master),
+          pages: prev.pages.map((page) =>
+            previousStyles.has(page.id) ? { ...page, customStyles: previousStyles.get(page.id) } : page
+          ),
+        }));
+      },
+      redo: apply,
+    });
+  };
+
+  // Pages still on a master's old template follow it to the new one
+  const handleMastersUpdate = (masters: MasterPage[]) => {
+    setEbook((prev) => {
+      const previousTemplates = new Map(prev.masters.map((master) => [master.id, master.template]));
+      const templates = new Map(masters.map((master) => [master.id, master.template]));
+      return {
+        ...prev,
+        masters,
+        pages: prev.pages.map((page) =>
+          page.masterId &&
+          templates.has(page.masterId) &&
+          previousTemplates.get(page.masterId) === page.template
+            ? { ...page, template: templates.get(page.masterId)! }
+            : page
+        ),
+      };
+    });
+  };
+
+  // Pages and masters on a deleted custom template fall back to the default,
+  // as the server already did
+  const handleCustomTemplateDeleted = (template: CustomTemplate) => {
+    const id = customTemplateId(template.id);
+    setCustomTemplates((prev) => prev.filter((t) => t.id !== template.id));
+    setEbook((prev) => ({
+      ...prev,
+      masters: prev.masters.map((master) =>
+        master.template === id ? { ...master, template: DEFAULT_TEMPLATE } : master
+      ),
+      pages: prev.pages.map((page) => (page.template === id ? { ...page, template: DEFAULT_TEMPLATE } : page)),
+    }));
+  };
+
+  // The deleted master's styles are kept on the pages that used it
+  const handleMasterDeleted = (master: MasterPage) => {
+    setEbook((prev) => ({
+      ...prev,
+      masters: prev.masters.filter((m) => m.id !== master.id),
+      pages: prev.pages.map((page) =>
+        page.masterId === master.id
+          ? { ...page, masterId: null, customStyles: resolvePageStyles(master.styles, page.customStyles) }
+          : page
+      ),
+    }));
+  };
+
+  const handleAssignMaster = async (master: MasterPage | null) => {
+    if (!selectedPage) return;
+    const before = ebook.pages;
+    const after = ebook.pages.map((page) =>
+      page.id !== selectedPage.id
+        ? page
+        : master
+          ? {
+              ...page,
+              masterId: master.id,
+              template: master.template,
+              customStyles: INHERITED_STYLE_KEYS.reduce(
+                (styles, key) => clearOverride(styles, key),
+                page.customStyles ?? {}
+              ),
+            }
+          : { ...page, masterId: null }
+    );
+
+    await assignMasterPage(ebook.id, [selectedPage.id], master?.id ?? null);
+    setEbook((prev) => ({ ...prev, pages: after }));
+    handlePagesChanged(master ? "Apply master page" : "Detach master page", before, after);
+  };
+
+  // Front, body or back matter; null goes back to the template's default
+  const handleSectionChange = async (section: BookSection | null) => {
+    if (!selectedPage) return;
+    const pageId = selectedPage.id;
+    const previousSection = selectedPage.section ?? null;
+
+    await updatePage(pageId, { section });
+    updatePageById(pageId, { section });
+    push({
+      label: "Change book section",
+      undo: async () => {
+        await updatePage(pageId, { section: previousSection });
+        updatePageById(pageId, { section: previousSection });
+      },
+      redo: async () => {
+        await updatePage(pageId, { section });
+        updatePageById(pageId, { section });
+      },
+    });
   };
 
   const handleOpenThemePanel = () => {
@@ -182,17 +689,23 @@ export function EbookBuilder({ initialEbook }: EbookBuilderProps) {
       // Update the branding logo URL in the current page's customStyles
       if (selectedPage) {
         const currentStyles = selectedPage.customStyles || {};
+        // Starts from the inherited branding; the logo becomes this page's own
+        const branding = resolveMasteredStyles(
+          ebook.defaultStyles,
+          ebook.masters.find((master) => master.id === selectedPage.masterId)?.styles,
+          currentStyles
+        ).branding;
         const updatedStyles = {
           ...currentStyles,
           branding: {
-            ...currentStyles.branding,
-            enabled: currentStyles.branding?.enabled ?? true,
-            type: currentStyles.branding?.type ?? "logo",
-            text: currentStyles.branding?.text ?? "",
+            ...branding,
+            enabled: branding?.enabled ?? true,
+            type: branding?.type ?? "logo",
+            text: branding?.text ?? "",
             logoUrl: url,
-            position: currentStyles.branding?.position ?? "bottom-left",
-            fontSize: currentStyles.branding?.fontSize ?? 10,
-            color: currentStyles.branding?.color ?? ebook.theme.secondaryColor,
+            position: branding?.position ?? "bottom-left",
+            fontSize: branding?.fontSize ?? 10,
+            color: branding?.color ?? ebook.theme.secondaryColor,
           },
         };
         handlePageUpdate({ customStyles: updatedStyles as PageStyles });
@@ -205,10 +718,87 @@ export function EbookBuilder({ initialEbook }: EbookBuilderProps) {
     setImagePanelOpen(false);
   };
 
-  const handleAIGenerate = async (description: string) => {
-    // The API routes handle the actual generation
-    // This function is just a placeholder since the modal handles the API calls
-    console.log("Generating ebook with description:", description);
+  // Content streamed into generated pages since they were last loaded,
+  // applied once per frame rather than once per token
+  const streamedContentRef = useRef<Record<string, string>>({});
+  const streamFrameRef = useRef<number | null>(null);
+
+  const applyStreamedContent = (pages: Page[]) =>
+    pages.map((page) =>
+      streamedContentRef.current[page.id] !== undefined
+        ? { ...page, content: streamedContentRef.current[page.id] }
+        : page
+    );
+
+  // Generation jobs and snapshot restores change pages on the server, so
+  // load them again
+  const reloadPages = async () => {
+    try {
+      const updated = await getEbook(ebook.id);
+      if (!updated) return;
+      const pages = updated.pages.map((page) => ({
+        ...page,
+        customStyles: (page.customStyles ?? undefined) as PageStyles | undefined,
+      }));
+      setEbook((prev) => ({ ...prev, chapters: updated.chapters, pages: applyStreamedContent(pages) }));
+      setSelectedPageId((current) =>
+        pages.some((page) => page.id === current) ? current : pages[0]?.id ?? null
+      );
+    } catch (error) {
+      console.error("Failed to reload pages:", error);
+      alert("Failed to load the latest pages. Please refresh the page.");
+    }
+  };
+
+  // Undo commands refer to pages by id, which a replace or restore removes
+  const handleSnapshotRestored = async () => {
+    clearHistory();
+    await reloadPages();
+  };
+
+  const handleGeneratedContent = (pageId: string, delta: string, replace: boolean) => {
+    const current =
+      streamedContentRef.current[pageId] ??
+      ebookRef.current.pages.find((page) => page.id === pageId)?.content ??
+      "";
+    streamedContentRef.current[pageId] = (replace ? "" : current) + delta;
+
+    if (streamFrameRef.current !== null) return;
+    streamFrameRef.current = requestAnimationFrame(() => {
+      streamFrameRef.current = null;
+      setEbook((prev) => ({ ...prev, pages: applyStreamedContent(prev.pages) }));
+    });
+  };
+
+  // Everything streamed has been saved by now
+  const handleGenerationComplete = async (replaced: boolean) => {
+    if (replaced) clearHistory();
+    await reloadPages();
+    streamedContentRef.current = {};
+  };
+
+  const handleExport = async (format: "pdf" | "epub") => {
+    setExporting(true);
+    try {
+      const response = await fetch(`/api/export-${format}?ebookId=${ebook.id}`);
+      if (!response.ok) throw new Error(`Failed to export ${format}`);
+
+      // Download the file using the filename chosen by the server
+      const blob = await response.blob();
+      const disposition = response.headers.get("Content-Disposition") ?? "";
+      const filename = disposition.match(/filename="(.+)"/)?.[1] ?? `ebook.${format}`;
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Export error:", error);
+      alert(`Failed to export ${format.toUpperCase()}. Please try again.`);
+    } finally {
+      setExporting(false);
+    }
   };
 
   return (
@@ -219,125 +809,197 @@ export function EbookBuilder({ initialEbook }: EbookBuilderProps) {
         onOpenLayoutPanel={handleOpenLayoutPanel}
         onMobileSidebarToggle={() => setMobileSidebarOpen(true)}
         onOpenAIModal={() => setAiModalOpen(true)}
+        onOpenPageSetup={() => setPageSetupOpen(true)}
+        onOpenBookDetails={() => setBookDetailsOpen(true)}
+        onOpenSnapshots={() => setSnapshotsOpen(true)}
+        onExport={handleExport}
+        exporting={exporting}
+        onUndo={undo}
+        onRedo={redo}
+        undoLabel={undoLabel}
+        redoLabel={redoLabel}
       />
 
-        <div className="flex-1 flex overflow-hidden">
-          {/* Desktop: Two sidebars side-by-side | Mobile: Hidden, use Sheet instead */}
-          <div className="hidden md:flex">
-            {/* Left Sidebar - Pages */}
-            <div className="w-64 border-r border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 flex flex-col">
+      <div className="flex-1 flex overflow-hidden">
+        {/* Desktop: Two sidebars side-by-side | Mobile: Hidden, use Sheet instead */}
+        <div className="hidden md:flex">
+          {/* Left Sidebar - Pages */}
+          <div className="w-64 border-r border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 flex flex-col">
+            <PagesSidebar
+              ebook={ebook}
+              selectedPageId={selectedPageId}
+              onSelectPage={scrollToPage}
+              onPagesUpdate={(pages) => setEbook((prev) => ({ ...prev, pages }))}
+              onChaptersUpdate={(chapters) => setEbook((prev) => ({ ...prev, chapters }))}
+              onPageUpdate={updatePageById}
+              flowStatus={flowStatus}
+              onPageDeleted={handlePageDeleted}
+              onOutlineReordered={handleOutlineReordered}
+              onPagesChanged={handlePagesChanged}
+              onChapterDeleted={handleChapterDeleted}
+              customTemplates={customTemplates}
+            />
+          </div>
+
+          {/* Middle Sidebar - Editor */}
+          <div className="w-96 border-r border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 flex flex-col">
+            <PageEditor
+              page={selectedPage}
+              theme={ebook.theme}
+              onUpdate={handlePageUpdate}
+            />
+          </div>
+        </div>
+
+        {/* Main Content - Preview - Show All Pages */}
+        <div className="flex-1 flex overflow-hidden min-w-0">
+          <div className="flex-1 bg-zinc-100 dark:bg-zinc-950 overflow-auto">
+            <div className="min-h-full p-4 sm:p-6 md:p-8 lg:p-12 space-y-8">
+              {styledPages.map((page, index) => (
+                <FlowedPagePreview
+                  key={page.id}
+                  page={page}
+                  theme={ebook.theme}
+                  onOpenImagePanel={handleOpenImagePanel}
+                  pageIndex={sheetOffsets[index]}
+                  totalPages={totalSheets}
+                  pageSetup={ebook.pageSetup}
+                  tableOfContents={tableOfContents}
+                  chapter={pageChapters[page.id]}
+                  pagination={pagination}
+                  bookTitle={ebook.title}
+                  author={author}
+                  metadata={ebook.metadata}
+                  customTemplates={customTemplates}
+                  onFlowChange={handleFlowChange}
+                >
+                  {(preview, sheetIndex) => (
+                    <div
+                      key={sheetIndex}
+                      id={sheetIndex === 0 ? `page-${page.id}` : `page-${page.id}-${sheetIndex}`}
+                      className={`transition-all ${
+                        selectedPageId === page.id
+                          ? "ring-4 ring-blue-500 ring-offset-4 ring-offset-zinc-100 dark:ring-offset-zinc-950"
+                          : ""
+                      }`}
+                      onClick={() => setSelectedPageId(page.id)}
+                    >
+                      {preview}
+                    </div>
+                  )}
+                </FlowedPagePreview>
+              ))}
+            </div>
+          </div>
+
+          {/* Right Panels */}
+          {imagePanelOpen && (
+            <div className="w-[400px] border-l border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 shrink-0">
+              <ImagePanel
+                onClose={() => {
+                  setImagePanelOpen(false);
+                  setLogoSelectionMode(false);
+                }}
+                onSelectImage={handleImageSelect}
+              />
+            </div>
+          )}
+
+          {settingsPanelOpen && (
+            <div className="w-[400px] border-l border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 shrink-0">
+              <SettingsPanel
+                isOpen={true}
+                onClose={() => setSettingsPanelOpen(false)}
+                type={settingsPanelType}
+                ebook={ebook}
+                page={selectedPage ?? null}
+                onThemeUpdate={handleThemeUpdate}
+                onLayoutUpdate={handleLayoutUpdate}
+                onDefaultStylesUpdate={(defaultStyles) => setEbook((prev) => ({ ...prev, defaultStyles }))}
+                onApplyStyleToAll={handleApplyStyleToAll}
+                onMastersUpdate={handleMastersUpdate}
+                onMasterDeleted={handleMasterDeleted}
+                onAssignMaster={handleAssignMaster}
+                onSectionChange={handleSectionChange}
+                onOpenImagePanel={handleOpenLogoPanel}
+                customTemplates={customTemplates}
+                onCustomTemplatesUpdate={setCustomTemplates}
+                onCustomTemplateDeleted={handleCustomTemplateDeleted}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Mobile Sheet with Tabs */}
+      <Sheet open={mobileSidebarOpen} onOpenChange={setMobileSidebarOpen}>
+        <SheetContent side="left" className="w-full sm:w-[400px] p-0">
+          <Tabs value={mobileSidebarTab} onValueChange={(v) => setMobileSidebarTab(v as "pages" | "editor")} className="h-full flex flex-col">
+            <TabsList className="w-full rounded-none border-b">
+              <TabsTrigger value="pages" className="flex-1">Pages</TabsTrigger>
+              <TabsTrigger value="editor" className="flex-1">Editor</TabsTrigger>
+            </TabsList>
+            <TabsContent value="pages" className="flex-1 m-0 overflow-hidden">
               <PagesSidebar
                 ebook={ebook}
                 selectedPageId={selectedPageId}
-                onSelectPage={scrollToPage}
+                onSelectPage={(id) => {
+                  scrollToPage(id);
+                  setMobileSidebarTab("editor");
+                }}
                 onPagesUpdate={(pages) => setEbook((prev) => ({ ...prev, pages }))}
+                onChaptersUpdate={(chapters) => setEbook((prev) => ({ ...prev, chapters }))}
+                onPageUpdate={updatePageById}
+                flowStatus={flowStatus}
+                onPageDeleted={handlePageDeleted}
+                onOutlineReordered={handleOutlineReordered}
+                onPagesChanged={handlePagesChanged}
+                onChapterDeleted={handleChapterDeleted}
+                customTemplates={customTemplates}
               />
-            </div>
-
-            {/* Middle Sidebar - Editor */}
-            <div className="w-96 border-r border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 flex flex-col">
+            </TabsContent>
+            <TabsContent value="editor" className="flex-1 m-0 overflow-hidden">
               <PageEditor
                 page={selectedPage}
                 theme={ebook.theme}
                 onUpdate={handlePageUpdate}
               />
-            </div>
-          </div>
+            </TabsContent>
+          </Tabs>
+        </SheetContent>
+      </Sheet>
 
-          {/* Main Content - Preview - Show All Pages */}
-          <div className="flex-1 flex overflow-hidden min-w-0">
-            <div className="flex-1 bg-zinc-100 dark:bg-zinc-950 overflow-auto">
-              <div className="min-h-full p-4 sm:p-6 md:p-8 lg:p-12 space-y-8">
-                {ebook.pages.map((page, index) => (
-                  <div
-                    key={page.id}
-                    id={`page-${page.id}`}
-                    className={`transition-all ${
-                      selectedPageId === page.id
-                        ? "ring-4 ring-blue-500 ring-offset-4 ring-offset-zinc-100 dark:ring-offset-zinc-950"
-                        : ""
-                    }`}
-                    onClick={() => setSelectedPageId(page.id)}
-                  >
-                    <PagePreview
-                      page={page}
-                      theme={ebook.theme}
-                      onOpenImagePanel={handleOpenImagePanel}
-                      pageIndex={index}
-                      totalPages={ebook.pages.length}
-                    />
-                  </div>
-                ))}
-              </div>
-            </div>
+      {/* AI Generation Modal */}
+      <AIGenerationModal
+        isOpen={aiModalOpen}
+        onClose={() => setAiModalOpen(false)}
+        onPagesChanged={reloadPages}
+        onPageContent={handleGeneratedContent}
+        onComplete={handleGenerationComplete}
+        ebookId={ebook.id}
+        pages={ebook.pages}
+      />
 
-            {/* Right Panels */}
-            {imagePanelOpen && (
-              <div className="w-[400px] border-l border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 shrink-0">
-                <ImagePanel
-                  onClose={() => {
-                    setImagePanelOpen(false);
-                    setLogoSelectionMode(false);
-                  }}
-                  onSelectImage={handleImageSelect}
-                />
-              </div>
-            )}
-
-            {settingsPanelOpen && (
-              <div className="w-[400px] border-l border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 shrink-0">
-                <SettingsPanel
-                  isOpen={true}
-                  onClose={() => setSettingsPanelOpen(false)}
-                  type={settingsPanelType}
-                  ebook={ebook}
-                  page={selectedPage ?? null}
-                  onThemeUpdate={handleThemeUpdate}
-                  onLayoutUpdate={handleLayoutUpdate}
-                  onOpenImagePanel={handleOpenLogoPanel}
-                />
-              </div>
-            )}
-          </div>
-        </div>
+      <BookSnapshotsDrawer
+        ebookId={ebook.id}
+        open={snapshotsOpen}
+        onOpenChange={setSnapshotsOpen}
+        onRestore={handleSnapshotRestored}
+      />
 
-        {/* Mobile Sheet with Tabs */}
-        <Sheet open={mobileSidebarOpen} onOpenChange={setMobileSidebarOpen}>
-          <SheetContent side="left" className="w-full sm:w-[400px] p-0">
-            <Tabs value={mobileSidebarTab} onValueChange={(v) => setMobileSidebarTab(v as "pages" | "editor")} className="h-full flex flex-col">
-              <TabsList className="w-full rounded-none border-b">
-                <TabsTrigger value="pages" className="flex-1">Pages</TabsTrigger>
-                <TabsTrigger value="editor" className="flex-1">Editor</TabsTrigger>
-              </TabsList>
-              <TabsContent value="pages" className="flex-1 m-0 overflow-hidden">
-                <PagesSidebar
-                  ebook={ebook}
-                  selectedPageId={selectedPageId}
-                  onSelectPage={(id) => {
-                    scrollToPage(id);
-                    setMobileSidebarTab("editor");
-                  }}
-                  onPagesUpdate={(pages) => setEbook((prev) => ({ ...prev, pages }))}
-                />
-              </TabsContent>
-              <TabsContent value="editor" className="flex-1 m-0 overflow-hidden">
-                <PageEditor
-                  page={selectedPage}
-                  theme={ebook.theme}
-                  onUpdate={handlePageUpdate}
-                />
-              </TabsContent>
-            </Tabs>
-          </SheetContent>
-        </Sheet>
-
-        {/* AI Generation Modal */}
-        <AIGenerationModal
-          isOpen={aiModalOpen}
-          onClose={() => setAiModalOpen(false)}
-          onGenerate={handleAIGenerate}
-          ebookId={ebook.id}
-        />
-      </div>
+      <PageSetupDialog
+        isOpen={pageSetupOpen}
+        onClose={() => setPageSetupOpen(false)}
+        pageSetup={ebook.pageSetup}
+        onSave={handlePageSetupSave}
+      />
+
+      <BookDetailsDialog
+        isOpen={bookDetailsOpen}
+        onClose={() => setBookDetailsOpen(false)}
+        metadata={ebook.metadata}
+        onSave={handleMetadataSave}
+      />
+    </div>
   );
 }
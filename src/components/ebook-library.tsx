@@ -0,0 +1,263 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "./ui/tabs";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+import {
+  BookOpen,
+  Plus,
+  MoreVertical,
+  Copy,
+  Archive,
+  ArchiveRestore,
+  Trash2,
+  FileText,
+  Loader2,
+  LogOut,
+  Sparkles,
+  User,
+} from "lucide-react";
+import { archiveEbook, createEbook, deleteEbook, duplicateEbook, getAiSettings, signOut } from "@/app/actions";
+import { AiSettingsDialog } from "./ai-settings-dialog";
+import type { AiSettingsView } from "@/lib/ai-settings";
+
+interface Theme {
+  id: string;
+  name: string;
+  primaryColor: string;
+  accentColor: string;
+  backgroundColor: string;
+}
+
+interface EbookSummary {
+  id: string;
+  title: string;
+  description: string | null;
+  archived: boolean;
+  updatedAt: Date;
+  theme: Theme;
+  _count: {
+    pages: number;
+  };
+}
+
+interface EbookLibraryProps {
+  user: {
+    email: string;
+    name: string | null;
+  };
+  ebooks: EbookSummary[];
+}
+
+export function EbookLibrary({ user, ebooks }: EbookLibraryProps) {
+  const router = useRouter();
+  const [filter, setFilter] = useState<"active" | "archived">("active");
+  const [creating, setCreating] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [aiSettings, setAiSettings] = useState<AiSettingsView | null>(null);
+
+  const visibleEbooks = ebooks.filter((ebook) =>
+    filter === "archived" ? ebook.archived : !ebook.archived
+  );
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const ebook = await createEbook();
+      router.push(`/ebooks/${ebook.id}`);
+    } catch (error) {
+      console.error("Failed to create ebook:", error);
+      alert("Failed to create ebook");
+      setCreating(false);
+    }
+  };
+
+  // Run a library action against one ebook, then reload the list
+  const runAction = async (id: string, action: () => Promise<unknown>) => {
+    setBusyId(id);
+    try {
+      await action();
+      router.refresh();
+    } catch (error) {
+      console.error("Library action failed:", error);
+      alert("Something went wrong. Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleOpenAiSettings = async () => {
+    try {
+      setAiSettings(await getAiSettings());
+    } catch (error) {
+      console.error("Failed to load AI settings:", error);
+      alert("Failed to load AI settings");
+    }
+  };
+
+  const handleSignOut = async () => {
+    await signOut();
+    router.push("/sign-in");
+    router.refresh();
+  };
+
+  const handleDelete = (ebook: EbookSummary) => {
+    if (!confirm(`Delete "${ebook.title}" and all of its pages? This cannot be undone.`)) return;
+    runAction(ebook.id, () => deleteEbook(ebook.id));
+  };
+
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-zinc-950">
+      <header className="h-14 md:h-16 border-b border-zinc-200 dark:border-zinc-800 bg-white/80 dark:bg-zinc-900/80 backdrop-blur-xl flex items-center justify-between px-3 sm:px-4 md:px-6">
+        <div className="flex items-center gap-2 sm:gap-3">
+          <div className="w-8 h-8 sm:w-10 sm:h-10 rounded-lg sm:rounded-xl bg-gradient-to-br from-blue-600 to-blue-700 flex items-center justify-center shadow-lg shadow-blue-600/20 shrink-0">
+            <BookOpen className="w-4 h-4 sm:w-5 sm:h-5 text-white" />
+          </div>
+          <div>
+            <h1 className="text-sm md:text-base font-semibold text-zinc-900 dark:text-zinc-100">
+              Library
+            </h1>
+            <p className="text-xs text-zinc-500 dark:text-zinc-400">
+              Ebook AI Builder
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            className="gap-2 bg-blue-600 hover:bg-blue-700"
+            onClick={handleCreate}
+            disabled={creating}
+          >
+            {creating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            New Ebook
+          </Button>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="icon" variant="ghost" className="h-8 w-8">
+                <User className="w-4 h-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel className="font-normal">
+                {user.name && <p className="text-sm font-medium">{user.name}</p>}
+                <p className="text-xs text-zinc-500 dark:text-zinc-400">{user.email}</p>
+              </DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={handleOpenAiSettings}>
+                <Sparkles className="w-4 h-4" />
+                AI settings
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={handleSignOut}>
+                <LogOut className="w-4 h-4" />
+                Sign out
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto p-4 sm:p-6 md:p-8 space-y-6">
+        <Tabs value={filter} onValueChange={(value) => setFilter(value as "active" | "archived")}>
+          <TabsList>
+            <TabsTrigger value="active">
+              Active ({ebooks.filter((ebook) => !ebook.archived).length})
+            </TabsTrigger>
+            <TabsTrigger value="archived">
+              Archived ({ebooks.filter((ebook) => ebook.archived).length})
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {visibleEbooks.length === 0 ? (
+          <div className="py-24 text-center text-zinc-500 dark:text-zinc-400">
+            {filter === "archived" ? "No archived ebooks" : "No ebooks yet. Create your first one!"}
+          </div>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {visibleEbooks.map((ebook) => (
+              <div
+                key={ebook.id}
+                className="group relative rounded-xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 overflow-hidden hover:shadow-lg transition-shadow"
+              >
+                <Link href={`/ebooks/${ebook.id}`} className="block">
+                  <div
+                    className="h-28"
+                    style={{
+                      background: `linear-gradient(135deg, ${ebook.theme.primaryColor} 0%, ${ebook.theme.accentColor} 100%)`,
+                    }}
+                  />
+                  <div className="p-4 space-y-2">
+                    <h2 className="font-semibold text-zinc-900 dark:text-zinc-100 line-clamp-1 pr-8">
+                      {ebook.title}
+                    </h2>
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <Badge variant="secondary" className="gap-1.5">
+                        <span
+                          className="w-2.5 h-2.5 rounded-full border border-zinc-300 dark:border-zinc-600"
+                          style={{ backgroundColor: ebook.theme.accentColor }}
+                        />
+                        {ebook.theme.name}
+                      </Badge>
+                      <span className="flex items-center gap-1 text-xs text-zinc-500 dark:text-zinc-400">
+                        <FileText className="w-3 h-3" />
+                        {ebook._count.pages} {ebook._count.pages === 1 ? "page" : "pages"}
+                      </span>
+                    </div>
+                    <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                      Updated {new Date(ebook.updatedAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                </Link>
+
+                <div className="absolute right-2 bottom-2">
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button size="icon" variant="ghost" className="h-8 w-8" disabled={busyId === ebook.id}>
+                        {busyId === ebook.id ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                          <MoreVertical className="w-4 h-4" />
+                        )}
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => runAction(ebook.id, () => duplicateEbook(ebook.id))}>
+                        <Copy className="w-4 h-4" />
+                        Duplicate
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => runAction(ebook.id, () => archiveEbook(ebook.id, !ebook.archived))}>
+                        {ebook.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                        {ebook.archived ? "Restore" : "Archive"}
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem variant="destructive" onClick={() => handleDelete(ebook)}>
+                        <Trash2 className="w-4 h-4" />
+                        Delete
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+
+      {aiSettings && <AiSettingsDialog settings={aiSettings} onClose={() => setAiSettings(null)} />}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { FlowedPagePreview, type FlowStatus } from "./flowed-page-preview";
+import type { PageStyles } from "./settings-panel";
+import { getPageSize, type PageSetup } from "@/lib/page-setup";
+import { buildTableOfContents, pageAnchor } from "@/lib/toc";
+import { getPageChapters } from "@/lib/chapters";
+import { getBookAuthor } from "@/lib/running-header";
+import { paginate } from "@/lib/pagination";
+import { getAuthorLine, type EbookMetadata } from "@/lib/metadata";
+import type { CustomTemplate } from "@/lib/custom-templates";
+
+interface Theme {
+  primaryColor: string;
+  secondaryColor: string;
+  accentColor: string;
+  backgroundColor: string;
+  textColor: string;
+  headingFont: string;
+  bodyFont: string;
+  h1Size: string;
+  h2Size: string;
+  h3Size: string;
+  bodySize: string;
+}
+
+interface Page {
+  id: string;
+  title: string | null;
+  content: string;
+  template: string;
+  imageUrl: string | null;
+  chapterId: string | null;
+  section?: string | null;
+  autoFlow?: boolean;
+  customStyles?: PageStyles;
+}
+
+interface Chapter {
+  id: string;
+  title: string;
+  part: string | null;
+  order: number;
+}
+
+interface Ebook {
+  id: string;
+  title: string;
+  theme: Theme;
+  pageSetup: PageSetup;
+  metadata: EbookMetadata;
+  chapters: Chapter[];
+  pages: Page[];
+}
+
+interface EbookPrintViewProps {
+  ebook: Ebook;
+  customTemplates: CustomTemplate[];
+}
+
+// One physical sheet per page, no margins - the templates draw their own
+const getPrintStyles = (width: number, height: number) => `
+  @page {
+    size: ${width}px ${height}px;
+    margin: 0;
+  }
+  html, body {
+    margin: 0;
+    padding: 0;
+    -webkit-print-color-adjust: exact;
+    print-color-adjust: exact;
+  }
+  .print-sheet {
+    break-after: page;
+    overflow: hidden;
+  }
+  .print-sheet:last-child {
+    break-after: auto;
+  }
+`;
+
+export function EbookPrintView({ ebook, customTemplates }: EbookPrintViewProps) {
+  const [flowStatus, setFlowStatus] = useState<Record<string, FlowStatus>>({});
+
+  const handleFlowChange = useCallback((pageId: string, status: FlowStatus) => {
+    setFlowStatus((prev) => ({ ...prev, [pageId]: status }));
+  }, []);
+
+  const counts = ebook.pages.map((page) => flowStatus[page.id]?.pageCount ?? 1);
+  const offsets = counts.map((_, index) => counts.slice(0, index).reduce((sum, count) => sum + count, 0));
+  const totalSheets = counts.reduce((sum, count) => sum + count, 0);
+  const pageChapters = getPageChapters(ebook.chapters, ebook.pages, offsets);
+  const pagination = paginate(ebook.pages, counts);
+  const tableOfContents = buildTableOfContents(ebook.pages, ebook.chapters, {
+    sheetOffsets: offsets,
+    pageLabels: pagination.map((sheet) => sheet.label),
+    headingSheets: Object.fromEntries(
+      Object.entries(flowStatus).map(([pageId, status]) => [pageId, status.headingSheets])
+    ),
+  });
+  const author = getAuthorLine(ebook.metadata) || getBookAuthor(ebook.pages);
+  const { width, height } = getPageSize(ebook.pageSetup);
+
+  return (
+    <>
+      <style>{getPrintStyles(width, height)}</style>
+      {ebook.pages.map((page, index) => (
+        <FlowedPagePreview
+          key={page.id}
+          page={page}
+          theme={ebook.theme}
+          onOpenImagePanel={() => {}}
+          pageIndex={offsets[index]}
+          totalPages={totalSheets}
+          printMode
+          pageSetup={ebook.pageSetup}
+          tableOfContents={tableOfContents}
+          chapter={pageChapters[page.id]}
+          pagination={pagination}
+          bookTitle={ebook.title}
+          author={author}
+          metadata={ebook.metadata}
+          customTemplates={customTemplates}
+          onFlowChange={handleFlowChange}
+        >
+          {(preview, sheetIndex) => (
+            <div
+              key={sheetIndex}
+              id={sheetIndex === 0 ? pageAnchor(page.id) : `${pageAnchor(page.id)}-${sheetIndex}`}
+              className="print-sheet"
+            >
+              {preview}
+            </div>
+          )}
+        </FlowedPagePreview>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,201 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
+import { PagePreview, type PageMeasurement } from "./page-preview";
+import type { PageStyles } from "./settings-panel";
+import { chunkBlocks, isFlowable, splitHtmlBlocks } from "@/lib/page-flow";
+import type { PageSetup } from "@/lib/page-setup";
+import { anchorHeadings, extractHeadings, type TocEntry } from "@/lib/toc";
+import type { PageChapter } from "@/lib/chapters";
+import type { SheetNumber } from "@/lib/pagination";
+import type { EbookMetadata } from "@/lib/metadata";
+import type { CustomTemplate } from "@/lib/custom-templates";
+
+interface Page {
+  id: string;
+  title: string | null;
+  content: string;
+  template: string;
+  imageUrl: string | null;
+  autoFlow?: boolean;
+  customStyles?: PageStyles;
+}
+
+interface Theme {
+  primaryColor: string;
+  secondaryColor: string;
+  accentColor: string;
+  backgroundColor: string;
+  textColor: string;
+  headingFont: string;
+  bodyFont: string;
+  h1Size: string;
+  h2Size: string;
+  h3Size: string;
+  bodySize: string;
+}
+
+export interface FlowStatus {
+  overflowing: boolean;
+  pageCount: number;
+  // Sheet index (within this page) of each h2/h3, in document order
+  headingSheets: number[];
+}
+
+interface FlowedPagePreviewProps {
+  page: Page;
+  theme: Theme;
+  onOpenImagePanel: () => void;
+  // Physical index of this page's first sheet
+  pageIndex: number;
+  totalPages: number;
+  printMode?: boolean;
+  pageSetup?: PageSetup;
+  tableOfContents?: TocEntry[];
+  chapter?: PageChapter;
+  // Book-wide numbering of every sheet, indexed like pageIndex
+  pagination?: SheetNumber[];
+  bookTitle?: string;
+  author?: string;
+  metadata?: EbookMetadata;
+  customTemplates?: CustomTemplate[];
+  onFlowChange?: (pageId: string, status: FlowStatus) => void;
+  children: (preview: React.ReactNode, sheetIndex: number) => React.ReactNode;
+}
+
+const subscribeToNothing = () => () => {};
+
+// Renders one logical page as one or more physical sheets. With auto-flow on,
+// content that doesn't fit is moved block by block onto continuation sheets
+// that share the page's template and styles.
+export function FlowedPagePreview({
+  page,
+  theme,
+  onOpenImagePanel,
+  pageIndex,
+  totalPages,
+  printMode = false,
+  pageSetup,
+  tableOfContents,
+  chapter,
+  pagination,
+  bookTitle,
+  author,
+  metadata,
+  customTemplates,
+  onFlowChange,
+  children,
+}: FlowedPagePreviewProps) {
+  const flowing = !!page.autoFlow && isFlowable(page.template);
+  // Headings carry ids so contents entries can link to them
+  const content = useMemo(() => anchorHeadings(page.content, page.id), [page.content, page.id]);
+  // Splitting needs the DOM, so server renders (and the hydrating render)
+  // show the page as one sheet until the client takes over
+  const hydrated = useSyncExternalStore(subscribeToNothing, () => true, () => false);
+  const blocks = useMemo(
+    () => (flowing && hydrated ? splitHtmlBlocks(content) : []),
+    [flowing, hydrated, content]
+  );
+
+  // Breaks are only valid for the exact layout they were measured against
+  const layoutKey = JSON.stringify([
+    flowing,
+    page.content,
+    page.template,
+    page.imageUrl,
+    page.customStyles,
+    theme,
+    pageSetup,
+    // Inside and outside margins swap between left and right-hand sheets
+    pageIndex % 2,
+  ]);
+  const [flow, setFlow] = useState({ layoutKey, breaks: [] as number[] });
+  const [sheetOverflow, setSheetOverflow] = useState<boolean[]>([]);
+  const breaks = flow.layoutKey === layoutKey ? flow.breaks : [];
+
+  const chunks = flowing && blocks.length > 0 ? chunkBlocks(blocks, breaks) : [content];
+  const headingSheets = chunks.flatMap((chunk, sheetIndex) =>
+    extractHeadings(chunk).map(() => sheetIndex)
+  );
+
+  const handleMeasure = useCallback(
+    (sheetIndex: number, measurement: PageMeasurement) => {
+      const canFlow = flowing && measurement.fitCount < measurement.blockCount;
+
+      if (canFlow) {
+        setFlow((prev) => {
+          const currentBreaks = prev.layoutKey === layoutKey ? prev.breaks : [];
+          const start = [0, ...currentBreaks][sheetIndex] ?? 0;
+          // A single block taller than the page still moves on alone
+          const nextBreak = start + Math.max(1, measurement.fitCount);
+          if (nextBreak >= blocks.length || currentBreaks[sheetIndex] === nextBreak) {
+            return prev;
+          }
+          return { layoutKey, breaks: [...currentBreaks.slice(0, sheetIndex), nextBreak] };
+        });
+      }
+
+      // Still overflowing once flowed means a block that can't be split
+      const overflowing = flowing
+        ? measurement.overflowing && (measurement.fitCount === 0 || measurement.fitCount === measurement.blockCount)
+        : measurement.overflowing;
+
+      setSheetOverflow((prev) => {
+        if (prev[sheetIndex] === overflowing) return prev;
+        const next = [...prev];
+        next[sheetIndex] = overflowing;
+        return next;
+      });
+    },
+    [flowing, layoutKey, blocks.length]
+  );
+
+  // Reported after every render; unchanged statuses are dropped by key
+  const lastStatusRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!onFlowChange) return;
+
+    const status: FlowStatus = {
+      overflowing: sheetOverflow.slice(0, chunks.length).some(Boolean),
+      pageCount: chunks.length,
+      headingSheets,
+    };
+    const key = JSON.stringify(status);
+    if (key === lastStatusRef.current) return;
+    lastStatusRef.current = key;
+    onFlowChange(page.id, status);
+  });
+
+  return (
+    <>
+      {chunks.map((chunk, sheetIndex) =>
+        children(
+          <PagePreview
+            page={{
+              ...page,
+              content: chunk,
+              // Continuation sheets carry on the text without repeating the title
+              title: sheetIndex === 0 ? page.title : null,
+            }}
+            theme={theme}
+            onOpenImagePanel={onOpenImagePanel}
+            pageIndex={pageIndex + sheetIndex}
+            totalPages={totalPages}
+            printMode={printMode}
+            pageSetup={pageSetup}
+            tableOfContents={tableOfContents}
+            chapter={chapter}
+            pageNumber={pagination?.[pageIndex + sheetIndex]}
+            bookTitle={bookTitle}
+            author={author}
+            metadata={metadata}
+            customTemplates={customTemplates}
+            pageTitle={page.title}
+            onMeasure={(measurement) => handleMeasure(sheetIndex, measurement)}
+          />,
+          sheetIndex
+        )
+      )}
+    </>
+  );
+}
@@ -1,7 +1,14 @@
 "use client";
 
+import Link from "next/link";
 import { Button } from "./ui/button";
-import { BookOpen, Download, Save, Palette, LayoutTemplate, PanelLeft, Sparkles } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+import { BookOpen, Download, Save, Palette, LayoutTemplate, PanelLeft, Sparkles, Loader2, FileText, BookMarked, Undo2, Redo2, Ruler, BookUser, History } from "lucide-react";
 
 interface Theme {
   id: string;
@@ -20,6 +27,15 @@ interface HeaderProps {
   onOpenLayoutPanel: () => void;
   onMobileSidebarToggle: () => void;
   onOpenAIModal: () => void;
+  onOpenPageSetup: () => void;
+  onOpenBookDetails: () => void;
+  onOpenSnapshots: () => void;
+  onExport: (format: "pdf" | "epub") => void;
+  exporting?: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  undoLabel?: string | null;
+  redoLabel?: string | null;
 }
 
 export function Header({
@@ -28,6 +44,15 @@ export function Header({
   onOpenLayoutPanel,
   onMobileSidebarToggle,
   onOpenAIModal,
+  onOpenPageSetup,
+  onOpenBookDetails,
+  onOpenSnapshots,
+  onExport,
+  exporting = false,
+  onUndo,
+  onRedo,
+  undoLabel,
+  redoLabel,
 }: HeaderProps) {
   return (
     <header className="h-14 md:h-16 border-b border-zinc-200 dark:border-zinc-800 bg-white/80 dark:bg-zinc-900/80 backdrop-blur-xl flex items-center justify-between px-3 sm:px-4 md:px-6 relative z-10">
@@ -40,9 +65,13 @@ export function Header({
         >
           <PanelLeft className="h-4 w-4" />
         </Button>
-        <div className="w-8 h-8 sm:w-10 sm:h-10 rounded-lg sm:rounded-xl bg-gradient-to-br from-blue-600 to-blue-700 flex items-center justify-center shadow-lg shadow-blue-600/20 shrink-0">
+        <Link
+          href="/"
+          title="Back to library"
+          className="w-8 h-8 sm:w-10 sm:h-10 rounded-lg sm:rounded-xl bg-gradient-to-br from-blue-600 to-blue-700 flex items-center justify-center shadow-lg shadow-blue-600/20 shrink-0"
+        >
           <BookOpen className="w-4 h-4 sm:w-5 sm:h-5 text-white" />
-        </div>
+        </Link>
         <div className="hidden sm:block min-w-0">
           <h1 className="text-sm md:text-base font-semibold text-zinc-900 dark:text-zinc-100 truncate">
             {ebook.title}
@@ -54,6 +83,38 @@ export function Header({
       </div>
 
       <div className="flex items-center gap-1 sm:gap-2">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 sm:h-8 sm:w-8 hidden sm:flex"
+          onClick={onUndo}
+          disabled={!undoLabel}
+          title={undoLabel ? `Undo ${undoLabel.toLowerCase()} (Ctrl+Z)` : "Nothing to undo"}
+        >
+          <Undo2 className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 sm:h-8 sm:w-8 hidden sm:flex"
+          onClick={onRedo}
+          disabled={!redoLabel}
+          title={redoLabel ? `Redo ${redoLabel.toLowerCase()} (Ctrl+Shift+Z)` : "Nothing to redo"}
+        >
+          <Redo2 className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 sm:h-8 sm:w-8 hidden sm:flex"
+          onClick={onOpenSnapshots}
+          title="Book snapshots"
+        >
+          <History className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+        </Button>
+
+        <div className="w-px h-4 sm:h-6 bg-zinc-200 dark:border-zinc-700 mx-0.5 sm:mx-1 hidden sm:block" />
+
         <Button
           variant="default"
           size="sm"
@@ -84,6 +145,26 @@ export function Header({
           <Palette className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
           <span className="hidden sm:inline">Theme</span>
         </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-1 sm:gap-2 h-7 sm:h-8 text-xs sm:text-sm"
+          onClick={onOpenPageSetup}
+          title="Page size and margins"
+        >
+          <Ruler className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+          <span className="hidden lg:inline">Page Setup</span>
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-1 sm:gap-2 h-7 sm:h-8 text-xs sm:text-sm"
+          onClick={onOpenBookDetails}
+          title="Author, publisher and rights"
+        >
+          <BookUser className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+          <span className="hidden lg:inline">Book Details</span>
+        </Button>
 
         <div className="w-px h-4 sm:h-6 bg-zinc-200 dark:border-zinc-700 mx-0.5 sm:mx-1 hidden md:block" />
 
@@ -91,10 +172,32 @@ export function Header({
           <Save className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
           <span className="hidden lg:inline">Save</span>
         </Button>
-        <Button size="sm" className="gap-1 sm:gap-2 bg-blue-600 hover:bg-blue-700 h-7 sm:h-8 text-xs sm:text-sm">
-          <Download className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
-          <span className="hidden sm:inline">Export</span>
-        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              size="sm"
+              className="gap-1 sm:gap-2 bg-blue-600 hover:bg-blue-700 h-7 sm:h-8 text-xs sm:text-sm"
+              disabled={exporting}
+            >
+              {exporting ? (
+                <Loader2 className="w-3.5 h-3.5 sm:w-4 sm:h-4 animate-spin" />
+              ) : (
+                <Download className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+              )}
+              <span className="hidden sm:inline">{exporting ? "Exporting..." : "Export"}</span>
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => onExport("pdf")}>
+              <FileText className="w-4 h-4" />
+              PDF (print)
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => onExport("epub")}>
+              <BookMarked className="w-4 h-4" />
+              EPUB (ebook readers)
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
     </header>
   );
@@ -18,10 +18,15 @@ import {
   Heading2,
   Heading3,
   Code,
+  History,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { updatePage } from "@/app/actions";
 import { useDebouncedCallback } from "@/hooks/use-debounced-callback";
+import { PageHistoryDrawer } from "./page-history-drawer";
+import { AIRewriteMenu } from "./ai-rewrite-menu";
+import type { PageStyles } from "./settings-panel";
+import { isTocTemplate } from "@/lib/toc";
 
 interface Page {
   id: string;
@@ -29,6 +34,7 @@ interface Page {
   content: string;
   template: string;
   imageUrl: string | null;
+  customStyles?: PageStyles;
 }
 
 interface Theme {
@@ -53,6 +59,7 @@ export function PageEditor({
   const [title, setTitle] = useState(page?.title ?? "");
   const [colorPickerOpen, setColorPickerOpen] = useState(false);
   const [textColor, setTextColor] = useState("#000000");
+  const [historyOpen, setHistoryOpen] = useState(false);
 
   const editor = useEditor({
     immediatelyRender: false,
@@ -121,9 +128,20 @@ export function PageEditor({
       {/* Editor Header */}
       <div className="p-4 border-b border-zinc-200 dark:border-zinc-800 space-y-4">
         <div>
-          <Label htmlFor="page-title" className="text-xs text-zinc-600 dark:text-zinc-400">
-            Page Title
-          </Label>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="page-title" className="text-xs text-zinc-600 dark:text-zinc-400">
+              Page Title
+            </Label>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 gap-1 px-2 text-xs text-zinc-600 dark:text-zinc-400"
+              onClick={() => setHistoryOpen(true)}
+            >
+              <History className="w-3.5 h-3.5" />
+              History
+            </Button>
+          </div>
           <Input
             id="page-title"
             value={title}
@@ -131,6 +149,11 @@ export function PageEditor({
             placeholder="Enter page title..."
             className="mt-1.5"
           />
+          {isTocTemplate(page.template) && (
+            <p className="mt-2 text-xs text-zinc-500 dark:text-zinc-400">
+              Entries are built from page titles and H2/H3 headings and update as you edit.
+            </p>
+          )}
         </div>
       </div>
 
@@ -232,6 +255,15 @@ export function PageEditor({
       <ScrollArea className="flex-1">
         <EditorContent editor={editor} className="h-full" />
       </ScrollArea>
+
+      <AIRewriteMenu editor={editor} pageTitle={title} />
+
+      <PageHistoryDrawer
+        page={page}
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        onRestore={onUpdate}
+      />
     </div>
   );
 }
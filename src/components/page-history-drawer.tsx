@@ -0,0 +1,199 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "./ui/sheet";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { ScrollArea } from "./ui/scroll-area";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { diffHtml } from "@/lib/html-diff";
+import { getPageRevisions, restorePageRevision } from "@/app/actions";
+import type { PageStyles } from "./settings-panel";
+
+interface Page {
+  id: string;
+  title: string | null;
+  content: string;
+  template: string;
+  imageUrl: string | null;
+}
+
+interface PageRevision {
+  id: string;
+  title: string | null;
+  content: string;
+  template: string;
+  imageUrl: string | null;
+  customStyles: unknown;
+  reason: string;
+  createdAt: Date;
+}
+
+interface PageHistoryDrawerProps {
+  page: Page;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestore: (updates: Partial<Page> & { customStyles?: PageStyles }) => void;
+}
+
+const REASON_LABELS: Record<string, string> = {
+  edit: "Edit",
+  template: "Layout change",
+  restore: "Before restore",
+};
+
+export function PageHistoryDrawer({
+  page,
+  open,
+  onOpenChange,
+  onRestore,
+}: PageHistoryDrawerProps) {
+  const [revisions, setRevisions] = useState<PageRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setLoading(true);
+    getPageRevisions(page.id)
+      .then((result) => {
+        setRevisions(result);
+        setSelectedId(result[0]?.id ?? null);
+      })
+      .catch((error) => console.error("Failed to load history:", error))
+      .finally(() => setLoading(false));
+  }, [open, page.id]);
+
+  const selectedRevision = revisions.find((revision) => revision.id === selectedId);
+
+  // Changes made since the selected revision, i.e. what a restore would undo
+  const diff = useMemo(
+    () => (selectedRevision ? diffHtml(selectedRevision.content, page.content) : ""),
+    [selectedRevision, page.content]
+  );
+
+  const handleRestore = async () => {
+    if (!selectedRevision) return;
+
+    setRestoring(true);
+    try {
+      const restored = await restorePageRevision(selectedRevision.id);
+      onRestore({
+        title: restored.title,
+        content: restored.content,
+        template: restored.template,
+        imageUrl: restored.imageUrl,
+        customStyles: (restored.customStyles ?? undefined) as PageStyles | undefined,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Failed to restore revision:", error);
+      alert("Failed to restore this version. Please try again.");
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-2xl p-0 flex flex-col gap-0">
+        <SheetHeader className="border-b border-zinc-200 dark:border-zinc-800">
+          <SheetTitle className="flex items-center gap-2">
+            <History className="w-4 h-4" />
+            Page History
+          </SheetTitle>
+          <SheetDescription>
+            Snapshots of &ldquo;{page.title || "Untitled"}&rdquo;. Highlighted text shows what changed since the selected version.
+          </SheetDescription>
+        </SheetHeader>
+
+        {loading ? (
+          <div className="flex-1 flex items-center justify-center">
+            <Loader2 className="w-5 h-5 animate-spin text-zinc-400" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-sm text-zinc-500 dark:text-zinc-400 px-6 text-center">
+            No history yet. Snapshots are saved automatically as you edit.
+          </div>
+        ) : (
+          <div className="flex-1 flex min-h-0">
+            {/* Revision list */}
+            <ScrollArea className="w-56 border-r border-zinc-200 dark:border-zinc-800 shrink-0">
+              <div className="p-2 space-y-1">
+                {revisions.map((revision) => (
+                  <button
+                    key={revision.id}
+                    onClick={() => setSelectedId(revision.id)}
+                    className={cn(
+                      "w-full text-left rounded-md px-3 py-2 transition-colors",
+                      revision.id === selectedId
+                        ? "bg-blue-50 dark:bg-blue-950/50 text-blue-700 dark:text-blue-300"
+                        : "hover:bg-zinc-100 dark:hover:bg-zinc-800 text-zinc-700 dark:text-zinc-300"
+                    )}
+                  >
+                    <div className="text-sm font-medium">
+                      {new Date(revision.createdAt).toLocaleString()}
+                    </div>
+                    <div className="mt-1 flex items-center gap-1.5">
+                      <Badge variant="secondary" className="text-[10px]">
+                        {REASON_LABELS[revision.reason] ?? revision.reason}
+                      </Badge>
+                      <span className="text-xs text-zinc-500 truncate">
+                        {revision.title || "Untitled"}
+                      </span>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {/* Diff against the current page */}
+            <div className="flex-1 flex flex-col min-w-0">
+              <ScrollArea className="flex-1">
+                {selectedRevision && (
+                  <div className="p-4 space-y-3">
+                    {(selectedRevision.title !== page.title ||
+                      selectedRevision.template !== page.template) && (
+                      <div className="text-xs text-zinc-500 dark:text-zinc-400 space-y-1">
+                        {selectedRevision.title !== page.title && (
+                          <p>Title was &ldquo;{selectedRevision.title || "Untitled"}&rdquo;</p>
+                        )}
+                        {selectedRevision.template !== page.template && (
+                          <p>Template was {selectedRevision.template}</p>
+                        )}
+                      </div>
+                    )}
+                    <div
+                      className="prose prose-sm max-w-none dark:prose-invert [&_ins]:bg-green-100 [&_ins]:text-green-900 [&_ins]:no-underline [&_del]:bg-red-100 [&_del]:text-red-900 dark:[&_ins]:bg-green-900/40 dark:[&_ins]:text-green-200 dark:[&_del]:bg-red-900/40 dark:[&_del]:text-red-200"
+                      dangerouslySetInnerHTML={{ __html: diff }}
+                    />
+                  </div>
+                )}
+              </ScrollArea>
+              <div className="p-4 border-t border-zinc-200 dark:border-zinc-800 flex justify-end">
+                <Button
+                  size="sm"
+                  className="gap-2"
+                  onClick={handleRestore}
+                  disabled={!selectedRevision || restoring}
+                >
+                  {restoring ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                  Restore this version
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Loader2, Ruler } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  PAGE_FORMATS,
+  type PageFormat,
+  type PageMargins,
+  type PageSetup,
+} from "@/lib/page-setup";
+
+interface PageSetupDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  pageSetup: PageSetup;
+  onSave: (pageSetup: PageSetup) => Promise<void>;
+}
+
+const MARGIN_FIELDS: { key: keyof PageMargins; label: string }[] = [
+  { key: "top", label: "Top" },
+  { key: "bottom", label: "Bottom" },
+  { key: "inside", label: "Inside (binding)" },
+  { key: "outside", label: "Outside" },
+];
+
+const MAX_MARGIN_MM = 60;
+
+export function PageSetupDialog({ isOpen, onClose, pageSetup, onSave }: PageSetupDialogProps) {
+  const [draft, setDraft] = useState<PageSetup>(pageSetup);
+  const [saving, setSaving] = useState(false);
+
+  // Start from the saved setup every time the dialog opens
+  useEffect(() => {
+    if (isOpen) setDraft(pageSetup);
+  }, [isOpen, pageSetup]);
+
+  const setFormat = (format: PageFormat) => {
+    setDraft((prev) => ({ ...prev, format }));
+  };
+
+  const setMargin = (key: keyof PageMargins, value: string) => {
+    const mm = Math.min(MAX_MARGIN_MM, Math.max(0, Number(value) || 0));
+    setDraft((prev) => ({ ...prev, margins: { ...prev.margins, [key]: mm } }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave(draft);
+      onClose();
+    } catch (error) {
+      console.error("Failed to save page setup:", error);
+      alert("Failed to save page setup. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Ruler className="w-5 h-5 text-blue-600" />
+            Page Setup
+          </DialogTitle>
+          <DialogDescription>
+            Trim size and margins apply to every page, the print view and all exports.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 py-2">
+          <div className="space-y-2">
+            <Label className="text-xs text-zinc-600 dark:text-zinc-400">Page size</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(PAGE_FORMATS) as PageFormat[]).map((format) => {
+                const { label, description, width, height } = PAGE_FORMATS[format];
+                return (
+                  <button
+                    key={format}
+                    type="button"
+                    onClick={() => setFormat(format)}
+                    className={cn(
+                      "flex items-center gap-3 rounded-lg border p-3 text-left transition-colors",
+                      draft.format === format
+                        ? "border-blue-600 bg-blue-50 dark:bg-blue-950/40"
+                        : "border-zinc-200 dark:border-zinc-700 hover:border-zinc-300 dark:hover:border-zinc-600"
+                    )}
+                  >
+                    <div className="w-8 h-8 flex items-center justify-center shrink-0">
+                      <div
+                        className="border border-zinc-400 dark:border-zinc-500 bg-white dark:bg-zinc-800"
+                        style={{
+                          width: `${(width / Math.max(width, height)) * 28}px`,
+                          height: `${(height / Math.max(width, height)) * 28}px`,
+                        }}
+                      />
+                    </div>
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium text-zinc-900 dark:text-zinc-100">{label}</div>
+                      <div className="text-xs text-zinc-500 dark:text-zinc-400">{description}</div>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs text-zinc-600 dark:text-zinc-400">Margins (mm)</Label>
+            <div className="grid grid-cols-2 gap-3">
+              {MARGIN_FIELDS.map(({ key, label }) => (
+                <div key={key} className="space-y-1">
+                  <Label htmlFor={`margin-${key}`} className="text-xs font-normal">
+                    {label}
+                  </Label>
+                  <Input
+                    id={`margin-${key}`}
+                    type="number"
+                    min={0}
+                    max={MAX_MARGIN_MM}
+                    step={1}
+                    value={draft.margins[key]}
+                    onChange={(e) => setMargin(key, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-zinc-500 dark:text-zinc-400">
+              Inside margins sit on the binding edge and alternate between left and right-hand pages.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving} className="bg-blue-600 hover:bg-blue-700">
+            {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,622 @@
+import Image from "next/image";
+import { ImageIcon } from "lucide-react";
+import type { TemplateRenderProps } from "./types";
+
+// Simple text layout
+export function TextOnlyTemplate({
+  page,
+  theme,
+  displayContent,
+  hasContent,
+  marginPadding,
+  pageTitleStyles,
+}: TemplateRenderProps) {
+  return (
+    <div
+      className="h-full relative"
+      style={{
+        ...marginPadding,
+        backgroundImage: `
+          linear-gradient(to bottom, ${theme.backgroundColor}ee, ${theme.backgroundColor}),
+          repeating-linear-gradient(
+            0deg,
+            transparent,
+            transparent 2px,
+            ${theme.primaryColor}08 2px,
+            ${theme.primaryColor}08 4px
+          )
+        `,
+      }}
+    >
+      {/* Page Title if exists */}
+      {page.title && (
+        <h1
+          className="text-4xl font-bold mb-8 pb-4 border-b-2"
+          style={{
+            color: theme.primaryColor,
+            fontFamily: theme.headingFont,
+            borderColor: `${theme.accentColor}40`,
+            ...pageTitleStyles,
+          }}
+        >
+          {page.title}
+        </h1>
+      )}
+      <div
+        className={`preview-content prose prose-lg max-w-none ${!hasContent ? "opacity-40" : ""}`}
+        dangerouslySetInnerHTML={{ __html: displayContent }}
+      />
+    </div>
+  );
+}
+
+// Image above text
+export function ImageTopTemplate({
+  page,
+  theme,
+  displayContent,
+  hasContent,
+  hasImage,
+  marginPadding,
+  pageTitleStyles,
+  imageContainerStyles,
+  onOpenImagePanel,
+}: TemplateRenderProps) {
+  return (
+    <div className="h-full flex flex-col">
+      <div
+        className="relative w-full h-80 bg-gradient-to-br from-zinc-100 to-zinc-200 dark:from-zinc-800 dark:to-zinc-900 cursor-pointer group overflow-hidden"
+        onClick={onOpenImagePanel}
+        style={imageContainerStyles}
+      >
+        {hasImage ? (
+          <>
+            <Image
+              src={page.imageUrl!}
+              alt={page.title || "Page image"}
+              fill
+              className="object-cover transition-transform duration-300 group-hover:scale-105"
+            />
+            <div
+              className="absolute inset-x-0 bottom-0 h-24 bg-gradient-to-t from-black/30 to-transparent"
+            />
+          </>
+        ) : (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <div className="text-center">
+              <div className="w-16 h-16 mx-auto mb-3 rounded-full bg-zinc-200 dark:bg-zinc-700 flex items-center justify-center">
+                <ImageIcon className="w-8 h-8 text-zinc-400 dark:text-zinc-500" />
+              </div>
+              <p className="print:hidden text-zinc-400 dark:text-zinc-500 text-sm font-medium group-hover:text-zinc-500 dark:group-hover:text-zinc-400 transition-colors">
+                Click to add image
+              </p>
+            </div>
+          </div>
+        )}
+      </div>
+      <div className="flex-1" style={marginPadding}>
+        {page.title && (
+          <h1
+            className="text-4xl font-bold mb-6"
+            style={{
+              color: theme.primaryColor,
+              fontFamily: theme.headingFont,
+              ...pageTitleStyles,
+            }}
+          >
+            {page.title}
+          </h1>
+        )}
+        <div
+          className={`preview-content prose prose-lg max-w-none ${!hasContent ? "opacity-40" : ""}`}
+          dangerouslySetInnerHTML={{ __html: displayContent }}
+        />
+      </div>
+    </div>
+  );
+}
+
+// Image below text
+export function ImageBottomTemplate({
+  page,
+  theme,
+  displayContent,
+  hasContent,
+  hasImage,
+  marginPadding,
+  pageTitleStyles,
+  imageContainerStyles,
+  onOpenImagePanel,
+}: TemplateRenderProps) {
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex-1" style={marginPadding}>
+        {page.title && (
+          <h1
+            className="text-4xl font-bold mb-6"
+            style={{
+              color: theme.primaryColor,
+              fontFamily: theme.headingFont,
+              ...pageTitleStyles,
+            }}
+          >
+            {page.title}
+          </h1>
+        )}
+        <div
+          className={`preview-content prose prose-lg max-w-none ${!hasContent ? "opacity-40" : ""}`}
+          dangerouslySetInnerHTML={{ __html: displayContent }}
+        />
+      </div>
+      <div
+        className="relative w-full h-80 bg-gradient-to-br from-zinc-100 to-zinc-200 dark:from-zinc-800 dark:to-zinc-900 cursor-pointer group overflow-hidden"
+        onClick={onOpenImagePanel}
+        style={imageContainerStyles}
+      >
+        {hasImage ? (
+          <>
+            <Image
+              src={page.imageUrl!}
+              alt={page.title || "Page image"}
+              fill
+              className="object-cover transition-transform duration-300 group-hover:scale-105"
+            />
+            <div
+              className="absolute inset-x-0 top-0 h-24 bg-gradient-to-b from-black/30 to-transparent"
+            />
+          </>
+        ) : (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <div className="text-center">
+              <div className="w-16 h-16 mx-auto mb-3 rounded-full bg-zinc-200 dark:bg-zinc-700 flex items-center justify-center">
+                <ImageIcon className="w-8 h-8 text-zinc-400 dark:text-zinc-500" />
+              </div>
+              <p className="print:hidden text-zinc-400 dark:text-zinc-500 text-sm font-medium group-hover:text-zinc-500 dark:group-hover:text-zinc-400 transition-colors">
+                Click to add image
+              </p>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Image left, text right
+export function TwoColumnTemplate({
+  page,
+  theme,
+  displayContent,
+  hasContent,
+  hasImage,
+  marginPadding,
+  pageTitleStyles,
+  imageContainerStyles,
+  onOpenImagePanel,
+}: TemplateRenderProps) {
+  return (
+    <div className="grid grid-cols-2 gap-10 h-full" style={marginPadding}>
+      <div
+        className="relative h-full min-h-[500px] bg-gradient-to-br from-zinc-100 to-zinc-200 dark:from-zinc-800 dark:to-zinc-900 rounded-2xl overflow-hidden cursor-pointer group shadow-lg"
+        onClick={onOpenImagePanel}
+        style={{
+          boxShadow: `0 10px 40px ${theme.primaryColor}20`,
+          ...imageContainerStyles,
+        }}
+      >
+        {hasImage ? (
+          <Image
+            src={page.imageUrl!}
+            alt={page.title || "Page image"}
+            fill
+            className="object-cover transition-transform duration-300 group-hover:scale-105"
+          />
+        ) : (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <div className="text-center">
+              <div
+                className="w-20 h-20 mx-auto mb-4 rounded-full flex items-center justify-center"
+                style={{
+                  background: `linear-gradient(135deg, ${theme.primaryColor}30, ${theme.accentColor}30)`,
+                }}
+              >
+                <ImageIcon className="w-10 h-10 text-zinc-400 dark:text-zinc-500" />
+              </div>
+              <p className="print:hidden text-zinc-400 dark:text-zinc-500 text-sm font-medium group-hover:text-zinc-500 dark:group-hover:text-zinc-400 transition-colors">
+                Click to add image
+              </p>
+            </div>
+          </div>
+        )}
+      </div>
+      <div className="flex flex-col justify-center">
+        {page.title && (
+          <h1
+            className="text-3xl font-bold mb-6"
+            style={{
+              color: theme.primaryColor,
+              fontFamily: theme.headingFont,
+              ...pageTitleStyles,
+            }}
+          >
+            {page.title}
+          </h1>
+        )}
+        <div
+          className={`preview-content prose max-w-none ${!hasContent ? "opacity-40" : ""}`}
+          dangerouslySetInnerHTML={{ __html: displayContent }}
+        />
+      </div>
+    </div>
+  );
+}
+
+// Small image, large text
+export function BlogPostTemplate({
+  page,
+  theme,
+  displayContent,
+  hasContent,
+  hasImage,
+  marginPadding,
+  pageTitleStyles,
+  imageContainerStyles,
+  onOpenImagePanel,
+}: TemplateRenderProps) {
+  return (
+    <div className="h-full" style={marginPadding}>
+      {page.title && (
+        <h1
+          className="text-5xl font-bold mb-8"
+          style={{
+            color: theme.primaryColor,
+            fontFamily: theme.headingFont,
+            ...pageTitleStyles,
+          }}
+        >
+          {page.title}
+        </h1>
+      )}
+      <div className="grid grid-cols-3 gap-10 items-start">
+        <div
+          className="relative h-72 bg-gradient-to-br from-zinc-100 to-zinc-200 dark:from-zinc-800 dark:to-zinc-900 rounded-xl overflow-hidden cursor-pointer group shadow-xl"
+          onClick={onOpenImagePanel}
+          style={{
+            boxShadow: `0 15px 50px ${theme.accentColor}25`,
+            ...imageContainerStyles,
+          }}
+        >
+          {hasImage ? (
+            <Image
+              src={page.imageUrl!}
+              alt={page.title || "Page image"}
+              fill
+              className="object-cover transition-all duration-300 group-hover:scale-110 group-hover:rotate-1"
+            />
+          ) : (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <div className="text-center">
+                <div
+                  className="w-16 h-16 mx-auto mb-3 rounded-lg flex items-center justify-center"
+                  style={{
+                    background: `linear-gradient(135deg, ${theme.primaryColor}40, ${theme.accentColor}40)`,
+                  }}
+                >
+                  <ImageIcon className="w-8 h-8 text-zinc-400 dark:text-zinc-500" />
+                </div>
+                <p className="print:hidden text-zinc-400 dark:text-zinc-500 text-xs font-medium group-hover:text-zinc-500 dark:group-hover:text-zinc-400 transition-colors">
+                  Add image
+                </p>
+              </div>
+            </div>
+          )}
+        </div>
+        <div className="col-span-2">
+          <div
+            className={`prose prose-lg max-w-none ${!hasContent ? "opacity-40" : ""}`}
+            dangerouslySetInnerHTML={{ __html: displayContent }}
+            style={{
+              color: theme.textColor,
+              fontFamily: theme.bodyFont,
+            }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Image wraps text on right
+export function ImageLeftTemplate({
+  page,
+  theme,
+  displayContent,
+  hasContent,
+  hasImage,
+  marginPadding,
+  pageTitleStyles,
+  imageContainerStyles,
+  onOpenImagePanel,
+}: TemplateRenderProps) {
+  return (
+    <div className="h-full" style={marginPadding}>
+      {page.title && (
+        <h1
+          className="text-4xl font-bold mb-6"
+          style={{
+            color: theme.primaryColor,
+            fontFamily: theme.headingFont,
+            ...pageTitleStyles,
+          }}
+        >
+          {page.title}
+        </h1>
+      )}
+      <div className="flex gap-8 items-start">
+        <div
+          className="relative w-80 h-96 bg-gradient-to-br from-zinc-100 to-zinc-200 dark:from-zinc-800 dark:to-zinc-900 rounded-lg overflow-hidden cursor-pointer group shadow-lg shrink-0"
+          onClick={onOpenImagePanel}
+          style={{
+            boxShadow: `0 10px 40px ${theme.primaryColor}20`,
+            ...imageContainerStyles,
+          }}
+        >
+          {hasImage ? (
+            <Image
+              src={page.imageUrl!}
+              alt={page.title || "Page image"}
+              fill
+              className="object-cover transition-transform duration-300 group-hover:scale-105"
+            />
+          ) : (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <div className="text-center">
+                <div
+                  className="w-16 h-16 mx-auto mb-3 rounded-full flex items-center justify-center"
+                  style={{
+                    background: `linear-gradient(135deg, ${theme.primaryColor}30, ${theme.accentColor}30)`,
+                  }}
+                >
+                  <ImageIcon className="w-8 h-8 text-zinc-400 dark:text-zinc-500" />
+                </div>
+                <p className="print:hidden text-zinc-400 dark:text-zinc-500 text-sm font-medium group-hover:text-zinc-500 dark:group-hover:text-zinc-400 transition-colors">
+                  Click to add image
+                </p>
+              </div>
+            </div>
+          )}
+        </div>
+        <div className="flex-1">
+          <div
+            className={`preview-content prose prose-lg max-w-none ${!hasContent ? "opacity-40" : ""}`}
+            dangerouslySetInnerHTML={{ __html: displayContent }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Image wraps text on left
+export function ImageRightTemplate({
+  page,
+  theme,
+  displayContent,
+  hasContent,
+  hasImage,
+  marginPadding,
+  pageTitleStyles,
+  imageContainerStyles,
+  onOpenImagePanel,
+}: TemplateRenderProps) {
+  return (
+    <div className="h-full" style={marginPadding}>
+      {page.title && (
+        <h1
+          className="text-4xl font-bold mb-6"
+          style={{
+            color: theme.primaryColor,
+            fontFamily: theme.headingFont,
+            ...pageTitleStyles,
+          }}
+        >
+          {page.title}
+        </h1>
+      )}
+      <div className="flex gap-8 items-start">
+        <div className="flex-1">
+          <div
+            className={`preview-content prose prose-lg max-w-none ${!hasContent ? "opacity-40" : ""}`}
+            dangerouslySetInnerHTML={{ __html: displayContent }}
+          />
+        </div>
+        <div
+          className="relative w-80 h-96 bg-gradient-to-br from-zinc-100 to-zinc-200 dark:from-zinc-800 dark:to-zinc-900 rounded-lg overflow-hidden cursor-pointer group shadow-lg shrink-0"
+          onClick={onOpenImagePanel}
+          style={{
+            boxShadow: `0 10px 40px ${theme.primaryColor}20`,
+            ...imageContainerStyles,
+          }}
+        >
+          {hasImage ? (
+            <Image
+              src={page.imageUrl!}
+              alt={page.title || "Page image"}
+              fill
+              className="object-cover transition-transform duration-300 group-hover:scale-105"
+            />
+          ) : (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <div className="text-center">
+                <div
+                  className="w-16 h-16 mx-auto mb-3 rounded-full flex items-center justify-center"
+                  style={{
+                    background: `linear-gradient(135deg, ${theme.primaryColor}30, ${theme.accentColor}30)`,
+                  }}
+                >
+                  <ImageIcon className="w-8 h-8 text-zinc-400 dark:text-zinc-500" />
+                </div>
+                <p className="print:hidden text-zinc-400 dark:text-zinc-500 text-sm font-medium group-hover:text-zinc-500 dark:group-hover:text-zinc-400 transition-colors">
+                  Click to add image
+                </p>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Centered image with text above & below
+export function ImageCenterTemplate({
+  page,
+  theme,
+  hasContent,
+  hasImage,
+  marginPadding,
+  pageTitleStyles,
+  imageContainerStyles,
+  onOpenImagePanel,
+}: TemplateRenderProps) {
+  return (
+    <div className="h-full" style={marginPadding}>
+      {page.title && (
+        <h1
+          className="text-4xl font-bold mb-8 text-center"
+          style={{
+            color: theme.primaryColor,
+            fontFamily: theme.headingFont,
+            ...pageTitleStyles,
+          }}
+        >
+          {page.title}
+        </h1>
+      )}
+      <div className="space-y-8">
+        <div
+          className={`preview-content prose prose-lg max-w-none ${!hasContent ? "opacity-40" : ""}`}
+          dangerouslySetInnerHTML={{ __html: hasContent ? page.content.split('</p>')[0] + '</p>' : "<p>Your content here...</p>" }}
+        />
+
+        <div
+          className="relative w-full h-96 bg-gradient-to-br from-zinc-100 to-zinc-200 dark:from-zinc-800 dark:to-zinc-900 rounded-xl overflow-hidden cursor-pointer group shadow-xl mx-auto"
+          onClick={onOpenImagePanel}
+          style={{
+            maxWidth: "600px",
+            boxShadow: `0 15px 50px ${theme.accentColor}30`,
+            ...imageContainerStyles,
+          }}
+        >
+          {hasImage ? (
+            <Image
+              src={page.imageUrl!}
+              alt={page.title || "Page image"}
+              fill
+              className="object-cover transition-all duration-300 group-hover:scale-105"
+            />
+          ) : (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <div className="text-center">
+                <div
+                  className="w-20 h-20 mx-auto mb-4 rounded-full flex items-center justify-center"
+                  style={{
+                    background: `linear-gradient(135deg, ${theme.primaryColor}30, ${theme.accentColor}30)`,
+                  }}
+                >
+                  <ImageIcon className="w-10 h-10 text-zinc-400 dark:text-zinc-500" />
+                </div>
+                <p className="print:hidden text-zinc-400 dark:text-zinc-500 text-sm font-medium group-hover:text-zinc-500 dark:group-hover:text-zinc-400 transition-colors">
+                  Click to add image
+                </p>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div
+          className={`preview-content prose prose-lg max-w-none ${!hasContent ? "opacity-40" : ""}`}
+          dangerouslySetInnerHTML={{ __html: hasContent && page.content.split('</p>').length > 1 ? page.content.split('</p>').slice(1).join('</p>') : "<p>More content here...</p>" }}
+        />
+      </div>
+    </div>
+  );
+}
+
+// Text over full image
+export function FullImageTemplate({
+  page,
+  theme,
+  displayContent,
+  hasContent,
+  hasImage,
+  marginPadding,
+  pageTitleStyles,
+  onOpenImagePanel,
+}: TemplateRenderProps) {
+  return (
+    <div
+      className="relative w-full h-full bg-gradient-to-br from-zinc-200 to-zinc-300 dark:from-zinc-800 dark:to-zinc-900 cursor-pointer group overflow-hidden"
+      onClick={onOpenImagePanel}
+    >
+      {hasImage ? (
+        <>
+          <Image
+            src={page.imageUrl!}
+            alt={page.title || "Page image"}
+            fill
+            className="object-cover"
+          />
+          <div
+            className="absolute inset-0"
+            style={{
+              background: `radial-gradient(circle at center, transparent 0%, ${theme.primaryColor}60 100%)`,
+            }}
+          />
+          <div className="absolute inset-0 bg-gradient-to-b from-black/50 via-transparent to-black/60" />
+        </>
+      ) : (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <div className="text-center">
+            <div
+              className="w-24 h-24 mx-auto mb-4 rounded-2xl flex items-center justify-center backdrop-blur-sm"
+              style={{
+                background: `linear-gradient(135deg, ${theme.primaryColor}50, ${theme.accentColor}50)`,
+              }}
+            >
+              <ImageIcon className="w-12 h-12 text-zinc-400 dark:text-zinc-500" />
+            </div>
+            <p className="print:hidden text-zinc-400 dark:text-zinc-500 text-base font-medium group-hover:text-zinc-500 dark:group-hover:text-zinc-400 transition-colors">
+              Click to add full-page background image
+            </p>
+          </div>
+        </div>
+      )}
+      <div className="absolute inset-0 flex items-center justify-center" style={marginPadding}>
+        <div className="max-w-4xl text-center">
+          {page.title && (
+            <h1
+              className="text-6xl font-bold mb-8 drop-shadow-2xl"
+              style={{
+                color: hasImage ? "#ffffff" : theme.primaryColor,
+                fontFamily: theme.headingFont,
+                textShadow: hasImage ? "0 4px 30px rgba(0,0,0,0.7)" : "none",
+                ...pageTitleStyles,
+              }}
+            >
+              {page.title}
+            </h1>
+          )}
+          <div
+            className={`preview-content prose prose-xl prose-invert max-w-3xl mx-auto ${!hasContent ? "opacity-60" : ""}`}
+            dangerouslySetInnerHTML={{ __html: displayContent }}
+            style={{
+              color: hasImage ? "#ffffff" : theme.textColor,
+              textShadow: hasImage ? "0 2px 15px rgba(0,0,0,0.7)" : "none",
+            }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
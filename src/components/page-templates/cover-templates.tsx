@@ -0,0 +1,728 @@
+import Image from "next/image";
+import { ImageIcon } from "lucide-react";
+import { getPublicationYear, getSubtitleHtml } from "@/lib/metadata";
+import type { TemplateRenderProps } from "./types";
+
+// Colors, fonts and text shared by the cover designs. Anything left blank
+// on the cover falls back to the theme and then the book details.
+function getCoverStyles({ page, theme, hasContent, author, metadata }: TemplateRenderProps) {
+  const coverSettings = page.customStyles?.coverSettings;
+  const useThemeColors = coverSettings?.useThemeColors ?? true;
+  const useThemeFonts = coverSettings?.useThemeFonts ?? true;
+  const overlayEnabled = coverSettings?.overlayEnabled ?? true;
+  const publicationYear = getPublicationYear(metadata);
+
+  return {
+    coverColors: {
+      primaryColor: useThemeColors ? theme.primaryColor : (coverSettings?.customPrimaryColor || theme.primaryColor),
+      accentColor: useThemeColors ? theme.accentColor : (coverSettings?.customAccentColor || theme.accentColor),
+      backgroundColor: useThemeColors ? theme.backgroundColor : (coverSettings?.customBackgroundColor || theme.backgroundColor),
+      textColor: useThemeColors ? theme.textColor : (coverSettings?.customTextColor || "#ffffff"),
+      secondaryColor: theme.secondaryColor,
+    },
+    coverFonts: {
+      headingFont: useThemeFonts ? theme.headingFont : (coverSettings?.customHeadingFont || theme.headingFont),
+      bodyFont: useThemeFonts ? theme.bodyFont : (coverSettings?.customBodyFont || theme.bodyFont),
+    },
+    overlayOpacity: overlayEnabled ? (coverSettings?.overlayDarkness ?? 50) / 100 : 0,
+    coverText: {
+      authorLabel: coverSettings?.authorLabel || "Written by",
+      authorName: coverSettings?.authorName || author || "Your Name Here",
+      tagLine: coverSettings?.tagLine || "EXCLUSIVE",
+      edition: coverSettings?.edition || (publicationYear ? `${publicationYear} EDITION` : "FIRST EDITION"),
+    },
+    coverSubtitle: hasContent ? page.content : getSubtitleHtml(metadata),
+  };
+}
+
+// Full background image with centered title
+export function CoverPageTemplate(props: TemplateRenderProps) {
+  const { page, hasImage, marginPadding, bookTitle, onOpenImagePanel } = props;
+  const { coverColors, coverFonts, overlayOpacity, coverSubtitle } = getCoverStyles(props);
+
+  return (
+    <div
+      onClick={onOpenImagePanel}
+      className="relative w-full h-full overflow-hidden cursor-pointer group"
+      style={{
+        background: `linear-gradient(135deg, ${coverColors.primaryColor} 0%, ${coverColors.accentColor} 100%)`,
+      }}
+    >
+      {/* Background Image with Overlay */}
+      {hasImage ? (
+        <>
+          <Image
+            src={page.imageUrl!}
+            alt={page.title || "Cover image"}
+            fill
+            className="object-cover"
+          />
+          {overlayOpacity > 0 && (
+            <div
+              className="absolute inset-0"
+              style={{
+                background: `linear-gradient(to bottom, rgba(0,0,0,${overlayOpacity * 0.8}), rgba(0,0,0,${overlayOpacity * 0.6}), rgba(0,0,0,${overlayOpacity * 0.9}))`,
+              }}
+            />
+          )}
+        </>
+      ) : (
+        <div className="absolute inset-0 bg-gradient-to-br from-black/5 to-black/10 group-hover:from-black/10 group-hover:to-black/15 transition-all" />
+      )}
+
+      {/* Content */}
+      <div className="relative h-full flex flex-col items-center justify-center text-center" style={marginPadding}>
+        {/* Decorative Line */}
+        <div className="w-24 h-1 bg-white/80 mb-8 rounded-full" />
+
+        {/* Title */}
+        <h1
+          className={`text-6xl font-bold mb-6 leading-tight ${!coverSubtitle && !page.title ? "opacity-70" : ""}`}
+          style={{
+            color: hasImage ? "#ffffff" : coverColors.textColor,
+            fontFamily: coverFonts.headingFont,
+            textShadow: hasImage ? "0 4px 20px rgba(0,0,0,0.5)" : "none",
+          }}
+        >
+          {page.title || bookTitle || "Your Book Title Here"}
+        </h1>
+
+        {/* Subtitle/Description - Better contrast */}
+        <div
+          className={`preview-content prose prose-xl prose-invert max-w-2xl ${!coverSubtitle ? "opacity-70" : ""}`}
+          dangerouslySetInnerHTML={{
+            __html: coverSubtitle
+              ?? "<p>A captivating subtitle or description that draws readers in and sets the tone for your amazing content.</p>"
+          }}
+          style={{
+            color: hasImage ? "#ffffff" : coverColors.textColor,
+            fontFamily: coverFonts.bodyFont,
+            textShadow: hasImage ? "0 2px 10px rgba(0,0,0,0.5)" : "none",
+          }}
+        />
+
+        {/* Decorative Line */}
+        <div className="w-24 h-1 bg-white/80 mt-8 rounded-full" />
+
+        {/* Hint text when no image */}
+        {!hasImage && (
+          <p className="print:hidden mt-12 text-white/60 text-sm group-hover:text-white/80 transition-colors">
+            Click anywhere to add background image
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Large typography, striking design
+export function CoverBoldTemplate(props: TemplateRenderProps) {
+  const { page, hasImage, marginPadding, bookTitle, onOpenImagePanel } = props;
+  const { coverColors, coverFonts, overlayOpacity, coverSubtitle } = getCoverStyles(props);
+
+  return (
+    <div
+      onClick={onOpenImagePanel}
+      className="relative w-full h-full overflow-hidden cursor-pointer group"
+      style={{ backgroundColor: coverColors.primaryColor }}
+    >
+      {/* Background Image */}
+      {hasImage && (
+        <>
+          <Image
+            src={page.imageUrl!}
+            alt={page.title || "Cover image"}
+            fill
+            className="object-cover"
+            style={{ opacity: 1 - overlayOpacity * 0.7 }}
+          />
+          {overlayOpacity > 0 && (
+            <div
+              className="absolute inset-0"
+              style={{
+                background: `linear-gradient(to top, rgba(0,0,0,${overlayOpacity}), transparent, rgba(0,0,0,${overlayOpacity * 0.5}))`,
+              }}
+            />
+          )}
+        </>
+      )}
+
+      {/* Large diagonal accent */}
+      <div
+        className="absolute -right-32 -top-32 w-96 h-96 rounded-full opacity-20"
+        style={{ backgroundColor: coverColors.accentColor }}
+      />
+      <div
+        className="absolute -left-20 -bottom-20 w-64 h-64 rounded-full opacity-15"
+        style={{ backgroundColor: coverColors.accentColor }}
+      />
+
+      {/* Content */}
+      <div className="relative h-full flex flex-col justify-end" style={marginPadding}>
+        {/* Accent bar */}
+        <div
+          className="w-32 h-2 mb-8 rounded-full"
+          style={{ backgroundColor: coverColors.accentColor }}
+        />
+
+        {/* Title - Extra large */}
+        <h1
+          className="text-7xl font-black mb-6 leading-none tracking-tight"
+          style={{
+            color: "#ffffff",
+            fontFamily: coverFonts.headingFont,
+          }}
+        >
+          {page.title || bookTitle || "BOLD TITLE"}
+        </h1>
+
+        {/* Subtitle - Better contrast */}
+        <div
+          className={`preview-content prose prose-xl prose-invert max-w-xl ${!coverSubtitle ? "opacity-80" : ""}`}
+          dangerouslySetInnerHTML={{
+            __html: coverSubtitle
+              ?? "<p>A powerful statement that captures attention</p>"
+          }}
+          style={{
+            color: "#ffffff",
+            fontFamily: coverFonts.bodyFont,
+            textShadow: "0 2px 4px rgba(0,0,0,0.3)",
+          }}
+        />
+
+        {!hasImage && (
+          <p className="print:hidden mt-8 text-white/50 text-sm">Click to add background image</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Clean, elegant simplicity
+export function CoverMinimalTemplate(props: TemplateRenderProps) {
+  const { page, hasImage, marginPadding, bookTitle, onOpenImagePanel } = props;
+  const { coverColors, coverFonts, coverSubtitle } = getCoverStyles(props);
+
+  return (
+    <div
+      onClick={onOpenImagePanel}
+      className="relative w-full h-full overflow-hidden cursor-pointer group"
+      style={{ backgroundColor: coverColors.backgroundColor }}
+    >
+      {/* Subtle background pattern */}
+      <div
+        className="absolute inset-0 opacity-5"
+        style={{
+          backgroundImage: `radial-gradient(${coverColors.primaryColor} 1px, transparent 1px)`,
+          backgroundSize: "20px 20px",
+        }}
+      />
+
+      {/* Content centered */}
+      <div className="relative h-full flex flex-col items-center justify-center text-center" style={marginPadding}>
+        {/* Small accent dot */}
+        <div
+          className="w-3 h-3 rounded-full mb-12"
+          style={{ backgroundColor: coverColors.accentColor }}
+        />
+
+        {/* Title - Clean and spaced */}
+        <h1
+          className="text-5xl font-light mb-8 tracking-widest uppercase"
+          style={{
+            color: coverColors.primaryColor,
+            fontFamily: coverFonts.headingFont,
+            letterSpacing: "0.2em",
+          }}
+        >
+          {page.title || bookTitle || "Minimal"}
+        </h1>
+
+        {/* Thin line */}
+        <div
+          className="w-16 h-px mb-8"
+          style={{ backgroundColor: coverColors.secondaryColor }}
+        />
+
+        {/* Subtitle - Better contrast */}
+        <div
+          className={`preview-content prose max-w-md ${!coverSubtitle ? "opacity-60" : ""}`}
+          dangerouslySetInnerHTML={{
+            __html: coverSubtitle
+              ?? "<p>Less is more. Elegance in simplicity.</p>"
+          }}
+          style={{
+            color: coverColors.primaryColor,
+            fontFamily: coverFonts.bodyFont,
+            opacity: 0.8,
+          }}
+        />
+
+        {/* Small image circle at bottom */}
+        {hasImage && (
+          <div
+            className="mt-16 w-24 h-24 rounded-full overflow-hidden border-2"
+            style={{ borderColor: coverColors.accentColor }}
+          >
+            <Image
+              src={page.imageUrl!}
+              alt="Cover"
+              width={96}
+              height={96}
+              className="object-cover w-full h-full"
+            />
+          </div>
+        )}
+
+        {!hasImage && (
+          <p className="print:hidden mt-16 text-xs" style={{ color: coverColors.secondaryColor }}>Click to add image</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Half image, half color block
+export function CoverSplitTemplate(props: TemplateRenderProps) {
+  const { page, hasImage, marginPadding, bookTitle, onOpenImagePanel } = props;
+  const { coverColors, coverFonts, coverSubtitle } = getCoverStyles(props);
+
+  return (
+    <div className="relative w-full h-full overflow-hidden flex">
+      {/* Left side - Color block with text */}
+      <div
+        className="w-1/2 h-full flex flex-col justify-center"
+        style={{ ...marginPadding, backgroundColor: coverColors.primaryColor }}
+      >
+        {/* Accent line */}
+        <div
+          className="w-12 h-1 mb-8"
+          style={{ backgroundColor: coverColors.accentColor }}
+        />
+
+        {/* Title */}
+        <h1
+          className="text-5xl font-bold mb-6 leading-tight"
+          style={{
+            color: "#ffffff",
+            fontFamily: coverFonts.headingFont,
+          }}
+        >
+          {page.title || bookTitle || "Split Design"}
+        </h1>
+
+        {/* Subtitle - Better contrast */}
+        <div
+          className={`preview-content prose prose-invert max-w-sm ${!coverSubtitle ? "opacity-80" : ""}`}
+          dangerouslySetInnerHTML={{
+            __html: coverSubtitle
+              ?? "<p>Balance of visual and text creates impact</p>"
+          }}
+          style={{
+            color: "#ffffff",
+            fontFamily: coverFonts.bodyFont,
+          }}
+        />
+      </div>
+
+      {/* Right side - Image */}
+      <div
+        onClick={onOpenImagePanel}
+        className="w-1/2 h-full cursor-pointer group relative"
+        style={{ backgroundColor: coverColors.backgroundColor }}
+      >
+        {hasImage ? (
+          <Image
+            src={page.imageUrl!}
+            alt={page.title || "Cover image"}
+            fill
+            className="object-cover transition-transform duration-500 group-hover:scale-105"
+          />
+        ) : (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <div className="text-center">
+              <ImageIcon className="w-16 h-16 mx-auto mb-4 opacity-20" />
+              <p className="print:hidden text-sm opacity-40">Click to add image</p>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Vibrant gradients with floating elements
+export function CoverGradientTemplate(props: TemplateRenderProps) {
+  const { page, hasImage, marginPadding, bookTitle, onOpenImagePanel } = props;
+  const { coverColors, coverFonts, coverSubtitle } = getCoverStyles(props);
+
+  return (
+    <div
+      onClick={onOpenImagePanel}
+      className="relative w-full h-full overflow-hidden cursor-pointer group"
+      style={{
+        background: `linear-gradient(135deg, ${coverColors.primaryColor} 0%, ${coverColors.accentColor} 50%, ${coverColors.secondaryColor} 100%)`,
+      }}
+    >
+      {/* Floating shapes */}
+      <div className="absolute top-20 right-20 w-40 h-40 rounded-full bg-white/10 blur-xl" />
+      <div className="absolute bottom-40 left-10 w-60 h-60 rounded-full bg-white/10 blur-2xl" />
+      <div className="absolute top-1/3 left-1/4 w-20 h-20 rounded-full bg-white/20 blur-lg" />
+
+      {/* Background image overlay */}
+      {hasImage && (
+        <>
+          <Image
+            src={page.imageUrl!}
+            alt={page.title || "Cover image"}
+            fill
+            className="object-cover opacity-20 mix-blend-overlay"
+          />
+        </>
+      )}
+
+      {/* Content */}
+      <div className="relative h-full flex flex-col items-center justify-center text-center" style={marginPadding}>
+        {/* Glowing ring */}
+        <div className="relative mb-8">
+          <div className="w-32 h-32 rounded-full border-2 border-white/30 flex items-center justify-center">
+            {hasImage ? (
+              <div className="w-28 h-28 rounded-full overflow-hidden">
+                <Image
+                  src={page.imageUrl!}
+                  alt="Icon"
+                  width={112}
+                  height={112}
+                  className="object-cover"
+                />
+              </div>
+            ) : (
+              <span className="text-4xl">✨</span>
+            )}
+          </div>
+        </div>
+
+        {/* Title */}
+        <h1
+          className="text-6xl font-bold mb-6 leading-tight"
+          style={{
+            color: "#ffffff",
+            fontFamily: coverFonts.headingFont,
+            textShadow: "0 4px 30px rgba(0,0,0,0.3)",
+          }}
+        >
+          {page.title || bookTitle || "Gradient Glow"}
+        </h1>
+
+        {/* Subtitle - Better contrast */}
+        <div
+          className={`preview-content prose prose-xl prose-invert max-w-xl ${!coverSubtitle ? "opacity-80" : ""}`}
+          dangerouslySetInnerHTML={{
+            __html: coverSubtitle
+              ?? "<p>Vibrant colors that capture attention and inspire action</p>"
+          }}
+          style={{
+            color: "#ffffff",
+            fontFamily: coverFonts.bodyFont,
+            textShadow: "0 2px 8px rgba(0,0,0,0.3)",
+          }}
+        />
+      </div>
+    </div>
+  );
+}
+
+// Showcase author with photo
+export function CoverAuthorTemplate(props: TemplateRenderProps) {
+  const { page, hasImage, marginPadding, bookTitle, onOpenImagePanel } = props;
+  const { coverColors, coverFonts, coverText, coverSubtitle } = getCoverStyles(props);
+
+  return (
+    <div
+      className="relative w-full h-full overflow-hidden"
+      style={{ backgroundColor: coverColors.backgroundColor }}
+    >
+      {/* Decorative background */}
+      <div
+        className="absolute top-0 right-0 w-2/3 h-full"
+        style={{
+          background: `linear-gradient(to left, ${coverColors.primaryColor}15, transparent)`,
+        }}
+      />
+
+      {/* Content */}
+      <div className="relative h-full flex flex-col justify-between" style={marginPadding}>
+        {/* Top section - Title */}
+        <div>
+          <h1
+            className="text-5xl font-bold mb-6 leading-tight max-w-lg"
+            style={{
+              color: coverColors.primaryColor,
+              fontFamily: coverFonts.headingFont,
+            }}
+          >
+            {page.title || bookTitle || "Author's Guide"}
+          </h1>
+
+          <div
+            className={`preview-content prose max-w-md ${!coverSubtitle ? "opacity-70" : ""}`}
+            dangerouslySetInnerHTML={{
+              __html: coverSubtitle
+                ?? "<p>Share your expertise with the world</p>"
+            }}
+            style={{
+              color: coverColors.primaryColor,
+              fontFamily: coverFonts.bodyFont,
+              opacity: 0.85,
+            }}
+          />
+        </div>
+
+        {/* Bottom section - Author info */}
+        <div className="flex items-end gap-8">
+          {/* Author photo */}
+          <div
+            onClick={onOpenImagePanel}
+            className="w-48 h-48 rounded-full overflow-hidden cursor-pointer group border-4 shadow-2xl"
+            style={{ borderColor: coverColors.accentColor }}
+          >
+            {hasImage ? (
+              <Image
+                src={page.imageUrl!}
+                alt="Author"
+                width={192}
+                height={192}
+                className="object-cover w-full h-full transition-transform duration-300 group-hover:scale-110"
+              />
+            ) : (
+              <div
+                className="w-full h-full flex items-center justify-center"
+                style={{ backgroundColor: coverColors.secondaryColor + "30" }}
+              >
+                <div className="text-center">
+                  <ImageIcon className="w-12 h-12 mx-auto mb-2 opacity-30" />
+                  <p className="print:hidden text-xs opacity-50">Add photo</p>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Author name placeholder */}
+          <div className="pb-4">
+            <p className="text-sm uppercase tracking-widest mb-2" style={{ color: coverColors.secondaryColor }}>
+              {coverText.authorLabel}
+            </p>
+            <p className="text-2xl font-semibold" style={{ color: coverColors.primaryColor }}>
+              {coverText.authorName}
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Editorial, professional look
+export function CoverMagazineTemplate(props: TemplateRenderProps) {
+  const { page, hasImage, marginPadding, bookTitle, onOpenImagePanel } = props;
+  const { coverColors, coverFonts, overlayOpacity, coverText, coverSubtitle } = getCoverStyles(props);
+
+  return (
+    <div
+      onClick={onOpenImagePanel}
+      className="relative w-full h-full overflow-hidden cursor-pointer group"
+      style={{ backgroundColor: "#000000" }}
+    >
+      {/* Full background image */}
+      {hasImage ? (
+        <>
+          <Image
+            src={page.imageUrl!}
+            alt={page.title || "Cover image"}
+            fill
+            className="object-cover"
+          />
+          {overlayOpacity > 0 && (
+            <div
+              className="absolute inset-0"
+              style={{
+                background: `linear-gradient(to top, rgba(0,0,0,${overlayOpacity}), rgba(0,0,0,${overlayOpacity * 0.3}), transparent)`,
+              }}
+            />
+          )}
+        </>
+      ) : (
+        <div className="absolute inset-0 bg-gradient-to-br from-zinc-900 to-black" />
+      )}
+
+      {/* Magazine-style header */}
+      <div className="absolute top-0 left-0 right-0 p-8 flex justify-between items-start">
+        <div
+          className="text-sm font-bold tracking-[0.3em] uppercase"
+          style={{ color: coverColors.accentColor }}
+        >
+          {coverText.tagLine}
+        </div>
+        <div className="text-white/70 text-sm">
+          {coverText.edition}
+        </div>
+      </div>
+
+      {/* Main title - Bottom positioned */}
+      <div className="absolute bottom-0 left-0 right-0" style={marginPadding}>
+        {/* Category tag */}
+        <div
+          className="inline-block px-4 py-1 mb-6 text-xs font-bold tracking-widest uppercase"
+          style={{
+            backgroundColor: coverColors.accentColor,
+            color: "#ffffff",
+          }}
+        >
+          FEATURED
+        </div>
+
+        {/* Title */}
+        <h1
+          className="text-6xl font-black mb-4 leading-none uppercase"
+          style={{
+            color: "#ffffff",
+            fontFamily: coverFonts.headingFont,
+          }}
+        >
+          {page.title || bookTitle || "MAGAZINE"}
+        </h1>
+
+        {/* Subtitle - Better contrast */}
+        <div
+          className={`preview-content prose prose-lg prose-invert max-w-xl ${!coverSubtitle ? "opacity-80" : ""}`}
+          dangerouslySetInnerHTML={{
+            __html: coverSubtitle
+              ?? "<p>The definitive guide you've been waiting for</p>"
+          }}
+          style={{
+            color: "#ffffff",
+            fontFamily: coverFonts.bodyFont,
+            textShadow: "0 2px 4px rgba(0,0,0,0.5)",
+          }}
+        />
+
+        {/* Bottom bar */}
+        <div className="mt-8 pt-6 border-t border-white/30 flex gap-8 text-white/80 text-sm font-medium">
+          <span>Inside: 10 Chapters</span>
+          <span>Expert Insights</span>
+          <span>Bonus Content</span>
+        </div>
+      </div>
+
+      {!hasImage && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <p className="print:hidden text-white/40 text-sm">Click to add cover image</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Depth and dimension
+export function Cover3DTemplate(props: TemplateRenderProps) {
+  const { page, hasImage, margins, bookTitle, onOpenImagePanel } = props;
+  const { coverColors, coverFonts, coverSubtitle } = getCoverStyles(props);
+
+  return (
+    <div
+      className="relative w-full h-full overflow-hidden"
+      style={{
+        background: `linear-gradient(180deg, ${coverColors.backgroundColor} 0%, ${coverColors.primaryColor}20 100%)`,
+      }}
+    >
+      {/* 3D perspective container */}
+      <div className="absolute inset-0 flex items-center justify-center" style={{ perspective: "1000px" }}>
+        {/* Floating card with 3D effect */}
+        <div
+          onClick={onOpenImagePanel}
+          className="relative w-80 cursor-pointer group"
+          style={{
+            transform: "rotateY(-5deg) rotateX(5deg)",
+            transformStyle: "preserve-3d",
+          }}
+        >
+          {/* Shadow */}
+          <div
+            className="absolute -bottom-8 left-1/2 -translate-x-1/2 w-64 h-8 rounded-full blur-2xl opacity-30"
+            style={{ backgroundColor: coverColors.primaryColor }}
+          />
+
+          {/* Book cover */}
+          <div
+            className="relative aspect-[3/4] rounded-lg overflow-hidden shadow-2xl transition-transform duration-300 group-hover:scale-105"
+            style={{
+              boxShadow: `
+                20px 20px 60px ${coverColors.primaryColor}40,
+                -5px -5px 20px ${coverColors.backgroundColor}
+              `,
+            }}
+          >
+            {hasImage ? (
+              <Image
+                src={page.imageUrl!}
+                alt={page.title || "Cover"}
+                fill
+                className="object-cover"
+              />
+            ) : (
+              <div
+                className="w-full h-full flex items-center justify-center"
+                style={{
+                  background: `linear-gradient(135deg, ${coverColors.primaryColor}, ${coverColors.accentColor})`,
+                }}
+              >
+                <ImageIcon className="w-16 h-16 text-white/30" />
+              </div>
+            )}
+
+            {/* Spine effect */}
+            <div
+              className="absolute left-0 top-0 bottom-0 w-4"
+              style={{
+                background: `linear-gradient(to right, rgba(0,0,0,0.3), transparent)`,
+              }}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Title below the 3D book */}
+      <div
+        className="absolute left-0 right-0 text-center"
+        style={{
+          bottom: `${margins.bottom}px`,
+          paddingLeft: `${margins.left}px`,
+          paddingRight: `${margins.right}px`,
+        }}
+      >
+        <h1
+          className="text-4xl font-bold mb-4"
+          style={{
+            color: coverColors.primaryColor,
+            fontFamily: coverFonts.headingFont,
+          }}
+        >
+          {page.title || bookTitle || "3D Book Cover"}
+        </h1>
+
+        <div
+          className={`preview-content prose max-w-md mx-auto ${!coverSubtitle ? "opacity-70" : ""}`}
+          dangerouslySetInnerHTML={{
+            __html: coverSubtitle
+              ?? "<p>Depth that draws readers in</p>"
+          }}
+          style={{
+            color: coverColors.primaryColor,
+            fontFamily: coverFonts.bodyFont,
+            opacity: 0.85,
+          }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import Image from "next/image";
+import { ImageIcon } from "lucide-react";
+import { getRegionBox, type TemplateRegion } from "@/lib/custom-templates";
+import type { TemplateRenderProps } from "./types";
+
+const SHAPE_RADIUS: Record<TemplateRegion["shape"], string> = {
+  square: "0px",
+  rounded: "16px",
+  circle: "50%",
+};
+
+type RegionProps = TemplateRenderProps & { region: TemplateRegion };
+
+function ImageRegion({ region, page, hasImage, imageContainerStyles, printMode, onOpenImagePanel }: RegionProps) {
+  // A region with its own image keeps it whatever the page shows
+  const src = region.imageUrl || (hasImage ? page.imageUrl! : "");
+
+  return (
+    <div
+      className={`relative w-full h-full overflow-hidden bg-gradient-to-br from-zinc-100 to-zinc-200 dark:from-zinc-800 dark:to-zinc-900 ${
+        region.imageUrl ? "" : "cursor-pointer group"
+      }`}
+      onClick={region.imageUrl ? undefined : onOpenImagePanel}
+      style={{ ...imageContainerStyles, borderRadius: SHAPE_RADIUS[region.shape] }}
+    >
+      {src ? (
+        <Image src={src} alt={page.title || "Page image"} fill className="object-cover" />
+      ) : (
+        !printMode && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <ImageIcon className="w-8 h-8 text-zinc-400 dark:text-zinc-500 group-hover:text-zinc-500 transition-colors" />
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+function Region(props: RegionProps) {
+  const { region, page, theme, hasContent, displayContent, pageTitleStyles } = props;
+
+  switch (region.kind) {
+    case "title":
+      return page.title ? (
+        <h1
+          className="text-4xl font-bold"
+          style={{
+            color: theme.primaryColor,
+            fontFamily: theme.headingFont,
+            textAlign: region.align,
+            ...pageTitleStyles,
+          }}
+        >
+          {page.title}
+        </h1>
+      ) : null;
+    case "text":
+      return (
+        <div
+          className={`preview-content prose prose-lg max-w-none ${!hasContent ? "opacity-40" : ""}`}
+          style={{ textAlign: region.align }}
+          dangerouslySetInnerHTML={{ __html: displayContent }}
+        />
+      );
+    case "image":
+      return <ImageRegion {...props} />;
+    case "shape":
+      return (
+        <div
+          className="w-full h-full"
+          style={{ backgroundColor: region.color, borderRadius: SHAPE_RADIUS[region.shape] }}
+        />
+      );
+    case "textbox":
+      return (
+        <div
+          className="w-full h-full p-4 rounded-lg whitespace-pre-line"
+          style={{
+            backgroundColor: region.color,
+            color: region.textColor,
+            fontFamily: theme.bodyFont,
+            textAlign: region.align,
+          }}
+        >
+          {region.text}
+        </div>
+      );
+  }
+}
+
+// User-designed layout: each region sits at its grid position inside the
+// page margins, later regions on top of earlier ones
+export function CustomTemplateLayout(props: TemplateRenderProps) {
+  const regions = props.customTemplate?.regions ?? [];
+
+  return (
+    <div className="h-full" style={props.marginPadding}>
+      <div className="relative w-full h-full">
+        {regions.map((region) => {
+          const box = getRegionBox(region);
+          return (
+            <div
+              key={region.id}
+              className="absolute overflow-hidden"
+              style={{ left: `${box.x}%`, top: `${box.y}%`, width: `${box.w}%`, height: `${box.h}%` }}
+            >
+              <Region {...props} region={region} />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
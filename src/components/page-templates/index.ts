@@ -0,0 +1,99 @@
+import { createElement, type ComponentType } from "react";
+import {
+  DEFAULT_TEMPLATE,
+  PAGE_TEMPLATES,
+  type BuiltInTemplateId,
+  type PageTemplateDefinition,
+} from "@/lib/page-templates";
+import { isCustomTemplateId } from "@/lib/custom-templates";
+import type { TemplateRenderProps } from "./types";
+import {
+  CoverPageTemplate,
+  CoverBoldTemplate,
+  CoverMinimalTemplate,
+  CoverSplitTemplate,
+  CoverGradientTemplate,
+  CoverAuthorTemplate,
+  CoverMagazineTemplate,
+  Cover3DTemplate,
+} from "./cover-templates";
+import {
+  TextOnlyTemplate,
+  ImageTopTemplate,
+  ImageBottomTemplate,
+  TwoColumnTemplate,
+  BlogPostTemplate,
+  ImageLeftTemplate,
+  ImageRightTemplate,
+  ImageCenterTemplate,
+  FullImageTemplate,
+} from "./content-templates";
+import {
+  TableOfContentsTemplate,
+  CopyrightTemplate,
+  DedicationTemplate,
+  AcknowledgementsTemplate,
+  AboutAuthorTemplate,
+  CallToActionTemplate,
+} from "./matter-templates";
+import { CustomTemplateLayout } from "./custom-template";
+
+export type { CoverSettings, TemplatePage, TemplateRenderProps, TemplateTheme } from "./types";
+
+type TemplateRenderer = ComponentType<TemplateRenderProps>;
+
+// A shared template definition with the component that draws it
+export interface TemplateRegistryEntry extends PageTemplateDefinition {
+  render: TemplateRenderer;
+}
+
+// Keyed by BuiltInTemplateId, so a template added to PAGE_TEMPLATES without
+// a renderer here (or a renderer for one that's gone) fails to compile
+const RENDERERS: Record<BuiltInTemplateId, TemplateRenderer> = {
+  "cover-page": CoverPageTemplate,
+  "cover-bold": CoverBoldTemplate,
+  "cover-minimal": CoverMinimalTemplate,
+  "cover-split": CoverSplitTemplate,
+  "cover-gradient": CoverGradientTemplate,
+  "cover-author": CoverAuthorTemplate,
+  "cover-magazine": CoverMagazineTemplate,
+  "cover-3d": Cover3DTemplate,
+  "text-only": TextOnlyTemplate,
+  "image-top": ImageTopTemplate,
+  "image-bottom": ImageBottomTemplate,
+  "two-column": TwoColumnTemplate,
+  "blog-post": BlogPostTemplate,
+  "image-left": ImageLeftTemplate,
+  "image-right": ImageRightTemplate,
+  "image-center": ImageCenterTemplate,
+  "full-image": FullImageTemplate,
+  "table-of-contents": TableOfContentsTemplate,
+  copyright: CopyrightTemplate,
+  dedication: DedicationTemplate,
+  acknowledgements: AcknowledgementsTemplate,
+  "about-author": AboutAuthorTemplate,
+  "call-to-action": CallToActionTemplate,
+};
+
+export const TEMPLATE_REGISTRY: TemplateRegistryEntry[] = PAGE_TEMPLATES.map((template) => ({
+  ...template,
+  render: RENDERERS[template.id],
+}));
+
+const REGISTRY_BY_ID = new Map<string, TemplateRegistryEntry>(
+  TEMPLATE_REGISTRY.map((entry) => [entry.id, entry])
+);
+
+// Unknown ids render as plain text, like getTemplate
+export function getTemplateEntry(id: string) {
+  return REGISTRY_BY_ID.get(id) ?? REGISTRY_BY_ID.get(DEFAULT_TEMPLATE)!;
+}
+
+// Draws the page's own template, falling back to text-only for unknown ids
+// and for custom templates that have since been deleted
+export function PageTemplate(props: TemplateRenderProps) {
+  if (isCustomTemplateId(props.page.template) && props.customTemplate) {
+    return createElement(CustomTemplateLayout, props);
+  }
+  return createElement(getTemplateEntry(props.page.template).render, props);
+}
@@ -0,0 +1,277 @@
+import Image from "next/image";
+import { ImageIcon } from "lucide-react";
+import { getBioParagraphs, getCopyrightLine, toLinkUrl } from "@/lib/metadata";
+import { getTemplate } from "@/lib/page-templates";
+import { qrCodeDataUrl } from "@/lib/qr-code";
+import { TOC_TEMPLATE } from "@/lib/toc";
+import type { TemplateRenderProps } from "./types";
+
+// Page titles and headings with page numbers
+export function TableOfContentsTemplate({
+  page,
+  theme,
+  marginPadding,
+  pageTitleStyles,
+  tableOfContents,
+}: TemplateRenderProps) {
+  // Contents entries indent relative to the outermost level present
+  const tocBaseLevel = Math.min(...tableOfContents.map((entry) => entry.level), 1);
+
+  return (
+    <div className="h-full relative" style={marginPadding}>
+      <h1
+        className="text-4xl font-bold mb-10"
+        style={{
+          color: theme.primaryColor,
+          fontFamily: theme.headingFont,
+          ...pageTitleStyles,
+        }}
+      >
+        {page.title || getTemplate(TOC_TEMPLATE).defaultTitle}
+      </h1>
+      <nav className="preview-content">
+        {tableOfContents.length === 0 && (
+          <p className="opacity-40" style={{ fontFamily: theme.bodyFont }}>
+            Add page titles or headings to build the table of contents.
+          </p>
+        )}
+        {tableOfContents.map((entry) => (
+          <a
+            key={`${entry.level}-${entry.anchor}`}
+            href={`#${entry.anchor}`}
+            className="flex items-baseline gap-2 no-underline"
+            style={{
+              paddingLeft: `${(entry.level - tocBaseLevel) * 24}px`,
+              marginTop: entry.level === 0 ? "22px" : entry.level === 1 ? "14px" : "6px",
+              color: entry.level === 0 ? theme.primaryColor : entry.level === 1 ? theme.textColor : theme.secondaryColor,
+              fontFamily: entry.level <= 1 ? theme.headingFont : theme.bodyFont,
+              fontWeight: entry.level === 0 ? 700 : entry.level === 1 ? 600 : 400,
+              fontSize: entry.level === 0 ? "18px" : entry.level === 3 ? "14px" : "16px",
+            }}
+          >
+            <span className="min-w-0">{entry.title}</span>
+            {/* Dot leader */}
+            <span
+              className="flex-1 min-w-4 border-b-2 border-dotted"
+              style={{ borderColor: `${theme.accentColor}80` }}
+            />
+            <span className="tabular-nums" style={{ color: theme.primaryColor }}>
+              {entry.pageNumber}
+            </span>
+          </a>
+        ))}
+      </nav>
+    </div>
+  );
+}
+
+// Rights, publisher and ISBN from the book details
+export function CopyrightTemplate({
+  page,
+  theme,
+  hasContent,
+  marginPadding,
+  bookTitle,
+  author,
+  metadata,
+  printMode,
+}: TemplateRenderProps) {
+  return (
+    <div className="h-full flex flex-col justify-end" style={marginPadding}>
+      <div className="space-y-3 text-sm" style={{ color: theme.textColor, fontFamily: theme.bodyFont }}>
+        <p
+          className="text-lg font-semibold"
+          style={{ color: theme.primaryColor, fontFamily: theme.headingFont }}
+        >
+          {bookTitle || page.title}
+        </p>
+        <p>{getCopyrightLine(metadata, author)}</p>
+        {metadata.rights && <p className="opacity-80">{metadata.rights}</p>}
+        {metadata.publisher && <p>Published by {metadata.publisher}</p>}
+        {metadata.isbn && <p>ISBN {metadata.isbn}</p>}
+        {hasContent && (
+          <div
+            className="preview-content prose prose-sm max-w-none"
+            dangerouslySetInnerHTML={{ __html: page.content }}
+          />
+        )}
+        {!printMode && !metadata.publisher && !metadata.isbn && (
+          <p className="text-xs opacity-50">Add the publisher and ISBN in Book Details</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Short centered dedication
+export function DedicationTemplate({ page, theme, hasContent, marginPadding }: TemplateRenderProps) {
+  return (
+    <div className="h-full flex items-center justify-center text-center" style={marginPadding}>
+      <div
+        className={`preview-content prose prose-lg italic max-w-md ${!hasContent ? "opacity-40" : ""}`}
+        style={{ color: theme.textColor, fontFamily: theme.headingFont }}
+        dangerouslySetInnerHTML={{
+          __html: hasContent ? page.content : "<p>For everyone who asked when this book would be finished</p>",
+        }}
+      />
+    </div>
+  );
+}
+
+// Thanks at the back of the book
+export function AcknowledgementsTemplate({
+  page,
+  theme,
+  hasContent,
+  marginPadding,
+  pageTitleStyles,
+}: TemplateRenderProps) {
+  return (
+    <div className="h-full relative" style={marginPadding}>
+      <h1
+        className="text-4xl font-bold mb-8"
+        style={{
+          color: theme.primaryColor,
+          fontFamily: theme.headingFont,
+          ...pageTitleStyles,
+        }}
+      >
+        {page.title || getTemplate("acknowledgements").defaultTitle}
+      </h1>
+      <div
+        className={`preview-content prose prose-lg max-w-none ${!hasContent ? "opacity-40" : ""}`}
+        dangerouslySetInnerHTML={{
+          __html: hasContent ? page.content : "<p>Thank the people who helped this book happen.</p>",
+        }}
+      />
+    </div>
+  );
+}
+
+// Author photo and bio from the book details
+export function AboutAuthorTemplate({
+  page,
+  theme,
+  hasContent,
+  marginPadding,
+  pageTitleStyles,
+  author,
+  metadata,
+  onOpenImagePanel,
+}: TemplateRenderProps) {
+  // The page's own image wins over the photo in the book details
+  const authorPhoto = page.imageUrl || metadata.authorPhotoUrl;
+
+  return (
+    <div className="h-full relative" style={marginPadding}>
+      <h1
+        className="text-4xl font-bold mb-10"
+        style={{
+          color: theme.primaryColor,
+          fontFamily: theme.headingFont,
+          ...pageTitleStyles,
+        }}
+      >
+        {page.title || getTemplate("about-author").defaultTitle}
+      </h1>
+      <div className="flex items-start gap-8">
+        <div
+          onClick={onOpenImagePanel}
+          className="relative w-40 h-40 shrink-0 rounded-full overflow-hidden cursor-pointer border-4"
+          style={{ borderColor: theme.accentColor }}
+        >
+          {authorPhoto ? (
+            <Image src={authorPhoto} alt={author || "Author"} fill className="object-cover" />
+          ) : (
+            <div
+              className="w-full h-full flex items-center justify-center"
+              style={{ backgroundColor: theme.secondaryColor + "30" }}
+            >
+              <ImageIcon className="w-10 h-10 opacity-30" />
+            </div>
+          )}
+        </div>
+        <div className="flex-1 min-w-0" style={{ color: theme.textColor, fontFamily: theme.bodyFont }}>
+          <p
+            className="text-2xl font-semibold mb-4"
+            style={{ color: theme.primaryColor, fontFamily: theme.headingFont }}
+          >
+            {author || "Your Name Here"}
+          </p>
+          {metadata.authorBio ? (
+            getBioParagraphs(metadata.authorBio).map((paragraph, index) => (
+              <p key={index} className="mb-3 leading-relaxed">
+                {paragraph}
+              </p>
+            ))
+          ) : (
+            <p className="opacity-40">Add a short bio in Book Details.</p>
+          )}
+        </div>
+      </div>
+      {hasContent && (
+        <div
+          className="preview-content prose max-w-none mt-8"
+          dangerouslySetInnerHTML={{ __html: page.content }}
+        />
+      )}
+    </div>
+  );
+}
+
+// Closing message with a link button and QR code
+export function CallToActionTemplate({
+  page,
+  theme,
+  hasContent,
+  marginPadding,
+  pageTitleStyles,
+  metadata,
+  printMode,
+}: TemplateRenderProps) {
+  const ctaUrl = toLinkUrl(metadata.ctaUrl);
+
+  return (
+    <div className="h-full flex flex-col items-center justify-center text-center" style={marginPadding}>
+      <h1
+        className="text-4xl font-bold mb-6"
+        style={{
+          color: theme.primaryColor,
+          fontFamily: theme.headingFont,
+          ...pageTitleStyles,
+        }}
+      >
+        {page.title || getTemplate("call-to-action").defaultTitle}
+      </h1>
+      <div
+        className={`preview-content prose prose-lg max-w-lg mb-10 ${!hasContent ? "opacity-40" : ""}`}
+        dangerouslySetInnerHTML={{
+          __html: hasContent ? page.content : "<p>Enjoyed the book? There's more waiting for you.</p>",
+        }}
+      />
+      {ctaUrl ? (
+        <>
+          <a
+            href={ctaUrl}
+            className="inline-block px-8 py-3 rounded-full text-lg font-semibold no-underline"
+            style={{ backgroundColor: theme.accentColor, color: "#ffffff", fontFamily: theme.bodyFont }}
+          >
+            {metadata.ctaLabel || ctaUrl}
+          </a>
+          <Image
+            src={qrCodeDataUrl(ctaUrl)}
+            alt={`QR code for ${ctaUrl}`}
+            width={128}
+            height={128}
+            className="mt-8"
+          />
+          <p className="mt-2 text-xs break-all" style={{ color: theme.secondaryColor }}>
+            {ctaUrl}
+          </p>
+        </>
+      ) : (
+        !printMode && <p className="text-sm opacity-50">Add a button link in Book Details</p>
+      )}
+    </div>
+  );
+}
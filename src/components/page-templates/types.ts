@@ -0,0 +1,63 @@
+import type { TocEntry } from "@/lib/toc";
+import type { EbookMetadata } from "@/lib/metadata";
+import type { CustomTemplate } from "@/lib/custom-templates";
+
+export interface CoverSettings {
+  useThemeColors: boolean;
+  useThemeFonts: boolean;
+  customPrimaryColor?: string;
+  customAccentColor?: string;
+  customBackgroundColor?: string;
+  customTextColor?: string;
+  customHeadingFont?: string;
+  customBodyFont?: string;
+  overlayEnabled?: boolean;
+  overlayDarkness?: number;
+  authorLabel?: string;
+  authorName?: string;
+  tagLine?: string;
+  edition?: string;
+}
+
+export interface TemplatePage {
+  id: string;
+  title: string | null;
+  content: string;
+  template: string;
+  imageUrl: string | null;
+  customStyles?: { coverSettings?: CoverSettings };
+}
+
+export interface TemplateTheme {
+  primaryColor: string;
+  secondaryColor: string;
+  accentColor: string;
+  backgroundColor: string;
+  textColor: string;
+  headingFont: string;
+  bodyFont: string;
+}
+
+// Everything a template renderer draws from. PagePreview works these out
+// once per sheet; the page frame (header, footer, branding) stays there.
+export interface TemplateRenderProps {
+  page: TemplatePage;
+  theme: TemplateTheme;
+  hasContent: boolean;
+  // Page content, or placeholder text while it's empty
+  displayContent: string;
+  hasImage: boolean;
+  // Page margins in pixels, left and right already mirrored for this sheet
+  margins: Record<"top" | "right" | "bottom" | "left", number>;
+  marginPadding: React.CSSProperties;
+  pageTitleStyles: React.CSSProperties;
+  imageContainerStyles: React.CSSProperties;
+  tableOfContents: TocEntry[];
+  bookTitle: string;
+  author: string;
+  metadata: EbookMetadata;
+  printMode: boolean;
+  // The user's layout when the page uses a custom template
+  customTemplate?: CustomTemplate;
+  onOpenImagePanel: () => void;
+}
@@ -2,11 +2,79 @@
 
 import { ScrollArea } from "./ui/scroll-area";
 import { Button } from "./ui/button";
-import { Plus, GripVertical, Trash2, ChevronUp, ChevronDown } from "lucide-react";
+import { Input } from "./ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+import {
+  Plus,
+  GripVertical,
+  Trash2,
+  ChevronUp,
+  ChevronDown,
+  ChevronRight,
+  AlertTriangle,
+  FolderPlus,
+  FolderInput,
+  MoreVertical,
+  Pencil,
+  Bookmark,
+  BookCopy,
+  BookOpen,
+  Copy,
+  LayoutTemplate,
+  Layers,
+  Paintbrush,
+  X,
+} from "lucide-react";
+import {
+  DndContext,
+  DragOverlay,
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type DraggableAttributes,
+  type DraggableSyntheticListeners,
+} from "@dnd-kit/core";
+import {
+  SortableContext,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
 import { cn } from "@/lib/utils";
-import { createPage, deletePage, reorderPages } from "@/app/actions";
-import { useState } from "react";
-import { motion } from "framer-motion";
+import { isFlowable } from "@/lib/page-flow";
+import { buildOutline, flattenOutline, type OutlineItem, type OutlineOrder } from "@/lib/chapters";
+import { INHERITED_STYLE_KEYS, clearOverride } from "@/lib/page-styles";
+import { BOOK_SECTIONS, type BookSection } from "@/lib/pagination";
+import {
+  assignMasterPage,
+  createChapter,
+  createPage,
+  deleteChapter,
+  deletePage,
+  deletePages,
+  duplicatePages,
+  transferPages,
+  updateChapter,
+  updateOutline,
+  updatePage,
+  updatePages,
+} from "@/app/actions";
+import type { PageStyles } from "./settings-panel";
+import { TEMPLATE_CATEGORIES, getTemplatesByCategory } from "@/lib/page-templates";
+import { customTemplateId, type CustomTemplate } from "@/lib/custom-templates";
+import { TransferPagesDialog, type TransferMode } from "./transfer-pages-dialog";
+import { Fragment, useState } from "react";
 
 interface Page {
   id: string;
@@ -15,11 +83,31 @@ interface Page {
   template: string;
   imageUrl: string | null;
   order: number;
+  chapterId: string | null;
+  masterId?: string | null;
+  section?: string | null;
+  autoFlow?: boolean;
+  customStyles?: PageStyles;
+}
+
+interface Chapter {
+  id: string;
+  title: string;
+  part: string | null;
+  order: number;
+}
+
+interface MasterPage {
+  id: string;
+  name: string;
+  template: string;
 }
 
 interface Ebook {
   id: string;
   pages: Page[];
+  chapters: Chapter[];
+  masters?: MasterPage[];
 }
 
 interface PagesSidebarProps {
@@ -27,6 +115,53 @@ interface PagesSidebarProps {
   selectedPageId: string | null;
   onSelectPage: (id: string) => void;
   onPagesUpdate: (pages: Page[]) => void;
+  onChaptersUpdate: (chapters: Chapter[]) => void;
+  onPageUpdate?: (pageId: string, updates: Partial<Page>) => void;
+  flowStatus?: Record<string, { overflowing: boolean; pageCount: number }>;
+  onPageDeleted?: (pageId: string) => void;
+  onOutlineReordered?: (previous: OutlineOrder, next: OutlineOrder) => void;
+  // Moves and bulk edits report the whole page list before and after
+  onPagesChanged?: (label: string, before: Page[], after: Page[]) => void;
+  onChapterDeleted?: (chapter: Chapter, pages: Page[]) => void;
+  customTemplates?: CustomTemplate[];
+}
+
+type Item = OutlineItem<Chapter, Page>;
+
+// Chapter headings share the sortable list with pages
+const CHAPTER_PREFIX = "chapter:";
+
+const withOrder = (pages: Page[]) => pages.map((page, order) => ({ ...page, order }));
+
+// Pages straight from the database carry their styles as raw JSON
+const fromStored = <T extends { customStyles: unknown }>(page: T) => ({
+  ...page,
+  customStyles: (page.customStyles ?? undefined) as PageStyles | undefined,
+});
+
+// Number of pages that come before the outline item at `index`
+const pagesBefore = (items: Item[], index: number) =>
+  items.slice(0, index).reduce((count, item) => count + (item.type === "page" ? 1 : item.pages.length), 0);
+
+interface SortableRowProps {
+  id: string;
+  disabled?: boolean;
+  children: (handle: { attributes: DraggableAttributes; listeners: DraggableSyntheticListeners }) => React.ReactNode;
+}
+
+// Only the grip drags, so clicks on the rest of the row still select
+function SortableRow({ id, disabled, children }: SortableRowProps) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id, disabled });
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition }}
+      className={cn(isDragging && "opacity-40")}
+    >
+      {children({ attributes, listeners })}
+    </div>
+  );
 }
 
 export function PagesSidebar({
@@ -34,20 +169,135 @@ export function PagesSidebar({
   selectedPageId,
   onSelectPage,
   onPagesUpdate,
+  onChaptersUpdate,
+  onPageUpdate,
+  flowStatus = {},
+  onPageDeleted,
+  onOutlineReordered,
+  onPagesChanged,
+  onChapterDeleted,
+  customTemplates = [],
 }: PagesSidebarProps) {
   const [loading, setLoading] = useState(false);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [editingChapterId, setEditingChapterId] = useState<string | null>(null);
+  const [chapterTitle, setChapterTitle] = useState("");
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null);
+  const [activeDragId, setActiveDragId] = useState<string | null>(null);
+  const [transferIds, setTransferIds] = useState<string[] | null>(null);
 
-  const handleCreatePage = async () => {
+  const sensors = useSensors(
+    // A little travel before dragging so a click on the grip stays a click
+    useSensor(PointerSensor, { activationConstraint: { distance: 4 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+
+  const outline = buildOutline(ebook.chapters, ebook.pages);
+  const readingOrder = flattenOutline(outline).pageIds;
+  const pageById = new Map(ebook.pages.map((page) => [page.id, page]));
+  // Selected pages in reading order; deleted pages drop out on their own
+  const selection = readingOrder.filter((id) => selectedIds.has(id));
+
+  // Everything draggable, in the order it's drawn
+  const sortableIds = outline.flatMap((item) =>
+    item.type === "page"
+      ? [item.page.id]
+      : [
+          `${CHAPTER_PREFIX}${item.chapter.id}`,
+          ...(collapsed.has(item.chapter.id) ? [] : item.pages.map((page) => page.id)),
+        ]
+  );
+
+  // Apply a new page list locally, persist it, and report it for undo
+  const commitPages = async (label: string, after: Page[], persist: () => Promise<unknown>) => {
+    const before = ebook.pages;
+    onPagesUpdate(after);
+    try {
+      await persist();
+      onPagesChanged?.(label, before, after);
+    } catch (error) {
+      console.error(`Failed to ${label.toLowerCase()}:`, error);
+      onPagesUpdate(before);
+      alert(`Failed to ${label.toLowerCase()}. Please try again.`);
+    }
+  };
+
+  // Pages in their new reading order; chapters follow their pages. Going
+  // through the outline keeps the stored order the same as the drawn one.
+  const commitPlacement = (label: string, pages: Page[]) => {
+    const placed = flattenOutline(buildOutline(ebook.chapters, pages));
+    const after = withOrder(placed.pageIds.map((id) => pages.find((page) => page.id === id)!));
+    const chapterIds = placed.chapterIds;
+    const chapterById = new Map(ebook.chapters.map((chapter) => [chapter.id, chapter]));
+    onChaptersUpdate(chapterIds.map((id, order) => ({ ...chapterById.get(id)!, order })));
+
+    return commitPages(label, after, () =>
+      updateOutline(ebook.id, after.map((page) => ({ id: page.id, chapterId: page.chapterId })))
+    );
+  };
+
+  // Apply a rearranged outline locally, then persist it. A failed save puts
+  // the old outline back and returns null.
+  const applyOutline = async (items: Item[]) => {
+    const previous = flattenOutline(outline);
+    const next = flattenOutline(items);
+    const chapterById = new Map(ebook.chapters.map((chapter) => [chapter.id, chapter]));
+    const before = { pages: ebook.pages, chapters: ebook.chapters };
+
+    onPagesUpdate(next.pageIds.map((id, order) => ({ ...pageById.get(id)!, order })));
+    onChaptersUpdate(next.chapterIds.map((id, order) => ({ ...chapterById.get(id)!, order })));
+
+    try {
+      await updateOutline(
+        ebook.id,
+        next.pageIds.map((id) => ({ id, chapterId: pageById.get(id)!.chapterId })),
+        next.chapterIds
+      );
+      return { previous, next };
+    } catch (error) {
+      console.error("Failed to move chapter:", error);
+      onPagesUpdate(before.pages);
+      onChaptersUpdate(before.chapters);
+      alert("Failed to move chapter. Please try again.");
+      return null;
+    }
+  };
+
+  const handleCreatePage = async (chapterId?: string) => {
     setLoading(true);
     try {
-      const newPage = await createPage(ebook.id);
-      onPagesUpdate([...ebook.pages, newPage]);
+      const newPage = fromStored(await createPage(ebook.id, chapterId));
+      if (chapterId) {
+        const pages = [...ebook.pages];
+        pages.splice(newPage.order, 0, newPage);
+        onPagesUpdate(withOrder(pages));
+        setCollapsed((prev) => {
+          const next = new Set(prev);
+          next.delete(chapterId);
+          return next;
+        });
+      } else {
+        onPagesUpdate([...ebook.pages, newPage]);
+      }
       onSelectPage(newPage.id);
     } finally {
       setLoading(false);
     }
   };
 
+  const handleCreateChapter = async () => {
+    setLoading(true);
+    try {
+      const chapter = await createChapter(ebook.id);
+      onChaptersUpdate([...ebook.chapters, chapter]);
+      setEditingChapterId(chapter.id);
+      setChapterTitle(chapter.title);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleDeletePage = async (pageId: string, e: React.MouseEvent) => {
     e.stopPropagation();
     if (ebook.pages.length === 1) {
@@ -57,6 +307,7 @@ export function PagesSidebar({
 
     try {
       await deletePage(pageId);
+      onPageDeleted?.(pageId);
       const updatedPages = ebook.pages.filter((p) => p.id !== pageId);
       onPagesUpdate(updatedPages);
       if (selectedPageId === pageId) {
@@ -67,117 +318,770 @@ export function PagesSidebar({
     }
   };
 
-  const handleMoveUp = async (index: number, e: React.MouseEvent) => {
+  const handleToggleAutoFlow = async (page: Page, e: React.MouseEvent) => {
     e.stopPropagation();
-    if (index === 0) return;
+    try {
+      await updatePage(page.id, { autoFlow: !page.autoFlow });
+      onPageUpdate?.(page.id, { autoFlow: !page.autoFlow });
+    } catch (error) {
+      console.error("Failed to update page flow:", error);
+    }
+  };
 
-    const newPages = [...ebook.pages];
-    [newPages[index - 1], newPages[index]] = [newPages[index], newPages[index - 1]];
+  // Click opens a page, Ctrl/Cmd-click toggles it in the selection and
+  // Shift-click selects the run between it and the last clicked page
+  const handlePageClick = (pageId: string, e: React.MouseEvent) => {
+    if (e.shiftKey && selectionAnchor && readingOrder.includes(selectionAnchor)) {
+      const from = readingOrder.indexOf(selectionAnchor);
+      const to = readingOrder.indexOf(pageId);
+      setSelectedIds(new Set(readingOrder.slice(Math.min(from, to), Math.max(from, to) + 1)));
+      return;
+    }
 
-    newPages.forEach((page, i) => {
-      page.order = i;
-    });
+    if (e.ctrlKey || e.metaKey) {
+      const next = new Set(selectedIds.size === 0 && selectedPageId ? [selectedPageId] : selectedIds);
+      if (next.has(pageId)) {
+        next.delete(pageId);
+      } else {
+        next.add(pageId);
+      }
+      setSelectedIds(next);
+      setSelectionAnchor(pageId);
+      return;
+    }
+
+    setSelectedIds(new Set([pageId]));
+    setSelectionAnchor(pageId);
+    onSelectPage(pageId);
+  };
+
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    setSelectionAnchor(null);
+  };
+
+  // A row action covers the whole selection when the row is part of it
+  const targetsFor = (pageId: string) => (selection.length > 1 && selection.includes(pageId) ? selection : [pageId]);
 
-    onPagesUpdate(newPages);
-    await reorderPages(
-      ebook.id,
-      newPages.map((p) => p.id)
+  // Into a chapter, pages go to its end; out of one, they land next to it
+  const movePagesToChapter = (pageIds: string[], chapterId: string | null) => {
+    const label = pageIds.length === 1 ? "Move page" : "Move pages";
+    const moving = new Set(pageIds);
+
+    if (chapterId === null) {
+      return commitPlacement(
+        label,
+        readingOrder.map((id) => {
+          const page = pageById.get(id)!;
+          return moving.has(id) ? { ...page, chapterId: null } : page;
+        })
+      );
+    }
+
+    const rest = readingOrder.filter((id) => !moving.has(id)).map((id) => pageById.get(id)!);
+    const items = buildOutline(ebook.chapters, rest);
+    const target = items.findIndex((item) => item.type === "chapter" && item.chapter.id === chapterId);
+    const at = pagesBefore(items, target + 1);
+
+    return commitPlacement(label, [
+      ...rest.slice(0, at),
+      ...pageIds.map((id) => ({ ...pageById.get(id)!, chapterId })),
+      ...rest.slice(at),
+    ]);
+  };
+
+  const handleBulkDelete = () => {
+    if (selection.length === ebook.pages.length) {
+      alert("Cannot delete every page");
+      return;
+    }
+    if (!confirm(`Delete ${selection.length} pages?`)) return;
+
+    const removing = new Set(selection);
+    const after = withOrder(ebook.pages.filter((page) => !removing.has(page.id)));
+    if (selectedPageId && removing.has(selectedPageId)) {
+      onSelectPage(after[0]?.id ?? "");
+    }
+    clearSelection();
+    return commitPages("Delete pages", after, () => deletePages(ebook.id, [...removing]));
+  };
+
+  const handleDuplicate = async (pageIds: string[]) => {
+    try {
+      const copies = await duplicatePages(ebook.id, pageIds);
+      const after = [...ebook.pages];
+      for (const copy of copies) {
+        after.splice(copy.order, 0, fromStored(copy));
+      }
+      onPagesUpdate(withOrder(after));
+      onPagesChanged?.(pageIds.length === 1 ? "Duplicate page" : "Duplicate pages", ebook.pages, withOrder(after));
+      setSelectedIds(new Set(copies.map((copy) => copy.id)));
+      if (copies.length === 1) onSelectPage(copies[0].id);
+    } catch (error) {
+      console.error("Failed to duplicate pages:", error);
+      alert("Failed to duplicate pages. Please try again.");
+    }
+  };
+
+  // Copies land in the other ebook; a move also drops them from this one
+  const handleTransfer = async (targetEbookId: string, position: number, mode: TransferMode) => {
+    if (!transferIds) return;
+    if (mode === "move" && transferIds.length === ebook.pages.length) {
+      throw new Error("Cannot move every page");
+    }
+
+    await transferPages(ebook.id, transferIds, targetEbookId, position, mode);
+    if (mode === "copy") return;
+
+    const moved = new Set(transferIds);
+    const remaining = withOrder(ebook.pages.filter((page) => !moved.has(page.id)));
+    onPagesUpdate(remaining);
+    clearSelection();
+    if (selectedPageId && moved.has(selectedPageId)) {
+      onSelectPage(remaining[0]?.id ?? "");
+    }
+  };
+
+  const handleBulkTemplate = (template: string) => {
+    const targets = new Set(selection);
+    return commitPages(
+      "Change template",
+      ebook.pages.map((page) => (targets.has(page.id) ? { ...page, template } : page)),
+      () => updatePages(ebook.id, selection.map((id) => ({ id, template })))
     );
   };
 
-  const handleMoveDown = async (index: number, e: React.MouseEvent) => {
-    e.stopPropagation();
-    if (index === ebook.pages.length - 1) return;
+  const handleBulkSection = (section: BookSection | null) => {
+    const targets = new Set(selection);
+    return commitPages(
+      "Change book section",
+      ebook.pages.map((page) => (targets.has(page.id) ? { ...page, section } : page)),
+      () => updatePages(ebook.id, selection.map((id) => ({ id, section })))
+    );
+  };
 
-    const newPages = [...ebook.pages];
-    [newPages[index + 1], newPages[index]] = [newPages[index], newPages[index + 1]];
+  // Pages taking a master use its template and drop their own copies of
+  // the sections it shares
+  const handleBulkMaster = (master: MasterPage | null) => {
+    const targets = new Set(selection);
+    return commitPages(
+      master ? "Apply master page" : "Detach master page",
+      ebook.pages.map((page) =>
+        !targets.has(page.id)
+          ? page
+          : master
+            ? {
+                ...page,
+                masterId: master.id,
+                template: master.template,
+                customStyles: INHERITED_STYLE_KEYS.reduce(
+                  (styles, key) => clearOverride(styles, key),
+                  page.customStyles ?? {}
+                ),
+              }
+            : { ...page, masterId: null }
+      ),
+      () => assignMasterPage(ebook.id, selection, master?.id ?? null)
+    );
+  };
 
-    newPages.forEach((page, i) => {
-      page.order = i;
-    });
+  // Copies the open page's styles onto the rest of the selection
+  const handleBulkApplyStyles = () => {
+    const source = selectedPageId ? pageById.get(selectedPageId) : undefined;
+    if (!source) return;
+
+    const targets = selection.filter((id) => id !== source.id);
+    return commitPages(
+      "Apply page styles",
+      ebook.pages.map((page) => (targets.includes(page.id) ? { ...page, customStyles: source.customStyles } : page)),
+      () => updatePages(ebook.id, targets.map((id) => ({ id, customStyles: source.customStyles ?? null })))
+    );
+  };
 
-    onPagesUpdate(newPages);
-    await reorderPages(
-      ebook.id,
-      newPages.map((p) => p.id)
+  const moveChapterTo = async (chapterId: string, targetIndex: number) => {
+    const index = outline.findIndex((item) => item.type === "chapter" && item.chapter.id === chapterId);
+    if (index === -1 || targetIndex === index || targetIndex === index + 1) return;
+
+    const items = [...outline];
+    const [item] = items.splice(index, 1);
+    items.splice(targetIndex > index ? targetIndex - 1 : targetIndex, 0, item);
+
+    const applied = await applyOutline(items);
+    if (applied) onOutlineReordered?.(applied.previous, applied.next);
+  };
+
+  // Top-level outline position of a sortable id; a page inside a chapter
+  // counts as its chapter
+  const outlineIndexOf = (id: string) =>
+    outline.findIndex((item) =>
+      item.type === "page"
+        ? item.page.id === id
+        : `${CHAPTER_PREFIX}${item.chapter.id}` === id || item.pages.some((page) => page.id === id)
     );
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    setActiveDragId(null);
+    if (!over || active.id === over.id) return;
+
+    const activeId = String(active.id);
+    const overId = String(over.id);
+    const movingDown = sortableIds.indexOf(activeId) < sortableIds.indexOf(overId);
+
+    if (activeId.startsWith(CHAPTER_PREFIX)) {
+      const overIndex = outlineIndexOf(overId);
+      moveChapterTo(activeId.slice(CHAPTER_PREFIX.length), movingDown ? overIndex + 1 : overIndex);
+      return;
+    }
+
+    // Dragging a selected page carries the whole selection
+    const moving = targetsFor(activeId);
+    if (moving.includes(overId)) return;
+
+    const rest = readingOrder.filter((id) => !moving.includes(id)).map((id) => pageById.get(id)!);
+    let at: number;
+    let chapterId: string | null;
+
+    if (overId.startsWith(CHAPTER_PREFIX)) {
+      // Onto a chapter heading: into the chapter from above, in front of it from below
+      const overChapterId = overId.slice(CHAPTER_PREFIX.length);
+      const items = buildOutline(ebook.chapters, rest);
+      at = pagesBefore(items, items.findIndex((item) => item.type === "chapter" && item.chapter.id === overChapterId));
+      chapterId = movingDown ? overChapterId : null;
+    } else {
+      // Onto a page: beside it, in its chapter
+      const overPage = pageById.get(overId)!;
+      at = rest.indexOf(overPage) + (movingDown ? 1 : 0);
+      chapterId = overPage.chapterId;
+    }
+
+    commitPlacement(moving.length === 1 ? "Move page" : "Move pages", [
+      ...rest.slice(0, at),
+      ...moving.map((id) => ({ ...pageById.get(id)!, chapterId })),
+      ...rest.slice(at),
+    ]);
+  };
+
+  const handleRenameChapter = async (chapter: Chapter) => {
+    setEditingChapterId(null);
+    const title = chapterTitle.trim();
+    if (!title || title === chapter.title) return;
+
+    onChaptersUpdate(ebook.chapters.map((c) => (c.id === chapter.id ? { ...c, title } : c)));
+    try {
+      await updateChapter(chapter.id, { title });
+    } catch (error) {
+      console.error("Failed to rename chapter:", error);
+    }
+  };
+
+  const handleSetPart = async (chapter: Chapter) => {
+    const value = prompt("Part title (leave empty for none)", chapter.part ?? "");
+    if (value === null) return;
+    const part = value.trim() || null;
+
+    onChaptersUpdate(ebook.chapters.map((c) => (c.id === chapter.id ? { ...c, part } : c)));
+    try {
+      await updateChapter(chapter.id, { part });
+    } catch (error) {
+      console.error("Failed to update chapter part:", error);
+    }
   };
 
+  const handleDeleteChapter = async (chapter: Chapter, pages: Page[]) => {
+    if (pages.length === ebook.pages.length) {
+      alert("Cannot delete the chapter holding every page");
+      return;
+    }
+    if (pages.length > 0 && !confirm(`Delete "${chapter.title}" and its ${pages.length} page(s)?`)) return;
+
+    try {
+      await deleteChapter(chapter.id);
+      onChapterDeleted?.(chapter, pages);
+      const updatedPages = ebook.pages.filter((p) => p.chapterId !== chapter.id);
+      onPagesUpdate(updatedPages);
+      onChaptersUpdate(ebook.chapters.filter((c) => c.id !== chapter.id));
+      if (pages.some((p) => p.id === selectedPageId)) {
+        onSelectPage(updatedPages[0]?.id ?? "");
+      }
+    } catch (error) {
+      console.error("Failed to delete chapter:", error);
+    }
+  };
+
+  const toggleCollapsed = (chapterId: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(chapterId)) {
+        next.delete(chapterId);
+      } else {
+        next.add(chapterId);
+      }
+      return next;
+    });
+  };
+
+  const chapters = outline.flatMap((item) => (item.type === "chapter" ? [item.chapter] : []));
+  // Part headings show where the part changes between chapters
+  const partStarts = new Set(
+    chapters
+      .filter((chapter, index) => chapter.part && chapter.part !== chapters[index - 1]?.part)
+      .map((chapter) => chapter.id)
+  );
+
+  const renderChapterChoices = (onChoose: (chapterId: string | null) => void, currentChapterId?: string | null) => (
+    <>
+      <DropdownMenuItem disabled={currentChapterId === null} onClick={() => onChoose(null)}>
+        No chapter
+      </DropdownMenuItem>
+      {chapters.map((chapter) => (
+        <DropdownMenuItem
+          key={chapter.id}
+          disabled={currentChapterId === chapter.id}
+          onClick={() => onChoose(chapter.id)}
+        >
+          {chapter.title}
+        </DropdownMenuItem>
+      ))}
+    </>
+  );
+
+  const renderPage = (page: Page) => (
+    <SortableRow key={page.id} id={page.id}>
+      {({ attributes, listeners }) => (
+        <div
+          onClick={(e) => handlePageClick(page.id, e)}
+          className={cn(
+            "group relative rounded-lg p-3 cursor-pointer select-none transition-all duration-150",
+            selectedPageId === page.id
+              ? "bg-blue-50 dark:bg-blue-950/30 border border-blue-200 dark:border-blue-800"
+              : selection.length > 1 && selectedIds.has(page.id)
+                ? "bg-blue-50/50 dark:bg-blue-950/20 border border-dashed border-blue-300 dark:border-blue-700"
+                : "bg-white dark:bg-zinc-800/50 border border-zinc-200 dark:border-zinc-700 hover:border-zinc-300 dark:hover:border-zinc-600"
+          )}
+        >
+          <div className="flex items-start gap-2 pr-28">
+            <button
+              {...attributes}
+              {...listeners}
+              aria-label={`Drag ${page.title || "Untitled"}`}
+              onClick={(e) => e.stopPropagation()}
+              className="mt-0.5 shrink-0 rounded text-zinc-400 dark:text-zinc-500 cursor-grab active:cursor-grabbing"
+            >
+              <GripVertical className="w-4 h-4" />
+            </button>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100 line-clamp-2 break-words">
+                {page.title || "Untitled"}
+              </p>
+              {(flowStatus[page.id]?.overflowing || page.autoFlow) && (
+                <div className="mt-1.5 flex flex-wrap items-center gap-x-2 gap-y-1 text-[11px]">
+                  {flowStatus[page.id]?.overflowing && (
+                    <span className="inline-flex items-center gap-1 font-medium text-amber-600 dark:text-amber-400">
+                      <AlertTriangle className="w-3 h-3" />
+                      {page.autoFlow ? "Block too tall" : "Overflows page"}
+                    </span>
+                  )}
+                  {page.autoFlow && (flowStatus[page.id]?.pageCount ?? 1) > 1 && (
+                    <span className="text-zinc-500 dark:text-zinc-400">
+                      Flows onto {flowStatus[page.id].pageCount} pages
+                    </span>
+                  )}
+                  {isFlowable(page.template) && (
+                    <button
+                      className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                      onClick={(e) => handleToggleAutoFlow(page, e)}
+                    >
+                      {page.autoFlow ? "Stop flowing" : "Flow onto next pages"}
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="absolute right-2 top-2 flex gap-0.5 bg-white/90 dark:bg-zinc-800/90 rounded-md p-0.5 backdrop-blur-sm border border-zinc-200 dark:border-zinc-700">
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-6 w-6"
+              title="Duplicate"
+              onClick={(e) => {
+                e.stopPropagation();
+                handleDuplicate(targetsFor(page.id));
+              }}
+            >
+              <Copy className="w-3 h-3" />
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-6 w-6"
+                  title="Move to chapter"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <FolderInput className="w-3 h-3" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                <DropdownMenuLabel>Move to chapter</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {renderChapterChoices(
+                  (chapterId) => movePagesToChapter(targetsFor(page.id), chapterId),
+                  targetsFor(page.id).length === 1 ? page.chapterId : undefined
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-6 w-6"
+              title="Copy or move to ebook"
+              onClick={(e) => {
+                e.stopPropagation();
+                setTransferIds(targetsFor(page.id));
+              }}
+            >
+              <BookCopy className="w-3 h-3" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-6 w-6 hover:bg-red-100 hover:text-red-600 dark:hover:bg-red-950 dark:hover:text-red-400"
+              onClick={(e) => handleDeletePage(page.id, e)}
+            >
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </SortableRow>
+  );
+
+  const draggedChapter = activeDragId?.startsWith(CHAPTER_PREFIX)
+    ? ebook.chapters.find((chapter) => `${CHAPTER_PREFIX}${chapter.id}` === activeDragId)
+    : undefined;
+  const draggedPages = activeDragId && !draggedChapter ? targetsFor(activeDragId) : [];
+
   return (
     <div className="h-full flex flex-col">
-      <div className="p-4 border-b border-zinc-200 dark:border-zinc-800">
+      <div className="p-4 border-b border-zinc-200 dark:border-zinc-800 flex gap-2">
         <Button
-          onClick={handleCreatePage}
+          onClick={() => handleCreatePage()}
           disabled={loading}
-          className="w-full gap-2"
+          className="flex-1 gap-2"
           size="sm"
         >
           <Plus className="w-4 h-4" />
           Add Page
         </Button>
+        <Button
+          onClick={handleCreateChapter}
+          disabled={loading}
+          variant="outline"
+          className="gap-2"
+          size="sm"
+          title="Add chapter"
+        >
+          <FolderPlus className="w-4 h-4" />
+          Chapter
+        </Button>
       </div>
 
+      {selection.length > 1 && (
+        <div className="px-3 py-2 border-b border-zinc-200 dark:border-zinc-800 bg-blue-50/60 dark:bg-blue-950/20 flex items-center gap-0.5">
+          <span className="flex-1 text-xs font-medium text-zinc-700 dark:text-zinc-300">
+            {selection.length} selected
+          </span>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="icon" variant="ghost" className="h-7 w-7" title="Move to chapter">
+                <FolderInput className="w-3.5 h-3.5" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Move to chapter</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {renderChapterChoices((chapterId) => movePagesToChapter(selection, chapterId))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button size="icon" variant="ghost" className="h-7 w-7" title="Duplicate" onClick={() => handleDuplicate(selection)}>
+            <Copy className="w-3.5 h-3.5" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-7 w-7"
+            title="Copy or move to ebook"
+            onClick={() => setTransferIds(selection)}
+          >
+            <BookCopy className="w-3.5 h-3.5" />
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="icon" variant="ghost" className="h-7 w-7" title="Change template">
+                <LayoutTemplate className="w-3.5 h-3.5" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="max-h-80 overflow-y-auto">
+              {TEMPLATE_CATEGORIES.map((category, index) => (
+                <Fragment key={category.value}>
+                  {index > 0 && <DropdownMenuSeparator />}
+                  <DropdownMenuLabel>{category.label}</DropdownMenuLabel>
+                  {getTemplatesByCategory(category.value).map((template) => (
+                    <DropdownMenuItem key={template.id} onClick={() => handleBulkTemplate(template.id)}>
+                      {template.label}
+                    </DropdownMenuItem>
+                  ))}
+                </Fragment>
+              ))}
+              {customTemplates.length > 0 && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel>Custom templates</DropdownMenuLabel>
+                  {customTemplates.map((template) => (
+                    <DropdownMenuItem
+                      key={template.id}
+                      onClick={() => handleBulkTemplate(customTemplateId(template.id))}
+                    >
+                      {template.name}
+                    </DropdownMenuItem>
+                  ))}
+                </>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="icon" variant="ghost" className="h-7 w-7" title="Book section">
+                <BookOpen className="w-3.5 h-3.5" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Book section</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {BOOK_SECTIONS.map((section) => (
+                <DropdownMenuItem key={section.value} onClick={() => handleBulkSection(section.value)}>
+                  {section.label}
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => handleBulkSection(null)}>Automatic</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          {ebook.masters && ebook.masters.length > 0 && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button size="icon" variant="ghost" className="h-7 w-7" title="Apply master page">
+                  <Layers className="w-3.5 h-3.5" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Master page</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {ebook.masters.map((master) => (
+                  <DropdownMenuItem key={master.id} onClick={() => handleBulkMaster(master)}>
+                    {master.name}
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => handleBulkMaster(null)}>None</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-7 w-7"
+            title="Apply the open page's styles to the selection"
+            onClick={handleBulkApplyStyles}
+            disabled={!selectedPageId || !selection.includes(selectedPageId)}
+          >
+            <Paintbrush className="w-3.5 h-3.5" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-7 w-7 hover:bg-red-100 hover:text-red-600 dark:hover:bg-red-950 dark:hover:text-red-400"
+            title="Delete"
+            onClick={handleBulkDelete}
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </Button>
+          <Button size="icon" variant="ghost" className="h-7 w-7" title="Clear selection" onClick={clearSelection}>
+            <X className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+      )}
+
       <ScrollArea className="flex-1">
-        <div className="p-3 space-y-1.5">
-          {ebook.pages.map((page, index) => (
-            <motion.div
-              key={page.id}
-              initial={{ opacity: 0, y: -10 }}
-              animate={{ opacity: 1, y: 0 }}
-              exit={{ opacity: 0, y: -10 }}
-              transition={{ duration: 0.15 }}
-            >
-              <div
-                onClick={() => onSelectPage(page.id)}
-                className={cn(
-                  "group relative rounded-lg p-3 cursor-pointer transition-all duration-150",
-                  selectedPageId === page.id
-                    ? "bg-blue-50 dark:bg-blue-950/30 border border-blue-200 dark:border-blue-800"
-                    : "bg-white dark:bg-zinc-800/50 border border-zinc-200 dark:border-zinc-700 hover:border-zinc-300 dark:hover:border-zinc-600"
-                )}
-              >
-                <div className="flex items-start gap-2 pr-24">
-                  <GripVertical className="w-4 h-4 text-zinc-400 dark:text-zinc-500 mt-0.5 shrink-0" />
-                  <div className="flex-1 min-w-0">
-                    <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100 line-clamp-2 break-words">
-                      {page.title || "Untitled"}
-                    </p>
+        <DndContext
+          sensors={sensors}
+          collisionDetection={closestCenter}
+          onDragStart={({ active }) => setActiveDragId(String(active.id))}
+          onDragCancel={() => setActiveDragId(null)}
+          onDragEnd={handleDragEnd}
+        >
+          <SortableContext items={sortableIds} strategy={verticalListSortingStrategy}>
+            <div className="p-3 space-y-1.5">
+              {outline.map((item, index) => {
+                if (item.type === "page") return renderPage(item.page);
+
+                const { chapter, pages } = item;
+                const isCollapsed = collapsed.has(chapter.id);
+                const chapterIndex = chapters.indexOf(chapter);
+
+                return (
+                  <div key={chapter.id}>
+                    {partStarts.has(chapter.id) && (
+                      <p className="px-1 pt-2 pb-1 text-[11px] font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+                        {chapter.part}
+                      </p>
+                    )}
+                    <SortableRow id={`${CHAPTER_PREFIX}${chapter.id}`} disabled={editingChapterId === chapter.id}>
+                      {({ attributes, listeners }) => (
+                        <div className="group relative flex items-center gap-1.5 rounded-lg px-2 py-2 bg-zinc-100 dark:bg-zinc-800 border border-transparent">
+                          <button
+                            {...attributes}
+                            {...listeners}
+                            aria-label={`Drag chapter ${chapter.title}`}
+                            className="shrink-0 rounded text-zinc-400 dark:text-zinc-500 cursor-grab active:cursor-grabbing"
+                          >
+                            <GripVertical className="w-4 h-4" />
+                          </button>
+                          <button
+                            className="shrink-0 text-zinc-500 dark:text-zinc-400"
+                            onClick={() => toggleCollapsed(chapter.id)}
+                            aria-label={isCollapsed ? "Expand chapter" : "Collapse chapter"}
+                          >
+                            <ChevronRight className={cn("w-4 h-4 transition-transform", !isCollapsed && "rotate-90")} />
+                          </button>
+                          {editingChapterId === chapter.id ? (
+                            <Input
+                              autoFocus
+                              value={chapterTitle}
+                              onChange={(e) => setChapterTitle(e.target.value)}
+                              onBlur={() => handleRenameChapter(chapter)}
+                              onKeyDown={(e) => {
+                                if (e.key === "Enter") handleRenameChapter(chapter);
+                                if (e.key === "Escape") setEditingChapterId(null);
+                              }}
+                              className="h-7 text-sm"
+                            />
+                          ) : (
+                            <button
+                              className="flex-1 min-w-0 text-left"
+                              onClick={() => toggleCollapsed(chapter.id)}
+                              onDoubleClick={() => {
+                                setEditingChapterId(chapter.id);
+                                setChapterTitle(chapter.title);
+                              }}
+                            >
+                              <span className="block text-[11px] text-zinc-500 dark:text-zinc-400">
+                                Chapter {chapterIndex + 1} · {pages.length} {pages.length === 1 ? "page" : "pages"}
+                              </span>
+                              <span className="block text-sm font-semibold text-zinc-900 dark:text-zinc-100 truncate">
+                                {chapter.title}
+                              </span>
+                            </button>
+                          )}
+
+                          <div className="flex gap-0.5 shrink-0">
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-6 w-6"
+                              onClick={() => moveChapterTo(chapter.id, index - 1)}
+                              disabled={index === 0}
+                            >
+                              <ChevronUp className="w-3 h-3" />
+                            </Button>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-6 w-6"
+                              onClick={() => moveChapterTo(chapter.id, index + 2)}
+                              disabled={index === outline.length - 1}
+                            >
+                              <ChevronDown className="w-3 h-3" />
+                            </Button>
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button size="icon" variant="ghost" className="h-6 w-6">
+                                  <MoreVertical className="w-3 h-3" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                <DropdownMenuItem onClick={() => handleCreatePage(chapter.id)} disabled={loading}>
+                                  <Plus className="w-4 h-4" />
+                                  Add page
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  onClick={() => {
+                                    setEditingChapterId(chapter.id);
+                                    setChapterTitle(chapter.title);
+                                  }}
+                                >
+                                  <Pencil className="w-4 h-4" />
+                                  Rename
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => handleSetPart(chapter)}>
+                                  <Bookmark className="w-4 h-4" />
+                                  {chapter.part ? "Change part" : "Set part"}
+                                </DropdownMenuItem>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem
+                                  variant="destructive"
+                                  onClick={() => handleDeleteChapter(chapter, pages)}
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                  Delete chapter
+                                </DropdownMenuItem>
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          </div>
+                        </div>
+                      )}
+                    </SortableRow>
+
+                    {!isCollapsed && (
+                      <div className="mt-1.5 ml-3 pl-2 border-l border-zinc-200 dark:border-zinc-700 space-y-1.5">
+                        {pages.length === 0 && (
+                          <p className="px-2 py-1 text-xs text-zinc-500 dark:text-zinc-400">
+                            No pages yet. Drop pages on the chapter heading.
+                          </p>
+                        )}
+                        {pages.map((page) => renderPage(page))}
+                      </div>
+                    )}
                   </div>
-                </div>
+                );
+              })}
+            </div>
+          </SortableContext>
 
-                <div className="absolute right-2 top-2 flex gap-0.5 bg-white/90 dark:bg-zinc-800/90 rounded-md p-0.5 backdrop-blur-sm border border-zinc-200 dark:border-zinc-700">
-                  <Button
-                    size="icon"
-                    variant="ghost"
-                    className="h-6 w-6"
-                    onClick={(e) => handleMoveUp(index, e)}
-                    disabled={index === 0}
-                  >
-                    <ChevronUp className="w-3 h-3" />
-                  </Button>
-                  <Button
-                    size="icon"
-                    variant="ghost"
-                    className="h-6 w-6"
-                    onClick={(e) => handleMoveDown(index, e)}
-                    disabled={index === ebook.pages.length - 1}
-                  >
-                    <ChevronDown className="w-3 h-3" />
-                  </Button>
-                  <Button
-                    size="icon"
-                    variant="ghost"
-                    className="h-6 w-6 hover:bg-red-100 hover:text-red-600 dark:hover:bg-red-950 dark:hover:text-red-400"
-                    onClick={(e) => handleDeletePage(page.id, e)}
-                  >
-                    <Trash2 className="w-3 h-3" />
-                  </Button>
-                </div>
+          <DragOverlay>
+            {activeDragId && (
+              <div className="rounded-lg px-3 py-2 bg-white dark:bg-zinc-800 border border-blue-300 dark:border-blue-700 shadow-lg text-sm font-medium text-zinc-900 dark:text-zinc-100">
+                {draggedChapter
+                  ? draggedChapter.title
+                  : draggedPages.length > 1
+                    ? `${draggedPages.length} pages`
+                    : pageById.get(activeDragId)?.title || "Untitled"}
               </div>
-            </motion.div>
-          ))}
-        </div>
+            )}
+          </DragOverlay>
+        </DndContext>
       </ScrollArea>
+
+      <TransferPagesDialog
+        isOpen={transferIds !== null}
+        onClose={() => setTransferIds(null)}
+        ebookId={ebook.id}
+        pageCount={transferIds?.length ?? 0}
+        onTransfer={handleTransfer}
+      />
     </div>
   );
 }
@@ -1,13 +1,51 @@
 "use client";
 
-import { X } from "lucide-react";
+import { Pencil, Plus, RotateCcw, Trash2, X } from "lucide-react";
 import { Button } from "./ui/button";
 import { Label } from "./ui/label";
 import { Input } from "./ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
-import { getAllThemes, updateEbookTheme, updatePage, createTheme } from "@/app/actions";
+import {
+  createCustomTemplate,
+  createMasterPage,
+  createTheme,
+  deleteCustomTemplate,
+  deleteMasterPage,
+  getAllThemes,
+  updateDefaultStyles,
+  updateEbookTheme,
+  updateCustomTemplate,
+  updateMasterPage,
+  updatePage,
+} from "@/app/actions";
 import { useEffect, useState } from "react";
 import { useDebouncedCallback } from "use-debounce";
+import { cn } from "@/lib/utils";
+import {
+  INHERITED_STYLE_KEYS,
+  clearOverride,
+  isOverridden,
+  resolveDefaultStyles,
+  resolveMasteredStyles,
+  resolvePageStyles,
+  type InheritedStyleKey,
+} from "@/lib/page-styles";
+import { HEADER_SLOTS, HEADER_VARIABLES, type HeaderSlot, type RunningHeader } from "@/lib/running-header";
+import {
+  TEMPLATE_CATEGORIES,
+  getTemplatesByCategory,
+  isCoverTemplate,
+  templateSupports,
+} from "@/lib/page-templates";
+import {
+  customTemplateId,
+  getCustomThumbnail,
+  type CustomTemplate,
+  type TemplateRegion,
+} from "@/lib/custom-templates";
+import { TemplateThumbnail } from "./template-thumbnail";
+import { CustomTemplateDialog } from "./custom-template-dialog";
+import { BOOK_SECTIONS, getPageSection, isBookSection, type BookSection } from "@/lib/pagination";
 
 interface Theme {
   id: string;
@@ -44,15 +82,27 @@ const FONT_OPTIONS = [
   "Times New Roman",
 ];
 
+export interface MasterPage {
+  id: string;
+  name: string;
+  template: string;
+  styles: PageStyles;
+}
+
 interface Ebook {
   id: string;
   title: string;
   theme: Theme;
+  defaultStyles: PageStyles;
+  masters: MasterPage[];
+  pages: { masterId?: string | null; customStyles?: PageStyles }[];
 }
 
 interface Page {
   id: string;
   template: string;
+  masterId?: string | null;
+  section?: string | null;
   customStyles?: PageStyles;
 }
 
@@ -64,35 +114,21 @@ interface SettingsPanelProps {
   page: Page | null;
   onThemeUpdate: (theme: Theme) => void;
   onLayoutUpdate: (template: string, customStyles?: PageStyles) => void;
+  onDefaultStylesUpdate: (defaultStyles: PageStyles) => void;
+  onApplyStyleToAll: (key: InheritedStyleKey, value: PageStyles[InheritedStyleKey]) => Promise<void>;
+  onMastersUpdate: (masters: MasterPage[]) => void;
+  onMasterDeleted: (master: MasterPage) => void;
+  onAssignMaster: (master: MasterPage | null) => Promise<void>;
+  onSectionChange: (section: BookSection | null) => Promise<void>;
   onOpenImagePanel?: () => void;
+  customTemplates: CustomTemplate[];
+  onCustomTemplatesUpdate: (templates: CustomTemplate[]) => void;
+  onCustomTemplateDeleted: (template: CustomTemplate) => void;
 }
 
-// Cover Design Templates
-const COVER_TEMPLATES = [
-  { value: "cover-page", label: "Classic Cover", description: "Full background image with centered title" },
-  { value: "cover-bold", label: "Bold Modern", description: "Large typography, striking design" },
-  { value: "cover-minimal", label: "Minimalist", description: "Clean, elegant simplicity" },
-  { value: "cover-split", label: "Split Design", description: "Half image, half color block" },
-  { value: "cover-gradient", label: "Gradient Glow", description: "Vibrant gradients with floating elements" },
-  { value: "cover-author", label: "Author Focus", description: "Showcase author with photo" },
-  { value: "cover-magazine", label: "Magazine Style", description: "Editorial, professional look" },
-  { value: "cover-3d", label: "3D Effect", description: "Depth and dimension" },
-];
-
-// Content Page Templates
-const CONTENT_TEMPLATES = [
-  { value: "text-only", label: "Text Only", description: "Simple text layout" },
-  { value: "image-top", label: "Image Top", description: "Image above text" },
-  { value: "image-bottom", label: "Image Bottom", description: "Image below text" },
-  { value: "two-column", label: "Two Column", description: "Image left, text right" },
-  { value: "blog-post", label: "Blog Post", description: "Small image, large text" },
-  { value: "full-image", label: "Full Image", description: "Text over full image" },
-  { value: "image-left", label: "Image Left", description: "Image wraps text on right" },
-  { value: "image-right", label: "Image Right", description: "Image wraps text on left" },
-  { value: "image-center", label: "Image Center", description: "Centered image with text above & below" },
-];
-
-const TEMPLATES = [...COVER_TEMPLATES, ...CONTENT_TEMPLATES];
+// Whether style edits change the open page, its master page or the
+// ebook-wide defaults
+type StyleScope = "page" | "master" | "ebook";
 
 // Professional header style presets
 const HEADER_PRESETS = [
@@ -347,7 +383,7 @@ export interface PageStyles {
     color: string;
     margin: number;
     showPageNumber: boolean;
-    pageNumberFormat?: "number" | "page-x" | "x-of-y";
+    pageNumberFormat?: "number" | "page-x" | "x-of-y" | "chapter-page";
     pageNumberColor?: string;
     startFrom?: number;
   };
@@ -360,6 +396,11 @@ export interface PageStyles {
     fontSize: number;
     color: string;
   };
+  background?: {
+    enabled: boolean;
+    color: string;
+  };
+  header?: RunningHeader;
   coverSettings?: {
     useThemeColors: boolean;
     useThemeFonts: boolean;
@@ -381,19 +422,9 @@ export interface PageStyles {
   };
 }
 
-export function SettingsPanel({
-  isOpen,
-  onClose,
-  type,
-  ebook,
-  page,
-  onThemeUpdate,
-  onLayoutUpdate,
-  onOpenImagePanel,
-}: SettingsPanelProps) {
-  const [themes, setThemes] = useState<Theme[]>([]);
-  const [customTheme, setCustomTheme] = useState<Theme>(ebook.theme);
-  const [pageStyles, setPageStyles] = useState<PageStyles>({
+// The look of a page nothing has been set for, following the theme
+function getBaseStyles(ebook: Ebook): PageStyles {
+  return {
     headingAccent: {
       enabled: false,
       position: "left",
@@ -427,7 +458,171 @@ export function SettingsPanel({
       fontSize: 10,
       color: ebook.theme.secondaryColor,
     },
+    background: {
+      enabled: false,
+      color: ebook.theme.backgroundColor,
+    },
+    // Book title on the left of even pages, chapter on the right of odd ones
+    header: {
+      enabled: false,
+      odd: { left: "", center: "", right: "{chapterTitle}" },
+      even: { left: "{bookTitle}", center: "", right: "" },
+      alternate: true,
+      fontSize: 10,
+      color: ebook.theme.secondaryColor,
+      margin: 24,
+      divider: false,
+    },
+  };
+}
+
+interface StyleSourceProps {
+  scope: StyleScope;
+  canEditPage: boolean;
+  masterName: string | null;
+  overridden: boolean;
+  inheritedFrom: string;
+  overrideCount: number;
+  onScopeChange: (scope: StyleScope) => void;
+  onReset: () => void;
+  onApplyToAll: () => void;
+}
+
+const SCOPE_LABELS: Record<StyleScope, string> = {
+  page: "This page",
+  master: "Master",
+  ebook: "Ebook default",
+};
+
+// Shown above each inheritable style section: where its values come from
+// and how to push them up to, or pull them back from, the ebook default
+function StyleSource({
+  scope,
+  canEditPage,
+  masterName,
+  overridden,
+  inheritedFrom,
+  overrideCount,
+  onScopeChange,
+  onReset,
+  onApplyToAll,
+}: StyleSourceProps) {
+  const scopes: StyleScope[] = masterName ? ["page", "master", "ebook"] : ["page", "ebook"];
+
+  return (
+    <div className="rounded-lg border border-zinc-200 dark:border-zinc-700 p-3 space-y-2">
+      <div
+        className={cn(
+          "grid gap-1 rounded-md bg-zinc-100 dark:bg-zinc-800 p-0.5",
+          scopes.length === 3 ? "grid-cols-3" : "grid-cols-2"
+        )}
+      >
+        {scopes.map((value) => (
+          <button
+            key={value}
+            type="button"
+            disabled={value === "page" && !canEditPage}
+            onClick={() => onScopeChange(value)}
+            title={value === "master" ? masterName ?? undefined : undefined}
+            className={cn(
+              "rounded px-2 py-1 text-xs font-medium transition-colors disabled:opacity-50",
+              scope === value
+                ? "bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 shadow-sm"
+                : "text-zinc-500 dark:text-zinc-400"
+            )}
+          >
+            {SCOPE_LABELS[value]}
+          </button>
+        ))}
+      </div>
+
+      {scope !== "ebook" ? (
+        <div className="flex items-center justify-between gap-2">
+          {overridden ? (
+            <span className="inline-flex items-center rounded-full bg-amber-100 dark:bg-amber-950/50 px-2 py-0.5 text-[11px] font-medium text-amber-700 dark:text-amber-400">
+              Overridden
+            </span>
+          ) : (
+            <span className="text-xs text-zinc-500 dark:text-zinc-400">Inherited from {inheritedFrom}</span>
+          )}
+          <div className="flex gap-1">
+            {overridden && (
+              <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={onReset}>
+                <RotateCcw className="w-3 h-3" />
+                Reset
+              </Button>
+            )}
+            {scope === "page" && (
+              <Button size="sm" variant="outline" className="h-7 px-2 text-xs" onClick={onApplyToAll}>
+                Apply to all pages
+              </Button>
+            )}
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-zinc-500 dark:text-zinc-400">
+            {overrideCount === 0
+              ? "Every page uses this"
+              : `${overrideCount} ${overrideCount === 1 ? "page overrides" : "pages override"} this`}
+          </span>
+          {overrideCount > 0 && (
+            <Button size="sm" variant="outline" className="h-7 px-2 text-xs" onClick={onApplyToAll}>
+              Apply to all pages
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function SettingsPanel({
+  isOpen,
+  onClose,
+  type,
+  ebook,
+  page,
+  onThemeUpdate,
+  onLayoutUpdate,
+  onDefaultStylesUpdate,
+  onApplyStyleToAll,
+  onMastersUpdate,
+  onMasterDeleted,
+  onAssignMaster,
+  onSectionChange,
+  onOpenImagePanel,
+  customTemplates,
+  onCustomTemplatesUpdate,
+  onCustomTemplateDeleted,
+}: SettingsPanelProps) {
+  const [themes, setThemes] = useState<Theme[]>([]);
+  // The custom template open in the layout builder; null for a new one
+  const [editingTemplate, setEditingTemplate] = useState<CustomTemplate | null>(null);
+  const [templateDialogOpen, setTemplateDialogOpen] = useState(false);
+  const [customTheme, setCustomTheme] = useState<Theme>(ebook.theme);
+  const [styleScope, setStyleScope] = useState<StyleScope>("page");
+  // The header slot variable buttons insert into
+  const [headerSlot, setHeaderSlot] = useState<{ side: "odd" | "even"; slot: HeaderSlot }>({
+    side: "odd",
+    slot: "right",
   });
+  const master = ebook.masters.find((m) => m.id === page?.masterId) ?? null;
+  // Without a page there's nothing to override, only the defaults to edit.
+  // Layout settings always belong to the page.
+  const scope: StyleScope =
+    !page ? "ebook" : type !== "theme" || (styleScope === "master" && !master) ? "page" : styleScope;
+
+  // What the controls show: the page's own sections, then its master's,
+  // then the ebook defaults, then the built-in look
+  const pageStyles = resolvePageStyles(
+    getBaseStyles(ebook),
+    scope === "ebook"
+      ? ebook.defaultStyles
+      : scope === "master"
+        ? resolvePageStyles(ebook.defaultStyles, master?.styles)
+        : resolveMasteredStyles(ebook.defaultStyles, master?.styles, page?.customStyles)
+  );
 
   // Debounced save to database
   const debouncedSaveStyles = useDebouncedCallback(async (styles: PageStyles) => {
@@ -439,6 +634,22 @@ export function SettingsPanel({
     }
   }, 500);
 
+  const debouncedSaveDefaults = useDebouncedCallback(async (defaultStyles: PageStyles) => {
+    try {
+      await updateDefaultStyles(ebook.id, defaultStyles);
+    } catch (error) {
+      console.error("Failed to save default styles:", error);
+    }
+  }, 500);
+
+  const debouncedSaveMaster = useDebouncedCallback(async (masterId: string, styles: PageStyles) => {
+    try {
+      await updateMasterPage(masterId, { styles });
+    } catch (error) {
+      console.error("Failed to save master page styles:", error);
+    }
+  }, 500);
+
   useEffect(() => {
     getAllThemes().then(setThemes);
   }, []);
@@ -447,60 +658,85 @@ export function SettingsPanel({
     setCustomTheme(ebook.theme);
   }, [ebook.theme]);
 
-  useEffect(() => {
-    if (page?.customStyles) {
-      setPageStyles(page.customStyles as PageStyles);
-    } else {
-      // Reset to defaults when switching pages
-      setPageStyles({
-        headingAccent: {
-          enabled: false,
-          position: "left",
-          thickness: 4,
-          color: ebook.theme.accentColor,
-        },
-        imageStyle: {
-          borderEnabled: false,
-          borderWidth: 2,
-          borderColor: ebook.theme.primaryColor,
-          borderRadius: 16,
-          shape: "square",
-        },
-        footer: {
-          enabled: false,
-          style: "line",
-          thickness: 1,
-          color: ebook.theme.accentColor,
-          margin: 40,
-          showPageNumber: false,
-          pageNumberFormat: "number",
-          pageNumberColor: ebook.theme.textColor,
-          startFrom: 1,
-        },
-        branding: {
-          enabled: false,
-          type: "text",
-          text: ebook.title || "My Ebook",
-          logoUrl: "",
-          position: "bottom-left",
-          fontSize: 10,
-          color: ebook.theme.secondaryColor,
-        },
-      });
-    }
-  }, [page, ebook.theme, ebook.title]);
+  const savePageStyles = (styles: PageStyles) => {
+    if (!page) return;
+    // Update preview immediately
+    onLayoutUpdate(page.template, styles);
+    // Save to database with debounce
+    debouncedSaveStyles(styles);
+  };
+
+  const saveMasterStyles = (styles: PageStyles) => {
+    if (!master) return;
+    onMastersUpdate(ebook.masters.map((m) => (m.id === master.id ? { ...m, styles } : m)));
+    debouncedSaveMaster(master.id, styles);
+  };
 
-  // Update preview immediately and debounce save
+  // Only the sections a change touches are stored, so the rest keep
+  // inheriting from the master or the ebook
   const handlePageStylesChange = (newStyles: PageStyles) => {
-    setPageStyles(newStyles);
-    // Update preview immediately
-    if (page) {
-      onLayoutUpdate(page.template, newStyles);
+    const sections = Object.fromEntries(
+      INHERITED_STYLE_KEYS.filter(
+        (key) => JSON.stringify(newStyles[key]) !== JSON.stringify(pageStyles[key])
+      ).map((key) => [key, newStyles[key]])
+    ) as PageStyles;
+
+    if (scope === "ebook") {
+      const defaultStyles = { ...ebook.defaultStyles, ...sections };
+      onDefaultStylesUpdate(defaultStyles);
+      debouncedSaveDefaults(defaultStyles);
+      return;
     }
-    // Save to database with debounce
-    debouncedSaveStyles(newStyles);
+
+    if (scope === "master") {
+      saveMasterStyles({ ...master?.styles, ...sections });
+      return;
+    }
+
+    savePageStyles({ ...page?.customStyles, ...sections, coverSettings: newStyles.coverSettings });
+  };
+
+  const handleResetSection = (key: InheritedStyleKey) => {
+    if (scope === "master") {
+      saveMasterStyles(clearOverride(master?.styles, key));
+      return;
+    }
+    savePageStyles(clearOverride(page?.customStyles, key));
   };
 
+  const handleApplySectionToAll = async (key: InheritedStyleKey) => {
+    // Pending edits must land before the overrides are cleared
+    debouncedSaveStyles.flush();
+    debouncedSaveDefaults.flush();
+    debouncedSaveMaster.flush();
+    try {
+      await onApplyStyleToAll(key, pageStyles[key]);
+    } catch (error) {
+      console.error("Failed to apply styles to all pages:", error);
+      alert("Failed to apply styles to all pages. Please try again.");
+    }
+  };
+
+  const mastersById = new Map(ebook.masters.map((m) => [m.id, m]));
+
+  const renderStyleSource = (key: InheritedStyleKey) => (
+    <StyleSource
+      scope={scope}
+      canEditPage={!!page}
+      masterName={master?.name ?? null}
+      overridden={isOverridden(scope === "master" ? master?.styles : page?.customStyles, key)}
+      inheritedFrom={scope === "page" && master && isOverridden(master.styles, key) ? master.name : "ebook default"}
+      overrideCount={
+        ebook.pages.filter((p) =>
+          isOverridden(resolvePageStyles(mastersById.get(p.masterId ?? "")?.styles, p.customStyles), key)
+        ).length
+      }
+      onScopeChange={setStyleScope}
+      onReset={() => handleResetSection(key)}
+      onApplyToAll={() => handleApplySectionToAll(key)}
+    />
+  );
+
   const handleThemeChange = async (themeId: string) => {
     const updatedEbook = await updateEbookTheme(ebook.id, themeId);
     onThemeUpdate(updatedEbook.theme);
@@ -509,7 +745,100 @@ export function SettingsPanel({
   const handleLayoutChange = async (template: string) => {
     if (!page) return;
     await updatePage(page.id, { template });
-    onLayoutUpdate(template, pageStyles);
+    onLayoutUpdate(template);
+  };
+
+  const handleSectionChange = async (value: string) => {
+    try {
+      await onSectionChange(isBookSection(value) ? value : null);
+    } catch (error) {
+      console.error("Failed to change book section:", error);
+      alert("Failed to change book section. Please try again.");
+    }
+  };
+
+  const handleAssignMaster = async (masterId: string) => {
+    try {
+      await onAssignMaster(mastersById.get(masterId) ?? null);
+    } catch (error) {
+      console.error("Failed to assign master page:", error);
+      alert("Failed to apply master page. Please try again.");
+    }
+  };
+
+  // The new master starts from the open page's look, and the page moves onto it
+  const handleCreateMaster = async () => {
+    if (!page) return;
+    try {
+      let name = "Master";
+      let counter = 1;
+      while (ebook.masters.some((m) => m.name === name)) {
+        name = `Master ${counter}`;
+        counter++;
+      }
+
+      const created = await createMasterPage(ebook.id, {
+        name,
+        template: page.template,
+        styles: resolvePageStyles(master?.styles, page.customStyles),
+      });
+      const newMaster = { ...created, styles: resolveDefaultStyles<PageStyles>(created.styles) };
+      onMastersUpdate([...ebook.masters, newMaster]);
+      await onAssignMaster(newMaster);
+    } catch (error) {
+      console.error("Failed to create master page:", error);
+      alert("Failed to create master page. Please try again.");
+    }
+  };
+
+  const handleUpdateMaster = async (target: MasterPage, data: { name?: string; template?: string }) => {
+    try {
+      const updated = await updateMasterPage(target.id, data);
+      onMastersUpdate(
+        ebook.masters.map((m) => (m.id === target.id ? { ...m, name: updated.name, template: updated.template } : m))
+      );
+    } catch (error) {
+      console.error("Failed to update master page:", error);
+      alert("Failed to update master page. Please try again.");
+    }
+  };
+
+  const handleDeleteMaster = async (target: MasterPage) => {
+    if (!confirm(`Delete "${target.name}"? Pages using it keep their current look.`)) return;
+    try {
+      await deleteMasterPage(target.id);
+      onMasterDeleted(target);
+    } catch (error) {
+      console.error("Failed to delete master page:", error);
+      alert("Failed to delete master page. Please try again.");
+    }
+  };
+
+  const openTemplateBuilder = (template: CustomTemplate | null) => {
+    setEditingTemplate(template);
+    setTemplateDialogOpen(true);
+  };
+
+  const handleSaveCustomTemplate = async (draft: { name: string; regions: TemplateRegion[] }) => {
+    if (editingTemplate) {
+      const updated = await updateCustomTemplate(editingTemplate.id, draft);
+      onCustomTemplatesUpdate(customTemplates.map((t) => (t.id === updated.id ? updated : t)));
+      return;
+    }
+    const created = await createCustomTemplate(draft);
+    onCustomTemplatesUpdate([...customTemplates, created]);
+    await handleLayoutChange(customTemplateId(created.id));
+  };
+
+  const handleDeleteCustomTemplate = async (target: CustomTemplate) => {
+    if (!confirm(`Delete "${target.name}"? Pages using it go back to the Text Only template.`)) return;
+    try {
+      await deleteCustomTemplate(target.id);
+      onCustomTemplateDeleted(target);
+    } catch (error) {
+      console.error("Failed to delete custom template:", error);
+      alert("Failed to delete custom template. Please try again.");
+    }
   };
 
   const handleCustomThemeUpdate = async (field: keyof Theme, value: string) => {
@@ -551,6 +880,23 @@ export function SettingsPanel({
     }
   };
 
+  const updateHeader = (updates: Partial<RunningHeader>) => {
+    handlePageStylesChange({
+      ...pageStyles,
+      header: { ...pageStyles.header!, ...updates },
+    });
+  };
+
+  const updateHeaderSlot = (side: "odd" | "even", slot: HeaderSlot, value: string) => {
+    updateHeader({ [side]: { ...pageStyles.header![side], [slot]: value } });
+  };
+
+  const insertHeaderVariable = (name: string) => {
+    const { side, slot } = headerSlot;
+    const current = pageStyles.header![side][slot];
+    updateHeaderSlot(side, slot, current ? `${current} {${name}}` : `{${name}}`);
+  };
+
   const applyHeaderPreset = (preset: typeof HEADER_PRESETS[0]) => {
     const newStyles = {
       ...pageStyles,
@@ -605,9 +951,11 @@ export function SettingsPanel({
                 <TabsTrigger value="headers" className="text-xs">Headers</TabsTrigger>
                 <TabsTrigger value="styling" className="text-xs">Images</TabsTrigger>
               </TabsList>
-              <TabsList className="grid grid-cols-2 w-full">
+              <TabsList className="grid grid-cols-4 w-full">
+                <TabsTrigger value="running-header" className="text-xs">Running</TabsTrigger>
                 <TabsTrigger value="footer" className="text-xs">Footer</TabsTrigger>
                 <TabsTrigger value="branding" className="text-xs">Branding</TabsTrigger>
+                <TabsTrigger value="background" className="text-xs">Background</TabsTrigger>
               </TabsList>
             </div>
 
@@ -760,6 +1108,7 @@ export function SettingsPanel({
             </TabsContent>
 
             <TabsContent value="headers" className="flex-1 overflow-y-auto p-4 space-y-4">
+              {renderStyleSource("headingAccent")}
               <Label className="text-xs text-zinc-600 dark:text-zinc-400 block">
                 Header Style Presets
               </Label>
@@ -891,6 +1240,7 @@ export function SettingsPanel({
             </TabsContent>
 
             <TabsContent value="styling" className="flex-1 overflow-y-auto p-4 space-y-4">
+              {renderStyleSource("imageStyle")}
               <Label className="text-xs text-zinc-600 dark:text-zinc-400 mb-3 block">Image Styling</Label>
               <div className="space-y-3">
                 <div>
@@ -989,6 +1339,7 @@ export function SettingsPanel({
 
             {/* Footer Tab */}
             <TabsContent value="footer" className="flex-1 overflow-y-auto p-4 space-y-4">
+              {renderStyleSource("footer")}
               <Label className="text-xs text-zinc-600 dark:text-zinc-400 block">
                 Footer Style Presets
               </Label>
@@ -1080,11 +1431,12 @@ export function SettingsPanel({
                           <option value="number">1, 2, 3...</option>
                           <option value="page-x">Page 1, Page 2...</option>
                           <option value="x-of-y">1 of 10, 2 of 10...</option>
+                          <option value="chapter-page">By chapter: 2-1, 2-2...</option>
                         </select>
                       </div>
 
                       <div>
-                        <Label htmlFor="pagenum-start" className="text-xs">Start From</Label>
+                        <Label htmlFor="pagenum-start" className="text-xs">Body Starts From</Label>
                         <Input
                           id="pagenum-start"
                           type="number"
@@ -1096,6 +1448,7 @@ export function SettingsPanel({
                           className="mt-1"
                           min="0"
                         />
+                        <p className="text-[10px] text-zinc-500 mt-1">Read from the first body page</p>
                       </div>
 
                       <div>
@@ -1175,6 +1528,7 @@ export function SettingsPanel({
 
             {/* Branding Tab */}
             <TabsContent value="branding" className="flex-1 overflow-y-auto p-4 space-y-4">
+              {renderStyleSource("branding")}
               <Label className="text-xs text-zinc-600 dark:text-zinc-400 block">
                 Branding Style Presets
               </Label>
@@ -1335,53 +1689,317 @@ export function SettingsPanel({
                 </div>
               )}
             </TabsContent>
+
+            <TabsContent value="running-header" className="flex-1 overflow-y-auto p-4 space-y-4">
+              {renderStyleSource("header")}
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="header-enabled" className="text-xs">Running Header</Label>
+                  <p className="text-[10px] text-zinc-500">Repeated across the top of every page except covers</p>
+                </div>
+                <input
+                  id="header-enabled"
+                  type="checkbox"
+                  checked={pageStyles.header?.enabled ?? false}
+                  onChange={(e) => updateHeader({ enabled: e.target.checked })}
+                  className="h-4 w-4 rounded border-zinc-300"
+                />
+              </div>
+
+              {pageStyles.header?.enabled && (
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="header-alternate" className="text-xs">Different Odd &amp; Even Pages</Label>
+                    <input
+                      id="header-alternate"
+                      type="checkbox"
+                      checked={pageStyles.header.alternate}
+                      onChange={(e) => updateHeader({ alternate: e.target.checked })}
+                      className="h-4 w-4 rounded border-zinc-300"
+                    />
+                  </div>
+
+                  {(pageStyles.header.alternate ? (["odd", "even"] as const) : (["odd"] as const)).map((side) => (
+                    <div key={side} className="space-y-2">
+                      <Label className="text-xs text-zinc-600 dark:text-zinc-400 block">
+                        {!pageStyles.header!.alternate ? "All Pages" : side === "odd" ? "Odd Pages" : "Even Pages"}
+                      </Label>
+                      <div className="grid grid-cols-3 gap-2">
+                        {HEADER_SLOTS.map((slot) => (
+                          <Input
+                            key={slot}
+                            value={pageStyles.header![side][slot]}
+                            placeholder={slot === "center" ? "Center" : slot === "left" ? "Left" : "Right"}
+                            onFocus={() => setHeaderSlot({ side, slot })}
+                            onChange={(e) => updateHeaderSlot(side, slot, e.target.value)}
+                            className={cn(
+                              "h-8 text-xs",
+                              headerSlot.side === side && headerSlot.slot === slot && "border-blue-500"
+                            )}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+
+                  <div>
+                    <Label className="text-xs text-zinc-600 dark:text-zinc-400 mb-2 block">Insert Into Selected Slot</Label>
+                    <div className="flex flex-wrap gap-1">
+                      {HEADER_VARIABLES.map((variable) => (
+                        <Button
+                          key={variable.key}
+                          size="sm"
+                          variant="outline"
+                          className="h-7 px-2 text-xs"
+                          onClick={() => insertHeaderVariable(variable.key)}
+                        >
+                          {variable.label}
+                        </Button>
+                      ))}
+                    </div>
+                    <p className="text-[10px] text-zinc-500 mt-2">
+                      The author comes from the cover&apos;s author name.
+                    </p>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <Label htmlFor="header-size" className="text-xs">Font Size</Label>
+                      <Input
+                        id="header-size"
+                        type="number"
+                        min={6}
+                        max={24}
+                        value={pageStyles.header.fontSize}
+                        onChange={(e) => updateHeader({ fontSize: Number(e.target.value) || 10 })}
+                        className="mt-1 h-8 text-xs"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="header-margin" className="text-xs">Top Offset (px)</Label>
+                      <Input
+                        id="header-margin"
+                        type="number"
+                        min={0}
+                        max={120}
+                        value={pageStyles.header.margin}
+                        onChange={(e) => updateHeader({ margin: Number(e.target.value) || 0 })}
+                        className="mt-1 h-8 text-xs"
+                      />
+                    </div>
+                  </div>
+
+                  <div>
+                    <Label htmlFor="header-color" className="text-xs">Text Color</Label>
+                    <div className="flex gap-2 mt-1">
+                      <input
+                        type="color"
+                        value={pageStyles.header.color}
+                        onChange={(e) => updateHeader({ color: e.target.value })}
+                        className="h-9 w-16 rounded border border-zinc-200 dark:border-zinc-700 cursor-pointer"
+                      />
+                      <Input
+                        id="header-color"
+                        value={pageStyles.header.color}
+                        onChange={(e) => updateHeader({ color: e.target.value })}
+                        className="flex-1 font-mono text-xs"
+                      />
+                    </div>
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="header-divider" className="text-xs">Divider Line</Label>
+                    <input
+                      id="header-divider"
+                      type="checkbox"
+                      checked={pageStyles.header.divider}
+                      onChange={(e) => updateHeader({ divider: e.target.checked })}
+                      className="h-4 w-4 rounded border-zinc-300"
+                    />
+                  </div>
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="background" className="flex-1 overflow-y-auto p-4 space-y-4">
+              {renderStyleSource("background")}
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="background-enabled" className="text-xs">Custom Background</Label>
+                  <p className="text-[10px] text-zinc-500">Use this color instead of the theme&apos;s</p>
+                </div>
+                <input
+                  id="background-enabled"
+                  type="checkbox"
+                  checked={pageStyles.background?.enabled ?? false}
+                  onChange={(e) => handlePageStylesChange({
+                    ...pageStyles,
+                    background: { ...pageStyles.background!, enabled: e.target.checked }
+                  })}
+                  className="h-4 w-4 rounded border-zinc-300"
+                />
+              </div>
+
+              {pageStyles.background?.enabled && (
+                <div>
+                  <Label htmlFor="background-color" className="text-xs">Background Color</Label>
+                  <div className="flex gap-2 mt-1">
+                    <input
+                      type="color"
+                      value={pageStyles.background.color}
+                      onChange={(e) => handlePageStylesChange({
+                        ...pageStyles,
+                        background: { ...pageStyles.background!, color: e.target.value }
+                      })}
+                      className="h-9 w-16 rounded border border-zinc-200 dark:border-zinc-700 cursor-pointer"
+                    />
+                    <Input
+                      id="background-color"
+                      value={pageStyles.background.color}
+                      onChange={(e) => handlePageStylesChange({
+                        ...pageStyles,
+                        background: { ...pageStyles.background!, color: e.target.value }
+                      })}
+                      className="flex-1 font-mono text-xs"
+                    />
+                  </div>
+                </div>
+              )}
+            </TabsContent>
           </Tabs>
         )}
 
         {type === "layout" && page && (
           <Tabs defaultValue="pages" className="h-full flex flex-col">
             <div className="px-4 pt-4">
-              <TabsList className="grid grid-cols-2 w-full">
+              <TabsList className="grid grid-cols-3 w-full">
                 <TabsTrigger value="pages" className="text-xs">Content Pages</TabsTrigger>
                 <TabsTrigger value="covers" className="text-xs">Cover Designs</TabsTrigger>
+                <TabsTrigger value="masters" className="text-xs">Masters</TabsTrigger>
               </TabsList>
             </div>
 
             {/* Content Pages Tab */}
             <TabsContent value="pages" className="flex-1 overflow-y-auto p-4 space-y-2">
-              {CONTENT_TEMPLATES.map((template) => (
-                <button
-                  key={template.value}
-                  onClick={() => handleLayoutChange(template.value)}
-                  className={`w-full p-3 rounded-lg border-2 text-left transition-all ${
-                    template.value === page.template
-                      ? "border-blue-500 bg-blue-50 dark:bg-blue-950/30"
-                      : "border-zinc-200 dark:border-zinc-700 hover:border-blue-300 dark:hover:border-blue-600"
-                  }`}
-                >
-                  <div className="font-medium text-sm text-zinc-900 dark:text-zinc-100">
-                    {template.label}
-                  </div>
-                  <div className="text-xs text-zinc-500 dark:text-zinc-400 mt-0.5">
-                    {template.description}
-                  </div>
-                </button>
+              {!isCoverTemplate(page.template) && (
+                <div className="space-y-1 pb-2">
+                  <Label htmlFor="page-section" className="text-xs text-zinc-600 dark:text-zinc-400">
+                    Book Section
+                  </Label>
+                  <select
+                    id="page-section"
+                    value={page.section ?? ""}
+                    onChange={(e) => handleSectionChange(e.target.value)}
+                    className="w-full h-9 px-3 rounded-md border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-sm"
+                  >
+                    <option value="">
+                      Automatic ({BOOK_SECTIONS.find((s) => s.value === getPageSection({ template: page.template }))?.label})
+                    </option>
+                    {BOOK_SECTIONS.map((section) => (
+                      <option key={section.value} value={section.value}>{section.label}</option>
+                    ))}
+                  </select>
+                  <p className="text-[10px] text-zinc-500 dark:text-zinc-400">
+                    Front matter is numbered i, ii, iii; the body starts again at 1.
+                  </p>
+                </div>
+              )}
+              {TEMPLATE_CATEGORIES.filter((category) => category.value !== "cover").map((category) => (
+                <div key={category.value} className="space-y-2 pb-2">
+                  <Label className="text-xs text-zinc-600 dark:text-zinc-400">{category.label}</Label>
+                  {getTemplatesByCategory(category.value).map((template) => (
+                    <button
+                      key={template.id}
+                      onClick={() => handleLayoutChange(template.id)}
+                      className={`w-full p-3 rounded-lg border-2 text-left transition-all flex items-center gap-3 ${
+                        template.id === page.template
+                          ? "border-blue-500 bg-blue-50 dark:bg-blue-950/30"
+                          : "border-zinc-200 dark:border-zinc-700 hover:border-blue-300 dark:hover:border-blue-600"
+                      }`}
+                    >
+                      <TemplateThumbnail boxes={template.thumbnail} className="w-9" />
+                      <div>
+                        <div className="font-medium text-sm text-zinc-900 dark:text-zinc-100">
+                          {template.label}
+                        </div>
+                        <div className="text-xs text-zinc-500 dark:text-zinc-400 mt-0.5">
+                          {template.description}
+                        </div>
+                      </div>
+                    </button>
+                  ))}
+                </div>
               ))}
+
+              <div className="space-y-2 pb-2">
+                <Label className="text-xs text-zinc-600 dark:text-zinc-400">Custom templates</Label>
+                {customTemplates.map((template) => {
+                  const id = customTemplateId(template.id);
+                  return (
+                    <div
+                      key={template.id}
+                      className={`w-full p-3 rounded-lg border-2 transition-all flex items-center gap-3 ${
+                        id === page.template
+                          ? "border-blue-500 bg-blue-50 dark:bg-blue-950/30"
+                          : "border-zinc-200 dark:border-zinc-700 hover:border-blue-300 dark:hover:border-blue-600"
+                      }`}
+                    >
+                      <button
+                        className="flex flex-1 min-w-0 items-center gap-3 text-left"
+                        onClick={() => handleLayoutChange(id)}
+                      >
+                        <TemplateThumbnail boxes={getCustomThumbnail(template.regions)} className="w-9" />
+                        <div className="min-w-0">
+                          <div className="font-medium text-sm text-zinc-900 dark:text-zinc-100 truncate">
+                            {template.name}
+                          </div>
+                          <div className="text-xs text-zinc-500 dark:text-zinc-400 mt-0.5">
+                            {template.regions.length} region{template.regions.length === 1 ? "" : "s"}
+                          </div>
+                        </div>
+                      </button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8 shrink-0"
+                        title="Edit template"
+                        onClick={() => openTemplateBuilder(template)}
+                      >
+                        <Pencil className="w-3.5 h-3.5" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8 shrink-0 hover:bg-red-100 hover:text-red-600 dark:hover:bg-red-950 dark:hover:text-red-400"
+                        title="Delete template"
+                        onClick={() => handleDeleteCustomTemplate(template)}
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </Button>
+                    </div>
+                  );
+                })}
+                <Button variant="outline" className="w-full" onClick={() => openTemplateBuilder(null)}>
+                  <Plus className="w-4 h-4" />
+                  New custom template
+                </Button>
+              </div>
             </TabsContent>
 
             {/* Cover Designs Tab */}
             <TabsContent value="covers" className="flex-1 overflow-y-auto p-4 space-y-4">
               <div className="grid grid-cols-2 gap-2">
-                {COVER_TEMPLATES.map((template) => (
+                {getTemplatesByCategory("cover").map((template) => (
                   <button
-                    key={template.value}
-                    onClick={() => handleLayoutChange(template.value)}
+                    key={template.id}
+                    onClick={() => handleLayoutChange(template.id)}
                     className={`p-3 rounded-lg border-2 text-left transition-all ${
-                      template.value === page.template
+                      template.id === page.template
                         ? "border-purple-500 bg-purple-50 dark:bg-purple-950/30"
                         : "border-zinc-200 dark:border-zinc-700 hover:border-purple-300 dark:hover:border-purple-600"
                     }`}
                   >
+                    <TemplateThumbnail boxes={template.thumbnail} className="w-full mb-2" />
                     <div className="font-medium text-xs text-zinc-900 dark:text-zinc-100">
                       {template.label}
                     </div>
@@ -1393,7 +2011,7 @@ export function SettingsPanel({
               </div>
 
               {/* Cover Theme Settings */}
-              {page.template.startsWith("cover-") && (
+              {templateSupports(page.template, "coverSettings") && (
                 <div className="pt-4 border-t border-zinc-200 dark:border-zinc-700">
                   <Label className="text-xs text-zinc-600 dark:text-zinc-400 mb-3 block">
                     Cover Theme Settings
@@ -1662,7 +2280,7 @@ export function SettingsPanel({
                             }
                           })}
                           className="mt-1 h-8 text-xs"
-                          placeholder="Your Name Here"
+                          placeholder="Authors from Book Details"
                         />
                       </div>
 
@@ -1698,7 +2316,7 @@ export function SettingsPanel({
                             }
                           })}
                           className="mt-1 h-8 text-xs"
-                          placeholder="2024 EDITION"
+                          placeholder="Year from Book Details"
                         />
                       </div>
                     </div>
@@ -1706,9 +2324,96 @@ export function SettingsPanel({
                 </div>
               )}
             </TabsContent>
+
+            {/* Master Pages Tab */}
+            <TabsContent value="masters" className="flex-1 overflow-y-auto p-4 space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="page-master" className="text-xs text-zinc-600 dark:text-zinc-400">
+                  This page&apos;s master
+                </Label>
+                <select
+                  id="page-master"
+                  value={page.masterId ?? ""}
+                  onChange={(e) => handleAssignMaster(e.target.value)}
+                  className="w-full h-9 px-3 rounded-md border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-sm"
+                >
+                  <option value="">None</option>
+                  {ebook.masters.map((m) => (
+                    <option key={m.id} value={m.id}>{m.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-xs text-zinc-600 dark:text-zinc-400 block">Master Pages</Label>
+                {ebook.masters.length === 0 && (
+                  <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                    Masters share a template, background, running header, footer and branding across pages.
+                  </p>
+                )}
+                {ebook.masters.map((m) => (
+                  <div key={m.id} className="rounded-lg border border-zinc-200 dark:border-zinc-700 p-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Input
+                        defaultValue={m.name}
+                        onBlur={(e) => e.target.value !== m.name && handleUpdateMaster(m, { name: e.target.value })}
+                        className="h-8 text-sm"
+                      />
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8 shrink-0 hover:bg-red-100 hover:text-red-600 dark:hover:bg-red-950 dark:hover:text-red-400"
+                        title="Delete master"
+                        onClick={() => handleDeleteMaster(m)}
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </Button>
+                    </div>
+                    <select
+                      value={m.template}
+                      onChange={(e) => handleUpdateMaster(m, { template: e.target.value })}
+                      className="w-full h-9 px-3 rounded-md border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-sm"
+                    >
+                      {TEMPLATE_CATEGORIES.map((category) => (
+                        <optgroup key={category.value} label={category.label}>
+                          {getTemplatesByCategory(category.value).map((template) => (
+                            <option key={template.id} value={template.id}>{template.label}</option>
+                          ))}
+                        </optgroup>
+                      ))}
+                      {customTemplates.length > 0 && (
+                        <optgroup label="Custom templates">
+                          {customTemplates.map((template) => (
+                            <option key={template.id} value={customTemplateId(template.id)}>{template.name}</option>
+                          ))}
+                        </optgroup>
+                      )}
+                    </select>
+                    <p className="text-[10px] text-zinc-500 dark:text-zinc-400">
+                      Used by {ebook.pages.filter((p) => p.masterId === m.id).length} page(s)
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              <Button variant="outline" className="w-full" onClick={handleCreateMaster}>
+                <Plus className="w-4 h-4" />
+                New master from this page
+              </Button>
+              <p className="text-[10px] text-zinc-500 dark:text-zinc-400">
+                Edit a master&apos;s styles under Theme &amp; Styling with &quot;Master&quot; selected.
+              </p>
+            </TabsContent>
           </Tabs>
         )}
       </div>
+
+      <CustomTemplateDialog
+        isOpen={templateDialogOpen}
+        onClose={() => setTemplateDialogOpen(false)}
+        template={editingTemplate}
+        onSave={handleSaveCustomTemplate}
+      />
     </div>
   );
 }
@@ -0,0 +1,35 @@
+import { cn } from "@/lib/utils";
+import type { ThumbnailBox, ThumbnailKind } from "@/lib/page-templates";
+
+const BOX_CLASSES: Record<ThumbnailKind, string> = {
+  image: "bg-zinc-300 dark:bg-zinc-600",
+  title: "bg-zinc-700 dark:bg-zinc-200",
+  text: "bg-zinc-200 dark:bg-zinc-700",
+  accent: "bg-blue-400 dark:bg-blue-500",
+};
+
+interface TemplateThumbnailProps {
+  boxes: ThumbnailBox[];
+  className?: string;
+}
+
+// Miniature page showing where a template puts its blocks
+export function TemplateThumbnail({ boxes, className }: TemplateThumbnailProps) {
+  return (
+    <div
+      className={cn(
+        "relative aspect-[3/4] shrink-0 overflow-hidden rounded-sm border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900",
+        className
+      )}
+      aria-hidden
+    >
+      {boxes.map((box, index) => (
+        <div
+          key={index}
+          className={cn("absolute rounded-[1px]", BOX_CLASSES[box.kind])}
+          style={{ left: `${box.x}%`, top: `${box.y}%`, width: `${box.w}%`, height: `${box.h}%` }}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Label } from "./ui/label";
+import { BookCopy, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getEbook, getEbooks } from "@/app/actions";
+
+interface EbookOption {
+  id: string;
+  title: string;
+  archived: boolean;
+}
+
+interface TargetPage {
+  id: string;
+  title: string | null;
+}
+
+export type TransferMode = "copy" | "move";
+
+interface TransferPagesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  ebookId: string;
+  pageCount: number;
+  onTransfer: (targetEbookId: string, position: number, mode: TransferMode) => Promise<void>;
+}
+
+const selectClassName =
+  "w-full h-9 px-3 rounded-md border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-sm";
+
+export function TransferPagesDialog({ isOpen, onClose, ebookId, pageCount, onTransfer }: TransferPagesDialogProps) {
+  const [mode, setMode] = useState<TransferMode>("copy");
+  const [ebooks, setEbooks] = useState<EbookOption[] | null>(null);
+  const [targetId, setTargetId] = useState("");
+  const [targetPages, setTargetPages] = useState<TargetPage[] | null>(null);
+  const [position, setPosition] = useState(0);
+  const [saving, setSaving] = useState(false);
+
+  // Other ebooks are loaded fresh each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setMode("copy");
+    setEbooks(null);
+    setTargetId("");
+    getEbooks()
+      .then((all) => {
+        const others = all.filter((ebook) => ebook.id !== ebookId && !ebook.archived);
+        setEbooks(others);
+        setTargetId(others[0]?.id ?? "");
+      })
+      .catch((error) => {
+        console.error("Failed to load ebooks:", error);
+        setEbooks([]);
+      });
+  }, [isOpen, ebookId]);
+
+  // Positions come from the chosen ebook's pages; the end is the default
+  useEffect(() => {
+    setTargetPages(null);
+    if (!targetId) return;
+
+    let cancelled = false;
+    getEbook(targetId)
+      .then((ebook) => {
+        if (cancelled || !ebook) return;
+        setTargetPages(ebook.pages);
+        setPosition(ebook.pages.length);
+      })
+      .catch((error) => console.error("Failed to load ebook pages:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [targetId]);
+
+  const handleTransfer = async () => {
+    setSaving(true);
+    try {
+      await onTransfer(targetId, position, mode);
+      onClose();
+    } catch (error) {
+      console.error("Failed to transfer pages:", error);
+      alert(`Failed to ${mode} pages. Please try again.`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const noun = pageCount === 1 ? "page" : `${pageCount} pages`;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BookCopy className="w-5 h-5 text-blue-600" />
+            Copy or move to ebook
+          </DialogTitle>
+          <DialogDescription>
+            The {noun} keep their content, template, styles and images.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-2">
+            {(["copy", "move"] as const).map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setMode(value)}
+                className={cn(
+                  "rounded-lg border p-3 text-left transition-colors",
+                  mode === value
+                    ? "border-blue-600 bg-blue-50 dark:bg-blue-950/40"
+                    : "border-zinc-200 dark:border-zinc-700 hover:border-zinc-300 dark:hover:border-zinc-600"
+                )}
+              >
+                <div className="text-sm font-medium text-zinc-900 dark:text-zinc-100">
+                  {value === "copy" ? "Copy" : "Move"}
+                </div>
+                <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                  {value === "copy" ? "Leave the originals here" : "Remove them from this ebook"}
+                </div>
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="transfer-ebook" className="text-xs text-zinc-600 dark:text-zinc-400">
+              Ebook
+            </Label>
+            {ebooks === null ? (
+              <div className="flex items-center gap-2 h-9 text-sm text-zinc-500">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Loading ebooks...
+              </div>
+            ) : ebooks.length === 0 ? (
+              <p className="text-sm text-zinc-500 dark:text-zinc-400">You don&apos;t have another ebook yet.</p>
+            ) : (
+              <select
+                id="transfer-ebook"
+                value={targetId}
+                onChange={(e) => setTargetId(e.target.value)}
+                className={selectClassName}
+              >
+                {ebooks.map((ebook) => (
+                  <option key={ebook.id} value={ebook.id}>
+                    {ebook.title}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          {targetId && (
+            <div className="space-y-1">
+              <Label htmlFor="transfer-position" className="text-xs text-zinc-600 dark:text-zinc-400">
+                Position
+              </Label>
+              <select
+                id="transfer-position"
+                value={position}
+                onChange={(e) => setPosition(Number(e.target.value))}
+                disabled={!targetPages}
+                className={selectClassName}
+              >
+                <option value={0}>At the beginning</option>
+                {targetPages?.map((page, index) => (
+                  <option key={page.id} value={index + 1}>
+                    After {index + 1}. {page.title || "Untitled"}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleTransfer}
+            disabled={saving || !targetId || !targetPages}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+            {mode === "copy" ? "Copy" : "Move"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
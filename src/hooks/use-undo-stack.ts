@@ -0,0 +1,74 @@
+import { useCallback, useRef, useState } from "react";
+
+export interface UndoCommand {
+  label: string;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+const MAX_HISTORY = 100;
+
+// Ebook-wide command history. Commands are pushed after their change has
+// been applied; undo/redo run one at a time so server writes never overlap.
+export function useUndoStack() {
+  const pastRef = useRef<UndoCommand[]>([]);
+  const futureRef = useRef<UndoCommand[]>([]);
+  const busyRef = useRef(false);
+  const [state, setState] = useState({
+    undoLabel: null as string | null,
+    redoLabel: null as string | null,
+    busy: false,
+  });
+
+  const sync = useCallback(() => {
+    setState({
+      undoLabel: pastRef.current[pastRef.current.length - 1]?.label ?? null,
+      redoLabel: futureRef.current[futureRef.current.length - 1]?.label ?? null,
+      busy: busyRef.current,
+    });
+  }, []);
+
+  const push = useCallback(
+    (command: UndoCommand) => {
+      pastRef.current = [...pastRef.current, command].slice(-MAX_HISTORY);
+      futureRef.current = [];
+      sync();
+    },
+    [sync]
+  );
+
+  const run = useCallback(
+    async (from: typeof pastRef, to: typeof pastRef, action: "undo" | "redo") => {
+      const command = from.current[from.current.length - 1];
+      if (!command || busyRef.current) return;
+
+      busyRef.current = true;
+      sync();
+      try {
+        await command[action]();
+        from.current = from.current.slice(0, -1);
+        to.current = [...to.current, command];
+      } catch (error) {
+        console.error(`Failed to ${action} "${command.label}":`, error);
+        alert(`Failed to ${action} ${command.label.toLowerCase()}. Please try again.`);
+      } finally {
+        busyRef.current = false;
+        sync();
+      }
+    },
+    [sync]
+  );
+
+  const undo = useCallback(() => run(pastRef, futureRef, "undo"), [run]);
+  const redo = useCallback(() => run(futureRef, pastRef, "redo"), [run]);
+
+  // For when the page list was replaced wholesale and the commands would
+  // refer to pages that no longer exist
+  const clear = useCallback(() => {
+    pastRef.current = [];
+    futureRef.current = [];
+    sync();
+  }, [sync]);
+
+  return { ...state, push, undo, redo, clear };
+}
@@ -0,0 +1,10 @@
+import { prisma } from "@/lib/prisma";
+import { resolveAiSettings } from "@/lib/ai-settings";
+
+// An account's own AI settings, to hand to the providers in
+// src/lib/ai-provider.ts. Kept apart from them so the providers can be
+// loaded without a database.
+export async function getAccountAiSettings(userId: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { aiSettings: true } });
+  return resolveAiSettings(user?.aiSettings);
+}
@@ -0,0 +1,81 @@
+// Offline stand-in for a real AI provider. Answers come from the fixtures
+// below, picked by the request text, so the same request always gets the
+// same answer and nothing leaves the machine. Select it with AI_PROVIDER=mock.
+
+import type { GeneratedImage, ImageProvider, TextProvider, TextRequest } from "@/lib/ai-provider";
+import { escapeXml } from "@/lib/utils";
+
+const OUTLINE_FIXTURE = {
+  chapters: [
+    { title: "Chapter 1: Getting Started", sections: ["Why This Matters", "What You Will Learn"] },
+    { title: "Chapter 2: Core Concepts", sections: ["The Fundamentals", "Common Misconceptions", "Key Terms"] },
+    { title: "Chapter 3: Putting It Into Practice", sections: ["A Step-by-Step Approach", "Worked Example"] },
+    { title: "Chapter 4: Next Steps", sections: ["Building Habits", "Further Reading"] },
+  ],
+};
+
+const CONTENT_FIXTURES = [
+  `<p>Every worthwhile skill starts with a clear picture of where you are headed. This section sets out the ground we will cover and why each part earns its place.</p>
+<h2>The big picture</h2>
+<p>Rather than memorising rules, focus on the handful of ideas everything else builds on. Once those are in place, the details tend to fall into line.</p>
+<p>Keep notes as you go. Writing things down in your own words is the quickest way to find out what you have really understood.</p>`,
+  `<p>Theory only becomes useful once it meets a real situation. Here we walk through a practical example from start to finish.</p>
+<h2>Step by step</h2>
+<ul><li>Start small and make one change at a time.</li><li>Check the result before moving on.</li><li>Write down what worked and what did not.</li></ul>
+<p>Repeating this loop a few times builds confidence far faster than reading about it.</p>`,
+  `<p>Most setbacks come from a few predictable mistakes. Knowing them in advance saves a great deal of frustration.</p>
+<h2>Common pitfalls</h2>
+<p>The first is trying to do everything at once. The second is skipping the basics because they seem too simple.</p>
+<h3>How to avoid them</h3>
+<p>Set one goal per session and review your progress at the end of each week.</p>`,
+];
+
+const IMAGE_COLORS = ["#6366f1", "#0ea5e9", "#10b981", "#f59e0b", "#ef4444", "#8b5cf6"];
+
+// Small stable hash, so fixture choice follows the request text
+function hash(text: string) {
+  let value = 0;
+  for (let i = 0; i < text.length; i++) {
+    value = (value * 31 + text.charCodeAt(i)) >>> 0;
+  }
+  return value;
+}
+
+// Pause between streamed words, roughly the pace of a real model
+const STREAM_DELAY_MS = 25;
+
+function answer({ task, messages }: TextRequest) {
+  if (task === "outline") return JSON.stringify(OUTLINE_FIXTURE);
+  const prompt = messages.map((message) => message.content).join("\n");
+  // Edits hand the selection back unchanged
+  if (task === "rewrite") return prompt.match(/<selection>([\s\S]*)<\/selection>/)?.[1].trim() ?? "";
+  return CONTENT_FIXTURES[hash(prompt) % CONTENT_FIXTURES.length];
+}
+
+export function createMockTextProvider(): TextProvider {
+  return {
+    name: "mock",
+    async generateText(request: TextRequest) {
+      return answer(request);
+    },
+    async *streamText(request: TextRequest) {
+      for (const word of answer(request).match(/\S+\s*/g) ?? []) {
+        await new Promise((resolve) => setTimeout(resolve, STREAM_DELAY_MS));
+        yield word;
+      }
+    },
+  };
+}
+
+// A flat colored placeholder with the prompt written on it
+export function createMockImageProvider(): ImageProvider {
+  return {
+    name: "mock",
+    async generateImage(prompt: string): Promise<GeneratedImage> {
+      const color = IMAGE_COLORS[hash(prompt) % IMAGE_COLORS.length];
+      const caption = escapeXml(prompt.length > 60 ? `${prompt.slice(0, 57)}...` : prompt);
+      const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 1024 1024"><rect width="1024" height="1024" fill="${color}"/><text x="512" y="512" fill="#ffffff" font-family="sans-serif" font-size="36" text-anchor="middle">${caption}</text></svg>`;
+      return { data: Buffer.from(svg), extension: ".svg" };
+    },
+  };
+}
@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  getAiTaskConfig,
+  getImageProvider,
+  getTextProvider,
+  isAiConfigured,
+  sealApiKey,
+} from "@/lib/ai-provider";
+import { resolveAiSettings } from "@/lib/ai-settings";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+function useMockProvider() {
+  vi.stubEnv("AI_PROVIDER", "mock");
+  vi.stubEnv("AI_IMAGE_PROVIDER", "");
+}
+
+async function collect(stream: AsyncIterable<string>) {
+  let text = "";
+  for await (const delta of stream) text += delta;
+  return text;
+}
+
+describe("task config", () => {
+  it("lets images use their own provider and model", () => {
+    vi.stubEnv("AI_PROVIDER", "openai");
+    vi.stubEnv("AI_BASE_URL", "http://localhost:11434/v1");
+    vi.stubEnv("AI_CONTENT_MODEL", "llama3.1");
+    vi.stubEnv("AI_IMAGE_PROVIDER", "mock");
+
+    expect(getAiTaskConfig("content")).toMatchObject({
+      provider: "openai",
+      baseUrl: "http://localhost:11434/v1",
+      model: "llama3.1",
+    });
+    expect(getAiTaskConfig("image").provider).toBe("mock");
+  });
+
+  it("needs a key or an endpoint for OpenAI but nothing for the mock", () => {
+    vi.stubEnv("AI_PROVIDER", "openai");
+    vi.stubEnv("AI_BASE_URL", "");
+    vi.stubEnv("AI_API_KEY", "");
+    vi.stubEnv("OPENAI_API_KEY", "");
+    expect(isAiConfigured("outline")).toBe(false);
+
+    useMockProvider();
+    expect(isAiConfigured("outline")).toBe(true);
+  });
+});
+
+describe("account settings", () => {
+  it("replace the deployment's endpoint without getting its key", () => {
+    vi.stubEnv("AI_PROVIDER", "openai");
+    vi.stubEnv("AI_API_KEY", "deployment-key");
+    vi.stubEnv("AI_CONTENT_MODEL", "llama3.1");
+    const settings = resolveAiSettings({ text: { provider: "openai", baseUrl: "https://llm.example.com/v1" } });
+
+    expect(getAiTaskConfig("content", settings)).toMatchObject({
+      baseUrl: "https://llm.example.com/v1",
+      apiKey: undefined,
+      model: "gpt-4o-mini",
+      fromAccount: true,
+    });
+    // Images weren't changed, so they stay on the deployment's provider
+    expect(getAiTaskConfig("image", settings)).toMatchObject({ apiKey: "deployment-key", fromAccount: false });
+  });
+
+  it("reads back API keys sealed with the server secret", () => {
+    vi.stubEnv("AI_SETTINGS_SECRET", "test-secret");
+    const sealed = sealApiKey("sk-account");
+    const settings = resolveAiSettings({ text: { provider: "openai", apiKey: sealed } });
+
+    expect(sealed).not.toContain("sk-account");
+    expect(getAiTaskConfig("outline", settings).apiKey).toBe("sk-account");
+
+    vi.stubEnv("AI_SETTINGS_SECRET", "another-secret");
+    expect(isAiConfigured("outline", settings)).toBe(false);
+  });
+
+  it("picks models per task on any provider", () => {
+    useMockProvider();
+    const settings = resolveAiSettings({ models: { rewrite: " small-model ", unknown: "x" } });
+
+    expect(settings.models).toEqual({ rewrite: "small-model" });
+    expect(getAiTaskConfig("rewrite", settings).model).toBe("small-model");
+  });
+});
+
+describe("mock provider", () => {
+  it("answers outlines with JSON chapters", async () => {
+    useMockProvider();
+    const answer = await getTextProvider("outline").generateText({
+      task: "outline",
+      messages: [{ role: "user", content: "A book about gardening" }],
+      json: true,
+    });
+
+    expect(JSON.parse(answer).chapters.length).toBeGreaterThan(0);
+  });
+
+  it("gives the same content for the same request", async () => {
+    useMockProvider();
+    const provider = getTextProvider("content");
+    const request = { task: "content" as const, messages: [{ role: "user" as const, content: "Section 2: Soil" }] };
+
+    expect(await provider.generateText(request)).toBe(await provider.generateText(request));
+  });
+
+  it("streams the same text it would return at once", async () => {
+    useMockProvider();
+    const provider = getTextProvider("rewrite");
+    const request = {
+      task: "rewrite" as const,
+      messages: [{ role: "user" as const, content: "Shorten this.\n<selection>Water early in the day.</selection>" }],
+    };
+
+    expect(await provider.generateText(request)).toBe("Water early in the day.");
+    expect(await collect(provider.streamText(request))).toBe("Water early in the day.");
+  });
+
+  it("draws an escaped SVG placeholder", async () => {
+    useMockProvider();
+    const image = await getImageProvider().generateImage("Tomatoes & <basil>");
+
+    expect(image.extension).toBe(".svg");
+    expect(image.data.toString()).toContain("Tomatoes &amp; &lt;basil&gt;");
+  });
+});
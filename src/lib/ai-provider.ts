@@ -0,0 +1,289 @@
+// Text and image generation behind one small interface, so the AI routes
+// don't care who answers. The deployment's providers and models are set
+// through environment variables, separately for each task:
+//
+//   AI_PROVIDER          "openai" (default) or "mock"
+//   AI_BASE_URL          any OpenAI-compatible endpoint, e.g. a local Ollama
+//                        server at http://localhost:11434/v1
+//   AI_API_KEY           falls back to OPENAI_API_KEY; local servers need none
+//   AI_OUTLINE_MODEL     default gpt-4o-mini
+//   AI_CONTENT_MODEL     default gpt-4o-mini
+//   AI_REWRITE_MODEL     default gpt-4o-mini, for editing selected text
+//   AI_IMAGE_MODEL       default dall-e-3
+//   AI_IMAGE_PROVIDER, AI_IMAGE_BASE_URL, AI_IMAGE_API_KEY
+//                        override the above for images, since most local
+//                        text servers can't draw
+//
+// Each account can replace them with its own, see src/lib/ai-settings.ts.
+// An account's endpoint never gets the deployment's API key, and since a
+// user picks it, it may only reach public hosts unless
+// AI_ALLOW_PRIVATE_ENDPOINTS is "true" (for self-hosting next to a local
+// model server). Account API keys are encrypted with AI_SETTINGS_SECRET;
+// without it accounts can only use endpoints that need no key.
+//
+// The mock provider answers from fixtures without any network access, the
+// same way every time, for tests and demos.
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import OpenAI from "openai";
+import { createMockImageProvider, createMockTextProvider } from "@/lib/ai-mock";
+import type { AiSettings } from "@/lib/ai-settings";
+import { fetchRemoteImage, isPublicUrl } from "@/lib/remote-image";
+
+export type AiTask = "outline" | "content" | "rewrite" | "image";
+
+export type TextTask = Exclude<AiTask, "image">;
+
+export type AiProviderName = "openai" | "mock";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface TextRequest {
+  task: TextTask;
+  messages: ChatMessage[];
+  temperature?: number;
+  // Ask for a single JSON object back
+  json?: boolean;
+}
+
+export interface GeneratedImage {
+  data: Buffer;
+  // File extension matching the image data, e.g. ".png"
+  extension: string;
+}
+
+export interface TextProvider {
+  name: AiProviderName;
+  generateText(request: TextRequest): Promise<string>;
+  // The same answer, handed over piece by piece as it's produced
+  streamText(request: TextRequest): AsyncIterable<string>;
+}
+
+export interface ImageProvider {
+  name: AiProviderName;
+  generateImage(prompt: string): Promise<GeneratedImage>;
+}
+
+export interface AiTaskConfig {
+  provider: AiProviderName;
+  baseUrl?: string;
+  apiKey?: string;
+  model: string;
+  // Chosen by an account rather than the deployment
+  fromAccount: boolean;
+}
+
+// Thrown when a task has no usable provider; routes report it as a
+// configuration problem rather than a failed generation
+export class AiNotConfiguredError extends Error {
+  constructor(task: AiTask) {
+    super(`No AI provider configured for ${task} generation`);
+    this.name = "AiNotConfiguredError";
+  }
+}
+
+const DEFAULT_MODELS: Record<AiTask, string> = {
+  outline: "gpt-4o-mini",
+  content: "gpt-4o-mini",
+  rewrite: "gpt-4o-mini",
+  image: "dall-e-3",
+};
+
+const MODEL_VARIABLES: Record<AiTask, string> = {
+  outline: "AI_OUTLINE_MODEL",
+  content: "AI_CONTENT_MODEL",
+  rewrite: "AI_REWRITE_MODEL",
+  image: "AI_IMAGE_MODEL",
+};
+
+function env(name: string) {
+  return process.env[name]?.trim() || undefined;
+}
+
+function toProviderName(value: string | undefined): AiProviderName {
+  return value === "mock" ? "mock" : "openai";
+}
+
+function getSettingsKey() {
+  const secret = env("AI_SETTINGS_SECRET");
+  return secret ? createHash("sha256").update(secret).digest() : null;
+}
+
+export function canSaveApiKeys() {
+  return !!getSettingsKey();
+}
+
+// AES-256-GCM; the result is the IV, auth tag and ciphertext in base64
+export function sealApiKey(apiKey: string) {
+  const key = getSettingsKey();
+  if (!key) throw new Error("AI_SETTINGS_SECRET is not set");
+
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const data = Buffer.concat([cipher.update(apiKey, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), data].map((part) => part.toString("base64")).join(".");
+}
+
+// A key sealed with another secret (or none) reads as no key at all
+function openApiKey(sealed: string | null) {
+  const key = getSettingsKey();
+  if (!sealed || !key) return undefined;
+
+  try {
+    const [iv, tag, data] = sealed.split(".").map((part) => Buffer.from(part, "base64"));
+    const decipher = createDecipheriv("aes-256-gcm", key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data), decipher.final()]).toString("utf8");
+  } catch {
+    return undefined;
+  }
+}
+
+export function allowsPrivateEndpoints() {
+  return env("AI_ALLOW_PRIVATE_ENDPOINTS") === "true";
+}
+
+export function getAiTaskConfig(task: AiTask, settings?: AiSettings): AiTaskConfig {
+  const image = task === "image";
+  const endpoint = image ? settings?.image : settings?.text;
+  const model = settings?.models[task];
+
+  // The deployment's models are meant for its own endpoint
+  if (endpoint) {
+    return {
+      provider: endpoint.provider,
+      baseUrl: endpoint.baseUrl ?? undefined,
+      apiKey: openApiKey(endpoint.apiKey),
+      model: model || DEFAULT_MODELS[task],
+      fromAccount: true,
+    };
+  }
+
+  return {
+    provider: toProviderName((image && env("AI_IMAGE_PROVIDER")) || env("AI_PROVIDER")),
+    baseUrl: (image && env("AI_IMAGE_BASE_URL")) || env("AI_BASE_URL"),
+    apiKey: (image && env("AI_IMAGE_API_KEY")) || env("AI_API_KEY") || env("OPENAI_API_KEY"),
+    model: model || env(MODEL_VARIABLES[task]) || DEFAULT_MODELS[task],
+    fromAccount: false,
+  };
+}
+
+// OpenAI itself needs a key; a custom endpoint may not
+export function isAiConfigured(task: AiTask, settings?: AiSettings) {
+  const config = getAiTaskConfig(task, settings);
+  return config.provider === "mock" || !!config.apiKey || !!config.baseUrl;
+}
+
+// Checked on every request rather than once when saved, so a host can't
+// start resolving to a private address later
+const fetchPublicOnly: typeof fetch = async (input, init) => {
+  const url = new URL(input instanceof Request ? input.url : input);
+  if (!(await isPublicUrl(url))) {
+    throw new Error("The AI endpoint must be a public host");
+  }
+  return fetch(input, { ...init, redirect: "error" });
+};
+
+function createClient(task: AiTask, config: AiTaskConfig) {
+  if (!config.apiKey && !config.baseUrl) throw new AiNotConfiguredError(task);
+  return new OpenAI({
+    // The SDK insists on a key even for servers that ignore it
+    apiKey: config.apiKey ?? "not-needed",
+    baseURL: config.baseUrl,
+    fetch: config.fromAccount && !allowsPrivateEndpoints() ? fetchPublicOnly : undefined,
+  });
+}
+
+function createOpenAiTextProvider(task: TextTask, config: AiTaskConfig): TextProvider {
+  const client = createClient(task, config);
+
+  return {
+    name: "openai",
+    async generateText({ messages, temperature, json }) {
+      const completion = await client.chat.completions.create({
+        model: config.model,
+        messages,
+        temperature,
+        response_format: json ? { type: "json_object" } : undefined,
+      });
+
+      const content = completion.choices[0]?.message?.content;
+      if (!content) {
+        throw new Error("No response from the AI provider");
+      }
+      return content;
+    },
+    async *streamText({ messages, temperature }) {
+      const stream = await client.chat.completions.create({
+        model: config.model,
+        messages,
+        temperature,
+        stream: true,
+      });
+
+      let received = false;
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          received = true;
+          yield delta;
+        }
+      }
+      if (!received) {
+        throw new Error("No response from the AI provider");
+      }
+    },
+  };
+}
+
+// The URL comes from the endpoint, so an account's may only point at public hosts
+async function downloadImage(url: string, config: AiTaskConfig) {
+  if (config.fromAccount && !allowsPrivateEndpoints()) return fetchRemoteImage(url);
+
+  const download = await fetch(url);
+  return download.ok ? Buffer.from(await download.arrayBuffer()) : null;
+}
+
+function createOpenAiImageProvider(config: AiTaskConfig): ImageProvider {
+  const client = createClient("image", config);
+
+  return {
+    name: "openai",
+    async generateImage(prompt) {
+      const response = await client.images.generate({
+        model: config.model,
+        prompt,
+        n: 1,
+        size: "1024x1024",
+      });
+
+      // Compatible servers answer with inline data or a temporary URL
+      const image = response.data?.[0];
+      if (image?.b64_json) {
+        return { data: Buffer.from(image.b64_json, "base64"), extension: ".png" };
+      }
+      if (!image?.url) {
+        throw new Error("No image returned by the AI provider");
+      }
+
+      const data = await downloadImage(image.url, config);
+      if (!data) {
+        throw new Error("Failed to download the generated image");
+      }
+      return { data, extension: ".png" };
+    },
+  };
+}
+
+export function getTextProvider(task: TextTask, settings?: AiSettings): TextProvider {
+  const config = getAiTaskConfig(task, settings);
+  return config.provider === "mock" ? createMockTextProvider() : createOpenAiTextProvider(task, config);
+}
+
+export function getImageProvider(settings?: AiSettings): ImageProvider {
+  const config = getAiTaskConfig("image", settings);
+  return config.provider === "mock" ? createMockImageProvider() : createOpenAiImageProvider(config);
+}
@@ -0,0 +1,122 @@
+// Per-account AI settings. An account can send text and image generation
+// to its own OpenAI-compatible endpoint (or the mock) and pick a model per
+// task; anything it leaves unset uses the deployment's providers from the
+// environment, see src/lib/ai-provider.ts. Stored as JSON on the user.
+// Saved API keys are encrypted and never sent back to the browser.
+
+import type { AiProviderName, AiTask } from "@/lib/ai-provider";
+
+// Where one kind of generation goes
+export interface AiEndpoint {
+  provider: AiProviderName;
+  // null talks to OpenAI itself
+  baseUrl: string | null;
+  // Encrypted, see sealApiKey in src/lib/ai-provider.ts
+  apiKey: string | null;
+}
+
+export interface AiSettings {
+  // null for the deployment's provider
+  text: AiEndpoint | null;
+  image: AiEndpoint | null;
+  models: Partial<Record<AiTask, string>>;
+}
+
+// What the settings dialog is shown: whether a key is saved, never the key
+export interface AiEndpointView {
+  provider: AiProviderName;
+  baseUrl: string | null;
+  hasApiKey: boolean;
+}
+
+export interface AiSettingsView {
+  text: AiEndpointView | null;
+  image: AiEndpointView | null;
+  models: Partial<Record<AiTask, string>>;
+  // API keys can only be saved when the server has a secret to encrypt them
+  canSaveApiKeys: boolean;
+}
+
+// What the settings dialog sends back. Leaving apiKey out keeps the saved
+// key and an empty string removes it.
+export interface AiEndpointInput {
+  provider: AiProviderName;
+  baseUrl: string | null;
+  apiKey?: string;
+}
+
+export interface AiSettingsInput {
+  text: AiEndpointInput | null;
+  image: AiEndpointInput | null;
+  models: Partial<Record<AiTask, string>>;
+}
+
+export const AI_TASKS: { task: AiTask; label: string }[] = [
+  { task: "outline", label: "Outlines" },
+  { task: "content", label: "Page content" },
+  { task: "rewrite", label: "Rewriting selected text" },
+  { task: "image", label: "Images" },
+];
+
+const MAX_MODEL_LENGTH = 100;
+
+function resolveEndpoint(value: unknown): AiEndpoint | null {
+  if (!value || typeof value !== "object") return null;
+  const endpoint = value as Partial<AiEndpoint>;
+
+  return {
+    provider: endpoint.provider === "mock" ? "mock" : "openai",
+    baseUrl: typeof endpoint.baseUrl === "string" && endpoint.baseUrl ? endpoint.baseUrl : null,
+    apiKey: typeof endpoint.apiKey === "string" && endpoint.apiKey ? endpoint.apiKey : null,
+  };
+}
+
+// Model names per task, trimmed, dropping empty and unknown entries
+export function resolveAiModels(value: unknown) {
+  const models = (value ?? {}) as Record<string, unknown>;
+  const resolved: Partial<Record<AiTask, string>> = {};
+
+  for (const { task } of AI_TASKS) {
+    const model = models[task];
+    if (typeof model === "string" && model.trim()) {
+      resolved[task] = model.trim().slice(0, MAX_MODEL_LENGTH);
+    }
+  }
+  return resolved;
+}
+
+// Fill in defaults for anything missing from the stored JSON
+export function resolveAiSettings(value: unknown): AiSettings {
+  const settings = (value ?? {}) as Record<string, unknown>;
+
+  return {
+    text: resolveEndpoint(settings.text),
+    image: resolveEndpoint(settings.image),
+    models: resolveAiModels(settings.models),
+  };
+}
+
+function toEndpointView(endpoint: AiEndpoint | null): AiEndpointView | null {
+  return endpoint && { provider: endpoint.provider, baseUrl: endpoint.baseUrl, hasApiKey: !!endpoint.apiKey };
+}
+
+export function toAiSettingsView(settings: AiSettings, canSaveApiKeys: boolean): AiSettingsView {
+  return {
+    text: toEndpointView(settings.text),
+    image: toEndpointView(settings.image),
+    models: settings.models,
+    canSaveApiKeys,
+  };
+}
+
+// An http(s) base URL without a trailing slash, or null if it isn't one
+export function parseBaseUrl(value: string) {
+  try {
+    const url = new URL(value.trim());
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    if (url.username || url.password) return null;
+    return url.toString().replace(/\/+$/, "");
+  } catch {
+    return null;
+  }
+}
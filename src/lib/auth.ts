@@ -0,0 +1,94 @@
+import { cache } from "react";
+import { cookies } from "next/headers";
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { prisma } from "@/lib/prisma";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: string,
+  keyLength: number
+) => Promise<Buffer>;
+
+export const SESSION_COOKIE = "ebook_session";
+const SESSION_DURATION_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const KEY_LENGTH = 64;
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${salt}:${key.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, passwordHash: string) {
+  const [salt, storedKey] = passwordHash.split(":");
+  if (!salt || !storedKey) return false;
+
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  const stored = Buffer.from(storedKey, "hex");
+  return stored.length === key.length && timingSafeEqual(stored, key);
+}
+
+// Only a hash of the session token is stored, so a leaked database can't be
+// used to hijack sessions
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export async function createSession(userId: string) {
+  const token = randomBytes(32).toString("hex");
+  const expiresAt = new Date(Date.now() + SESSION_DURATION_MS);
+
+  await prisma.session.create({
+    data: { tokenHash: hashToken(token), userId, expiresAt },
+  });
+
+  const cookieStore = await cookies();
+  cookieStore.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: expiresAt,
+  });
+}
+
+export async function destroySession() {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(SESSION_COOKIE)?.value;
+
+  if (token) {
+    await prisma.session.deleteMany({ where: { tokenHash: hashToken(token) } });
+  }
+  cookieStore.delete(SESSION_COOKIE);
+}
+
+// Memoised per request so pages, actions and routes can all ask cheaply
+export const getCurrentUser = cache(async () => {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+
+  const session = await prisma.session.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: {
+      user: {
+        select: { id: true, email: true, name: true },
+      },
+    },
+  });
+
+  if (!session || session.expiresAt < new Date()) {
+    return null;
+  }
+
+  return session.user;
+});
+
+export async function requireUser() {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new Error("Unauthorized");
+  }
+  return user;
+}
@@ -0,0 +1,145 @@
+// Chapter hierarchy on top of the flat, ordered page list. Page.order stays
+// the single source of reading order; chapters group contiguous runs of
+// pages and keep their own order so empty chapters still have a place.
+
+interface OutlineChapter {
+  id: string;
+  order: number;
+}
+
+interface OutlinePage {
+  id: string;
+  chapterId?: string | null;
+}
+
+export type OutlineItem<C extends OutlineChapter, P extends OutlinePage> =
+  | { type: "page"; page: P }
+  | { type: "chapter"; chapter: C; pages: P[] };
+
+export interface OutlineOrder {
+  pageIds: string[];
+  chapterIds: string[];
+}
+
+// Where a page sits in its chapter, for numbering and running headers
+export interface PageChapter {
+  id: string;
+  title: string;
+  part: string | null;
+  // 1-based position among the ebook's chapters
+  number: number;
+  // Physical index of the chapter's first sheet
+  firstSheet: number;
+}
+
+export function buildOutline<C extends OutlineChapter, P extends OutlinePage>(
+  chapters: C[],
+  pages: P[]
+): OutlineItem<C, P>[] {
+  const sortedChapters = [...chapters].sort((a, b) => a.order - b.order);
+  const chapterById = new Map(sortedChapters.map((chapter) => [chapter.id, chapter]));
+  const items: OutlineItem<C, P>[] = [];
+  const chapterItems = new Map<string, { type: "chapter"; chapter: C; pages: P[] }>();
+
+  for (const page of pages) {
+    const chapter = page.chapterId ? chapterById.get(page.chapterId) : undefined;
+    if (!chapter) {
+      items.push({ type: "page", page });
+      continue;
+    }
+
+    // A chapter appears where its first page does, even if later pages
+    // were left behind elsewhere
+    const existing = chapterItems.get(chapter.id);
+    if (existing) {
+      existing.pages.push(page);
+    } else {
+      const item = { type: "chapter" as const, chapter, pages: [page] };
+      chapterItems.set(chapter.id, item);
+      items.push(item);
+    }
+  }
+
+  // Empty chapters go right after the chapter before them
+  sortedChapters.forEach((chapter, index) => {
+    if (chapterItems.has(chapter.id)) return;
+
+    const item = { type: "chapter" as const, chapter, pages: [] as P[] };
+    const previous = sortedChapters[index - 1];
+    let at: number;
+    if (previous) {
+      at = items.findIndex((entry) => entry.type === "chapter" && entry.chapter.id === previous.id) + 1;
+    } else {
+      const firstChapter = items.findIndex((entry) => entry.type === "chapter");
+      at = firstChapter === -1 ? items.length : firstChapter;
+    }
+
+    items.splice(at, 0, item);
+    chapterItems.set(chapter.id, item);
+  });
+
+  return items;
+}
+
+// Reading order of pages and chapters implied by an outline
+export function flattenOutline<C extends OutlineChapter, P extends OutlinePage>(
+  items: OutlineItem<C, P>[]
+): OutlineOrder {
+  return {
+    pageIds: items.flatMap((item) => (item.type === "page" ? [item.page.id] : item.pages.map((page) => page.id))),
+    chapterIds: items.flatMap((item) => (item.type === "chapter" ? [item.chapter.id] : [])),
+  };
+}
+
+// Chapter context for every page that belongs to one, keyed by page id
+export function getPageChapters<C extends OutlineChapter & { title: string; part?: string | null }, P extends OutlinePage>(
+  chapters: C[],
+  pages: P[],
+  sheetOffsets: number[]
+) {
+  const result: Record<string, PageChapter> = {};
+  let number = 0;
+
+  buildOutline(chapters, pages).forEach((item) => {
+    if (item.type !== "chapter") return;
+    number++;
+    if (item.pages.length === 0) return;
+
+    const firstSheet = sheetOffsets[pages.indexOf(item.pages[0])] ?? 0;
+    for (const page of item.pages) {
+      result[page.id] = {
+        id: item.chapter.id,
+        title: item.chapter.title,
+        part: item.chapter.part ?? null,
+        number,
+        firstSheet,
+      };
+    }
+  });
+
+  return result;
+}
+
+// AI outlines: chapters with optional sub-section titles. Each section
+// becomes a page; a chapter without sections becomes a single page.
+export interface OutlineDraftChapter {
+  title: string;
+  sections: string[];
+}
+
+// Accepts nested chapters or the older flat list of titles
+export function normalizeOutline(value: unknown): OutlineDraftChapter[] | null {
+  if (!Array.isArray(value)) return null;
+
+  return value.flatMap((entry): OutlineDraftChapter[] => {
+    if (typeof entry === "string") return [{ title: entry, sections: [] }];
+    if (!entry || typeof entry !== "object") return [];
+
+    const { title, sections } = entry as { title?: unknown; sections?: unknown };
+    if (typeof title !== "string") return [];
+    return [{
+      title,
+      sections: Array.isArray(sections) ? sections.filter((s): s is string => typeof s === "string") : [],
+    }];
+  });
+}
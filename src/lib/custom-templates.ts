@@ -0,0 +1,167 @@
+// Page templates users lay out themselves: named sets of regions placed on
+// a grid over the page's content box (inside the margins). Pages refer to
+// them as "custom:<id>" so they sit in Page.template next to the built-ins.
+
+import type { ThumbnailBox, ThumbnailKind } from "@/lib/page-templates";
+
+export type RegionKind = "title" | "text" | "image" | "shape" | "textbox";
+
+export interface TemplateRegion {
+  id: string;
+  kind: RegionKind;
+  // Grid cells, counted from 0 at the top left
+  column: number;
+  row: number;
+  columnSpan: number;
+  rowSpan: number;
+  align: "left" | "center" | "right";
+  // image and shape
+  shape: "square" | "rounded" | "circle";
+  // image: shown instead of the page's own image when set
+  imageUrl: string;
+  // shape fill and text box background
+  color: string;
+  // text box
+  text: string;
+  textColor: string;
+}
+
+export interface CustomTemplate {
+  id: string;
+  name: string;
+  regions: TemplateRegion[];
+}
+
+export const GRID_COLUMNS = 12;
+export const GRID_ROWS = 16;
+
+export const MAX_REGIONS = 24;
+
+export const CUSTOM_TEMPLATE_PREFIX = "custom:";
+
+export const REGION_KINDS: { value: RegionKind; label: string; description: string }[] = [
+  { value: "title", label: "Title", description: "The page title" },
+  { value: "text", label: "Rich text", description: "The page content" },
+  { value: "image", label: "Image", description: "The page image, or one of its own" },
+  { value: "shape", label: "Shape", description: "Block of color" },
+  { value: "textbox", label: "Text box", description: "Fixed text, e.g. a sidebar callout" },
+];
+
+const REGION_THUMBNAILS: Record<RegionKind, ThumbnailKind> = {
+  title: "title",
+  text: "text",
+  image: "image",
+  shape: "accent",
+  textbox: "accent",
+};
+
+// Where a new region of each kind starts out
+const REGION_DEFAULTS: Record<RegionKind, Pick<TemplateRegion, "column" | "row" | "columnSpan" | "rowSpan">> = {
+  title: { column: 0, row: 0, columnSpan: 12, rowSpan: 2 },
+  text: { column: 0, row: 2, columnSpan: 12, rowSpan: 10 },
+  image: { column: 0, row: 0, columnSpan: 6, rowSpan: 5 },
+  shape: { column: 0, row: 0, columnSpan: 4, rowSpan: 4 },
+  textbox: { column: 8, row: 2, columnSpan: 4, rowSpan: 6 },
+};
+
+export function customTemplateId(id: string) {
+  return `${CUSTOM_TEMPLATE_PREFIX}${id}`;
+}
+
+export function isCustomTemplateId(template: string) {
+  return template.startsWith(CUSTOM_TEMPLATE_PREFIX) && template.length > CUSTOM_TEMPLATE_PREFIX.length;
+}
+
+// The stored template a page's "custom:<id>" points at, if it still exists
+export function findCustomTemplate(templates: CustomTemplate[], template: string) {
+  if (!isCustomTemplateId(template)) return undefined;
+  const id = template.slice(CUSTOM_TEMPLATE_PREFIX.length);
+  return templates.find((custom) => custom.id === id);
+}
+
+function isRegionKind(value: unknown): value is RegionKind {
+  return REGION_KINDS.some((kind) => kind.value === value);
+}
+
+function clampInt(value: unknown, min: number, max: number, fallback: number) {
+  if (typeof value !== "number" || !Number.isFinite(value)) return fallback;
+  return Math.min(max, Math.max(min, Math.round(value)));
+}
+
+function stringOr(value: unknown, fallback: string) {
+  return typeof value === "string" ? value : fallback;
+}
+
+// Colors end up in inline styles, so only hex values are kept
+function colorOr(value: unknown, fallback: string) {
+  return typeof value === "string" && /^#[\da-f]{3,8}$/i.test(value) ? value : fallback;
+}
+
+export function createRegion(kind: RegionKind, id: string): TemplateRegion {
+  return {
+    id,
+    kind,
+    ...REGION_DEFAULTS[kind],
+    align: "left",
+    shape: "square",
+    imageUrl: "",
+    color: kind === "textbox" ? "#f4f4f5" : "#3b82f6",
+    text: kind === "textbox" ? "Callout text" : "",
+    textColor: "#18181b",
+  };
+}
+
+// Regions as stored, with unknown kinds dropped and every region kept
+// inside the grid
+export function resolveRegions(value: unknown): TemplateRegion[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.slice(0, MAX_REGIONS).flatMap((item, index) => {
+    const stored = (item && typeof item === "object" ? item : {}) as Record<string, unknown>;
+    if (!isRegionKind(stored.kind)) return [];
+
+    const defaults = createRegion(stored.kind, stringOr(stored.id, "") || `region-${index}`);
+    const column = clampInt(stored.column, 0, GRID_COLUMNS - 1, defaults.column);
+    const row = clampInt(stored.row, 0, GRID_ROWS - 1, defaults.row);
+    const align = stored.align === "center" || stored.align === "right" ? stored.align : "left";
+    const shape = stored.shape === "rounded" || stored.shape === "circle" ? stored.shape : "square";
+
+    return [
+      {
+        ...defaults,
+        column,
+        row,
+        columnSpan: clampInt(stored.columnSpan, 1, GRID_COLUMNS - column, defaults.columnSpan),
+        rowSpan: clampInt(stored.rowSpan, 1, GRID_ROWS - row, defaults.rowSpan),
+        align,
+        shape,
+        imageUrl: stringOr(stored.imageUrl, "").trim(),
+        color: colorOr(stored.color, defaults.color),
+        text: stringOr(stored.text, defaults.text),
+        textColor: colorOr(stored.textColor, defaults.textColor),
+      },
+    ];
+  });
+}
+
+// Region bounds in percent of the content box
+export function getRegionBox(region: TemplateRegion) {
+  return {
+    x: (region.column / GRID_COLUMNS) * 100,
+    y: (region.row / GRID_ROWS) * 100,
+    w: (region.columnSpan / GRID_COLUMNS) * 100,
+    h: (region.rowSpan / GRID_ROWS) * 100,
+  };
+}
+
+export function getCustomThumbnail(regions: TemplateRegion[]): ThumbnailBox[] {
+  return regions.map((region) => ({ ...getRegionBox(region), kind: REGION_THUMBNAILS[region.kind] }));
+}
+
+// Reflowable exports keep a single column, so the image goes after the text
+// when the template draws it lower on the page
+export function placesImageAfterText(regions: TemplateRegion[]) {
+  const image = regions.find((region) => region.kind === "image");
+  const text = regions.find((region) => region.kind === "text");
+  return !!image && !!text && image.row > text.row;
+}
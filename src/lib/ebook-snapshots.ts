@@ -0,0 +1,139 @@
+// Whole-book copies of the chapter and page list. One is taken automatically
+// before AI generation changes the book, so replacing or inserting pages can
+// always be walked back. Restoring recreates the chapters and pages as they
+// were (with new ids) after taking a snapshot of the current state.
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+const MAX_SNAPSHOTS_PER_EBOOK = 20;
+
+interface SnapshotChapter {
+  id: string;
+  order: number;
+  title: string;
+  part: string | null;
+}
+
+interface SnapshotPage {
+  chapterId: string | null;
+  masterId: string | null;
+  order: number;
+  title: string | null;
+  content: string;
+  template: string;
+  imageUrl: string | null;
+  customStyles: Prisma.JsonValue;
+  autoFlow: boolean;
+  section: string | null;
+}
+
+function asArray<T>(value: unknown): T[] {
+  return Array.isArray(value) ? (value as T[]) : [];
+}
+
+export async function takeEbookSnapshot(ebookId: string, reason: string) {
+  const [chapters, pages] = await Promise.all([
+    prisma.chapter.findMany({ where: { ebookId }, orderBy: { order: "asc" } }),
+    prisma.page.findMany({ where: { ebookId }, orderBy: { order: "asc" } }),
+  ]);
+
+  const snapshot = await prisma.ebookSnapshot.create({
+    data: {
+      ebookId,
+      reason,
+      chapters: chapters.map(({ id, order, title, part }) => ({ id, order, title, part })),
+      pages: pages.map((page) => ({
+        chapterId: page.chapterId,
+        masterId: page.masterId,
+        order: page.order,
+        title: page.title,
+        content: page.content,
+        template: page.template,
+        imageUrl: page.imageUrl,
+        customStyles: page.customStyles ?? null,
+        autoFlow: page.autoFlow,
+        section: page.section,
+      })),
+    },
+  });
+
+  const stale = await prisma.ebookSnapshot.findMany({
+    where: { ebookId },
+    orderBy: { createdAt: "desc" },
+    skip: MAX_SNAPSHOTS_PER_EBOOK,
+    select: { id: true },
+  });
+
+  if (stale.length > 0) {
+    await prisma.ebookSnapshot.deleteMany({
+      where: { id: { in: stale.map((entry) => entry.id) } },
+    });
+  }
+
+  return snapshot;
+}
+
+// Listing without the page content
+export async function listEbookSnapshots(ebookId: string) {
+  const snapshots = await prisma.ebookSnapshot.findMany({
+    where: { ebookId },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return snapshots.map((snapshot) => ({
+    id: snapshot.id,
+    reason: snapshot.reason,
+    createdAt: snapshot.createdAt,
+    chapterCount: asArray(snapshot.chapters).length,
+    pageCount: asArray(snapshot.pages).length,
+  }));
+}
+
+export async function restoreEbookSnapshot(snapshotId: string) {
+  const snapshot = await prisma.ebookSnapshot.findUnique({ where: { id: snapshotId } });
+  if (!snapshot) throw new Error("Snapshot not found");
+
+  const { ebookId } = snapshot;
+  await takeEbookSnapshot(ebookId, "restore");
+
+  // All or nothing, so a failed restore never leaves the book empty
+  await prisma.$transaction(
+    async (tx) => {
+      await tx.page.deleteMany({ where: { ebookId } });
+      await tx.chapter.deleteMany({ where: { ebookId } });
+
+      const chapterIds = new Map<string, string>();
+      for (const chapter of asArray<SnapshotChapter>(snapshot.chapters)) {
+        const created = await tx.chapter.create({
+          data: { ebookId, order: chapter.order, title: chapter.title, part: chapter.part },
+        });
+        chapterIds.set(chapter.id, created.id);
+      }
+
+      // Masters deleted since the snapshot fall back to none
+      const masters = await tx.masterPage.findMany({ where: { ebookId }, select: { id: true } });
+      const masterIds = new Set(masters.map((master) => master.id));
+
+      const pages = asArray<SnapshotPage>(snapshot.pages);
+      if (pages.length > 0) {
+        await tx.page.createMany({
+          data: pages.map((page) => ({
+            ebookId,
+            chapterId: (page.chapterId && chapterIds.get(page.chapterId)) ?? null,
+            masterId: page.masterId && masterIds.has(page.masterId) ? page.masterId : null,
+            order: page.order,
+            title: page.title,
+            content: page.content,
+            template: page.template,
+            imageUrl: page.imageUrl,
+            customStyles: (page.customStyles ?? undefined) as Prisma.InputJsonValue | undefined,
+            autoFlow: page.autoFlow,
+            section: page.section,
+          })),
+        });
+      }
+    },
+    { timeout: 30_000 }
+  );
+}
@@ -0,0 +1,177 @@
+import JSZip from "jszip";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { buildEpub, checkEpubStructure } from "@/lib/epub";
+
+const theme = {
+  primaryColor: "#0F172A",
+  secondaryColor: "#64748B",
+  accentColor: "#3B82F6",
+  backgroundColor: "#FFFFFF",
+  textColor: "#1E293B",
+  headingFont: "Inter",
+  bodyFont: "Inter",
+  h1Size: "2.5rem",
+  h2Size: "2rem",
+  h3Size: "1.5rem",
+  bodySize: "1rem",
+};
+
+function page(id: string, template: string, fields: { title?: string; content?: string; imageUrl?: string; chapterId?: string } = {}) {
+  return {
+    id,
+    chapterId: fields.chapterId ?? null,
+    title: fields.title ?? null,
+    content: fields.content ?? "",
+    template,
+    imageUrl: fields.imageUrl ?? null,
+  };
+}
+
+// A book touching every kind of page the exporter writes: cover image,
+// generated contents, images in the text flow and front and back matter
+const sampleEbook = {
+  id: "64b7f0c2a1b2c3d4e5f60718",
+  userId: "64b7f0c2a1b2c3d4e5f60719",
+  title: "Field Notes & Sketches",
+  description: "A short sample book",
+  theme,
+  pageSetup: null,
+  metadata: {
+    subtitle: "A sample",
+    contributors: [{ name: "Ada Writer", role: "author" }],
+    authorBio: "Ada writes about <small> things.",
+    language: "en",
+    bisac: ["ART000000"],
+    keywords: ["sketching"],
+    publisher: "Sample Press",
+    publicationDate: "2024-05-01",
+  },
+  chapters: [
+    { id: "chapter-1", title: "Getting Started" },
+    { id: "chapter-2", title: "Going Further" },
+  ],
+  pages: [
+    page("cover", "cover-page", { title: "Field Notes", imageUrl: "/file.svg" }),
+    page("copyright", "copyright"),
+    page("dedication", "dedication", { content: "<p>For everyone who draws</p>" }),
+    page("contents", "table-of-contents"),
+    page("intro", "text-only", {
+      title: "Introduction",
+      content: "<h2>Why sketch</h2><p>Pencils&nbsp;&amp; paper<br>are enough.</p>",
+      chapterId: "chapter-1",
+    }),
+    page("figure", "image-top", {
+      title: "Tools",
+      content: "<p>A globe for scale.</p>",
+      imageUrl: "/globe.svg",
+      chapterId: "chapter-1",
+    }),
+    page("practice", "two-column", {
+      title: "Practice",
+      content: "<h2>Daily drills</h2><ul><li>Lines</li><li>Shapes</li></ul>",
+      chapterId: "chapter-2",
+    }),
+    page("about", "about-author", { imageUrl: "/window.svg" }),
+    page("next", "call-to-action"),
+  ],
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+async function readPackage(zip: JSZip) {
+  const container = await zip.file("META-INF/container.xml")!.async("string");
+  const opfPath = container.match(/full-path="([^"]+)"/)?.[1];
+  const opf = await zip.file(opfPath ?? "")?.async("string");
+  const items = [...(opf ?? "").matchAll(/<item ([^>]+)\/>/g)].map(([, attributes]) => ({
+    id: attributes.match(/id="([^"]+)"/)?.[1],
+    href: attributes.match(/href="([^"]+)"/)?.[1],
+    mediaType: attributes.match(/media-type="([^"]+)"/)?.[1],
+    properties: attributes.match(/properties="([^"]+)"/)?.[1],
+  }));
+  const spine = [...(opf ?? "").matchAll(/<itemref idref="([^"]+)"/g)].map(([, idref]) => idref);
+  return { opfPath, opf, items, spine };
+}
+
+describe("buildEpub", () => {
+  it("starts with the mimetype, stored uncompressed", async () => {
+    const epub = await buildEpub(sampleEbook);
+
+    // First local file header: signature, compression method at byte 8
+    // (0 is STORE), then the name and the data right after it
+    expect(epub.readUInt32LE(0)).toBe(0x04034b50);
+    expect(epub.readUInt16LE(8)).toBe(0);
+    const nameLength = epub.readUInt16LE(26);
+    const dataStart = 30 + nameLength + epub.readUInt16LE(28);
+    expect(epub.toString("latin1", 30, 30 + nameLength)).toBe("mimetype");
+    expect(epub.toString("latin1", dataStart, dataStart + 20)).toBe("application/epub+zip");
+  });
+
+  it("points container.xml at a package whose every item is in the archive", async () => {
+    const zip = await JSZip.loadAsync(await buildEpub(sampleEbook));
+    const { opfPath, opf, items, spine } = await readPackage(zip);
+
+    expect(opfPath).toBe("OEBPS/content.opf");
+    expect(opf).toBeDefined();
+    expect(items.length).toBeGreaterThan(0);
+    for (const item of items) {
+      expect(zip.file(`OEBPS/${item.href}`), item.href).not.toBeNull();
+    }
+    const ids = items.map((item) => item.id);
+    for (const idref of spine) {
+      expect(ids).toContain(idref);
+    }
+  });
+
+  it("includes a navigation document listing the chapters", async () => {
+    const zip = await JSZip.loadAsync(await buildEpub(sampleEbook));
+    const { items } = await readPackage(zip);
+    const nav = items.find((item) => item.properties === "nav");
+
+    expect(nav).toMatchObject({ href: "nav.xhtml", mediaType: "application/xhtml+xml" });
+    const document = await zip.file("OEBPS/nav.xhtml")!.async("string");
+    expect(document).toContain('epub:type="toc"');
+    expect(document).toContain("Getting Started");
+    expect(document).toContain("Going Further");
+  });
+
+  it("includes the cover and page images", async () => {
+    const zip = await JSZip.loadAsync(await buildEpub(sampleEbook));
+    const opf = await zip.file("OEBPS/content.opf")!.async("string");
+    const images = Object.keys(zip.files).filter((name) => name.startsWith("OEBPS/images/"));
+
+    expect(images).toHaveLength(3);
+    expect(opf).toContain('properties="cover-image"');
+  });
+
+  it("labels images by their content rather than their URL", async () => {
+    const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46]);
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(jpeg)));
+    const ebook = {
+      ...sampleEbook,
+      pages: [page("photo", "image-top", { title: "Photo", imageUrl: "http://93.184.216.34/photos/42" })],
+    };
+
+    const zip = await JSZip.loadAsync(await buildEpub(ebook));
+    const { items } = await readPackage(zip);
+
+    expect(items.find((item) => item.id?.endsWith("-image"))).toMatchObject({
+      href: expect.stringMatching(/\.jpg$/),
+      mediaType: "image/jpeg",
+    });
+  });
+});
+
+describe("checkEpubStructure", () => {
+  it("reports a package without a first mimetype entry", async () => {
+    const zip = new JSZip();
+    zip.file("META-INF/container.xml", "<container/>");
+    zip.file("mimetype", "application/epub+zip");
+
+    expect(await checkEpubStructure(zip)).toEqual([
+      "mimetype must be the first entry",
+      "container.xml does not point to a package document",
+    ]);
+  });
+});
@@ -0,0 +1,679 @@
+import JSZip from "jszip";
+import { readLocalImage } from "@/lib/image-storage";
+import { fetchRemoteImage } from "@/lib/remote-image";
+import { resolvePageSetup, type PageSetup } from "@/lib/page-setup";
+import { resolveDefaultStyles, resolveMasteredStyles } from "@/lib/page-styles";
+import {
+  fillHeaderSlot,
+  getBookAuthor,
+  showsRunningHeader,
+  type HeaderSlots,
+  type HeaderVariables,
+  type RunningHeader,
+} from "@/lib/running-header";
+import { anchorHeadings, buildTableOfContents, isTocTemplate } from "@/lib/toc";
+import {
+  BISAC_CATEGORIES,
+  CONTRIBUTOR_ROLES,
+  getAuthorLine,
+  getBioParagraphs,
+  getCopyrightLine,
+  resolveMetadata,
+  toLinkUrl,
+  type EbookMetadata,
+} from "@/lib/metadata";
+import { qrCodeSvg } from "@/lib/qr-code";
+import { getTemplate, isCoverTemplate } from "@/lib/page-templates";
+import {
+  findCustomTemplate,
+  placesImageAfterText,
+  type CustomTemplate,
+  type TemplateRegion,
+} from "@/lib/custom-templates";
+import { escapeXml } from "@/lib/utils";
+
+interface Theme {
+  primaryColor: string;
+  secondaryColor: string;
+  accentColor: string;
+  backgroundColor: string;
+  textColor: string;
+  headingFont: string;
+  bodyFont: string;
+  h1Size: string;
+  h2Size: string;
+  h3Size: string;
+  bodySize: string;
+}
+
+interface Page {
+  id: string;
+  chapterId: string | null;
+  masterId?: string | null;
+  title: string | null;
+  content: string;
+  template: string;
+  imageUrl: string | null;
+  customStyles?: unknown;
+}
+
+interface MasterPage {
+  id: string;
+  styles: unknown;
+}
+
+interface Chapter {
+  id: string;
+  title: string;
+}
+
+interface Ebook {
+  id: string;
+  userId: string;
+  title: string;
+  description: string | null;
+  theme: Theme;
+  pageSetup: unknown;
+  defaultStyles?: unknown;
+  metadata?: unknown;
+  masters?: MasterPage[];
+  chapters: Chapter[];
+  pages: Page[];
+}
+
+interface ManifestItem {
+  id: string;
+  href: string;
+  mediaType: string;
+  properties?: string;
+}
+
+interface EpubImage {
+  href: string;
+  mediaType: string;
+  data: Buffer;
+}
+
+const IMAGE_MEDIA_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+};
+
+// An XML declaration, comments and a doctype may come before the root
+const SVG_START = /^\uFEFF?\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*|<!DOCTYPE[^>]*>\s*)*<svg[\s>]/i;
+
+// HTML entities TipTap may emit that XHTML does not predefine
+const NAMED_ENTITIES: Record<string, string> = {
+  nbsp: "&#160;",
+  copy: "&#169;",
+  reg: "&#174;",
+  trade: "&#8482;",
+  hellip: "&#8230;",
+  mdash: "&#8212;",
+  ndash: "&#8211;",
+  lsquo: "&#8216;",
+  rsquo: "&#8217;",
+  ldquo: "&#8220;",
+  rdquo: "&#8221;",
+};
+
+const VOID_ELEMENTS = "area|br|col|hr|img|input|source|wbr";
+
+// Turn the editor's HTML into well-formed XHTML
+export function toXhtml(html: string) {
+  return html
+    .replace(/&(?!#\d+;|#x[0-9a-f]+;|[a-z]+;)/gi, "&amp;")
+    .replace(/&([a-z]+);/gi, (entity, name: string) => {
+      if (["amp", "lt", "gt", "quot", "apos"].includes(name)) return entity;
+      return NAMED_ENTITIES[name.toLowerCase()] ?? `&amp;${name};`;
+    })
+    .replace(new RegExp(`<(${VOID_ELEMENTS})(\\b[^>]*?)\\s*/?>`, "gi"), "<$1$2 />");
+}
+
+function toEm(size: string) {
+  return size.endsWith("rem") ? size.replace("rem", "em") : size;
+}
+
+// Reflowable books have no trim size, but readers that honour @page get
+// the ebook's margins (with the outside margin on the right)
+function buildStylesheet(theme: Theme, pageSetup: PageSetup) {
+  const { top, bottom, inside, outside } = pageSetup.margins;
+  return `@page {
+  margin: ${top}mm ${outside}mm ${bottom}mm ${inside}mm;
+}
+body {
+  font-family: "${theme.bodyFont}", Georgia, serif;
+  font-size: ${toEm(theme.bodySize)};
+  color: ${theme.textColor};
+  background-color: ${theme.backgroundColor};
+  line-height: 1.6;
+}
+h1, h2, h3 {
+  font-family: "${theme.headingFont}", Helvetica, sans-serif;
+  color: ${theme.primaryColor};
+  line-height: 1.25;
+}
+h1 {
+  font-size: ${toEm(theme.h1Size)};
+  border-bottom: 2px solid ${theme.accentColor};
+  padding-bottom: 0.3em;
+}
+h2 { font-size: ${toEm(theme.h2Size)}; }
+h3 { font-size: ${toEm(theme.h3Size)}; }
+a { color: ${theme.accentColor}; }
+nav.contents ol { list-style: none; padding: 0; }
+nav.contents li { margin: 0.4em 0; }
+nav.contents li.level-0 { margin-top: 1em; font-weight: bold; }
+nav.contents li.level-2 { margin-left: 1.5em; }
+nav.contents li.level-3 { margin-left: 3em; font-size: 0.9em; }
+nav.contents a { text-decoration: none; }
+code, pre { font-family: monospace; }
+figure { margin: 1.5em 0; text-align: center; }
+figure img { max-width: 100%; }
+.cover { margin: 0; padding: 0; text-align: center; }
+.cover img { max-width: 100%; max-height: 100%; }
+.copyright { font-size: 0.85em; margin-top: 40%; }
+.copyright .book-title { font-weight: bold; }
+.dedication { margin-top: 30%; text-align: center; font-style: italic; }
+.author-photo { float: left; width: 35%; margin: 0 1.5em 1em 0; }
+.author-photo img { width: 100%; border-radius: 50%; }
+.author-name { font-weight: bold; font-size: 1.2em; color: ${theme.primaryColor}; }
+.call-to-action { text-align: center; }
+.cta-button { display: inline-block; padding: 0.6em 1.6em; border-radius: 2em; background-color: ${theme.accentColor}; color: #ffffff; font-weight: bold; text-decoration: none; }
+.cta-qr img { width: 30%; margin-top: 1.5em; }
+.callout { margin: 1.5em 0; padding: 1em; border-radius: 0.5em; }
+`;
+}
+
+function cssString(value: string) {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, " ")}"`;
+}
+
+const PAGE_NUMBER = "{pageNumber}";
+
+// The reader numbers the pages, so {pageNumber} becomes its page counter
+function marginContent(text: string, variables: HeaderVariables) {
+  return fillHeaderSlot(text, { ...variables, pageNumber: PAGE_NUMBER })
+    .split(PAGE_NUMBER)
+    .map(cssString)
+    .join(" counter(page) ");
+}
+
+function marginBoxes(header: RunningHeader, slots: HeaderSlots, variables: HeaderVariables) {
+  return (["left", "center", "right"] as const)
+    .map(
+      (slot) =>
+        `  @top-${slot} { content: ${marginContent(slots[slot], variables)}; font-size: ${header.fontSize}px; color: ${header.color}; }`
+    )
+    .join("\n");
+}
+
+// Reflowable text has no fixed pages; readers that support paged media
+// draw the running header in the top margin boxes of each page
+function buildRunningHeaderStyle(header: RunningHeader, variables: HeaderVariables) {
+  if (!header.alternate) {
+    return `@page {\n${marginBoxes(header, header.odd, variables)}\n}`;
+  }
+  return `@page :right {\n${marginBoxes(header, header.odd, variables)}\n}
+@page :left {\n${marginBoxes(header, header.even, variables)}\n}`;
+}
+
+function paragraph(text: string) {
+  return `<p>${escapeXml(text)}</p>`;
+}
+
+// Body of a front- or back-matter page, filled in from the book details.
+// `photo` and `qrCode` are archive paths of images already added.
+function buildMatterSection(
+  page: Page,
+  title: string,
+  metadata: EbookMetadata,
+  context: { bookTitle: string; author: string; photo?: string; qrCode?: string }
+) {
+  const content = toXhtml(anchorHeadings(page.content, page.id));
+  const ctaUrl = toLinkUrl(metadata.ctaUrl);
+  let parts: (string | undefined)[];
+
+  switch (page.template) {
+    case "copyright":
+      parts = [
+        `<p class="book-title">${escapeXml(context.bookTitle)}</p>`,
+        paragraph(getCopyrightLine(metadata, context.author)),
+        metadata.rights && paragraph(metadata.rights),
+        metadata.publisher && paragraph(`Published by ${metadata.publisher}`),
+        metadata.isbn && paragraph(`ISBN ${metadata.isbn}`),
+        content,
+      ];
+      break;
+    case "dedication":
+      parts = [content];
+      break;
+    case "about-author":
+      parts = [
+        `<h1>${escapeXml(title)}</h1>`,
+        context.photo && `<div class="author-photo"><img src="${context.photo}" alt="${escapeXml(context.author || "Author")}" /></div>`,
+        `<p class="author-name">${escapeXml(context.author)}</p>`,
+        ...getBioParagraphs(metadata.authorBio).map(paragraph),
+        content,
+      ];
+      break;
+    case "call-to-action":
+      parts = [
+        `<h1>${escapeXml(title)}</h1>`,
+        content,
+        ctaUrl && `<p><a class="cta-button" href="${escapeXml(ctaUrl)}">${escapeXml(metadata.ctaLabel || ctaUrl)}</a></p>`,
+        context.qrCode && `<p class="cta-qr"><img src="${context.qrCode}" alt="QR code for ${escapeXml(ctaUrl)}" /></p>`,
+        ctaUrl && paragraph(ctaUrl),
+      ];
+      break;
+    default:
+      parts = [`<h1>${escapeXml(title)}</h1>`, content];
+  }
+
+  return `<section epub:type="${getTemplate(page.template).epubType}" class="${page.template}">\n${parts.filter(Boolean).join("\n")}\n</section>`;
+}
+
+function xhtmlDocument(
+  title: string,
+  body: string,
+  { lang, bodyClass, style }: { lang: string; bodyClass?: string; style?: string }
+) {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${lang}" xml:lang="${lang}">
+<head>
+  <meta charset="UTF-8" />
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="styles.css" />${style ? `\n  <style>\n${escapeXml(style)}\n  </style>` : ""}
+</head>
+<body${bodyClass ? ` class="${bodyClass}"` : ""}>
+${body}
+</body>
+</html>
+`;
+}
+
+// Image type from the file's first bytes, since URLs often have no
+// extension (or the wrong one). SVG is text, so look for its root element.
+function detectImageExtension(data: Buffer) {
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return ".png";
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return ".jpg";
+  if (data.toString("latin1", 0, 4) === "GIF8") return ".gif";
+  if (data.toString("latin1", 0, 4) === "RIFF" && data.toString("latin1", 8, 12) === "WEBP") return ".webp";
+  if (SVG_START.test(data.toString("utf8", 0, 1024))) return ".svg";
+  return null;
+}
+
+async function loadImage(url: string, name: string, ownerId: string): Promise<EpubImage | null> {
+  try {
+    let data: Buffer | null;
+
+    if (url.startsWith("/") && !url.startsWith("//")) {
+      data = await readLocalImage(url, ownerId);
+    } else {
+      data = await fetchRemoteImage(url);
+    }
+    if (!data) return null;
+
+    // Readers only have to support these types, so anything else is left out
+    const extension = detectImageExtension(data);
+    if (!extension) {
+      console.warn(`Skipping EPUB image of unsupported type: ${url}`);
+      return null;
+    }
+
+    return { href: `images/${name}${extension}`, mediaType: IMAGE_MEDIA_TYPES[extension], data };
+  } catch (error) {
+    console.error(`Failed to load image for EPUB: ${url}`, error);
+    return null;
+  }
+}
+
+// Structural checks modelled on epubcheck's container and package rules
+export async function checkEpubStructure(zip: JSZip) {
+  const problems: string[] = [];
+  const names = Object.keys(zip.files);
+
+  if (names[0] !== "mimetype") problems.push("mimetype must be the first entry");
+  const mimetype = await zip.file("mimetype")?.async("string");
+  if (mimetype !== "application/epub+zip") problems.push("mimetype has the wrong content");
+
+  const container = await zip.file("META-INF/container.xml")?.async("string");
+  const opfPath = container?.match(/full-path="([^"]+)"/)?.[1];
+  const opf = opfPath ? await zip.file(opfPath)?.async("string") : undefined;
+  if (!opf || !opfPath) {
+    problems.push("container.xml does not point to a package document");
+    return problems;
+  }
+
+  const baseDir = opfPath.includes("/") ? opfPath.slice(0, opfPath.lastIndexOf("/") + 1) : "";
+  const manifestIds = new Set<string>();
+  for (const [, attributes] of opf.matchAll(/<item ([^>]+)\/>/g)) {
+    const id = attributes.match(/id="([^"]+)"/)?.[1];
+    const href = attributes.match(/href="([^"]+)"/)?.[1];
+    if (!id || !href) {
+      problems.push("manifest item is missing id or href");
+      continue;
+    }
+    manifestIds.add(id);
+    if (!zip.file(baseDir + href)) problems.push(`manifest item ${href} is missing from the archive`);
+  }
+
+  for (const [, idref] of opf.matchAll(/<itemref idref="([^"]+)"/g)) {
+    if (!manifestIds.has(idref)) problems.push(`spine references unknown item ${idref}`);
+  }
+
+  if (!/properties="nav"/.test(opf)) problems.push("package has no navigation document");
+  if (!/<dc:identifier[^>]*>[^<]+</.test(opf)) problems.push("package has no dc:identifier");
+  if (!/<dc:title>[^<]+</.test(opf)) problems.push("package has no dc:title");
+  if (!/<dc:language>[^<]+</.test(opf)) problems.push("package has no dc:language");
+  if (!/property="dcterms:modified">\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z</.test(opf)) {
+    problems.push("package has no valid dcterms:modified");
+  }
+
+  return problems;
+}
+
+// Dublin Core records for the package document, refined the EPUB 3 way:
+// contributor roles as MARC relators, BISAC codes as subject terms
+function buildPackageMetadata(ebook: Ebook, metadata: EbookMetadata, author: string, modified: string) {
+  const lines = [
+    `<dc:identifier id="book-id">urn:ebook-ai-builder:${ebook.id}</dc:identifier>`,
+    `<dc:title>${escapeXml(ebook.title)}</dc:title>`,
+  ];
+
+  if (metadata.subtitle) {
+    lines.push(
+      `<dc:title id="subtitle">${escapeXml(metadata.subtitle)}</dc:title>`,
+      `<meta refines="#subtitle" property="title-type">subtitle</meta>`
+    );
+  }
+  if (metadata.isbn) {
+    lines.push(`<dc:identifier id="isbn">urn:isbn:${escapeXml(metadata.isbn.replace(/[\s-]/g, ""))}</dc:identifier>`);
+  }
+  if (metadata.asin) {
+    lines.push(
+      `<dc:identifier id="asin">${escapeXml(metadata.asin)}</dc:identifier>`,
+      `<meta refines="#asin" property="identifier-type">ASIN</meta>`
+    );
+  }
+  lines.push(`<dc:language>${escapeXml(metadata.language)}</dc:language>`);
+
+  // Books without contributors still credit the name on their cover
+  const contributors = metadata.contributors.length > 0
+    ? metadata.contributors
+    : author ? [{ name: author, role: "author" as const }] : [];
+  contributors.forEach((contributor, index) => {
+    const element = contributor.role === "author" ? "dc:creator" : "dc:contributor";
+    const relator = CONTRIBUTOR_ROLES.find((role) => role.value === contributor.role)?.relator ?? "ctb";
+    lines.push(
+      `<${element} id="contributor-${index + 1}">${escapeXml(contributor.name)}</${element}>`,
+      `<meta refines="#contributor-${index + 1}" property="role" scheme="marc:relators">${relator}</meta>`
+    );
+  });
+
+  metadata.bisac.forEach((code, index) => {
+    const label = BISAC_CATEGORIES.find((category) => category.code === code)?.label ?? code;
+    lines.push(
+      `<dc:subject id="subject-${index + 1}">${escapeXml(label)}</dc:subject>`,
+      `<meta refines="#subject-${index + 1}" property="authority">BISAC</meta>`,
+      `<meta refines="#subject-${index + 1}" property="term">${escapeXml(code)}</meta>`
+    );
+  });
+  for (const keyword of metadata.keywords) {
+    lines.push(`<dc:subject>${escapeXml(keyword)}</dc:subject>`);
+  }
+
+  if (metadata.publisher) lines.push(`<dc:publisher>${escapeXml(metadata.publisher)}</dc:publisher>`);
+  if (metadata.publicationDate) lines.push(`<dc:date>${escapeXml(metadata.publicationDate)}</dc:date>`);
+  if (metadata.rights) lines.push(`<dc:rights>${escapeXml(metadata.rights)}</dc:rights>`);
+  if (ebook.description) lines.push(`<dc:description>${escapeXml(ebook.description)}</dc:description>`);
+  lines.push(`<meta property="dcterms:modified">${modified}</meta>`);
+
+  return lines.map((line) => `    ${line}`).join("\n");
+}
+
+// Text boxes from a custom template, kept as callouts after the page text
+function buildCallouts(regions: TemplateRegion[]) {
+  return regions
+    .filter((region) => region.kind === "textbox" && region.text.trim())
+    .map((region) => {
+      const paragraphs = region.text.split(/\n+/).filter((line) => line.trim()).map(paragraph);
+      const style = `background-color: ${escapeXml(region.color)}; color: ${escapeXml(region.textColor)};`;
+      return `<aside class="callout" style="${style}">\n${paragraphs.join("\n")}\n</aside>`;
+    })
+    .join("\n");
+}
+
+export async function buildEpub(ebook: Ebook, customTemplates: CustomTemplate[] = []) {
+  const metadata = resolveMetadata(ebook.metadata);
+  const lang = escapeXml(metadata.language);
+  const zip = new JSZip();
+  // Only real files go into the archive, no directory entries
+  const addFile = (name: string, data: string | Buffer, options?: JSZip.JSZipFileOptions) =>
+    zip.file(name, data, { createFolders: false, ...options });
+  const manifest: ManifestItem[] = [];
+  const spine: string[] = [];
+  const navEntries: { href: string; title: string; chapterId?: string | null }[] = [];
+
+  // The mimetype entry has to come first and be stored uncompressed
+  addFile("mimetype", "application/epub+zip", { compression: "STORE" });
+  addFile(
+    "META-INF/container.xml",
+    `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`
+  );
+
+  addFile("OEBPS/styles.css", buildStylesheet(ebook.theme, resolvePageSetup(ebook.pageSetup)));
+  manifest.push({ id: "css", href: "styles.css", mediaType: "text/css" });
+
+  // The first cover-template page becomes the cover image
+  const coverPage = ebook.pages.find((page) => isCoverTemplate(page.template));
+  const coverImage = coverPage?.imageUrl ? await loadImage(coverPage.imageUrl, "cover", ebook.userId) : null;
+
+  if (coverImage) {
+    addFile(`OEBPS/${coverImage.href}`, coverImage.data);
+    manifest.push({
+      id: "cover-image",
+      href: coverImage.href,
+      mediaType: coverImage.mediaType,
+      properties: "cover-image",
+    });
+    addFile(
+      "OEBPS/cover.xhtml",
+      xhtmlDocument(
+        ebook.title,
+        `<section epub:type="cover"><img src="${coverImage.href}" alt="${escapeXml(ebook.title)}" /></section>`,
+        { lang, bodyClass: "cover" }
+      )
+    );
+    manifest.push({ id: "cover", href: "cover.xhtml", mediaType: "application/xhtml+xml" });
+    spine.push("cover");
+    navEntries.push({ href: "cover.xhtml", title: "Cover" });
+  }
+
+  // Chapter files are named up front so contents pages can link ahead
+  const chapterPages = ebook.pages.filter((page) => !(coverImage && page.id === coverPage?.id));
+  const chapterId = (number: number) => `chapter-${String(number).padStart(3, "0")}`;
+  const chapterIds = new Map(chapterPages.map((page, index) => [page.id, chapterId(index + 1)]));
+  // Reflowable text has no page numbers, so entries are links only
+  const tocEntries = buildTableOfContents(chapterPages, ebook.chapters);
+  const chapterTitles = new Map(ebook.chapters.map((chapter) => [chapter.id, chapter.title]));
+
+  // Running headers inherit from masters and ebook defaults like the print view
+  type HeaderStyles = { header?: RunningHeader };
+  const defaultStyles = resolveDefaultStyles<HeaderStyles>(ebook.defaultStyles);
+  const masterStyles = new Map(
+    (ebook.masters ?? []).map((master) => [master.id, resolveDefaultStyles<HeaderStyles>(master.styles)])
+  );
+  const author = getAuthorLine(metadata) || getBookAuthor(ebook.pages);
+  const headerStyle = (page: Page) => {
+    const { header } = resolveMasteredStyles(
+      defaultStyles,
+      page.masterId ? masterStyles.get(page.masterId) : undefined,
+      page.customStyles as HeaderStyles | null
+    );
+    if (!header?.enabled || !showsRunningHeader(page.template)) return undefined;
+    return buildRunningHeaderStyle(header, {
+      bookTitle: ebook.title,
+      chapterTitle: (page.chapterId && chapterTitles.get(page.chapterId)) || "",
+      pageTitle: page.title ?? "",
+      author,
+      pageNumber: PAGE_NUMBER,
+    });
+  };
+
+  let chapterNumber = 0;
+  for (const page of chapterPages) {
+    chapterNumber++;
+    const id = chapterId(chapterNumber);
+    const href = `${id}.xhtml`;
+    const title = page.title || `Chapter ${chapterNumber}`;
+    const template = getTemplate(page.template);
+
+    if (isTocTemplate(page.template)) {
+      const items = tocEntries.map((entry) => {
+        // Chapter and page titles open the file itself
+        const target = `${chapterIds.get(entry.pageId)}.xhtml${entry.level <= 1 ? "" : `#${entry.anchor}`}`;
+        return `<li class="level-${entry.level}"><a href="${target}">${escapeXml(entry.title)}</a></li>`;
+      });
+      const contentsTitle = page.title || template.defaultTitle!;
+      const body = `<nav class="contents">\n<h1>${escapeXml(contentsTitle)}</h1>\n<ol>\n${items.join("\n")}\n</ol>\n</nav>`;
+
+      addFile(`OEBPS/${href}`, xhtmlDocument(contentsTitle, body, { lang, style: headerStyle(page) }));
+      manifest.push({ id, href, mediaType: "application/xhtml+xml" });
+      spine.push(id);
+      navEntries.push({ href, title: contentsTitle, chapterId: page.chapterId });
+      continue;
+    }
+
+    if (template.category === "matter") {
+      const matterTitle = page.title || template.defaultTitle!;
+      let photo: string | undefined;
+      let qrCode: string | undefined;
+
+      // The page's own image wins over the photo in the book details
+      const photoUrl = page.template === "about-author" ? page.imageUrl || metadata.authorPhotoUrl : "";
+      const image = photoUrl ? await loadImage(photoUrl, `${id}-image`, ebook.userId) : null;
+      if (image) {
+        addFile(`OEBPS/${image.href}`, image.data);
+        manifest.push({ id: `${id}-image`, href: image.href, mediaType: image.mediaType });
+        photo = image.href;
+      }
+
+      const ctaUrl = toLinkUrl(metadata.ctaUrl);
+      if (page.template === "call-to-action" && ctaUrl) {
+        qrCode = `images/${id}-qr.svg`;
+        addFile(`OEBPS/${qrCode}`, qrCodeSvg(ctaUrl));
+        manifest.push({ id: `${id}-qr`, href: qrCode, mediaType: "image/svg+xml" });
+      }
+
+      const body = buildMatterSection(page, matterTitle, metadata, {
+        bookTitle: ebook.title,
+        author,
+        photo,
+        qrCode,
+      });
+      addFile(`OEBPS/${href}`, xhtmlDocument(matterTitle, body, { lang, style: headerStyle(page) }));
+      manifest.push({ id, href, mediaType: "application/xhtml+xml" });
+      spine.push(id);
+      navEntries.push({ href, title: matterTitle, chapterId: page.chapterId });
+      continue;
+    }
+
+    let figure = "";
+    const image = page.imageUrl ? await loadImage(page.imageUrl, `${id}-image`, ebook.userId) : null;
+    if (image) {
+      addFile(`OEBPS/${image.href}`, image.data);
+      manifest.push({ id: `${id}-image`, href: image.href, mediaType: image.mediaType });
+      figure = `<figure><img src="${image.href}" alt="${escapeXml(title)}" /></figure>`;
+    }
+
+    // Keep the image on the same side of the text as the page template
+    const custom = findCustomTemplate(customTemplates, page.template);
+    const content = toXhtml(anchorHeadings(page.content, page.id)) + (custom ? `\n${buildCallouts(custom.regions)}` : "");
+    const body = template.imageAfterText || (custom && placesImageAfterText(custom.regions))
+      ? `<section epub:type="chapter">\n<h1>${escapeXml(title)}</h1>\n${content}\n${figure}\n</section>`
+      : `<section epub:type="chapter">\n<h1>${escapeXml(title)}</h1>\n${figure}\n${content}\n</section>`;
+
+    addFile(`OEBPS/${href}`, xhtmlDocument(title, body, { lang, style: headerStyle(page) }));
+    manifest.push({ id, href, mediaType: "application/xhtml+xml" });
+    spine.push(id);
+    navEntries.push({ href, title, chapterId: page.chapterId });
+  }
+
+  // Pages of a chapter nest under it, linked to the chapter's first page
+  const navItems: string[] = [];
+  navEntries.forEach((entry, index) => {
+    const link = `<a href="${entry.href}">${escapeXml(entry.title)}</a>`;
+    const chapterTitle = entry.chapterId ? chapterTitles.get(entry.chapterId) : undefined;
+    if (!chapterTitle) {
+      navItems.push(`    <li>${link}</li>`);
+      return;
+    }
+    if (navEntries[index - 1]?.chapterId !== entry.chapterId) {
+      navItems.push(`    <li><a href="${entry.href}">${escapeXml(chapterTitle)}</a>\n      <ol>`);
+    }
+    navItems.push(`        <li>${link}</li>`);
+    if (navEntries[index + 1]?.chapterId !== entry.chapterId) {
+      navItems.push("      </ol>\n    </li>");
+    }
+  });
+
+  addFile(
+    "OEBPS/nav.xhtml",
+    xhtmlDocument(
+      "Table of Contents",
+      `<nav epub:type="toc" id="toc">
+  <h1>Table of Contents</h1>
+  <ol>
+${navItems.join("\n")}
+  </ol>
+</nav>`,
+      { lang }
+    )
+  );
+  manifest.push({ id: "nav", href: "nav.xhtml", mediaType: "application/xhtml+xml", properties: "nav" });
+
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, "Z");
+  addFile(
+    "OEBPS/content.opf",
+    `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${lang}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+${buildPackageMetadata(ebook, metadata, author, modified)}
+  </metadata>
+  <manifest>
+${manifest
+  .map(
+    (item) =>
+      `    <item id="${item.id}" href="${item.href}" media-type="${item.mediaType}"${item.properties ? ` properties="${item.properties}"` : ""}/>`
+  )
+  .join("\n")}
+  </manifest>
+  <spine>
+${spine.map((idref) => `    <itemref idref="${idref}"/>`).join("\n")}
+  </spine>
+</package>
+`
+  );
+
+  const problems = await checkEpubStructure(zip);
+  if (problems.length > 0) {
+    throw new Error(`Invalid EPUB package: ${problems.join("; ")}`);
+  }
+
+  return zip.generateAsync({
+    type: "nodebuffer",
+    mimeType: "application/epub+zip",
+    compression: "DEFLATE",
+  });
+}
@@ -0,0 +1,382 @@
+// Full-book generation as a persisted job. The outline is stored with one
+// entry per section; a runner on the server writes them in order, saving
+// each page and its section's status as it goes. Jobs keep running when the
+// browser goes away, retry failing sections with backoff, stop between
+// sections when cancelled and can be resumed from the first unfinished one.
+// Each section's page is created before it's written and its content is
+// streamed to subscribers (see subscribeToJob) as the provider produces it.
+
+import { after } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { pickGeneratedTemplate } from "@/lib/page-templates";
+import { getAccountAiSettings } from "@/lib/ai-account";
+import { getTextProvider } from "@/lib/ai-provider";
+import type { AiSettings } from "@/lib/ai-settings";
+
+export type JobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+export type SectionStatus = "pending" | "running" | "done" | "failed";
+
+// Where the generated pages go: new chapters after the existing ones, into
+// the book after a given page, or in place of every existing page
+export type JobPlacement = "chapters" | "append" | "replace";
+
+export const JOB_PLACEMENTS: JobPlacement[] = ["chapters", "append", "replace"];
+
+export function isJobPlacement(value: unknown): value is JobPlacement {
+  return JOB_PLACEMENTS.includes(value as JobPlacement);
+}
+
+export interface JobSection {
+  chapterId: string | null;
+  chapterTitle: string;
+  title: string;
+  status: SectionStatus;
+  attempts: number;
+  error: string | null;
+  pageId: string | null;
+}
+
+export interface SectionInput {
+  description: string;
+  chapterTitle?: string;
+  sectionTitle: string;
+  sectionIndex: number;
+  totalSections: number;
+}
+
+export type JobEvent =
+  | { type: "progress"; job: JobProgress }
+  // Text added to a page being written; `replace` starts it over (a retry)
+  | { type: "content"; pageId: string; delta: string; replace: boolean }
+  // The runner has stopped, whatever the job's status
+  | { type: "end" };
+
+type JobListener = (event: JobEvent) => void;
+
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 2000;
+// How often partial content is saved while a section streams in, so a
+// reload mid-section still shows what has been written
+const SAVE_INTERVAL_MS = 1000;
+
+const SECTION_PROMPT = `You are an expert ebook content writer. Create engaging, informative content for a specific section of an ebook.
+
+The content should be:
+- Well-structured with clear paragraphs
+- Informative and valuable to readers
+- Written in a professional yet accessible tone
+- Between 250-400 words (keep it concise to fit on one page)
+- Use <h2> or <h3> for subheadings within the section
+
+Return the content as HTML with proper paragraph tags (<p>), headings (<h2>, <h3>), and formatting as needed.
+DO NOT include the section title as an <h1> - that will be added separately.
+IMPORTANT: Keep content concise to fit on a single ebook page.`;
+
+// Jobs with a runner in this server process, and who is listening to them.
+// A job stored as running that isn't active here was interrupted (e.g. by a
+// restart) and can be resumed. Kept on globalThis so every route bundle
+// sees the same runners.
+const globalForJobs = globalThis as unknown as {
+  generationJobs: { active: Set<string>; listeners: Map<string, Set<JobListener>> } | undefined;
+};
+
+const jobs = (globalForJobs.generationJobs ??= { active: new Set(), listeners: new Map() });
+
+// HTML for one outline section, as it's written
+function streamSection(
+  { description, chapterTitle, sectionTitle, sectionIndex, totalSections }: SectionInput,
+  settings: AiSettings
+) {
+  return getTextProvider("content", settings).streamText({
+    task: "content",
+    messages: [
+      { role: "system", content: SECTION_PROMPT },
+      {
+        role: "user",
+        content: `Ebook topic: ${description}
+
+${chapterTitle && chapterTitle !== sectionTitle ? `Chapter: "${chapterTitle}"\n` : ""}Section ${sectionIndex + 1} of ${totalSections}: "${sectionTitle}"
+
+Write comprehensive content for this section.`,
+      },
+    ],
+    temperature: 0.8,
+  });
+}
+
+export function resolveJobSections(value: unknown): JobSection[] {
+  return Array.isArray(value) ? (value as JobSection[]) : [];
+}
+
+export function isJobActive(jobId: string) {
+  return jobs.active.has(jobId);
+}
+
+// Whether the job stopped before finishing and can carry on. A cancelled
+// job whose runner hasn't wound down yet has to wait for it to stop.
+export function isJobResumable(job: { id: string; status: string }) {
+  if (isJobActive(job.id)) return false;
+  return job.status === "failed" || job.status === "cancelled" || job.status === "queued" || job.status === "running";
+}
+
+export function toJobProgress(job: {
+  id: string;
+  status: string;
+  sections: unknown;
+  error: string | null;
+  replacedPageIds: string[];
+  replacedChapterIds: string[];
+}) {
+  const sections = resolveJobSections(job.sections);
+  return {
+    id: job.id,
+    status: job.status as JobStatus,
+    error: job.error,
+    sections,
+    completed: sections.filter((section) => section.status === "done").length,
+    total: sections.length,
+    resumable: isJobResumable(job),
+    // Pages are swapped for the generated ones when the job completes
+    replacing: job.replacedPageIds.length > 0 || job.replacedChapterIds.length > 0,
+  };
+}
+
+export type JobProgress = ReturnType<typeof toJobProgress>;
+
+// Live events of a job running in this process; returns the unsubscribe
+export function subscribeToJob(jobId: string, listener: JobListener) {
+  const listeners = jobs.listeners.get(jobId) ?? new Set<JobListener>();
+  listeners.add(listener);
+  jobs.listeners.set(jobId, listeners);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) jobs.listeners.delete(jobId);
+  };
+}
+
+function publish(jobId: string, event: JobEvent) {
+  for (const listener of jobs.listeners.get(jobId) ?? []) {
+    listener(event);
+  }
+}
+
+export function publishJobProgress(job: Parameters<typeof toJobProgress>[0]) {
+  publish(job.id, { type: "progress", job: toJobProgress(job) });
+}
+
+async function publishStoredProgress(jobId: string) {
+  const job = await prisma.generationJob.findUnique({ where: { id: jobId } });
+  if (job) publishJobProgress(job);
+}
+
+// Streams a section into an existing page, saving partial content every so
+// often and the full content at the end. Returns the content written.
+async function streamSectionToPage(
+  pageId: string,
+  input: SectionInput,
+  settings: AiSettings,
+  onDelta: (delta: string) => void
+) {
+  let content = "";
+  let savedAt = Date.now();
+
+  for await (const delta of streamSection(input, settings)) {
+    content += delta;
+    onDelta(delta);
+    if (Date.now() - savedAt >= SAVE_INTERVAL_MS) {
+      savedAt = Date.now();
+      await prisma.page.updateMany({ where: { id: pageId }, data: { content } });
+    }
+  }
+
+  await prisma.page.updateMany({ where: { id: pageId }, data: { content } });
+  return content;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function isCancelled(jobId: string) {
+  const job = await prisma.generationJob.findUnique({ where: { id: jobId }, select: { status: true } });
+  return !job || job.status === "cancelled";
+}
+
+async function saveSections(jobId: string, sections: JobSection[]) {
+  const job = await prisma.generationJob.update({
+    where: { id: jobId },
+    data: { sections: sections.map((section) => ({ ...section })) },
+  });
+  publishJobProgress(job);
+}
+
+// Writes every unfinished section in order. Final status updates only
+// apply while the job is still running, so a cancel is never overwritten.
+async function runGenerationJob(jobId: string) {
+  const job = await prisma.generationJob.findUnique({ where: { id: jobId } });
+  if (!job || job.status === "cancelled" || job.status === "completed") return;
+
+  const sections = resolveJobSections(job.sections);
+  // Written with the providers of the book's owner
+  const ebook = await prisma.ebook.findUnique({ where: { id: job.ebookId }, select: { userId: true } });
+  if (!ebook) return;
+  const settings = await getAccountAiSettings(ebook.userId);
+  publishJobProgress(
+    await prisma.generationJob.update({ where: { id: jobId }, data: { status: "running", error: null } })
+  );
+
+  for (const [index, section] of sections.entries()) {
+    if (section.status === "done") continue;
+    if (await isCancelled(jobId)) return;
+
+    // Partial page of a section that was interrupted, written again below
+    if (section.pageId) {
+      await prisma.page.deleteMany({ where: { id: section.pageId } });
+    }
+
+    // A chapter deleted while the job ran leaves its pages unassigned
+    const chapter = section.chapterId
+      ? await prisma.chapter.findUnique({ where: { id: section.chapterId }, select: { id: true } })
+      : null;
+    // Each page goes after the previous section's page and the first after
+    // the job's anchor page; without either it's appended to the book
+    const anchorId = sections.slice(0, index).findLast((previous) => previous.pageId)?.pageId ?? job.afterPageId;
+    const anchor = anchorId
+      ? await prisma.page.findFirst({ where: { id: anchorId, ebookId: job.ebookId }, select: { order: true } })
+      : null;
+    const lastPage = anchor
+      ? null
+      : await prisma.page.findFirst({
+          where: { ebookId: job.ebookId },
+          orderBy: { order: "desc" },
+          select: { order: true },
+        });
+    const order = anchor ? anchor.order + 1 : (lastPage?.order ?? -1) + 1;
+    if (anchor) {
+      await prisma.page.updateMany({
+        where: { ebookId: job.ebookId, order: { gte: order } },
+        data: { order: { increment: 1 } },
+      });
+    }
+    const page = await prisma.page.create({
+      data: {
+        ebookId: job.ebookId,
+        chapterId: chapter?.id ?? null,
+        title: section.title,
+        content: "",
+        template: pickGeneratedTemplate(index),
+        order,
+      },
+    });
+
+    sections[index] = { ...section, status: "running", error: null, pageId: page.id };
+    await saveSections(jobId, sections);
+
+    let written = false;
+    let lastError = "";
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS && !written; attempt++) {
+      try {
+        sections[index].attempts++;
+        publish(jobId, { type: "content", pageId: page.id, delta: "", replace: true });
+        await streamSectionToPage(
+          page.id,
+          {
+            description: job.description,
+            chapterTitle: section.chapterTitle,
+            sectionTitle: section.title,
+            sectionIndex: index,
+            totalSections: sections.length,
+          },
+          settings,
+          (delta) => publish(jobId, { type: "content", pageId: page.id, delta, replace: false })
+        );
+        written = true;
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : "Failed to generate content";
+        console.error(`Generation job ${jobId}: section ${index + 1} attempt ${attempt} failed:`, error);
+        if (attempt < MAX_ATTEMPTS) await sleep(RETRY_DELAY_MS * 2 ** (attempt - 1));
+      }
+    }
+
+    if (!written) {
+      // Resuming writes the section again, into a new page
+      await prisma.page.deleteMany({ where: { id: page.id } });
+      sections[index] = { ...sections[index], status: "failed", error: lastError, pageId: null };
+      await saveSections(jobId, sections);
+      await prisma.generationJob.updateMany({
+        where: { id: jobId, status: "running" },
+        data: { status: "failed", error: `Section ${index + 1} failed: ${lastError}` },
+      });
+      await publishStoredProgress(jobId);
+      return;
+    }
+
+    sections[index] = { ...sections[index], status: "done" };
+    await saveSections(jobId, sections);
+  }
+
+  await completeGenerationJob(job);
+  await publishStoredProgress(jobId);
+}
+
+// Marks the job completed and, for "replace", swaps the old pages and
+// chapters out in the same transaction, so the book is only ever the old
+// one or the new one
+async function completeGenerationJob(job: {
+  id: string;
+  ebookId: string;
+  replacedPageIds: string[];
+  replacedChapterIds: string[];
+}) {
+  const { id, ebookId, replacedPageIds, replacedChapterIds } = job;
+
+  await prisma.$transaction(
+    async (tx) => {
+      const completed = await tx.generationJob.updateMany({
+        where: { id, status: "running" },
+        data: { status: "completed" },
+      });
+      if (completed.count === 0 || (replacedPageIds.length === 0 && replacedChapterIds.length === 0)) return;
+
+      await tx.page.deleteMany({ where: { ebookId, id: { in: replacedPageIds } } });
+      await tx.chapter.deleteMany({ where: { ebookId, id: { in: replacedChapterIds } } });
+
+      // What's left, the generated book, starts from the top again
+      const pages = await tx.page.findMany({ where: { ebookId }, orderBy: { order: "asc" }, select: { id: true } });
+      for (const [order, page] of pages.entries()) {
+        await tx.page.update({ where: { id: page.id }, data: { order } });
+      }
+      const chapters = await tx.chapter.findMany({ where: { ebookId }, orderBy: { order: "asc" }, select: { id: true } });
+      for (const [order, chapter] of chapters.entries()) {
+        await tx.chapter.update({ where: { id: chapter.id }, data: { order } });
+      }
+    },
+    // Renumbering takes one write per page
+    { timeout: 30_000 }
+  );
+}
+
+// Starts the runner once the current response has been sent
+export function scheduleGenerationJob(jobId: string) {
+  if (jobs.active.has(jobId)) return;
+  jobs.active.add(jobId);
+
+  after(async () => {
+    try {
+      await runGenerationJob(jobId);
+    } catch (error) {
+      console.error(`Generation job ${jobId} stopped:`, error);
+      await prisma.generationJob
+        .updateMany({
+          where: { id: jobId, status: { in: ["queued", "running"] } },
+          data: { status: "failed", error: "Generation stopped unexpectedly" },
+        })
+        .catch(() => {});
+    } finally {
+      jobs.active.delete(jobId);
+      // Listeners learn the job can be resumed now that the runner is gone
+      await publishStoredProgress(jobId).catch(() => {});
+      publish(jobId, { type: "end" });
+    }
+  });
+}
@@ -0,0 +1,91 @@
+// Word-level diff of two HTML fragments, rendered as HTML with <ins>/<del>
+// around changed text. Markup follows the newer document; tags that only
+// exist in the older one are dropped and just their text is shown deleted.
+
+type Token = { value: string; isTag: boolean };
+type Operation = { type: "equal" | "insert" | "delete"; token: Token };
+
+// Beyond this the LCS table gets too large to build in the browser
+const MAX_TABLE_SIZE = 4_000_000;
+
+function tokenize(html: string): Token[] {
+  const parts = html.match(/<[^>]+>|[^<\s]+|\s+/g) ?? [];
+  return parts.map((value) => ({ value, isTag: value.startsWith("<") }));
+}
+
+function diffTokens(before: Token[], after: Token[]): Operation[] {
+  const n = before.length;
+  const m = after.length;
+
+  if (n * m > MAX_TABLE_SIZE) {
+    return [
+      ...before.map((token) => ({ type: "delete" as const, token })),
+      ...after.map((token) => ({ type: "insert" as const, token })),
+    ];
+  }
+
+  // lengths[i][j] = LCS length of before[i..] and after[j..]
+  const lengths = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] =
+        before[i].value === after[j].value
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const operations: Operation[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (before[i].value === after[j].value) {
+      operations.push({ type: "equal", token: after[j] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      operations.push({ type: "delete", token: before[i++] });
+    } else {
+      operations.push({ type: "insert", token: after[j++] });
+    }
+  }
+  while (i < n) operations.push({ type: "delete", token: before[i++] });
+  while (j < m) operations.push({ type: "insert", token: after[j++] });
+
+  return operations;
+}
+
+export function diffHtml(before: string, after: string) {
+  const operations = diffTokens(tokenize(before), tokenize(after));
+  let html = "";
+  let openWrapper: "ins" | "del" | null = null;
+
+  const closeWrapper = () => {
+    if (openWrapper) {
+      html += `</${openWrapper}>`;
+      openWrapper = null;
+    }
+  };
+
+  for (const { type, token } of operations) {
+    if (token.isTag) {
+      // Keep the newer document's structure, drop removed markup
+      if (type !== "delete") {
+        closeWrapper();
+        html += token.value;
+      }
+      continue;
+    }
+
+    const wrapper = type === "insert" ? "ins" : type === "delete" ? "del" : null;
+    if (wrapper !== openWrapper) {
+      closeWrapper();
+      if (wrapper) html += `<${wrapper}>`;
+      openWrapper = wrapper;
+    }
+    html += token.value;
+  }
+  closeWrapper();
+
+  return html;
+}
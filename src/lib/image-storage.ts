@@ -0,0 +1,60 @@
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+
+// Uploaded and AI generated images are private to their owner, so they live
+// outside public/ and are served through /api/images/[userId]/[filename]
+const STORAGE_DIR = path.join(process.cwd(), "storage", "images");
+const PUBLIC_DIR = path.join(process.cwd(), "public");
+const IMAGE_URL_PATTERN = /^\/api\/images\/([a-f0-9]{24})\/([^/?#]+)/;
+
+export const IMAGE_CONTENT_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+};
+
+// Joins a stored path onto `root`, or returns null when it would leave it
+function resolveInside(root: string, relativePath: string) {
+  const resolved = path.resolve(path.join(root, relativePath));
+  return resolved.startsWith(root + path.sep) ? resolved : null;
+}
+
+// Image URLs a page or the book details may store: none, a remote http(s)
+// image, or a path on this site (a private image or a file under public/)
+export function isImageUrl(url: string) {
+  if (!url) return true;
+  if (/^https?:\/\//i.test(url)) return true;
+  return url.startsWith("/") && resolveInside(PUBLIC_DIR, url.split(/[?#]/)[0]) !== null;
+}
+
+export async function saveUserImage(userId: string, filename: string, data: Buffer) {
+  const safeName = path.basename(filename);
+  const directory = path.join(STORAGE_DIR, userId);
+
+  await mkdir(directory, { recursive: true });
+  await writeFile(path.join(directory, safeName), data);
+
+  return `/api/images/${userId}/${encodeURIComponent(safeName)}`;
+}
+
+export async function readUserImage(userId: string, filename: string) {
+  const file = resolveInside(STORAGE_DIR, path.join(userId, path.basename(filename)));
+  if (!file) throw new Error("Invalid image path");
+  return readFile(file);
+}
+
+// Resolve an image URL stored on a page to its bytes on disk. Private images
+// are only returned for their owner; anything else is read from public/ and
+// never from outside it.
+export async function readLocalImage(url: string, ownerId: string) {
+  const match = url.match(IMAGE_URL_PATTERN);
+  if (match) {
+    if (match[1] !== ownerId) return null;
+    return readUserImage(match[1], decodeURIComponent(match[2]));
+  }
+  const file = resolveInside(PUBLIC_DIR, url.split(/[?#]/)[0]);
+  return file ? readFile(file) : null;
+}
@@ -0,0 +1,249 @@
+// Publishing details stored on the ebook. Covers, the front- and back-matter
+// templates and the EPUB and PDF metadata all read them, so they only have
+// to be entered once and stay the same everywhere.
+
+export type ContributorRole =
+  | "author"
+  | "editor"
+  | "illustrator"
+  | "translator"
+  | "photographer"
+  | "contributor";
+
+export interface Contributor {
+  name: string;
+  role: ContributorRole;
+}
+
+export interface EbookMetadata {
+  subtitle: string;
+  contributors: Contributor[];
+  authorBio: string;
+  authorPhotoUrl: string;
+  isbn: string;
+  asin: string;
+  // BCP 47 language tag
+  language: string;
+  // BISAC subject codes, e.g. "BUS000000"
+  bisac: string[];
+  keywords: string[];
+  publisher: string;
+  // YYYY, YYYY-MM or YYYY-MM-DD
+  publicationDate: string;
+  rights: string;
+  ctaLabel: string;
+  ctaUrl: string;
+}
+
+// `relator` is the MARC relator code EPUB readers expect
+export const CONTRIBUTOR_ROLES: { value: ContributorRole; label: string; relator: string }[] = [
+  { value: "author", label: "Author", relator: "aut" },
+  { value: "editor", label: "Editor", relator: "edt" },
+  { value: "illustrator", label: "Illustrator", relator: "ill" },
+  { value: "translator", label: "Translator", relator: "trl" },
+  { value: "photographer", label: "Photographer", relator: "pht" },
+  { value: "contributor", label: "Contributor", relator: "ctb" },
+];
+
+export const LANGUAGES: { value: string; label: string }[] = [
+  { value: "en", label: "English" },
+  { value: "es", label: "Spanish" },
+  { value: "fr", label: "French" },
+  { value: "de", label: "German" },
+  { value: "it", label: "Italian" },
+  { value: "pt", label: "Portuguese" },
+  { value: "nl", label: "Dutch" },
+  { value: "sv", label: "Swedish" },
+  { value: "pl", label: "Polish" },
+  { value: "ja", label: "Japanese" },
+  { value: "zh", label: "Chinese" },
+  { value: "ko", label: "Korean" },
+  { value: "ar", label: "Arabic" },
+  { value: "hi", label: "Hindi" },
+];
+
+// Top-level BISAC subjects; stores accept the general heading of each
+export const BISAC_CATEGORIES: { code: string; label: string }[] = [
+  { code: "ART000000", label: "Art" },
+  { code: "BIO000000", label: "Biography & Autobiography" },
+  { code: "BUS000000", label: "Business & Economics" },
+  { code: "CKB000000", label: "Cooking" },
+  { code: "COM000000", label: "Computers" },
+  { code: "CRA000000", label: "Crafts & Hobbies" },
+  { code: "EDU000000", label: "Education" },
+  { code: "FAM000000", label: "Family & Relationships" },
+  { code: "FIC000000", label: "Fiction" },
+  { code: "HEA000000", label: "Health & Fitness" },
+  { code: "HIS000000", label: "History" },
+  { code: "HOM000000", label: "House & Home" },
+  { code: "JUV000000", label: "Juvenile Fiction" },
+  { code: "LAN000000", label: "Language Arts & Disciplines" },
+  { code: "MUS000000", label: "Music" },
+  { code: "PHI000000", label: "Philosophy" },
+  { code: "POE000000", label: "Poetry" },
+  { code: "POL000000", label: "Political Science" },
+  { code: "PSY000000", label: "Psychology" },
+  { code: "REL000000", label: "Religion" },
+  { code: "SCI000000", label: "Science" },
+  { code: "SEL000000", label: "Self-Help" },
+  { code: "SPO000000", label: "Sports & Recreation" },
+  { code: "TEC000000", label: "Technology & Engineering" },
+  { code: "TRV000000", label: "Travel" },
+];
+
+// Store limits: three categories and seven keyword phrases
+export const MAX_BISAC = 3;
+export const MAX_KEYWORDS = 7;
+
+export const DEFAULT_RIGHTS =
+  "All rights reserved. No part of this publication may be reproduced, stored or transmitted in any form without the prior written permission of the publisher.";
+
+export const DEFAULT_METADATA: EbookMetadata = {
+  subtitle: "",
+  contributors: [],
+  authorBio: "",
+  authorPhotoUrl: "",
+  isbn: "",
+  asin: "",
+  language: "en",
+  bisac: [],
+  keywords: [],
+  publisher: "",
+  publicationDate: "",
+  rights: DEFAULT_RIGHTS,
+  ctaLabel: "Learn more",
+  ctaUrl: "",
+};
+
+const STRING_FIELDS = [
+  "subtitle",
+  "authorBio",
+  "authorPhotoUrl",
+  "isbn",
+  "asin",
+  "language",
+  "publisher",
+  "publicationDate",
+  "rights",
+  "ctaLabel",
+  "ctaUrl",
+] as const;
+
+const PUBLICATION_DATE_PATTERN = /^\d{4}(-\d{2}(-\d{2})?)?$/;
+
+export function isPublicationDate(value: string) {
+  return PUBLICATION_DATE_PATTERN.test(value);
+}
+
+function isContributorRole(value: unknown): value is ContributorRole {
+  return CONTRIBUTOR_ROLES.some((role) => role.value === value);
+}
+
+function stringList(value: unknown, limit: number) {
+  if (!Array.isArray(value)) return [];
+  const items = value
+    .filter((item): item is string => typeof item === "string")
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return [...new Set(items)].slice(0, limit);
+}
+
+// Fill in defaults for anything missing from the stored JSON. Details saved
+// before contributors existed kept a single author name and a year.
+export function resolveMetadata(value: unknown): EbookMetadata {
+  const stored = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const metadata: EbookMetadata = {
+    ...DEFAULT_METADATA,
+    bisac: stringList(stored.bisac, MAX_BISAC),
+    keywords: stringList(stored.keywords, MAX_KEYWORDS),
+  };
+
+  for (const key of STRING_FIELDS) {
+    if (typeof stored[key] === "string") metadata[key] = (stored[key] as string).trim();
+  }
+  if (!isPublicationDate(metadata.publicationDate)) {
+    metadata.publicationDate =
+      typeof stored.publicationYear === "string" && isPublicationDate(stored.publicationYear)
+        ? stored.publicationYear
+        : "";
+  }
+  if (!metadata.language) metadata.language = DEFAULT_METADATA.language;
+
+  if (Array.isArray(stored.contributors)) {
+    metadata.contributors = stored.contributors.flatMap((contributor) => {
+      const { name, role } = (contributor ?? {}) as Record<string, unknown>;
+      if (typeof name !== "string" || !name.trim()) return [];
+      return [{ name: name.trim(), role: isContributorRole(role) ? role : "author" }];
+    });
+  } else if (typeof stored.authorName === "string" && stored.authorName.trim()) {
+    metadata.contributors = [{ name: stored.authorName.trim(), role: "author" }];
+  }
+
+  return metadata;
+}
+
+// "Ann", "Ann and Bo", "Ann, Bo and Cy"
+export function formatNames(names: string[]) {
+  if (names.length <= 1) return names[0] ?? "";
+  return `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+}
+
+export function getAuthorNames(metadata: EbookMetadata) {
+  return metadata.contributors
+    .filter((contributor) => contributor.role === "author")
+    .map((contributor) => contributor.name);
+}
+
+// Everyone credited as an author, as one line for covers and headers
+export function getAuthorLine(metadata: EbookMetadata) {
+  return formatNames(getAuthorNames(metadata));
+}
+
+export function getPublicationYear(metadata: EbookMetadata) {
+  return metadata.publicationDate.slice(0, 4);
+}
+
+// ISBN-10 or ISBN-13 with a valid check digit; hyphens and spaces are ignored
+export function isValidIsbn(isbn: string) {
+  const digits = isbn.replace(/[\s-]/g, "").toUpperCase();
+  if (/^\d{9}[\dX]$/.test(digits)) {
+    const sum = [...digits].reduce(
+      (total, digit, index) => total + (digit === "X" ? 10 : Number(digit)) * (10 - index),
+      0
+    );
+    return sum % 11 === 0;
+  }
+  if (/^\d{13}$/.test(digits)) {
+    const sum = [...digits].reduce(
+      (total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3),
+      0
+    );
+    return sum % 10 === 0;
+  }
+  return false;
+}
+
+// The subtitle as HTML, for templates that show rich text in its place
+export function getSubtitleHtml(metadata: EbookMetadata) {
+  if (!metadata.subtitle) return null;
+  const text = metadata.subtitle.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  return `<p>${text}</p>`;
+}
+
+// Links typed without a scheme still need to open
+export function toLinkUrl(url: string) {
+  const trimmed = url.trim();
+  if (!trimmed) return "";
+  return /^[a-z][a-z\d+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`;
+}
+
+// "Copyright © 2025 Jane Doe", leaving out whatever hasn't been filled in
+export function getCopyrightLine(metadata: EbookMetadata, fallbackHolder = "") {
+  const holder = getAuthorLine(metadata) || fallbackHolder || metadata.publisher;
+  return ["Copyright ©", getPublicationYear(metadata), holder].filter(Boolean).join(" ");
+}
+
+// Bios are typed as plain text, one paragraph per line
+export function getBioParagraphs(bio: string) {
+  return bio.split(/\n+/).map((line) => line.trim()).filter(Boolean);
+}
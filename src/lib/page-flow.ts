@@ -0,0 +1,34 @@
+import { getTemplate } from "@/lib/page-templates";
+
+// Whether body text can continue onto further pages. Covers and
+// image-center lay their content out around fixed artwork, so they can't.
+export function isFlowable(template: string) {
+  return !!getTemplate(template).flowable;
+}
+
+// Split page HTML into its top-level blocks (paragraphs, headings, lists...).
+// Pages only ever break between blocks. Browser only.
+export function splitHtmlBlocks(html: string) {
+  const template = document.createElement("template");
+  template.innerHTML = html;
+
+  return Array.from(template.content.childNodes).flatMap((node) => {
+    if (node instanceof Element) return [node.outerHTML];
+    const text = node.textContent?.trim();
+    if (!text) return [];
+
+    // Loose text becomes its own paragraph
+    const paragraph = document.createElement("p");
+    paragraph.textContent = text;
+    return [paragraph.outerHTML];
+  });
+}
+
+// Turn break positions into per-page HTML. `breaks` holds the index of the
+// first block on each continuation page.
+export function chunkBlocks(blocks: string[], breaks: number[]) {
+  const starts = [0, ...breaks];
+  return starts.map((start, index) =>
+    blocks.slice(start, starts[index + 1] ?? blocks.length).join("")
+  );
+}
@@ -0,0 +1,68 @@
+// Ebook-level trim size and margins. Sizes are CSS pixels at 96 dpi, the
+// unit the page canvas, the print route and the PDF renderer all work in.
+// Margins are stored in millimetres, which is what print specs use.
+
+export type PageFormat = "a4" | "letter" | "trade" | "square" | "slide";
+
+export interface PageMargins {
+  top: number;
+  bottom: number;
+  // Binding side; on the left of right-hand (odd) pages and vice versa
+  inside: number;
+  outside: number;
+}
+
+export interface PageSetup {
+  format: PageFormat;
+  margins: PageMargins;
+}
+
+export const PAGE_FORMATS: Record<PageFormat, { label: string; description: string; width: number; height: number }> = {
+  a4: { label: "A4", description: "210 × 297 mm", width: 794, height: 1123 },
+  letter: { label: "US Letter", description: "8.5 × 11 in", width: 816, height: 1056 },
+  trade: { label: "Trade paperback", description: "6 × 9 in", width: 576, height: 864 },
+  square: { label: "Square", description: "8.5 × 8.5 in", width: 816, height: 816 },
+  slide: { label: "Landscape slide", description: "16:9, 13.33 × 7.5 in", width: 1280, height: 720 },
+};
+
+// 17 mm is the 64px padding the templates were originally designed around
+export const DEFAULT_PAGE_SETUP: PageSetup = {
+  format: "a4",
+  margins: { top: 17, bottom: 17, inside: 17, outside: 17 },
+};
+
+const PX_PER_MM = 96 / 25.4;
+
+export function mmToPx(mm: number) {
+  return Math.round(mm * PX_PER_MM);
+}
+
+// Fill in defaults for anything missing from the stored JSON
+export function resolvePageSetup(value: unknown): PageSetup {
+  const setup = (value ?? {}) as Partial<PageSetup>;
+  const format = setup.format && setup.format in PAGE_FORMATS ? setup.format : DEFAULT_PAGE_SETUP.format;
+
+  return {
+    format,
+    margins: { ...DEFAULT_PAGE_SETUP.margins, ...setup.margins },
+  };
+}
+
+export function getPageSize(setup: PageSetup) {
+  const { width, height } = PAGE_FORMATS[setup.format];
+  return { width, height };
+}
+
+// Physical margins in pixels for the sheet at `pageIndex`. The first sheet is
+// a right-hand page, so even indexes bind on the left.
+export function getPageMargins(setup: PageSetup, pageIndex: number) {
+  const isRightHand = pageIndex % 2 === 0;
+  const { top, bottom, inside, outside } = setup.margins;
+
+  return {
+    top: mmToPx(top),
+    bottom: mmToPx(bottom),
+    left: mmToPx(isRightHand ? inside : outside),
+    right: mmToPx(isRightHand ? outside : inside),
+  };
+}
@@ -0,0 +1,64 @@
+// Ebook-wide default page styles. Each page inherits these sections from
+// its ebook, or from its master page where the master sets them; a section
+// stored on the page itself overrides both for that page only. Cover
+// settings are always per page.
+
+export const INHERITED_STYLE_KEYS = [
+  "headingAccent",
+  "imageStyle",
+  "header",
+  "footer",
+  "branding",
+  "background",
+] as const;
+
+export type InheritedStyleKey = (typeof INHERITED_STYLE_KEYS)[number];
+
+type Styles = Partial<Record<InheritedStyleKey, unknown>>;
+
+export function isInheritedStyleKey(value: unknown): value is InheritedStyleKey {
+  return INHERITED_STYLE_KEYS.includes(value as InheritedStyleKey);
+}
+
+// The page's own styles with every section it doesn't set taken from the
+// defaults
+export function resolvePageStyles<S extends Styles>(defaults: S | null | undefined, styles: S | null | undefined): S {
+  const resolved = { ...styles } as S;
+  for (const key of INHERITED_STYLE_KEYS) {
+    if (resolved[key] === undefined && defaults?.[key] !== undefined) {
+      resolved[key] = defaults[key];
+    }
+  }
+  return resolved;
+}
+
+export function isOverridden(styles: Styles | null | undefined, key: InheritedStyleKey) {
+  return styles?.[key] !== undefined;
+}
+
+// Drops the page's own copy of a section so it inherits again
+export function clearOverride<S extends Styles>(styles: S | null | undefined, key: InheritedStyleKey): S {
+  const rest = { ...styles } as S;
+  delete rest[key];
+  return rest;
+}
+
+// Page over master over ebook defaults
+export function resolveMasteredStyles<S extends Styles>(
+  defaults: S | null | undefined,
+  master: S | null | undefined,
+  styles: S | null | undefined
+): S {
+  return resolvePageStyles(resolvePageStyles(defaults, master), styles);
+}
+
+// Keep only the inheritable sections of the stored JSON (ebook defaults
+// and master styles)
+export function resolveDefaultStyles<S extends Styles>(value: unknown): S {
+  const stored = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  return Object.fromEntries(
+    INHERITED_STYLE_KEYS.flatMap((key) =>
+      stored[key] && typeof stored[key] === "object" ? [[key, stored[key]]] : []
+    )
+  ) as S;
+}
@@ -0,0 +1,449 @@
+// The built-in page templates. Each one declares what it is, which parts of
+// a page it shows and how it behaves in the book; the editor preview, the
+// layout picker, AI generation and the exporters all read this list instead
+// of keeping their own. The client registry in
+// src/components/page-templates adds each one's renderer.
+
+import type { BookSection } from "@/lib/pagination";
+import { isCustomTemplateId } from "@/lib/custom-templates";
+
+export type TemplateCategory = "cover" | "content" | "matter" | "custom";
+
+// Picker groups for the built-ins, in the order they're listed; custom
+// templates follow as their own group
+export const TEMPLATE_CATEGORIES: { value: TemplateCategory; label: string }[] = [
+  { value: "content", label: "Content templates" },
+  { value: "matter", label: "Front & back matter" },
+  { value: "cover", label: "Cover templates" },
+];
+
+// Parts of a page a template actually shows
+export type TemplateSlot = "title" | "content" | "image";
+
+// Style sections that only mean something on some templates. Footer,
+// branding, background and the running header apply to every page.
+export type TemplateStyleOption = "headingAccent" | "imageStyle" | "coverSettings";
+
+export type ThumbnailKind = "image" | "title" | "text" | "accent";
+
+// One block of a picker thumbnail, in percent of the page
+export interface ThumbnailBox {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  kind: ThumbnailKind;
+}
+
+export interface PageTemplateDefinition {
+  id: string;
+  category: TemplateCategory;
+  label: string;
+  description: string;
+  thumbnail: ThumbnailBox[];
+  slots: TemplateSlot[];
+  styleOptions: TemplateStyleOption[];
+  // Body text can continue onto further sheets
+  flowable?: boolean;
+  // Section the page falls in when it doesn't set one itself
+  section?: BookSection;
+  // Title shown when the page has none
+  defaultTitle?: string;
+  // EPUB structural semantics (epub:type); chapters when unset
+  epubType?: string;
+  // Exports place the image after the text instead of before it
+  imageAfterText?: boolean;
+}
+
+const COVER_STYLES: TemplateStyleOption[] = ["coverSettings"];
+const TEXT_STYLES: TemplateStyleOption[] = ["headingAccent"];
+const IMAGE_STYLES: TemplateStyleOption[] = ["headingAccent", "imageStyle"];
+const ALL_SLOTS: TemplateSlot[] = ["title", "content", "image"];
+
+// Keeps every id as a literal, so BuiltInTemplateId lists exactly the
+// templates below and code keyed by it must cover each of them
+function defineTemplates<Id extends string>(templates: (PageTemplateDefinition & { id: Id })[]) {
+  return templates;
+}
+
+export const PAGE_TEMPLATES = defineTemplates([
+  {
+    id: "cover-page",
+    category: "cover",
+    label: "Classic Cover",
+    description: "Full background image with centered title",
+    thumbnail: [
+      { x: 0, y: 0, w: 100, h: 100, kind: "image" },
+      { x: 15, y: 38, w: 70, h: 10, kind: "title" },
+      { x: 25, y: 52, w: 50, h: 6, kind: "text" },
+    ],
+    slots: ALL_SLOTS,
+    styleOptions: COVER_STYLES,
+  },
+  {
+    id: "cover-bold",
+    category: "cover",
+    label: "Bold Modern",
+    description: "Large typography, striking design",
+    thumbnail: [
+      { x: 0, y: 0, w: 100, h: 100, kind: "image" },
+      { x: 10, y: 55, w: 80, h: 18, kind: "title" },
+      { x: 10, y: 78, w: 55, h: 6, kind: "text" },
+    ],
+    slots: ALL_SLOTS,
+    styleOptions: COVER_STYLES,
+  },
+  {
+    id: "cover-minimal",
+    category: "cover",
+    label: "Minimalist",
+    description: "Clean, elegant simplicity",
+    thumbnail: [
+      { x: 30, y: 20, w: 40, h: 25, kind: "image" },
+      { x: 20, y: 55, w: 60, h: 8, kind: "title" },
+      { x: 30, y: 68, w: 40, h: 5, kind: "text" },
+    ],
+    slots: ALL_SLOTS,
+    styleOptions: COVER_STYLES,
+  },
+  {
+    id: "cover-split",
+    category: "cover",
+    label: "Split Design",
+    description: "Half image, half color block",
+    thumbnail: [
+      { x: 50, y: 0, w: 50, h: 100, kind: "image" },
+      { x: 0, y: 0, w: 50, h: 100, kind: "accent" },
+      { x: 8, y: 40, w: 36, h: 10, kind: "title" },
+      { x: 8, y: 55, w: 30, h: 6, kind: "text" },
+    ],
+    slots: ALL_SLOTS,
+    styleOptions: COVER_STYLES,
+  },
+  {
+    id: "cover-gradient",
+    category: "cover",
+    label: "Gradient Glow",
+    description: "Vibrant gradients with floating elements",
+    thumbnail: [
+      { x: 0, y: 0, w: 100, h: 100, kind: "accent" },
+      { x: 25, y: 15, w: 50, h: 30, kind: "image" },
+      { x: 15, y: 55, w: 70, h: 10, kind: "title" },
+      { x: 25, y: 70, w: 50, h: 6, kind: "text" },
+    ],
+    slots: ALL_SLOTS,
+    styleOptions: COVER_STYLES,
+  },
+  {
+    id: "cover-author",
+    category: "cover",
+    label: "Author Focus",
+    description: "Showcase author with photo",
+    thumbnail: [
+      { x: 10, y: 10, w: 70, h: 12, kind: "title" },
+      { x: 10, y: 26, w: 55, h: 6, kind: "text" },
+      { x: 10, y: 62, w: 30, h: 28, kind: "image" },
+    ],
+    slots: ALL_SLOTS,
+    styleOptions: COVER_STYLES,
+  },
+  {
+    id: "cover-magazine",
+    category: "cover",
+    label: "Magazine Style",
+    description: "Editorial, professional look",
+    thumbnail: [
+      { x: 0, y: 0, w: 100, h: 100, kind: "image" },
+      { x: 8, y: 6, w: 84, h: 14, kind: "title" },
+      { x: 8, y: 75, w: 60, h: 10, kind: "text" },
+    ],
+    slots: ALL_SLOTS,
+    styleOptions: COVER_STYLES,
+  },
+  {
+    id: "cover-3d",
+    category: "cover",
+    label: "3D Effect",
+    description: "Depth and dimension",
+    thumbnail: [
+      { x: 30, y: 12, w: 40, h: 45, kind: "image" },
+      { x: 15, y: 65, w: 70, h: 10, kind: "title" },
+      { x: 25, y: 80, w: 50, h: 6, kind: "text" },
+    ],
+    slots: ALL_SLOTS,
+    styleOptions: COVER_STYLES,
+  },
+  {
+    id: "text-only",
+    category: "content",
+    label: "Text Only",
+    description: "Simple text layout",
+    thumbnail: [
+      { x: 10, y: 10, w: 60, h: 8, kind: "title" },
+      { x: 10, y: 24, w: 80, h: 66, kind: "text" },
+    ],
+    slots: ["title", "content"],
+    styleOptions: TEXT_STYLES,
+    flowable: true,
+  },
+  {
+    id: "image-top",
+    category: "content",
+    label: "Image Top",
+    description: "Image above text",
+    thumbnail: [
+      { x: 0, y: 0, w: 100, h: 35, kind: "image" },
+      { x: 10, y: 42, w: 60, h: 8, kind: "title" },
+      { x: 10, y: 55, w: 80, h: 35, kind: "text" },
+    ],
+    slots: ALL_SLOTS,
+    styleOptions: IMAGE_STYLES,
+    flowable: true,
+  },
+  {
+    id: "image-bottom",
+    category: "content",
+    label: "Image Bottom",
+    description: "Image below text",
+    thumbnail: [
+      { x: 10, y: 8, w: 60, h: 8, kind: "title" },
+      { x: 10, y: 20, w: 80, h: 40, kind: "text" },
+      { x: 0, y: 65, w: 100, h: 35, kind: "image" },
+    ],
+    slots: ALL_SLOTS,
+    styleOptions: IMAGE_STYLES,
+    flowable: true,
+    imageAfterText: true,
+  },
+  {
+    id: "two-column",
+    category: "content",
+    label: "Two Column",
+    description: "Image left, text right",
+    thumbnail: [
+      { x: 0, y: 0, w: 45, h: 100, kind: "image" },
+      { x: 52, y: 10, w: 40, h: 8, kind: "title" },
+      { x: 52, y: 24, w: 40, h: 66, kind: "text" },
+    ],
+    slots: ALL_SLOTS,
+    styleOptions: IMAGE_STYLES,
+    flowable: true,
+  },
+  {
+    id: "blog-post",
+    category: "content",
+    label: "Blog Post",
+    description: "Small image, large text",
+    thumbnail: [
+      { x: 10, y: 8, w: 70, h: 8, kind: "title" },
+      { x: 10, y: 20, w: 80, h: 22, kind: "image" },
+      { x: 10, y: 46, w: 80, h: 46, kind: "text" },
+    ],
+    slots: ALL_SLOTS,
+    styleOptions: IMAGE_STYLES,
+    flowable: true,
+  },
+  {
+    id: "full-image",
+    category: "content",
+    label: "Full Image",
+    description: "Text over full image",
+    thumbnail: [
+      { x: 0, y: 0, w: 100, h: 100, kind: "image" },
+      { x: 10, y: 55, w: 60, h: 8, kind: "title" },
+      { x: 10, y: 68, w: 80, h: 22, kind: "text" },
+    ],
+    slots: ALL_SLOTS,
+    styleOptions: IMAGE_STYLES,
+    flowable: true,
+  },
+  {
+    id: "image-left",
+    category: "content",
+    label: "Image Left",
+    description: "Image wraps text on right",
+    thumbnail: [
+      { x: 10, y: 8, w: 60, h: 8, kind: "title" },
+      { x: 10, y: 22, w: 35, h: 30, kind: "image" },
+      { x: 50, y: 22, w: 40, h: 30, kind: "text" },
+      { x: 10, y: 56, w: 80, h: 36, kind: "text" },
+    ],
+    slots: ALL_SLOTS,
+    styleOptions: IMAGE_STYLES,
+    flowable: true,
+  },
+  {
+    id: "image-right",
+    category: "content",
+    label: "Image Right",
+    description: "Image wraps text on left",
+    thumbnail: [
+      { x: 10, y: 8, w: 60, h: 8, kind: "title" },
+      { x: 55, y: 22, w: 35, h: 30, kind: "image" },
+      { x: 10, y: 22, w: 40, h: 30, kind: "text" },
+      { x: 10, y: 56, w: 80, h: 36, kind: "text" },
+    ],
+    slots: ALL_SLOTS,
+    styleOptions: IMAGE_STYLES,
+    flowable: true,
+  },
+  {
+    id: "image-center",
+    category: "content",
+    label: "Image Center",
+    description: "Centered image with text above & below",
+    thumbnail: [
+      { x: 10, y: 8, w: 60, h: 8, kind: "title" },
+      { x: 10, y: 20, w: 80, h: 18, kind: "text" },
+      { x: 25, y: 42, w: 50, h: 25, kind: "image" },
+      { x: 10, y: 72, w: 80, h: 20, kind: "text" },
+    ],
+    slots: ALL_SLOTS,
+    styleOptions: IMAGE_STYLES,
+  },
+  {
+    id: "table-of-contents",
+    category: "matter",
+    label: "Table of Contents",
+    description: "Page titles and headings with page numbers",
+    thumbnail: [
+      { x: 10, y: 10, w: 50, h: 8, kind: "title" },
+      { x: 10, y: 26, w: 80, h: 4, kind: "text" },
+      { x: 10, y: 34, w: 80, h: 4, kind: "text" },
+      { x: 10, y: 42, w: 80, h: 4, kind: "text" },
+      { x: 10, y: 50, w: 80, h: 4, kind: "text" },
+    ],
+    slots: ["title"],
+    styleOptions: TEXT_STYLES,
+    section: "front",
+    defaultTitle: "Contents",
+    epubType: "toc",
+  },
+  {
+    id: "copyright",
+    category: "matter",
+    label: "Copyright",
+    description: "Rights, publisher and ISBN from the book details",
+    thumbnail: [
+      { x: 10, y: 60, w: 50, h: 5, kind: "title" },
+      { x: 10, y: 68, w: 80, h: 22, kind: "text" },
+    ],
+    slots: ["content"],
+    styleOptions: [],
+    section: "front",
+    defaultTitle: "Copyright",
+    epubType: "copyright-page",
+  },
+  {
+    id: "dedication",
+    category: "matter",
+    label: "Dedication",
+    description: "Short centered dedication",
+    thumbnail: [{ x: 25, y: 44, w: 50, h: 10, kind: "text" }],
+    slots: ["content"],
+    styleOptions: [],
+    section: "front",
+    defaultTitle: "Dedication",
+    epubType: "dedication",
+  },
+  {
+    id: "acknowledgements",
+    category: "matter",
+    label: "Acknowledgements",
+    description: "Thanks at the back of the book",
+    thumbnail: [
+      { x: 10, y: 10, w: 60, h: 8, kind: "title" },
+      { x: 10, y: 24, w: 80, h: 50, kind: "text" },
+    ],
+    slots: ["title", "content"],
+    styleOptions: TEXT_STYLES,
+    section: "back",
+    defaultTitle: "Acknowledgements",
+    epubType: "acknowledgments",
+  },
+  {
+    id: "about-author",
+    category: "matter",
+    label: "About the Author",
+    description: "Author photo and bio from the book details",
+    thumbnail: [
+      { x: 10, y: 10, w: 60, h: 8, kind: "title" },
+      { x: 10, y: 24, w: 28, h: 20, kind: "image" },
+      { x: 44, y: 24, w: 46, h: 30, kind: "text" },
+    ],
+    slots: ALL_SLOTS,
+    styleOptions: TEXT_STYLES,
+    section: "back",
+    defaultTitle: "About the Author",
+    epubType: "backmatter",
+  },
+  {
+    id: "call-to-action",
+    category: "matter",
+    label: "Call to Action",
+    description: "Closing message with a link button and QR code",
+    thumbnail: [
+      { x: 20, y: 25, w: 60, h: 8, kind: "title" },
+      { x: 20, y: 38, w: 60, h: 12, kind: "text" },
+      { x: 30, y: 55, w: 40, h: 7, kind: "accent" },
+      { x: 40, y: 67, w: 20, h: 14, kind: "image" },
+    ],
+    slots: ["title", "content"],
+    styleOptions: TEXT_STYLES,
+    section: "back",
+    defaultTitle: "Thanks for Reading",
+    epubType: "backmatter",
+  },
+]);
+
+export type BuiltInTemplateId = (typeof PAGE_TEMPLATES)[number]["id"];
+
+export const DEFAULT_TEMPLATE: BuiltInTemplateId = "text-only";
+export const DEFAULT_COVER_TEMPLATE: BuiltInTemplateId = "cover-page";
+
+const TEMPLATES_BY_ID = new Map<string, PageTemplateDefinition>(
+  PAGE_TEMPLATES.map((template) => [template.id, template])
+);
+
+// What every user-designed template shares. Their regions live in the
+// database (src/lib/custom-templates.ts); they lay out around fixed
+// positions, so their text doesn't flow onto further sheets.
+const CUSTOM_TEMPLATE: PageTemplateDefinition = {
+  id: "custom",
+  category: "custom",
+  label: "Custom template",
+  description: "Designed in the layout builder",
+  thumbnail: [],
+  slots: ALL_SLOTS,
+  styleOptions: IMAGE_STYLES,
+};
+
+export function isTemplateId(value: unknown): value is string {
+  return typeof value === "string" && (TEMPLATES_BY_ID.has(value) || isCustomTemplateId(value));
+}
+
+// Unknown ids (pages saved by a newer or older version) render as plain text
+export function getTemplate(id: string): PageTemplateDefinition {
+  if (isCustomTemplateId(id)) return { ...CUSTOM_TEMPLATE, id };
+  return TEMPLATES_BY_ID.get(id) ?? TEMPLATES_BY_ID.get(DEFAULT_TEMPLATE)!;
+}
+
+export function getTemplatesByCategory(category: TemplateCategory) {
+  return PAGE_TEMPLATES.filter((template) => template.category === category);
+}
+
+export function isCoverTemplate(id: string) {
+  return TEMPLATES_BY_ID.get(id)?.category === "cover";
+}
+
+export function templateSupports(id: string, option: TemplateStyleOption) {
+  return getTemplate(id).styleOptions.includes(option);
+}
+
+// Layout for a freshly generated section: the opening section becomes the
+// cover and every fourth one gets an image for variety
+export function pickGeneratedTemplate(sectionIndex: number) {
+  if (sectionIndex === 0) return DEFAULT_COVER_TEMPLATE;
+  if (sectionIndex % 4 === 0) return "image-top";
+  return DEFAULT_TEMPLATE;
+}
@@ -0,0 +1,96 @@
+// Book-wide page numbering, worked out in one pass over the laid-out
+// sheets. Covers carry no number, front matter counts in roman numerals,
+// the body starts again at 1 (or its footer's "start from") and back
+// matter carries on from the body. The footer, the contents page and
+// running headers all read their numbers from here.
+
+import { getTemplate, isCoverTemplate } from "@/lib/page-templates";
+
+export type BookSection = "front" | "body" | "back";
+
+export type PageSection = "cover" | BookSection;
+
+export const BOOK_SECTIONS: { value: BookSection; label: string }[] = [
+  { value: "front", label: "Front matter" },
+  { value: "body", label: "Body" },
+  { value: "back", label: "Back matter" },
+];
+
+interface PaginatedPage {
+  template: string;
+  section?: string | null;
+  customStyles?: { footer?: { startFrom?: number } };
+}
+
+export interface SheetNumber {
+  section: PageSection;
+  // null on covers
+  label: string | null;
+  // Last label of the same numbering run, for "x of y"
+  total: string | null;
+}
+
+export function isBookSection(value: unknown): value is BookSection {
+  return value === "front" || value === "body" || value === "back";
+}
+
+// Pages without a section of their own go where their template belongs:
+// contents and matter templates say so, everything else is body
+export function getPageSection(page: PaginatedPage): PageSection {
+  if (isCoverTemplate(page.template)) return "cover";
+  if (isBookSection(page.section)) return page.section;
+  return getTemplate(page.template).section ?? "body";
+}
+
+const ROMAN_NUMERALS: [number, string][] = [
+  [1000, "m"],
+  [900, "cm"],
+  [500, "d"],
+  [400, "cd"],
+  [100, "c"],
+  [90, "xc"],
+  [50, "l"],
+  [40, "xl"],
+  [10, "x"],
+  [9, "ix"],
+  [5, "v"],
+  [4, "iv"],
+  [1, "i"],
+];
+
+export function toRoman(value: number) {
+  let rest = value;
+  let roman = "";
+  for (const [amount, numeral] of ROMAN_NUMERALS) {
+    while (rest >= amount) {
+      roman += numeral;
+      rest -= amount;
+    }
+  }
+  return roman;
+}
+
+// One entry per physical sheet, in reading order. `sheetCounts` is how many
+// sheets each page flowed onto.
+export function paginate(pages: PaginatedPage[], sheetCounts: number[]): SheetNumber[] {
+  const sections = pages.map(getPageSection);
+  const firstBody = pages[sections.indexOf("body")];
+  let front = 0;
+  let body = (firstBody?.customStyles?.footer?.startFrom || 1) - 1;
+
+  const sheets = pages.flatMap((_, index) => {
+    const section = sections[index];
+    return Array.from({ length: sheetCounts[index] ?? 1 }, (): SheetNumber => {
+      if (section === "cover") return { section, label: null, total: null };
+      if (section === "front") return { section, label: toRoman(++front), total: null };
+      return { section, label: String(++body), total: null };
+    });
+  });
+
+  const frontTotal = front > 0 ? toRoman(front) : null;
+  const bodyTotal = String(body);
+  return sheets.map((sheet) => ({
+    ...sheet,
+    total: sheet.section === "cover" ? null : sheet.section === "front" ? frontTotal : bodyTotal,
+  }));
+}
@@ -0,0 +1,23 @@
+import { PDFDocument } from "pdf-lib";
+import { BISAC_CATEGORIES, getAuthorLine, type EbookMetadata } from "@/lib/metadata";
+
+// Chrome only writes a title into the PDFs it prints, so the rest of the
+// book details are stamped into the document information afterwards
+export async function applyPdfMetadata(pdf: Uint8Array, title: string, metadata: EbookMetadata) {
+  const document = await PDFDocument.load(pdf, { updateMetadata: false });
+
+  document.setTitle(title, { showInWindowTitleBar: true });
+  document.setLanguage(metadata.language);
+
+  const author = getAuthorLine(metadata);
+  if (author) document.setAuthor(author);
+  if (metadata.subtitle) document.setSubject(metadata.subtitle);
+
+  const keywords = [
+    ...metadata.bisac.map((code) => BISAC_CATEGORIES.find((category) => category.code === code)?.label ?? code),
+    ...metadata.keywords,
+  ];
+  if (keywords.length > 0) document.setKeywords(keywords);
+
+  return document.save();
+}
@@ -0,0 +1,222 @@
+// Themes every account can use. They have no owner, which makes them
+// global and read-only. Shared by the seed script, seedThemes and the owner
+// backfill, so all three agree on what counts as a preset.
+
+export const PRESET_THEMES = [
+  {
+    name: "Modern",
+    primaryColor: "#0F172A",
+    secondaryColor: "#64748B",
+    accentColor: "#3B82F6",
+    backgroundColor: "#FFFFFF",
+    textColor: "#1E293B",
+    headingFont: "Inter",
+    bodyFont: "Inter",
+    h1Size: "2.5rem",
+    h2Size: "2rem",
+    h3Size: "1.5rem",
+    bodySize: "1rem",
+  },
+  {
+    name: "Classic",
+    primaryColor: "#1F2937",
+    secondaryColor: "#6B7280",
+    accentColor: "#10B981",
+    backgroundColor: "#F9FAFB",
+    textColor: "#111827",
+    headingFont: "Georgia",
+    bodyFont: "Georgia",
+    h1Size: "3rem",
+    h2Size: "2.25rem",
+    h3Size: "1.75rem",
+    bodySize: "1.125rem",
+  },
+  {
+    name: "Elegant",
+    primaryColor: "#1C1C1C",
+    secondaryColor: "#6B7280",
+    accentColor: "#D4AF37",
+    backgroundColor: "#FAFAFA",
+    textColor: "#2D2D2D",
+    headingFont: "Playfair Display",
+    bodyFont: "Lora",
+    h1Size: "3rem",
+    h2Size: "2.25rem",
+    h3Size: "1.75rem",
+    bodySize: "1.125rem",
+  },
+  {
+    name: "Ocean Blue",
+    primaryColor: "#0C4A6E",
+    secondaryColor: "#0891B2",
+    accentColor: "#06B6D4",
+    backgroundColor: "#F0F9FF",
+    textColor: "#164E63",
+    headingFont: "Montserrat",
+    bodyFont: "Open Sans",
+    h1Size: "2.75rem",
+    h2Size: "2.125rem",
+    h3Size: "1.625rem",
+    bodySize: "1rem",
+  },
+  {
+    name: "Sunset",
+    primaryColor: "#7C2D12",
+    secondaryColor: "#C2410C",
+    accentColor: "#F97316",
+    backgroundColor: "#FFF7ED",
+    textColor: "#431407",
+    headingFont: "Poppins",
+    bodyFont: "Roboto",
+    h1Size: "2.5rem",
+    h2Size: "2rem",
+    h3Size: "1.5rem",
+    bodySize: "1rem",
+  },
+  {
+    name: "Forest Green",
+    primaryColor: "#14532D",
+    secondaryColor: "#16A34A",
+    accentColor: "#22C55E",
+    backgroundColor: "#F0FDF4",
+    textColor: "#052E16",
+    headingFont: "Merriweather",
+    bodyFont: "Source Sans Pro",
+    h1Size: "2.625rem",
+    h2Size: "2.125rem",
+    h3Size: "1.625rem",
+    bodySize: "1.0625rem",
+  },
+  {
+    name: "Royal Purple",
+    primaryColor: "#581C87",
+    secondaryColor: "#7C3AED",
+    accentColor: "#A855F7",
+    backgroundColor: "#FAF5FF",
+    textColor: "#3B0764",
+    headingFont: "Raleway",
+    bodyFont: "Nunito",
+    h1Size: "2.75rem",
+    h2Size: "2.25rem",
+    h3Size: "1.75rem",
+    bodySize: "1.0625rem",
+  },
+  {
+    name: "Minimalist",
+    primaryColor: "#000000",
+    secondaryColor: "#525252",
+    accentColor: "#737373",
+    backgroundColor: "#FFFFFF",
+    textColor: "#171717",
+    headingFont: "Helvetica",
+    bodyFont: "Arial",
+    h1Size: "3rem",
+    h2Size: "2.25rem",
+    h3Size: "1.5rem",
+    bodySize: "1rem",
+  },
+  {
+    name: "Warm Beige",
+    primaryColor: "#78350F",
+    secondaryColor: "#92400E",
+    accentColor: "#B45309",
+    backgroundColor: "#FEF3C7",
+    textColor: "#451A03",
+    headingFont: "Georgia",
+    bodyFont: "Garamond",
+    h1Size: "2.875rem",
+    h2Size: "2.25rem",
+    h3Size: "1.75rem",
+    bodySize: "1.125rem",
+  },
+  // Dark Themes
+  {
+    name: "Dark Modern",
+    primaryColor: "#60A5FA",
+    secondaryColor: "#94A3B8",
+    accentColor: "#3B82F6",
+    backgroundColor: "#0F172A",
+    textColor: "#E2E8F0",
+    headingFont: "Inter",
+    bodyFont: "Inter",
+    h1Size: "2.5rem",
+    h2Size: "2rem",
+    h3Size: "1.5rem",
+    bodySize: "1rem",
+  },
+  {
+    name: "Dark Elegant",
+    primaryColor: "#F5D782",
+    secondaryColor: "#9CA3AF",
+    accentColor: "#D4AF37",
+    backgroundColor: "#1C1C1C",
+    textColor: "#F5F5F5",
+    headingFont: "Playfair Display",
+    bodyFont: "Lora",
+    h1Size: "3rem",
+    h2Size: "2.25rem",
+    h3Size: "1.75rem",
+    bodySize: "1.125rem",
+  },
+  {
+    name: "Midnight Blue",
+    primaryColor: "#38BDF8",
+    secondaryColor: "#7DD3FC",
+    accentColor: "#0EA5E9",
+    backgroundColor: "#0C1222",
+    textColor: "#CBD5E1",
+    headingFont: "Montserrat",
+    bodyFont: "Open Sans",
+    h1Size: "2.75rem",
+    h2Size: "2.125rem",
+    h3Size: "1.625rem",
+    bodySize: "1rem",
+  },
+  {
+    name: "Dark Purple",
+    primaryColor: "#C084FC",
+    secondaryColor: "#A78BFA",
+    accentColor: "#8B5CF6",
+    backgroundColor: "#1E1033",
+    textColor: "#E9D5FF",
+    headingFont: "Raleway",
+    bodyFont: "Nunito",
+    h1Size: "2.75rem",
+    h2Size: "2.25rem",
+    h3Size: "1.75rem",
+    bodySize: "1.0625rem",
+  },
+  {
+    name: "Charcoal",
+    primaryColor: "#F9FAFB",
+    secondaryColor: "#D1D5DB",
+    accentColor: "#9CA3AF",
+    backgroundColor: "#18181B",
+    textColor: "#E4E4E7",
+    headingFont: "Helvetica",
+    bodyFont: "Arial",
+    h1Size: "3rem",
+    h2Size: "2.25rem",
+    h3Size: "1.5rem",
+    bodySize: "1rem",
+  },
+  {
+    name: "Dark Forest",
+    primaryColor: "#4ADE80",
+    secondaryColor: "#86EFAC",
+    accentColor: "#22C55E",
+    backgroundColor: "#0A1F0D",
+    textColor: "#DCFCE7",
+    headingFont: "Merriweather",
+    bodyFont: "Source Sans Pro",
+    h1Size: "2.625rem",
+    h2Size: "2.125rem",
+    h3Size: "1.625rem",
+    bodySize: "1.0625rem",
+  },
+];
+
+export const PRESET_THEME_NAMES = PRESET_THEMES.map((theme) => theme.name);
+
+// New ebooks start with this one
+export const DEFAULT_PRESET_THEME = PRESET_THEMES[0];
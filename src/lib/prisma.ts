@@ -11,3 +11,9 @@ export const prisma =
   });
 
 if (process.env.NODE_ENV !== "production") globalForPrisma.prisma = prisma;
+
+// MongoDB ids are 24 hex characters; anything else makes Prisma throw
+// instead of finding nothing
+export function isObjectId(value: string) {
+  return /^[a-f0-9]{24}$/i.test(value);
+}
@@ -0,0 +1,24 @@
+import QRCode from "qrcode";
+
+// QR code as a standalone SVG document, drawn from the code's module grid
+// so it renders synchronously in the editor, the print view and the EPUB.
+export function qrCodeSvg(text: string, color = "#000000") {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: "M" });
+  const quietZone = 2;
+  const size = modules.size + quietZone * 2;
+
+  let path = "";
+  for (let row = 0; row < modules.size; row++) {
+    for (let column = 0; column < modules.size; column++) {
+      if (modules.get(row, column)) {
+        path += `M${column + quietZone} ${row + quietZone}h1v1h-1z`;
+      }
+    }
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges"><rect width="${size}" height="${size}" fill="#ffffff"/><path d="${path}" fill="${color}"/></svg>`;
+}
+
+export function qrCodeDataUrl(text: string, color?: string) {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(qrCodeSvg(text, color))}`;
+}
@@ -0,0 +1,61 @@
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+
+// Remote images are fetched by the server (for EPUB export, and by the
+// headless browser for PDF export), so only public http(s) hosts may be
+// reached - never loopback, private or link-local ones
+
+const MAX_REDIRECTS = 3;
+
+function isPublicIPv4(address: string) {
+  const [a, b] = address.split(".").map(Number);
+  if (a === 0 || a === 10 || a === 127 || a >= 224) return false;
+  if (a === 100 && b >= 64 && b <= 127) return false;
+  if (a === 169 && b === 254) return false;
+  if (a === 172 && b >= 16 && b <= 31) return false;
+  if (a === 192 && b === 168) return false;
+  return true;
+}
+
+export function isPublicAddress(address: string) {
+  const version = isIP(address);
+  if (version === 4) return isPublicIPv4(address);
+  if (version !== 6) return false;
+
+  const normalized = address.toLowerCase();
+  const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPublicIPv4(mapped[1]);
+  if (normalized === "::" || normalized === "::1") return false;
+  // Unique local (fc00::/7), link-local (fe80::/10) and multicast (ff00::/8)
+  return !/^(f[cd]|fe[89ab]|ff)/.test(normalized);
+}
+
+export async function isPublicUrl(url: URL) {
+  if (url.protocol !== "http:" && url.protocol !== "https:") return false;
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(hostname)) return isPublicAddress(hostname);
+
+  const addresses = await lookup(hostname, { all: true });
+  return addresses.length > 0 && addresses.every((entry) => isPublicAddress(entry.address));
+}
+
+// Redirects are followed by hand so every hop goes through the same check
+export async function fetchRemoteImage(url: string) {
+  let target = new URL(url);
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    if (!(await isPublicUrl(target))) return null;
+
+    const response = await fetch(target, { redirect: "manual" });
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      target = new URL(location, target);
+      continue;
+    }
+    if (!response.ok) return null;
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  return null;
+}
@@ -0,0 +1,92 @@
+// AI edits of selected text in the page editor. Each action is one
+// instruction for the model; "simplify" and "tone" take an option too.
+// Selections inside a single paragraph go back and forth as plain text,
+// anything larger as HTML blocks (see the rewrite-text route).
+
+export type RewriteAction =
+  | "rewrite"
+  | "shorten"
+  | "expand"
+  | "simplify"
+  | "tone"
+  | "grammar"
+  | "continue"
+  | "bullets";
+
+export type RewriteFormat = "text" | "html";
+
+export const REWRITE_ACTIONS: { value: RewriteAction; label: string }[] = [
+  { value: "rewrite", label: "Rewrite" },
+  { value: "shorten", label: "Shorten" },
+  { value: "expand", label: "Expand" },
+  { value: "simplify", label: "Simplify" },
+  { value: "tone", label: "Change tone" },
+  { value: "grammar", label: "Fix grammar" },
+  { value: "continue", label: "Continue writing" },
+  { value: "bullets", label: "Turn into bulleted list" },
+];
+
+export const READING_LEVELS = [
+  { value: "children", label: "Children (ages 8-10)" },
+  { value: "teens", label: "Teens (ages 13-15)" },
+  { value: "general", label: "General audience" },
+  { value: "esl", label: "Non-native speakers" },
+];
+
+export const TONES = [
+  { value: "professional", label: "Professional" },
+  { value: "friendly", label: "Friendly" },
+  { value: "confident", label: "Confident" },
+  { value: "casual", label: "Casual" },
+  { value: "academic", label: "Academic" },
+  { value: "persuasive", label: "Persuasive" },
+];
+
+// Actions that need one of the options above
+export const REWRITE_OPTIONS: Partial<Record<RewriteAction, { value: string; label: string }[]>> = {
+  simplify: READING_LEVELS,
+  tone: TONES,
+};
+
+export function isRewriteAction(value: unknown): value is RewriteAction {
+  return REWRITE_ACTIONS.some((action) => action.value === value);
+}
+
+export function getRewriteLabel(action: RewriteAction, option?: string) {
+  const label = REWRITE_ACTIONS.find((entry) => entry.value === action)?.label ?? action;
+  const optionLabel = REWRITE_OPTIONS[action]?.find((entry) => entry.value === option)?.label;
+  return optionLabel ? `${label}: ${optionLabel}` : label;
+}
+
+// Continuing adds text after the selection instead of replacing it
+export function appendsToSelection(action: RewriteAction) {
+  return action === "continue";
+}
+
+// A list can't sit inside a paragraph, so it always replaces whole blocks
+export function needsBlocks(action: RewriteAction) {
+  return action === "bullets";
+}
+
+export function getRewriteInstruction(action: RewriteAction, option?: string) {
+  const optionLabel = REWRITE_OPTIONS[action]?.find((entry) => entry.value === option)?.label;
+
+  switch (action) {
+    case "rewrite":
+      return "Rewrite the text so it reads better, keeping its meaning and length.";
+    case "shorten":
+      return "Make the text shorter, about half the length, keeping the key points.";
+    case "expand":
+      return "Expand the text with more detail, explanation or examples, about twice the length.";
+    case "simplify":
+      return `Simplify the text for this reading level: ${optionLabel ?? "General audience"}. Use shorter sentences and plainer words.`;
+    case "tone":
+      return `Rewrite the text in a ${(optionLabel ?? "Professional").toLowerCase()} tone, keeping its meaning.`;
+    case "grammar":
+      return "Fix spelling, grammar and punctuation. Change nothing else.";
+    case "continue":
+      return "Continue writing from where the text ends, in the same style, adding a few sentences. Return only the new text.";
+    case "bullets":
+      return "Turn the text into a bulleted list of its main points.";
+  }
+}
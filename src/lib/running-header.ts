@@ -0,0 +1,70 @@
+// Running headers: up to three text slots across the top of each page,
+// optionally different on odd and even pages. Slots are plain text with
+// {variables} filled in per page, so the editor, the print view and the
+// EPUB exporter all show the same words.
+
+import { isCoverTemplate } from "@/lib/page-templates";
+
+export type HeaderSlot = "left" | "center" | "right";
+
+export type HeaderSlots = Record<HeaderSlot, string>;
+
+export interface RunningHeader {
+  enabled: boolean;
+  // Odd pages, and every page unless `alternate` is on
+  odd: HeaderSlots;
+  even: HeaderSlots;
+  alternate: boolean;
+  fontSize: number;
+  color: string;
+  // Distance from the top edge in pixels
+  margin: number;
+  divider: boolean;
+}
+
+export interface HeaderVariables {
+  bookTitle: string;
+  chapterTitle: string;
+  pageTitle: string;
+  author: string;
+  pageNumber: string;
+}
+
+export const HEADER_VARIABLES: { key: keyof HeaderVariables; label: string }[] = [
+  { key: "bookTitle", label: "Book title" },
+  { key: "chapterTitle", label: "Chapter title" },
+  { key: "pageTitle", label: "Page title" },
+  { key: "author", label: "Author" },
+  { key: "pageNumber", label: "Page number" },
+];
+
+export const HEADER_SLOTS: HeaderSlot[] = ["left", "center", "right"];
+
+const VARIABLE_PATTERN = /\{(\w+)\}/g;
+
+// Covers never carry a running header
+export function showsRunningHeader(template: string) {
+  return !isCoverTemplate(template);
+}
+
+// Sheet 0 is page 1, a right-hand (odd) page
+export function getHeaderSlots(header: RunningHeader, pageIndex: number): HeaderSlots {
+  return header.alternate && pageIndex % 2 === 1 ? header.even : header.odd;
+}
+
+// Unknown names are left as typed so mistakes stay visible
+export function fillHeaderSlot(text: string, variables: HeaderVariables) {
+  return text.replace(VARIABLE_PATTERN, (match, name: string) =>
+    name in variables ? variables[name as keyof HeaderVariables] : match
+  );
+}
+
+// The author is whoever the first cover names
+export function getBookAuthor(pages: { template: string; customStyles?: unknown }[]) {
+  for (const page of pages) {
+    if (!isCoverTemplate(page.template)) continue;
+    const styles = page.customStyles as { coverSettings?: { authorName?: string } } | null | undefined;
+    if (styles?.coverSettings?.authorName) return styles.coverSettings.authorName;
+  }
+  return "";
+}
@@ -0,0 +1,48 @@
+// Server-sent events over a streamed response. Every event carries a JSON
+// payload, read in the browser with EventSource or a fetch body reader.
+
+export type SendEvent = (event: string, data: unknown) => void;
+
+// Runs `produce` and streams whatever it sends. Sends after the client has
+// gone away are dropped, so producers can finish their work regardless.
+export function eventStream(produce: (send: SendEvent) => Promise<void>) {
+  const encoder = new TextEncoder();
+  let open = true;
+
+  const stream = new ReadableStream<Uint8Array>({
+    // Not awaited, so events are delivered while `produce` runs
+    start(controller) {
+      const send: SendEvent = (event, data) => {
+        if (!open) return;
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        } catch {
+          open = false;
+        }
+      };
+
+      produce(send)
+        .catch((error) => {
+          console.error("Event stream failed:", error);
+          send("error", { error: error instanceof Error ? error.message : "Stream failed" });
+        })
+        .finally(() => {
+          if (open) {
+            open = false;
+            controller.close();
+          }
+        });
+    },
+    cancel() {
+      open = false;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
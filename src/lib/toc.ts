@@ -0,0 +1,130 @@
+// Table of contents built from page titles and the h2/h3 headings inside
+// page content. Works on HTML strings so the editor, the print view and the
+// EPUB exporter all produce the same entries and anchors.
+
+import { isCoverTemplate } from "@/lib/page-templates";
+
+export const TOC_TEMPLATE = "table-of-contents";
+
+export interface TocEntry {
+  pageId: string;
+  // Element id the entry links to
+  anchor: string;
+  // 0 for chapters, 1 for page titles, 2 and 3 for headings
+  level: 0 | 1 | 2 | 3;
+  title: string;
+  // Printed page number label; null where pages aren't laid out (EPUB)
+  // or the page is unnumbered
+  pageNumber: string | null;
+}
+
+interface TocPage {
+  id: string;
+  chapterId?: string | null;
+  title: string | null;
+  content: string;
+  template: string;
+}
+
+interface TocChapter {
+  id: string;
+  title: string;
+}
+
+// Where each page landed once flowed: the physical index of its first
+// sheet, the sheet (relative to that) holding each of its headings, and
+// the number printed on every sheet
+export interface TocLayout {
+  sheetOffsets: number[];
+  headingSheets: Record<string, number[]>;
+  pageLabels: (string | null)[];
+}
+
+const HEADING_PATTERN = /<h([23])\b([^>]*)>([\s\S]*?)<\/h\1>/gi;
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+export function pageAnchor(pageId: string) {
+  return `page-${pageId}`;
+}
+
+export function headingAnchor(pageId: string, index: number) {
+  return `toc-${pageId}-${index}`;
+}
+
+export function isTocTemplate(template: string) {
+  return template === TOC_TEMPLATE;
+}
+
+function toPlainText(html: string) {
+  return html
+    .replace(/<[^>]*>/g, "")
+    .replace(/&(#\d+|[a-z]+);/gi, (entity, name: string) =>
+      name.startsWith("#") ? String.fromCharCode(Number(name.slice(1))) : ENTITIES[name.toLowerCase()] ?? entity
+    )
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function extractHeadings(html: string) {
+  return Array.from(html.matchAll(HEADING_PATTERN), (match) => ({
+    level: Number(match[1]) as 2 | 3,
+    text: toPlainText(match[3]),
+  }));
+}
+
+// Give every h2/h3 a stable id, numbered in document order, so entries can
+// link to it. Any id the content already had is replaced.
+export function anchorHeadings(html: string, pageId: string) {
+  let index = 0;
+  return html.replace(HEADING_PATTERN, (_match, level: string, attributes: string, inner: string) => {
+    const rest = attributes.replace(/\s+id="[^"]*"/i, "");
+    return `<h${level} id="${headingAnchor(pageId, index++)}"${rest}>${inner}</h${level}>`;
+  });
+}
+
+export function buildTableOfContents(pages: TocPage[], chapters: TocChapter[], layout?: TocLayout): TocEntry[] {
+  const chapterById = new Map(chapters.map((chapter) => [chapter.id, chapter]));
+
+  return pages.flatMap((page, index) => {
+    // Numbers match what the footer prints on the target sheet
+    const numberAt = (sheet: number) =>
+      layout ? layout.pageLabels[layout.sheetOffsets[index] + sheet] ?? null : null;
+
+    const entries: TocEntry[] = [];
+
+    // Chapters are listed at their first page
+    const chapter = page.chapterId ? chapterById.get(page.chapterId) : undefined;
+    if (chapter && pages[index - 1]?.chapterId !== chapter.id) {
+      entries.push({ pageId: page.id, anchor: pageAnchor(page.id), level: 0, title: chapter.title, pageNumber: numberAt(0) });
+    }
+
+    // Covers and other contents pages never list themselves
+    if (isCoverTemplate(page.template) || isTocTemplate(page.template)) return entries;
+
+    const title = page.title?.trim();
+    if (title) {
+      entries.push({ pageId: page.id, anchor: pageAnchor(page.id), level: 1, title, pageNumber: numberAt(0) });
+    }
+
+    extractHeadings(page.content).forEach((heading, headingIndex) => {
+      if (!heading.text) return;
+      entries.push({
+        pageId: page.id,
+        anchor: headingAnchor(page.id, headingIndex),
+        level: heading.level,
+        title: heading.text,
+        pageNumber: numberAt(layout?.headingSheets[page.id]?.[headingIndex] ?? 0),
+      });
+    });
+
+    return entries;
+  });
+}